@@ -1,52 +1,11 @@
-import React, { useCallback, useEffect, useState } from 'react';
-import { Tabs, useFocusEffect } from 'expo-router';
+import React from 'react';
+import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { supabase } from '../../lib/supabase';
+import { useNotifications } from '../../lib/notifications-store';
 
 export default function TabsLayout() {
-  const [unreadCount, setUnreadCount] = useState<number>(0);
-
-  const loadUnreadCount = useCallback(async () => {
-    try {
-      const { data: sessionData, error: sessionErr } = await supabase.auth.getSession();
-      if (sessionErr) {
-        console.log('[Tabs] getSession error:', sessionErr);
-        return;
-      }
-
-      const uid = sessionData.session?.user?.id ?? null;
-      if (!uid) {
-        setUnreadCount(0);
-        return;
-      }
-
-      const { count, error } = await supabase
-        .from('notifications')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', uid)
-        .is('read_at', null);
-
-      if (error) {
-        console.log('[Tabs] unread count error:', error);
-        return;
-      }
-
-      setUnreadCount(count ?? 0);
-    } catch (e) {
-      console.log('[Tabs] loadUnreadCount exception:', e);
-    }
-  }, []);
-
-  useEffect(() => {
-    loadUnreadCount();
-  }, [loadUnreadCount]);
-
-  // Refresh badge whenever tabs regain focus
-  useFocusEffect(
-    useCallback(() => {
-      loadUnreadCount();
-    }, [loadUnreadCount])
-  );
+  // Live via Realtime (see lib/notifications-store)
+  const { unreadCount } = useNotifications();
 
   return (
     <Tabs
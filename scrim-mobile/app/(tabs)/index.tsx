@@ -12,21 +12,13 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
 import { supabase } from '../../lib/supabase';
-
-type ScrimRow = {
-  id: string;
-  status: string;
-  start_time: string;
-  end_time: string;
-  time_zone: string | null;
-  region: string;
-  scrim_type: string | null;
-  host_team_id: string;
-  opponent_team_id: string | null;
-
-  host?: { name: string | null; tag: string | null } | null;
-  opponent?: { name: string | null; tag: string | null } | null;
-};
+import { repo } from '../../lib/repo';
+import { useNotifications } from '../../lib/notifications-store';
+import { useTeamRole } from '../../hooks/use-team-role';
+import type { ScrimWithTeams } from '../../../shared/data';
+import { scrimStatusLabel } from '../../../shared/scrim-lifecycle';
+import { scrimTypeLabel } from '../../../shared/scrim-types';
+import { teamCan } from '../../../shared/team-roles';
 
 function startOfDay(d: Date) {
   const x = new Date(d);
@@ -92,16 +84,6 @@ function formatDayHeader(d: Date) {
   });
 }
 
-function scrimTypeLabel(scrim_type: string | null) {
-  const t = (scrim_type ?? '').toLowerCase();
-  if (t === 'hp-only') return 'Hardpoint';
-  if (t === 'snd-only') return 'S&D';
-  if (t === 'third-only') return '3rd Mode';
-  if (t === 'all-respawns') return 'Respawns';
-  if (t === 'mixed') return 'Mixed';
-  return 'Scrim';
-}
-
 export default function HomeScreen() {
   const [viewMode, setViewMode] = useState<'day' | 'week'>('week');
 
@@ -109,24 +91,26 @@ export default function HomeScreen() {
   const [refreshing, setRefreshing] = useState(false);
 
   const [myTeamId, setMyTeamId] = useState<string | null>(null);
-  const [scrims, setScrims] = useState<ScrimRow[]>([]);
+  const myRole = useTeamRole(myTeamId);
+  const canPostScrims = !myTeamId || teamCan(myRole, 'post_scrims');
+  const [scrims, setScrims] = useState<ScrimWithTeams[]>([]);
 
   // selected date drives the list + week/day interactions
   const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
 
-  // unread notifications badge (for the tile)
-  const [unreadCount, setUnreadCount] = useState<number>(0);
+  // unread notifications badge (for the tile) — live from the notifications store
+  const { unreadCount } = useNotifications();
 
   const { days: weekDays, rangeLabel } = useMemo(() => getWeekDaysFor(selectedDate), [selectedDate]);
 
   const getStatusColor = (status: string) => {
     switch ((status ?? '').toLowerCase()) {
       case 'confirmed':
+      case 'in_progress':
         return '#34d399';
-      case 'pending':
+      case 'requested':
         return '#fbbf24';
       case 'cancelled':
-      case 'canceled':
         return '#f87171';
       case 'open':
         return '#60a5fa';
@@ -145,32 +129,15 @@ export default function HomeScreen() {
         return 'flag';
       case 'Respawns':
         return 'repeat';
-      case 'Mixed':
+      case 'Full Series':
+        return 'trophy';
+      case 'Custom':
         return 'shuffle';
       default:
         return 'game-controller';
     }
   };
 
-  const loadUnreadCount = useCallback(async (userId: string) => {
-    try {
-      const { count, error } = await supabase
-        .from('notifications')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .is('read_at', null);
-
-      if (error) {
-        console.log('[Home] unread count error:', error);
-        return;
-      }
-
-      setUnreadCount(count ?? 0);
-    } catch (e) {
-      console.log('[Home] loadUnreadCount exception:', e);
-    }
-  }, []);
-
   const loadHome = useCallback(async () => {
     try {
       setLoading(true);
@@ -182,23 +149,11 @@ export default function HomeScreen() {
       if (!user) {
         setMyTeamId(null);
         setScrims([]);
-        setUnreadCount(0);
         setLoading(false);
         return;
       }
 
-      // refresh unread badge in the same load
-      await loadUnreadCount(user.id);
-
-      const { data: p, error: pErr } = await supabase
-        .from('Profiles')
-        .select('primary_team_id')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (pErr) throw pErr;
-
-      const teamId = p?.primary_team_id ?? null;
+      const teamId = await repo.profiles.getPrimaryTeamId(user.id);
       setMyTeamId(teamId);
 
       if (!teamId) {
@@ -207,38 +162,19 @@ export default function HomeScreen() {
         return;
       }
 
-      const { data: s, error: sErr } = await supabase
-        .from('scrims')
-        .select(
-          `
-          id,
-          status,
-          start_time,
-          end_time,
-          time_zone,
-          region,
-          scrim_type,
-          host_team_id,
-          opponent_team_id,
-          host:teams!scrims_host_team_id_fkey(name, tag),
-          opponent:teams!scrims_opponent_team_id_fkey(name, tag)
-        `
-        )
-        .or(`host_team_id.eq.${teamId},opponent_team_id.eq.${teamId}`)
-        .in('status', ['confirmed', 'pending', 'open'])
-        .order('start_time', { ascending: true })
-        .limit(50);
-
-      if (sErr) throw sErr;
-
-      setScrims((s ?? []) as any);
+      const rows = await repo.scrims.listForTeam(teamId, {
+        statuses: ['open', 'requested', 'confirmed', 'in_progress'],
+        limit: 50,
+      });
+
+      setScrims(rows);
       setLoading(false);
     } catch (e) {
       console.log('[Home] load error:', e);
       setScrims([]);
       setLoading(false);
     }
-  }, [loadUnreadCount]);
+  }, []);
 
   // Initial load + auth change reload
   useEffect(() => {
@@ -266,13 +202,13 @@ export default function HomeScreen() {
 
   const uiScrims = useMemo(() => {
     return scrims.map((s) => {
-      const type = scrimTypeLabel(s.scrim_type);
+      const type = scrimTypeLabel(s.scrim_type, s.modes);
       const start = new Date(s.start_time);
 
       const opponentName =
         myTeamId && s.host_team_id === myTeamId
-          ? s.opponent?.name ?? 'TBD'
-          : s.host?.name ?? 'TBD';
+          ? s.opponent_team?.name ?? 'TBD'
+          : s.host_team?.name ?? 'TBD';
 
       return {
         id: s.id,
@@ -438,10 +374,12 @@ export default function HomeScreen() {
                     </Text>
 
                     <View style={{ gap: 10 }}>
-                      <Pressable style={styles.primaryCta} onPress={() => router.push('/create-scrim')}>
-                        <Ionicons name="add-circle" size={18} color="#fff" />
-                        <Text style={styles.primaryCtaText}>Post Scrim Slot</Text>
-                      </Pressable>
+                      {canPostScrims ? (
+                        <Pressable style={styles.primaryCta} onPress={() => router.push('/create-scrim')}>
+                          <Ionicons name="add-circle" size={18} color="#fff" />
+                          <Text style={styles.primaryCtaText}>Post Scrim Slot</Text>
+                        </Pressable>
+                      ) : null}
 
                       <Pressable style={styles.secondaryCta} onPress={() => router.push('/(tabs)/scrim_center')}>
                         <Ionicons name="search" size={18} color="#e5e7eb" />
@@ -484,7 +422,7 @@ export default function HomeScreen() {
                               style={[styles.statusDot, { backgroundColor: getStatusColor(scrim.status) }]}
                             />
                             <Text style={[styles.statusText, { color: getStatusColor(scrim.status) }]}>
-                              {scrim.status.charAt(0).toUpperCase() + scrim.status.slice(1)}
+                              {scrimStatusLabel(scrim.status)}
                             </Text>
                           </View>
                         </View>
@@ -508,10 +446,12 @@ export default function HomeScreen() {
         <View style={styles.actionsSection}>
           <Text style={styles.actionsTitle}>Quick Actions</Text>
           <View style={styles.actionsGrid}>
-            <Pressable style={styles.actionCard} onPress={() => router.push('/create-scrim')}>
-              <Ionicons name="add-circle" size={24} color="#60a5fa" />
-              <Text style={styles.actionText}>Post Scrim</Text>
-            </Pressable>
+            {canPostScrims ? (
+              <Pressable style={styles.actionCard} onPress={() => router.push('/create-scrim')}>
+                <Ionicons name="add-circle" size={24} color="#60a5fa" />
+                <Text style={styles.actionText}>Post Scrim</Text>
+              </Pressable>
+            ) : null}
 
             <Pressable style={styles.actionCard} onPress={() => router.push('/(tabs)/scrim-center')}>
               <Ionicons name="search" size={24} color="#34d399" />
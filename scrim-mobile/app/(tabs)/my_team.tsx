@@ -1,68 +1,37 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context'
-import { ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../../lib/supabase';
+import { repo } from '../../lib/repo';
+import {
+  teamErrorMessage,
+  type TeamGameRole,
+  type TeamMemberRow,
+  type TeamRole,
+  type TeamRow,
+} from '../../../shared/data';
 import { useFocusEffect, router } from 'expo-router';
-
-type RegionId =
-  | 'pacific-nw'
-  | 'pacific-sw'
-  | 'central-north'
-  | 'central-south'
-  | 'atlantic-north'
-  | 'atlantic-south';
-
-const REGION_LABELS: Record<string, string> = {
-  'pacific-nw': 'Pacific Northwest',
-  'pacific-sw': 'Pacific Southwest',
-  'central-north': 'Central North',
-  'central-south': 'Central South',
-  'atlantic-north': 'Atlantic North',
-  'atlantic-south': 'Atlantic South',
-};
-
-type ProfileRow = {
-  id: string;
-  username: string | null;
-  handle: string | null;
-  primary_team_id: string | null;
-  primary_region: string | null;
-};
-
-type TeamRow = {
-  id: string;
-  owner_id: string;
-  name: string;
-  tag: string | null;
-  region: string | null;
-  time_zone: string | null;
-  created_at: string | null;
-};
-
-type TeamMemberRow = {
-  id: string;
-  team_id: string;
-  user_id: string;
-  status: string; // enum values: active, invited, pending, left, removed
-  created_at: string | null;
-};
+import { regionLabel as formatRegion } from '../../../shared/regions';
+import {
+  ASSIGNABLE_TEAM_ROLES,
+  GAME_ROLE_OPTIONS,
+  canEditGameRole,
+  canRemoveMember,
+  gameRoleLabel,
+  teamCan,
+  teamRoleLabel,
+} from '../../../shared/team-roles';
 
 type MemberUI = {
   id: string;
   name: string;
-  role: string; // placeholder until you add role to schema
+  teamRole: TeamRole;
+  gameRole: TeamGameRole | null;
   status: 'online' | 'away' | 'offline'; // placeholder mapping from team_members.status
   initials: string;
 };
 
-type ScrimRow = {
-  id: string;
-  host_team_id: string;
-  status: string;
-  start_time: string;
-};
-
 function initialsFromName(name: string) {
   const clean = name.replace(/\(Owner\)/gi, '').replace('@', '').trim();
   const parts = clean.split(/\s+/).filter(Boolean);
@@ -88,10 +57,13 @@ export default function MyTeamScreen() {
     'Competitive CoD team. Team bio/description coming soon.'
   );
   const [members, setMembers] = useState<MemberUI[]>([]);
+  const [myUserId, setMyUserId] = useState<string | null>(null);
+  const [editingRoleFor, setEditingRoleFor] = useState<string | null>(null);
+  const [savingRole, setSavingRole] = useState(false);
   const [stats, setStats] = useState({
     scrimsThisWeek: 0,
     confirmed: 0,
-    pending: 0,
+    requested: 0,
     cancelled: 0,
   });
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -103,7 +75,7 @@ export default function MyTeamScreen() {
         ? team.name.slice(0, 2).toUpperCase()
         : '—';
 
-    const regionLabel = team?.region ? REGION_LABELS[team.region] ?? team.region : 'Not set';
+    const regionLabel = formatRegion(team?.region, { fallback: 'Not set' });
 
     return {
       name: team?.name ?? 'No Team Yet',
@@ -118,7 +90,7 @@ export default function MyTeamScreen() {
     () => [
       { label: 'Scrims This Week', value: String(stats.scrimsThisWeek), color: '#3b82f6' },
       { label: 'Confirmed Scrims', value: String(stats.confirmed), color: '#10b981' },
-      { label: 'Pending', value: String(stats.pending), color: '#f59e0b' },
+      { label: 'Requested', value: String(stats.requested), color: '#f59e0b' },
       { label: 'Cancelled', value: String(stats.cancelled), color: '#ef4444' },
     ],
     [stats]
@@ -154,49 +126,35 @@ export default function MyTeamScreen() {
       if (sessionError) throw sessionError;
 
       const user = sessionData.session?.user;
+      setMyUserId(user?.id ?? null);
+      setEditingRoleFor(null);
+
       if (!user) {
         setTeam(null);
         setMembers([]);
-        setStats({ scrimsThisWeek: 0, confirmed: 0, pending: 0, cancelled: 0 });
+        setStats({ scrimsThisWeek: 0, confirmed: 0, requested: 0, cancelled: 0 });
         setLoading(false);
         return;
       }
 
       // 1) Get profile → primary_team_id
-      const { data: p, error: pErr } = await supabase
-        .from('Profiles')
-        .select('id, username, handle, primary_team_id, primary_region')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (pErr) throw pErr;
-
-      const profile = (p ?? null) as ProfileRow | null;
-      const teamId = profile?.primary_team_id ?? null;
+      const teamId = await repo.profiles.getPrimaryTeamId(user.id);
 
       if (!teamId) {
         setTeam(null);
         setMembers([]);
-        setStats({ scrimsThisWeek: 0, confirmed: 0, pending: 0, cancelled: 0 });
+        setStats({ scrimsThisWeek: 0, confirmed: 0, requested: 0, cancelled: 0 });
         setLoading(false);
         return;
       }
 
       // 2) Fetch team
-      const { data: t, error: tErr } = await supabase
-        .from('teams')
-        .select('id, owner_id, name, tag, region, time_zone, created_at')
-        .eq('id', teamId)
-        .maybeSingle();
-
-      if (tErr) throw tErr;
-
-      const teamRow = (t ?? null) as TeamRow | null;
+      const teamRow = await repo.teams.getById(teamId);
       setTeam(teamRow);
 
       if (!teamRow?.id) {
         setMembers([]);
-        setStats({ scrimsThisWeek: 0, confirmed: 0, pending: 0, cancelled: 0 });
+        setStats({ scrimsThisWeek: 0, confirmed: 0, requested: 0, cancelled: 0 });
         setLoading(false);
         return;
       }
@@ -204,14 +162,7 @@ export default function MyTeamScreen() {
       const ownerId = teamRow?.owner_id ?? null;
 
       // 3) Fetch team_members
-      const { data: tm, error: tmErr } = await supabase
-        .from('team_members')
-        .select('id, team_id, user_id, status, created_at')
-        .eq('team_id', teamId);
-
-      if (tmErr) throw tmErr;
-
-      let teamMembers = (tm ?? []) as TeamMemberRow[];
+      let teamMembers: TeamMemberRow[] = await repo.teamMembers.listByTeam(teamId);
 
       // ✅ Ensure owner shows up in UI even if there's no team_members row for them
       if (ownerId && !teamMembers.some((m) => m.user_id === ownerId)) {
@@ -221,6 +172,8 @@ export default function MyTeamScreen() {
             team_id: teamId,
             user_id: ownerId,
             status: 'active',
+            team_role: 'owner',
+            game_role: null,
             created_at: null,
           },
           ...teamMembers,
@@ -235,20 +188,12 @@ export default function MyTeamScreen() {
 
       // 4) Fetch member profiles for names/handles
       const userIds = Array.from(new Set(teamMembers.map((m) => m.user_id)));
-      let profilesById: Record<string, { username: string | null; handle: string | null }> = {};
-
-      if (userIds.length > 0) {
-        const { data: mp, error: mpErr } = await supabase
-          .from('Profiles')
-          .select('id, username, handle')
-          .in('id', userIds);
+      const profilesById: Record<string, { username: string | null; handle: string | null }> = {};
 
-        if (mpErr) throw mpErr;
-
-        (mp ?? []).forEach((row: any) => {
-          profilesById[row.id] = { username: row.username ?? null, handle: row.handle ?? null };
-        });
-      }
+      const mp = await repo.profiles.listByIds(userIds);
+      mp.forEach((row) => {
+        profilesById[row.id] = { username: row.username ?? null, handle: row.handle ?? null };
+      });
 
       const membersUI: MemberUI[] = teamMembers
         .filter((m) => {
@@ -269,14 +214,14 @@ export default function MyTeamScreen() {
                 : 'Member';
 
           const isOwner = !!ownerId && m.user_id === ownerId;
-          const display = isOwner ? `${baseDisplay} (Owner)` : baseDisplay;
 
           return {
             id: m.user_id,
-            name: display,
-            role: '—',
+            name: baseDisplay,
+            teamRole: isOwner ? 'owner' : m.team_role,
+            gameRole: m.game_role,
             status: mapTeamMemberStatusToPresence(m.status),
-            initials: initialsFromName(display),
+            initials: initialsFromName(baseDisplay),
           };
         });
 
@@ -286,29 +231,17 @@ export default function MyTeamScreen() {
       const weekStart = startOfWeekLocal();
       const weekStartIso = weekStart.toISOString();
 
-      const { data: scrims, error: sErr } = await supabase
-        .from('scrims')
-        .select('id, host_team_id, status, start_time')
-        .eq('host_team_id', teamId)
-        .order('start_time', { ascending: false })
-        .limit(300);
-
-      if (sErr) throw sErr;
-
-      const scrimRows = (scrims ?? []) as ScrimRow[];
+      const scrimRows = await repo.scrims.listHostedBy(teamId);
 
       const thisWeek = scrimRows.filter((s) => new Date(s.start_time) >= new Date(weekStartIso));
-      const confirmed = scrimRows.filter((s) => (s.status ?? '').toLowerCase() === 'confirmed');
-      const pending = scrimRows.filter((s) => (s.status ?? '').toLowerCase() === 'pending');
-      const cancelled = scrimRows.filter((s) => {
-        const st = (s.status ?? '').toLowerCase();
-        return st === 'cancelled' || st === 'canceled';
-      });
+      const confirmed = scrimRows.filter((s) => s.status === 'confirmed');
+      const requested = scrimRows.filter((s) => s.status === 'requested');
+      const cancelled = scrimRows.filter((s) => s.status === 'cancelled');
 
       setStats({
         scrimsThisWeek: thisWeek.length,
         confirmed: confirmed.length,
-        pending: pending.length,
+        requested: requested.length,
         cancelled: cancelled.length,
       });
 
@@ -318,7 +251,7 @@ export default function MyTeamScreen() {
       setErrorMsg(e?.message ?? 'Failed to load team.');
       setTeam(null);
       setMembers([]);
-      setStats({ scrimsThisWeek: 0, confirmed: 0, pending: 0, cancelled: 0 });
+      setStats({ scrimsThisWeek: 0, confirmed: 0, requested: 0, cancelled: 0 });
       setLoading(false);
     }
   }, []);
@@ -341,6 +274,96 @@ export default function MyTeamScreen() {
     }, [loadMyTeam])
   );
 
+  const myRole = members.find((m) => m.id === myUserId)?.teamRole ?? null;
+
+  // Game role: your own or anyone's for staff; team role: owner only, never the owner's
+  const canEditGame = (member: MemberUI) => canEditGameRole(myUserId, myRole, member.id);
+  const canEditTeamRole = (member: MemberUI) => teamCan(myRole, 'manage_roles') && member.teamRole !== 'owner';
+  const canRemove = (member: MemberUI) =>
+    canRemoveMember(myUserId, myRole, member.id, member.teamRole) && member.status === 'online';
+
+  const confirmRemove = (member: MemberUI) => {
+    if (!team) return;
+
+    Alert.alert(
+      `Remove ${member.name}?`,
+      'They’ll lose access to the team and be taken out of lineups for upcoming scrims.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setErrorMsg(null);
+              await repo.teamMembers.remove(team.id, member.id);
+              await loadMyTeam();
+            } catch (e: any) {
+              console.log('MyTeam remove error:', e);
+              setErrorMsg(teamErrorMessage(e, 'Failed to remove player.'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmLeave = () => {
+    if (!team) return;
+
+    Alert.alert(
+      'Leave team?',
+      `You’ll leave ${team.name} and be taken out of its lineups for upcoming scrims. You’ll need a new invite to rejoin.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setErrorMsg(null);
+              // The server also clears this team as your primary
+              await repo.teamMembers.leave(team.id);
+              await loadMyTeam();
+            } catch (e: any) {
+              console.log('MyTeam leave error:', e);
+              setErrorMsg(teamErrorMessage(e, 'Failed to leave team.'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const saveRole = async (
+    userId: string,
+    change: { gameRole: TeamGameRole | null } | { teamRole: TeamRole }
+  ) => {
+    if (!team) return;
+
+    try {
+      setSavingRole(true);
+      setErrorMsg(null);
+
+      const row =
+        'teamRole' in change
+          ? await repo.teamMembers.setTeamRole(team.id, userId, change.teamRole)
+          : await repo.teamMembers.setGameRole(team.id, userId, change.gameRole);
+
+      setMembers((prev) =>
+        prev.map((m) =>
+          m.id === userId ? { ...m, gameRole: row.game_role, teamRole: m.teamRole === 'owner' ? 'owner' : row.team_role } : m
+        )
+      );
+      if ('gameRole' in change) setEditingRoleFor(null);
+    } catch (e: any) {
+      console.log('MyTeam role error:', e);
+      setErrorMsg(teamErrorMessage(e, 'Failed to update role.'));
+    } finally {
+      setSavingRole(false);
+    }
+  };
+
   const maxMembers = 5;
 
   return (
@@ -415,7 +438,10 @@ export default function MyTeamScreen() {
                     <View key={member.id}>
                       <Pressable
                         style={({ pressed }) => [styles.memberRow, pressed && styles.memberRowPressed]}
-                        onPress={() => console.log('TODO: open member', member.id)}
+                        onPress={() => {
+                          if (!canEditGame(member) && !canEditTeamRole(member) && !canRemove(member)) return;
+                          setEditingRoleFor((prev) => (prev === member.id ? null : member.id));
+                        }}
                       >
                         <View style={styles.memberAvatar}>
                           <Text style={styles.memberAvatarText}>{member.initials}</Text>
@@ -424,7 +450,9 @@ export default function MyTeamScreen() {
 
                         <View style={styles.memberInfo}>
                           <Text style={styles.memberName}>{member.name}</Text>
-                          <Text style={styles.memberRole}>{member.role}</Text>
+                          <Text style={styles.memberRole}>
+                            {teamRoleLabel(member.teamRole)} · {gameRoleLabel(member.gameRole)}
+                          </Text>
                         </View>
 
                         <View style={[styles.statusPill, { backgroundColor: `${getStatusColor(member.status)}20` }]}>
@@ -434,6 +462,55 @@ export default function MyTeamScreen() {
                           </Text>
                         </View>
                       </Pressable>
+
+                      {editingRoleFor === member.id && canEditGame(member) ? (
+                        <View style={styles.roleRow}>
+                          {GAME_ROLE_OPTIONS.map((opt) => {
+                            const active = member.gameRole === opt.id;
+                            return (
+                              <Pressable
+                                key={opt.id}
+                                disabled={savingRole}
+                                onPress={() => saveRole(member.id, { gameRole: active ? null : opt.id })}
+                                style={[styles.rolePill, active && styles.rolePillActive]}
+                              >
+                                <Text style={[styles.rolePillText, active && styles.rolePillTextActive]}>{opt.label}</Text>
+                              </Pressable>
+                            );
+                          })}
+                          {savingRole ? <ActivityIndicator size="small" /> : null}
+                        </View>
+                      ) : null}
+
+                      {editingRoleFor === member.id && canEditTeamRole(member) ? (
+                        <View style={styles.roleRow}>
+                          {ASSIGNABLE_TEAM_ROLES.map((role) => {
+                            const active = member.teamRole === role;
+                            return (
+                              <Pressable
+                                key={role}
+                                disabled={savingRole || active}
+                                onPress={() => saveRole(member.id, { teamRole: role })}
+                                style={[styles.rolePill, active && styles.rolePillActive]}
+                              >
+                                <Text style={[styles.rolePillText, active && styles.rolePillTextActive]}>
+                                  {teamRoleLabel(role)}
+                                </Text>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      ) : null}
+
+                      {editingRoleFor === member.id && canRemove(member) ? (
+                        <View style={styles.roleRow}>
+                          <Pressable onPress={() => confirmRemove(member)} style={styles.removePill}>
+                            <Ionicons name="person-remove" size={12} color="#f87171" />
+                            <Text style={styles.removePillText}>Remove from team</Text>
+                          </Pressable>
+                        </View>
+                      ) : null}
+
                       {index < members.length - 1 && <View style={styles.divider} />}
                     </View>
                   ))
@@ -442,16 +519,39 @@ export default function MyTeamScreen() {
             </View>
 
             {/* Invite Button */}
-            <Pressable
-              style={({ pressed }) => [styles.inviteButton, pressed && styles.inviteButtonPressed]}
-              onPress={() => router.push('/invite-member')}
-            >
-              <Ionicons name="person-add" size={20} color="#ffffff" />
-              <Text style={styles.inviteButtonText}>Invite Team Member</Text>
-            </Pressable>
+            {teamCan(myRole, 'invite_members') ? (
+              <>
+                <Pressable
+                  style={({ pressed }) => [styles.inviteButton, { marginBottom: 12 }, pressed && styles.inviteButtonPressed]}
+                  onPress={() => router.push('/invite-member')}
+                >
+                  <Ionicons name="person-add" size={20} color="#ffffff" />
+                  <Text style={styles.inviteButtonText}>Invite Team Member</Text>
+                </Pressable>
+
+                <Pressable
+                  style={({ pressed }) => [styles.linkButton, pressed && { opacity: 0.85 }]}
+                  onPress={() => router.push('/invite-codes')}
+                >
+                  <Ionicons name="link" size={18} color="#60a5fa" />
+                  <Text style={styles.linkButtonText}>Share Invite Link</Text>
+                </Pressable>
+              </>
+            ) : null}
 
             {errorMsg ? <Text style={{ color: '#fca5a5', marginBottom: 12 }}>{errorMsg}</Text> : null}
 
+            {/* Leave (the owner transfers the team first) */}
+            {myRole && myRole !== 'owner' ? (
+              <Pressable
+                style={({ pressed }) => [styles.leaveButton, pressed && { opacity: 0.85 }]}
+                onPress={confirmLeave}
+              >
+                <Ionicons name="exit-outline" size={18} color="#f87171" />
+                <Text style={styles.leaveButtonText}>Leave Team</Text>
+              </Pressable>
+            ) : null}
+
             <View style={styles.bottomSpacer} />
           </>
         )}
@@ -574,6 +674,32 @@ const styles = StyleSheet.create({
   statusPillDot: { width: 6, height: 6, borderRadius: 3 },
   statusText: { fontSize: 12, fontWeight: '600' },
 
+  roleRow: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 8, paddingHorizontal: 12, paddingBottom: 12 },
+  rolePill: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    backgroundColor: '#0a0a0b',
+  },
+  rolePillActive: { borderColor: '#3b82f6', backgroundColor: 'rgba(59,130,246,0.15)' },
+  rolePillText: { fontSize: 12, fontWeight: '600', color: '#9ca3af' },
+  rolePillTextActive: { color: '#60a5fa' },
+
+  removePill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(239,68,68,0.35)',
+    backgroundColor: 'rgba(239,68,68,0.12)',
+  },
+  removePillText: { fontSize: 12, fontWeight: '600', color: '#f87171' },
+
   divider: { height: 1, backgroundColor: '#27272a', marginHorizontal: 12 },
 
   inviteButton: {
@@ -594,5 +720,33 @@ const styles = StyleSheet.create({
   inviteButtonPressed: { backgroundColor: '#2563eb', opacity: 0.9 },
   inviteButtonText: { fontSize: 16, fontWeight: '600', color: '#ffffff' },
 
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(59,130,246,0.35)',
+    backgroundColor: 'rgba(59,130,246,0.10)',
+    marginBottom: 24,
+  },
+  linkButtonText: { fontSize: 15, fontWeight: '600', color: '#60a5fa' },
+
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(239,68,68,0.35)',
+    backgroundColor: 'rgba(239,68,68,0.10)',
+    marginBottom: 24,
+  },
+  leaveButtonText: { fontSize: 15, fontWeight: '600', color: '#f87171' },
+
   bottomSpacer: { height: 40 },
 });
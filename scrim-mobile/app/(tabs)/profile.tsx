@@ -4,34 +4,9 @@ import { ScrollView, View, Text, Pressable, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useNavigation } from 'expo-router';
 import { supabase } from '../../lib/supabase';
-
-type ProfileRow = {
-  id: string;
-  username: string | null;
-  handle: string | null;
-  email: string | null;
-  primary_region: string | null;
-  primary_team_id: string | null;
-  created_at: string | null;
-};
-
-type ScrimRow = {
-  id: string;
-  host_team_id: string;
-  status: string;
-  start_time: string;
-  end_time: string;
-  duration_minutes: number | null;
-};
-
-const REGION_LABELS: Record<string, string> = {
-  'pacific-nw': 'Pacific Northwest',
-  'pacific-sw': 'Pacific Southwest',
-  'central-north': 'Central North',
-  'central-south': 'Central South',
-  'atlantic-north': 'Atlantic North',
-  'atlantic-south': 'Atlantic South',
-};
+import { repo } from '../../lib/repo';
+import type { ProfileRow } from '../../../shared/data';
+import { regionLabel as formatRegion } from '../../../shared/regions';
 
 function minutesBetween(startISO: string, endISO: string) {
   const start = new Date(startISO).getTime();
@@ -59,9 +34,7 @@ export default function ProfileScreen() {
       ? createdAt.toLocaleString(undefined, { month: 'long', year: 'numeric' })
       : '—';
 
-    const regionLabel = profileRow?.primary_region
-      ? REGION_LABELS[profileRow.primary_region] ?? profileRow.primary_region
-      : 'Not set';
+    const regionLabel = formatRegion(profileRow?.primary_region, { fallback: 'Not set' });
 
     const handle =
       profileRow?.handle && profileRow.handle.length > 0
@@ -105,16 +78,7 @@ export default function ProfileScreen() {
 
   const loadTeamScrimStats = async (teamId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('scrims')
-        .select('id, host_team_id, status, start_time, end_time, duration_minutes')
-        .eq('host_team_id', teamId)
-        .order('created_at', { ascending: false })
-        .limit(200);
-
-      if (error) throw error;
-
-      const rows: ScrimRow[] = (data ?? []) as any;
+      const rows = await repo.scrims.listHostedBy(teamId, { limit: 200 });
 
       const total = rows.length;
       const confirmed = rows.filter((s) => (s.status ?? '').toLowerCase() === 'confirmed');
@@ -155,24 +119,17 @@ export default function ProfileScreen() {
         return;
       }
 
-      const { data: p, error: pErr } = await supabase
-        .from('Profiles')
-        .select('id, username, handle, email, primary_region, primary_team_id, created_at')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (pErr) throw pErr;
+      const p = await repo.profiles.getById(user.id);
 
       let tName: string | null = null;
 
       if (p?.primary_team_id) {
-        const { data: t, error: tErr } = await supabase
-          .from('teams')
-          .select('name')
-          .eq('id', p.primary_team_id)
-          .maybeSingle();
-
-        if (!tErr) tName = t?.name ?? null;
+        try {
+          const t = await repo.teams.getById(p.primary_team_id);
+          tName = t?.name ?? null;
+        } catch (tErr) {
+          console.log('Profile team load error:', tErr);
+        }
 
         await loadTeamScrimStats(p.primary_team_id);
       } else {
@@ -181,7 +138,7 @@ export default function ProfileScreen() {
         setConfirmedHours(0);
       }
 
-      setProfileRow((p ?? null) as any);
+      setProfileRow(p);
       setTeamName(tName);
       setLoadingProfile(false);
     } catch (e) {
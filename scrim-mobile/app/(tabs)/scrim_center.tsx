@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context'
 import {
   ScrollView,
@@ -13,91 +13,35 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { supabase } from '../../lib/supabase';
-
-type RegionId =
-  | 'pacific-nw'
-  | 'pacific-sw'
-  | 'central-north'
-  | 'central-south'
-  | 'atlantic-north'
-  | 'atlantic-south';
-
-const REGION_LABELS: Record<string, string> = {
-  'pacific-nw': 'Pacific Northwest',
-  'pacific-sw': 'Pacific Southwest',
-  'central-north': 'Central North',
-  'central-south': 'Central South',
-  'atlantic-north': 'Atlantic North',
-  'atlantic-south': 'Atlantic South',
-};
-
-// Common legacy/bad values
-const REGION_ALIASES: Record<string, RegionId> = {
-  'pacfic-nw': 'pacific-nw',
-  pacificnw: 'pacific-nw',
-  'pacific-northwest': 'pacific-nw',
-};
-
-const REGION_OPTIONS: { id: 'all' | RegionId; label: string }[] = [
-  { id: 'all', label: 'All Regions' },
-  { id: 'pacific-nw', label: 'Pacific Northwest' },
-  { id: 'pacific-sw', label: 'Pacific Southwest' },
-  { id: 'central-north', label: 'Central North' },
-  { id: 'central-south', label: 'Central South' },
-  { id: 'atlantic-north', label: 'Atlantic North' },
-  { id: 'atlantic-south', label: 'Atlantic South' },
+import { repo } from '../../lib/repo';
+import { useTeamRole } from '../../hooks/use-team-role';
+import { scrimErrorCode, scrimErrorMessage, type ScrimWithTeams } from '../../../shared/data';
+import { normalizeRegion, regionLabel, REGION_OPTIONS as REGIONS, type RegionId } from '../../../shared/regions';
+import { normalizeScrimType, scrimTypeLabel, SCRIM_TYPE_OPTIONS, type ScrimTypeId } from '../../../shared/scrim-types';
+import {
+  canTransitionScrim,
+  scrimActorForTeam,
+  scrimStatusLabel,
+  SCRIM_STATUS_LABELS,
+  SCRIM_STATUSES,
+  type ScrimStatus,
+} from '../../../shared/scrim-lifecycle';
+import { acceptsApplications } from '../../../shared/scrim-applications';
+import { isOpenChallenge, SCRIM_CHALLENGE_STATUS_LABELS } from '../../../shared/scrim-challenges';
+import { teamCan } from '../../../shared/team-roles';
+
+const REGION_OPTIONS: { id: 'all' | RegionId; label: string }[] = [{ id: 'all', label: 'All Regions' }, ...REGIONS];
+
+const TYPE_OPTIONS: { id: 'all' | ScrimTypeId; label: string }[] = [
+  { id: 'all', label: 'All Types' },
+  ...SCRIM_TYPE_OPTIONS,
 ];
 
-const TYPE_OPTIONS: { id: 'all' | 'Hardpoint' | 'S&D' | '3rd Mode' | 'Respawns' | 'Mixed' | 'Scrim'; label: string }[] =
-  [
-    { id: 'all', label: 'All Types' },
-    { id: 'Hardpoint', label: 'Hardpoint' },
-    { id: 'S&D', label: 'S&D' },
-    { id: '3rd Mode', label: '3rd Mode' },
-    { id: 'Respawns', label: 'Respawns' },
-  ];
-
-const MY_STATUS_OPTIONS: { id: 'all' | 'open' | 'pending' | 'confirmed' | 'cancelled'; label: string }[] = [
+const MY_STATUS_OPTIONS: { id: 'all' | ScrimStatus; label: string }[] = [
   { id: 'all', label: 'All Status' },
-  { id: 'open', label: 'Open' },
-  { id: 'pending', label: 'Pending' },
-  { id: 'confirmed', label: 'Confirmed' },
-  { id: 'cancelled', label: 'Cancelled' },
+  ...SCRIM_STATUSES.map((id) => ({ id, label: SCRIM_STATUS_LABELS[id] })),
 ];
 
-type TeamMini = {
-  name: string | null;
-  tag: string | null;
-} | null;
-
-type ScrimRow = {
-  id: string;
-  status: string;
-  region: string;
-  tier: string | null;
-  modes: string[] | null;
-  scrim_type: string | null;
-  start_time: string;
-  end_time: string;
-  time_zone: string | null;
-  notes: string | null;
-
-  host_team_id: string;
-  opponent_team_id: string | null;
-
-  // joins
-  host_team?: TeamMini;
-  opponent_team?: TeamMini;
-};
-
-function normalizeRegion(raw: any) {
-  return String(raw ?? '')
-    .toLowerCase()
-    .replace(/[\u200B-\u200D\uFEFF]/g, '')
-    .trim()
-    .replace(/_/g, '-');
-}
-
 function formatWhen(startISO: string, timeZoneLabel?: string | null) {
   const d = new Date(startISO);
   if (Number.isNaN(d.getTime())) return '—';
@@ -113,32 +57,20 @@ function formatWhen(startISO: string, timeZoneLabel?: string | null) {
   return timeZoneLabel ? `${base} (${timeZoneLabel})` : base;
 }
 
-function scrimTypeLabel(scrim_type: string | null, modes: string[] | null) {
-  const t = (scrim_type ?? '').toLowerCase();
-
-  if (t === 'hp-only') return 'Hardpoint';
-  if (t === 'snd-only') return 'S&D';
-  if (t === 'third-only') return '3rd Mode';
-  if (t === 'all-respawns') return 'Respawns';
-  if (t === 'mixed') return 'Mixed';
-
-  const m = (modes ?? []).map((x) => String(x).toLowerCase());
-  if (m.includes('hp') || m.includes('hardpoint')) return 'Hardpoint';
-  if (m.includes('snd') || m.includes('search') || m.includes('search and destroy')) return 'S&D';
-  if (m.includes('control')) return '3rd Mode';
-
-  return 'Scrim';
-}
-
 export default function ScrimCenterScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  const [openScrims, setOpenScrims] = useState<ScrimRow[]>([]);
-  const [myScrims, setMyScrims] = useState<ScrimRow[]>([]);
+  const [openScrims, setOpenScrims] = useState<ScrimWithTeams[]>([]);
+  const [myScrims, setMyScrims] = useState<ScrimWithTeams[]>([]);
+  const [challenges, setChallenges] = useState<ScrimWithTeams[]>([]);
 
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [myTeamId, setMyTeamId] = useState<string | null>(null);
+  const myRole = useTeamRole(myTeamId);
+
+  // Rows that just changed via realtime (briefly highlighted)
+  const [highlightIds, setHighlightIds] = useState<Record<string, true>>({});
 
   // Search + Filter UI state
   const [showSearch, setShowSearch] = useState(false);
@@ -146,47 +78,40 @@ export default function ScrimCenterScreen() {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [filterRegion, setFilterRegion] = useState<'all' | RegionId>('all');
-  const [filterType, setFilterType] = useState<'all' | 'Hardpoint' | 'S&D' | '3rd Mode' | 'Respawns' | 'Mixed' | 'Scrim'>(
-    'all'
-  );
-  const [filterMyStatus, setFilterMyStatus] = useState<'all' | 'open' | 'pending' | 'confirmed' | 'cancelled'>('all');
+  const [filterType, setFilterType] = useState<'all' | ScrimTypeId>('all');
+  const [filterMyStatus, setFilterMyStatus] = useState<'all' | ScrimStatus>('all');
 
   // Match Scrim Details colors:
-  // Open = Blue, Pending = Yellow, Confirmed = Green, Cancelled = Red
-  const getStatusColor = (status: string) => {
-    switch ((status ?? '').toLowerCase()) {
+  // Open = Blue, Requested = Yellow, Confirmed / In Progress = Green, Cancelled = Red, rest = Gray
+  const getStatusColor = (status: ScrimStatus) => {
+    switch (status) {
       case 'open':
         return '#60a5fa';
-      case 'pending':
+      case 'requested':
         return '#fbbf24';
       case 'confirmed':
+      case 'in_progress':
         return '#34d399';
       case 'cancelled':
-      case 'canceled':
         return '#f87171';
       default:
         return '#9ca3af';
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    const s = (status ?? '').toLowerCase();
-    if (!s) return '—';
-    if (s === 'cancelled' || s === 'canceled') return 'Cancelled';
-    return s.charAt(0).toUpperCase() + s.slice(1);
-  };
-
-  const getGameModeIcon = (label: string) => {
-    switch (label) {
-      case 'Hardpoint':
+  const getGameModeIcon = (type: ScrimTypeId | null) => {
+    switch (type) {
+      case 'hp-only':
         return 'location';
-      case 'S&D':
+      case 'snd-only':
         return 'skull';
-      case '3rd Mode':
+      case 'third-only':
         return 'flag';
-      case 'Respawns':
+      case 'all-respawns':
         return 'repeat';
-      case 'Mixed':
+      case 'full-series':
+        return 'trophy';
+      case 'mixed':
         return 'shuffle';
       default:
         return 'game-controller';
@@ -204,15 +129,7 @@ export default function ScrimCenterScreen() {
         return null;
       }
 
-      const { data: p, error: pErr } = await supabase
-        .from('Profiles')
-        .select('primary_team_id')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (pErr) throw pErr;
-
-      const teamId = p?.primary_team_id ?? null;
+      const teamId = await repo.profiles.getPrimaryTeamId(user.id);
       setMyTeamId(teamId);
       return teamId;
     } catch (e) {
@@ -227,86 +144,25 @@ export default function ScrimCenterScreen() {
       setErrorMsg(null);
 
       // 1) My scrims (team is involved) — any status
-      let mine: ScrimRow[] = [];
-      if (teamId) {
-        const { data: myData, error: myErr } = await supabase
-          .from('scrims')
-          .select(
-            `
-            id,
-            status,
-            region,
-            tier,
-            modes,
-            scrim_type,
-            start_time,
-            end_time,
-            time_zone,
-            notes,
-            host_team_id,
-            opponent_team_id,
-            host_team:teams!scrims_host_team_id_fkey (
-              name,
-              tag
-            ),
-            opponent_team:teams!scrims_opponent_team_id_fkey (
-              name,
-              tag
-            )
-          `
-          )
-          .or(`host_team_id.eq.${teamId},opponent_team_id.eq.${teamId}`)
-          .order('start_time', { ascending: true })
-          .limit(150);
-
-        if (myErr) throw myErr;
-        mine = (myData ?? []) as any;
-      }
+      const mine = teamId ? await repo.scrims.listForTeam(teamId) : [];
 
-      // 2) Marketplace (open only)
-      const { data: openData, error: openErr } = await supabase
-        .from('scrims')
-        .select(
-          `
-          id,
-          status,
-          region,
-          tier,
-          modes,
-          scrim_type,
-          start_time,
-          end_time,
-          time_zone,
-          notes,
-          host_team_id,
-          opponent_team_id,
-          host_team:teams!scrims_host_team_id_fkey (
-            name,
-            tag
-          )
-        `
-        )
-        .eq('status', 'open')
-        .order('start_time', { ascending: true })
-        .limit(150);
-
-      if (openErr) throw openErr;
+      // Challenges other teams sent us, still waiting on an answer
+      const challenged = teamId ? await repo.scrims.listChallengesForTeam(teamId) : [];
 
+      // 2) Marketplace (open only)
       // ✅ Don’t show my own scrims in Available Scrims
       // ✅ Also, don’t show “open but already taken” (has opponent_team_id)
-      const filteredOpen = (openData ?? []).filter((s: any) => {
-        if (teamId && s.host_team_id === teamId) return false;
-        if (s.opponent_team_id) return false;
-        return true;
-      });
+      const open = await repo.scrims.listOpen({ excludeTeamId: teamId });
 
-      setOpenScrims(filteredOpen as any);
+      setOpenScrims(open);
       setMyScrims(mine);
+      setChallenges(challenged);
     } catch (e: any) {
       console.log('[ScrimCenter] load scrims error:', e);
       setErrorMsg(e?.message ?? 'Failed to load scrims.');
       setOpenScrims([]);
       setMyScrims([]);
+      setChallenges([]);
     } finally {
       setLoading(false);
     }
@@ -329,6 +185,56 @@ export default function ScrimCenterScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const flashRow = useCallback((id: string) => {
+    setHighlightIds((prev) => ({ ...prev, [id]: true }));
+    setTimeout(() => {
+      setHighlightIds((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }, 2500);
+  }, []);
+
+  // ✅ Live marketplace: new slots appear, taken / cancelled ones drop out, my statuses update in place
+  useEffect(() => {
+    const isMarketplace = (s: ScrimWithTeams) =>
+      s.host_team_id !== myTeamId &&
+      (acceptsApplications(s) || (s.status === 'open' && !s.opponent_team_id && !s.challenged_team_id));
+    const isMine = (s: ScrimWithTeams) =>
+      !!myTeamId && (s.host_team_id === myTeamId || s.opponent_team_id === myTeamId);
+    const isChallengeForMe = (s: ScrimWithTeams) =>
+      !!myTeamId && s.challenged_team_id === myTeamId && isOpenChallenge(s);
+
+    const upsertSorted = (list: ScrimWithTeams[], row: ScrimWithTeams) =>
+      [...list.filter((s) => s.id !== row.id), row].sort(
+        (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+      );
+
+    const unsubscribe = repo.scrims.subscribeToChanges(async ({ type, id }) => {
+      let row: ScrimWithTeams | null = null;
+
+      if (type !== 'DELETE') {
+        try {
+          row = await repo.scrims.getById(id);
+        } catch (e) {
+          console.log('[ScrimCenter] realtime refetch error:', e);
+          return;
+        }
+      }
+
+      setOpenScrims((prev) => (row && isMarketplace(row) ? upsertSorted(prev, row) : prev.filter((s) => s.id !== id)));
+      setMyScrims((prev) => (row && isMine(row) ? upsertSorted(prev, row) : prev.filter((s) => s.id !== id)));
+      setChallenges((prev) =>
+        row && isChallengeForMe(row) ? upsertSorted(prev, row) : prev.filter((s) => s.id !== id)
+      );
+
+      if (row && (isMarketplace(row) || isMine(row) || isChallengeForMe(row))) flashRow(id);
+    });
+
+    return unsubscribe;
+  }, [myTeamId, flashRow]);
+
   const onRefresh = async () => {
     setRefreshing(true);
     const teamId = await loadMyTeam();
@@ -346,86 +252,83 @@ export default function ScrimCenterScreen() {
       setRefreshing(true);
       setErrorMsg(null);
 
-      const { data: updated, error } = await supabase
-        .from('scrims')
-        .update({
-          status: 'confirmed',
-          opponent_team_id: myTeamId,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', scrimId)
-        .eq('status', 'open')
-        .is('opponent_team_id', null)
-        .select('id')
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (!updated?.id) {
-        setErrorMsg('Already taken — another team accepted this scrim first.');
-        const teamId = await loadMyTeam();
-        await loadScrims(teamId);
-        return;
-      }
+      await repo.scrims.accept(scrimId, myTeamId);
 
       const teamId = await loadMyTeam();
       await loadScrims(teamId);
       router.push(`/scrim-details?id=${scrimId}`);
     } catch (e: any) {
       console.log('[ScrimCenter] accept error:', e);
-      setErrorMsg(e?.message ?? 'Failed to accept scrim.');
+      setErrorMsg(scrimErrorMessage(e, 'Failed to accept scrim.'));
+
+      // Slot moved on under us — show the current marketplace
+      if (scrimErrorCode(e) === 'scrim_taken' || scrimErrorCode(e) === 'invalid_transition') {
+        const teamId = await loadMyTeam();
+        await loadScrims(teamId);
+      }
     } finally {
       setRefreshing(false);
     }
   };
 
-  const mapToUi = (s: ScrimRow, context: 'my' | 'open') => {
-    const type = scrimTypeLabel(s.scrim_type, s.modes);
+  const mapToUi = (s: ScrimWithTeams, context: 'my' | 'open' | 'challenge') => {
+    const typeKey = normalizeScrimType(s.scrim_type, s.modes);
 
     const hostName = s.host_team?.name ?? 'Unknown Team';
     const opponentName = s.opponent_team?.name ?? null;
 
-    const regionKeyRaw = normalizeRegion(s.region);
-    const regionKey = REGION_ALIASES[regionKeyRaw] ?? (regionKeyRaw as any);
-    const regionLabel = REGION_LABELS[regionKey as RegionId] || regionKey || '—';
+    const regionKey = normalizeRegion(s.region);
 
-    const status = (s.status ?? 'open').toLowerCase();
+    const status = s.status;
 
     const isHost = !!myTeamId && s.host_team_id === myTeamId;
     const isOpponent = !!myTeamId && s.opponent_team_id === myTeamId;
 
+    const challengeLabel = s.challenge_status ? SCRIM_CHALLENGE_STATUS_LABELS[s.challenge_status] : null;
+
     const myOpponentLabel =
-      context === 'my'
-        ? isHost
-          ? opponentName
-            ? `Opponent: ${opponentName}`
-            : 'Opponent: —'
-          : isOpponent
-            ? `Opponent: ${hostName}`
-            : 'Opponent: —'
-        : null;
+      context === 'challenge'
+        ? `Challenged by ${hostName} · ${challengeLabel}`
+        : context === 'my'
+          ? isHost
+            ? opponentName
+              ? `Opponent: ${opponentName}`
+              : s.challenged_team && s.status === 'open'
+                ? `Challenged: ${s.challenged_team.name} · ${challengeLabel}`
+                : acceptsApplications(s)
+                  ? 'Opponent: you pick from requests'
+                  : 'Opponent: —'
+            : isOpponent
+              ? `Opponent: ${hostName}`
+              : 'Opponent: —'
+          : null;
 
     let ctaLabel = 'View Details';
     let ctaDisabled = false;
 
-    if (context === 'open') {
-      ctaLabel = 'Accept Scrim';
-    } else {
-      ctaLabel = 'View Details';
-    }
-
-    if (context === 'open' && !myTeamId) {
-      ctaLabel = 'Create Team to Accept';
-      ctaDisabled = true;
+    if (context === 'challenge') {
+      ctaLabel = teamCan(myRole, 'accept_scrims') ? 'Answer Challenge' : 'View Challenge';
+    } else if (context === 'open') {
+      const actor = scrimActorForTeam(s, myTeamId);
+
+      if (!myTeamId) {
+        ctaLabel = 'Create Team to Accept';
+        ctaDisabled = true;
+      } else if (s.requires_approval) {
+        // The host picks; teams ask on Scrim Details
+        ctaLabel = teamCan(myRole, 'accept_scrims') ? 'Request to Join' : 'View Details';
+      } else if (actor && canTransitionScrim(s.status, 'confirmed', actor) && teamCan(myRole, 'accept_scrims')) {
+        ctaLabel = 'Accept Scrim';
+      }
     }
 
     return {
       id: s.id,
-      scrimType: type,
-      scrimTypeKey: type as any,
+      scrimType: scrimTypeLabel(s.scrim_type, s.modes),
+      scrimTypeKey: typeKey,
       status,
-      region: regionLabel,
-      regionKey: (regionKey as string) || '',
+      region: regionLabel(s.region),
+      regionKey: regionKey ?? '',
       startTime: formatWhen(s.start_time, s.time_zone),
       hostTeamName: hostName,
       hostTeamTag: s.host_team?.tag ?? '',
@@ -433,13 +336,28 @@ export default function ScrimCenterScreen() {
       notes: s.notes ?? '',
       ctaLabel,
       ctaDisabled,
-      roleBadge: context === 'my' ? (isHost ? 'HOST' : isOpponent ? 'OPPONENT' : null) : null,
+      roleBadge:
+        context === 'challenge'
+          ? 'CHALLENGE'
+          : context === 'my'
+            ? isHost
+              ? 'HOST'
+              : isOpponent
+                ? 'OPPONENT'
+                : null
+            : s.requires_approval
+              ? 'HOST PICKS'
+              : s.block
+                ? `${s.block.slot_count}-SLOT BLOCK`
+                : null,
       opponentLine: myOpponentLabel,
     };
   };
 
   const uiOpenScrims = useMemo(() => openScrims.map((s) => mapToUi(s, 'open')), [openScrims, myTeamId]);
   const uiMyScrims = useMemo(() => myScrims.map((s) => mapToUi(s, 'my')), [myScrims, myTeamId]);
+  // Only a few challenges; mapping them each render keeps mapToUi out of a memo
+  const uiChallenges = challenges.map((s) => mapToUi(s, 'challenge'));
 
   const openCount = uiOpenScrims.length;
 
@@ -449,23 +367,17 @@ export default function ScrimCenterScreen() {
     return items.filter((it) => {
       // Region filter
       if (filterRegion !== 'all') {
-        const rk = normalizeRegion(it.regionKey);
-        if (rk !== filterRegion) return false;
+        if (it.regionKey !== filterRegion) return false;
       }
 
       // Type filter
       if (filterType !== 'all') {
-        if (it.scrimType !== filterType) return false;
+        if (it.scrimTypeKey !== filterType) return false;
       }
 
       // My status filter (only for "my")
       if (context === 'my' && filterMyStatus !== 'all') {
-        const st = (it.status ?? '').toLowerCase();
-        if (filterMyStatus === 'cancelled') {
-          if (!(st === 'cancelled' || st === 'canceled')) return false;
-        } else {
-          if (st !== filterMyStatus) return false;
-        }
+        if (it.status !== filterMyStatus) return false;
       }
 
       // Search
@@ -531,11 +443,11 @@ export default function ScrimCenterScreen() {
   };
 
   const renderScrimCard = (scrim: ReturnType<typeof mapToUi>) => (
-    <View key={scrim.id} style={styles.scrimCard}>
+    <View key={scrim.id} style={[styles.scrimCard, highlightIds[scrim.id] && styles.scrimCardHighlight]}>
       <View style={styles.scrimHeader}>
         <View style={styles.scrimTypeContainer}>
           <View style={styles.gameModeIcon}>
-            <Ionicons name={getGameModeIcon(scrim.scrimType) as any} size={16} color="#60a5fa" />
+            <Ionicons name={getGameModeIcon(scrim.scrimTypeKey) as any} size={16} color="#60a5fa" />
           </View>
 
           <View>
@@ -555,7 +467,7 @@ export default function ScrimCenterScreen() {
         <View style={[styles.statusBadge, { backgroundColor: `${getStatusColor(scrim.status)}20` }]}>
           <View style={[styles.statusDot, { backgroundColor: getStatusColor(scrim.status) }]} />
           <Text style={[styles.statusText, { color: getStatusColor(scrim.status) }]}>
-            {getStatusLabel(scrim.status)}
+            {scrimStatusLabel(scrim.status)}
           </Text>
         </View>
       </View>
@@ -689,13 +601,15 @@ export default function ScrimCenterScreen() {
           </View>
         ) : null}
 
-        <Pressable
-          style={({ pressed }) => [styles.postButton, pressed && styles.postButtonPressed]}
-          onPress={() => router.push('/create-scrim')}
-        >
-          <Ionicons name="add-circle" size={20} color="#ffffff" />
-          <Text style={styles.postButtonText}>Post Scrim Slot</Text>
-        </Pressable>
+        {!myTeamId || teamCan(myRole, 'post_scrims') ? (
+          <Pressable
+            style={({ pressed }) => [styles.postButton, pressed && styles.postButtonPressed]}
+            onPress={() => router.push('/create-scrim')}
+          >
+            <Ionicons name="add-circle" size={20} color="#ffffff" />
+            <Text style={styles.postButtonText}>Post Scrim Slot</Text>
+          </Pressable>
+        ) : null}
 
         {loading ? (
           <View style={{ alignItems: 'center', justifyContent: 'center', paddingVertical: 28 }}>
@@ -710,6 +624,18 @@ export default function ScrimCenterScreen() {
           </View>
         ) : null}
 
+        {/* Challenges — only while another team is waiting on us */}
+        {myTeamId && uiChallenges.length > 0 ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Challenges</Text>
+              <Text style={styles.scrimCount}>{uiChallenges.length} waiting</Text>
+            </View>
+
+            <View style={styles.scrimsList}>{uiChallenges.map(renderScrimCard)}</View>
+          </View>
+        ) : null}
+
         {/* My Scrims */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -896,6 +822,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#27272a',
   },
+  scrimCardHighlight: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#172033',
+  },
 
   scrimHeader: {
     flexDirection: 'row',
@@ -0,0 +1,11 @@
+import { resolveDeepLink } from '../lib/deep-links';
+
+// Rewrites scrimmobile://scrim|team|invite/... links to their screens (lib/deep-links)
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return resolveDeepLink(path) ?? path;
+  } catch (e) {
+    console.log('[Links] redirect error:', e);
+    return path;
+  }
+}
@@ -1,11 +1,16 @@
 import 'react-native-url-polyfill/auto';
 import React, { useEffect, useState } from 'react';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { Stack, useGlobalSearchParams, usePathname, useRouter, useSegments } from 'expo-router';
 import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
+import { startNotifications, stopNotifications } from '../lib/notifications-store';
+import { currentHref, DEEP_LINK_SCREENS, setPendingLink, takePendingLink } from '../lib/deep-links';
 
 export default function RootLayout() {
   const router = useRouter();
   const segments = useSegments();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
 
   const [booting, setBooting] = useState(true);
   const [isAuthed, setIsAuthed] = useState(false);
@@ -16,32 +21,8 @@ export default function RootLayout() {
 
     const ensureProfileRow = async (user: { id: string; email?: string | null }) => {
       try {
-        const { data: existing, error: fetchErr } = await supabase
-          .from('Profiles')
-          .select('id')
-          .eq('id', user.id)
-          .maybeSingle();
-
         // If query fails due to RLS/etc, don't crash app
-        if (fetchErr) {
-          console.log('[Layout] Profiles fetch error:', fetchErr);
-          return;
-        }
-
-        // Only insert if it truly doesn't exist
-        if (!existing?.id) {
-          const insertPayload = {
-            id: user.id, // IMPORTANT: keep auth user id (no new UUIDs)
-            email: user.email ?? null,
-            username: user.email?.split('@')[0] ?? 'New User',
-            handle: null,
-            primary_region: null,
-            primary_team_id: null,
-          };
-
-          const { error: insErr } = await supabase.from('Profiles').insert(insertPayload);
-          if (insErr) console.log('[Layout] Profiles insert error:', insErr);
-        }
+        await repo.profiles.ensureExists(user);
       } catch (e) {
         console.log('[Layout] ensureProfileRow error:', e);
       }
@@ -63,6 +44,9 @@ export default function RootLayout() {
             id: session.user.id,
             email: session.user.email ?? null,
           });
+          startNotifications(session.user.id);
+        } else {
+          stopNotifications();
         }
 
         setBooting(false);
@@ -85,12 +69,16 @@ export default function RootLayout() {
           id: session.user.id,
           email: session.user.email ?? null,
         });
+        startNotifications(session.user.id);
+      } else {
+        stopNotifications();
       }
     });
 
     return () => {
       mounted = false;
       sub.subscription.unsubscribe();
+      stopNotifications();
     };
   }, []);
 
@@ -109,22 +97,31 @@ export default function RootLayout() {
       top === 'teams' ||
       top === 'create-team' ||
       top === 'create-scrim' ||
+      top === 'edit-scrim' ||
       top === 'scrim-details' ||
       top === 'edit-profile' ||
       top === 'notifications' ||
       top === 'settings' ||
-      top === 'invite-member';
+      top === 'invite-member' ||
+      top === 'invite-codes' ||
+      top === 'team' ||
+      top === 'invite';
 
     if (!isAuthed && !inAuth) {
+      // Opened from a link while signed out: keep it for after sign-in
+      if ((DEEP_LINK_SCREENS as readonly string[]).includes(top)) {
+        setPendingLink(currentHref(pathname, params));
+      }
+
       router.replace('/auth');
       return;
     }
 
     if (isAuthed && !isAllowedAuthedRoute) {
-      router.replace('/(tabs)');
+      router.replace(takePendingLink() ?? '/(tabs)');
       return;
     }
-  }, [booting, isAuthed, segments, router]);
+  }, [booting, isAuthed, segments, pathname, params, router]);
 
   return (
     <Stack screenOptions={{ headerShown: false }}>
@@ -136,10 +133,14 @@ export default function RootLayout() {
       <Stack.Screen name="teams" />
       <Stack.Screen name="create-team" />
       <Stack.Screen name="create-scrim" />
+      <Stack.Screen name="edit-scrim" />
       <Stack.Screen name="scrim-details" />
       <Stack.Screen name="edit-profile" />
       <Stack.Screen name="notifications" />
       <Stack.Screen name="settings" />
+      <Stack.Screen name="invite-codes" />
+      <Stack.Screen name="team" />
+      <Stack.Screen name="invite" />
     </Stack>
   );
 }
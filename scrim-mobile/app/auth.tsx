@@ -11,13 +11,11 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../lib/supabase';
-import { useRouter } from 'expo-router';
 
 
 export default function AuthScreen() {
   const [isLogin, setIsLogin] = useState(true);
   const [showPassword, setShowPassword] = useState(false);
-  const router = useRouter();
 
 
   const [name, setName] = useState('');
@@ -68,7 +66,7 @@ export default function AuthScreen() {
 
       console.log('login session?', !!data.session);
       setInfoMsg('Logged in ✅');
-      router.replace('/(tabs)');
+      // The root layout's route guard takes it from here (home, or a link opened while signed out)
       return;
     }
 
@@ -82,9 +80,6 @@ export default function AuthScreen() {
         },
       });
       if (error) throw error;
-      if (data.session) {
-        router.replace('/(tabs)');
-}
 
       // If email confirmations are ON, user may need to confirm email
       // We'll show a message either way.
@@ -15,33 +15,29 @@ import DateTimePickerModal from 'react-native-modal-datetime-picker';
 import { Picker } from '@react-native-picker/picker';
 import { router } from 'expo-router';
 import { supabase } from '../lib/supabase';
-
-type RegionId =
-  | 'pacific-nw'
-  | 'pacific-sw'
-  | 'central-north'
-  | 'central-south'
-  | 'atlantic-north'
-  | 'atlantic-south';
-
-const REGION_OPTIONS: { id: RegionId; label: string }[] = [
-  { id: 'pacific-nw', label: 'Pacific Northwest' },
-  { id: 'pacific-sw', label: 'Pacific Southwest' },
-  { id: 'central-north', label: 'Central North' },
-  { id: 'central-south', label: 'Central South' },
-  { id: 'atlantic-north', label: 'Atlantic North' },
-  { id: 'atlantic-south', label: 'Atlantic South' },
-];
-
-type ScrimTypeId = 'hardpoints' | 'search' | 'third' | 'respawns' | 'custom';
-
-const SCRIM_TYPES: { id: ScrimTypeId; label: string; minutes: number }[] = [
-  { id: 'hardpoints', label: 'Hardpoints', minutes: 60 },
-  { id: 'search', label: 'Search', minutes: 90 },
-  { id: 'third', label: '3rd Mode', minutes: 60 },
-  { id: 'respawns', label: 'Respawns', minutes: 90 },
-  { id: 'custom', label: 'Custom', minutes: 90 },
-];
+import { repo } from '../lib/repo';
+import { useTeamRole } from '../hooks/use-team-role';
+import type { ScrimRecurrence, TeamRow } from '../../shared/data';
+import { normalizeRegion, REGION_OPTIONS, type RegionId } from '../../shared/regions';
+import {
+  buildScrimSlot,
+  SCRIM_TIERS,
+  SCRIM_TYPE_MINUTES,
+  SCRIM_TYPE_OPTIONS,
+  type ScrimTier,
+  type ScrimTypeId,
+} from '../../shared/scrim-types';
+import { MIN_LINEUP_OPTIONS } from '../../shared/scrim-lineups';
+import {
+  formatSeriesDate,
+  localDateKey,
+  SCRIM_SERIES_COUNT_OPTIONS,
+  seriesOccurrenceDates,
+  validateScrimRecurrence,
+  WEEKDAY_SHORT_LABELS,
+} from '../../shared/scrim-series';
+import { nextBlockSlotStart, SCRIM_BLOCK_MAX_SLOTS, validateScrimBlock } from '../../shared/scrim-blocks';
+import { teamCan, teamRoleLabel } from '../../shared/team-roles';
 
 function minutesLabel(min: number) {
   const hrs = min / 60;
@@ -49,29 +45,7 @@ function minutesLabel(min: number) {
   return `${hrs} hours`;
 }
 
-function addMinutesToISO(iso: string, minutes: number) {
-  const d = new Date(iso);
-  d.setMinutes(d.getMinutes() + minutes);
-  return d.toISOString();
-}
-
-function scrimTypeToDb(scrimType: ScrimTypeId) {
-  if (scrimType === 'hardpoints') return 'hp-only';
-  if (scrimType === 'search') return 'snd-only';
-  if (scrimType === 'third') return 'third-only';
-  if (scrimType === 'respawns') return 'all-respawns';
-  return 'mixed'; // custom
-}
-
-function scrimTypeToModes(scrimType: ScrimTypeId): string[] {
-  if (scrimType === 'hardpoints') return ['hp'];
-  if (scrimType === 'search') return ['snd'];
-  if (scrimType === 'third') return ['control'];
-  if (scrimType === 'respawns') return ['hp', 'control'];
-  return ['custom'];
-}
-
-type TeamSearchRow = { id: string; name: string; tag: string | null };
+type TeamSearchRow = Pick<TeamRow, 'id' | 'name' | 'tag'>;
 
 export default function CreateScrimScreen() {
   const [booting, setBooting] = useState(true);
@@ -79,19 +53,36 @@ export default function CreateScrimScreen() {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
   const [primaryTeamId, setPrimaryTeamId] = useState<string | null>(null);
+  const myRole = useTeamRole(primaryTeamId);
   const [region, setRegion] = useState<RegionId | null>(null);
 
   // Modal date-time picker state
   const [startDate, setStartDate] = useState<Date>(new Date());
   const [dateModalOpen, setDateModalOpen] = useState(false);
 
-  const [scrimType, setScrimType] = useState<ScrimTypeId>('hardpoints');
+  const [scrimType, setScrimType] = useState<ScrimTypeId>('hp-only');
   const [durationMinutes, setDurationMinutes] = useState<number>(60);
 
-  const [tier, setTier] = useState<string>('Any');
+  const [tier, setTier] = useState<'Any' | ScrimTier>('Any');
+  const [minLineup, setMinLineup] = useState<number | null>(null);
+  const [requiresApproval, setRequiresApproval] = useState(false);
   const [notes, setNotes] = useState<string>('');
 
-  // Invite opponent
+  // Repeat weekly (posts one scrim per occurrence)
+  const [repeats, setRepeats] = useState(false);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [seriesEnd, setSeriesEnd] = useState<'count' | 'until'>('count');
+  const [seriesCount, setSeriesCount] = useState(8);
+  const [untilDate, setUntilDate] = useState<Date>(() => new Date(Date.now() + 28 * 24 * 60 * 60_000));
+  const [untilModalOpen, setUntilModalOpen] = useState(false);
+
+  // Several slots in one offer (the first is the Date & Time above)
+  const [multiSlot, setMultiSlot] = useState(false);
+  const [extraStarts, setExtraStarts] = useState<Date[]>([]);
+  const [slotModalIndex, setSlotModalIndex] = useState<number | null>(null);
+  const [withdrawSiblings, setWithdrawSiblings] = useState(true);
+
+  // Challenge a team (instead of posting to the marketplace)
   const [inviteQuery, setInviteQuery] = useState('');
   const [inviteLoading, setInviteLoading] = useState(false);
   const [inviteResults, setInviteResults] = useState<TeamSearchRow[]>([]);
@@ -106,8 +97,7 @@ export default function CreateScrimScreen() {
   }, []);
 
   useEffect(() => {
-    const found = SCRIM_TYPES.find((s) => s.id === scrimType);
-    setDurationMinutes(found?.minutes ?? 90);
+    setDurationMinutes(SCRIM_TYPE_MINUTES[scrimType]);
   }, [scrimType]);
 
   useEffect(() => {
@@ -131,17 +121,11 @@ export default function CreateScrimScreen() {
           return;
         }
 
-        const { data: p, error: pErr } = await supabase
-          .from('Profiles')
-          .select('primary_team_id, primary_region')
-          .eq('id', user.id)
-          .maybeSingle();
-
-        if (pErr) throw pErr;
+        const p = await repo.profiles.getById(user.id);
         if (!mounted) return;
 
         setPrimaryTeamId(p?.primary_team_id ?? null);
-        setRegion((p?.primary_region ?? null) as RegionId | null);
+        setRegion(normalizeRegion(p?.primary_region));
 
         const now = new Date();
         now.setMinutes(now.getMinutes() + 15);
@@ -175,6 +159,54 @@ export default function CreateScrimScreen() {
     });
   }, [startDate]);
 
+  const recurrence = useMemo<ScrimRecurrence>(
+    () => ({
+      weekdays,
+      untilDate: seriesEnd === 'until' ? localDateKey(untilDate) : null,
+      count: seriesEnd === 'count' ? seriesCount : null,
+    }),
+    [weekdays, seriesEnd, untilDate, seriesCount]
+  );
+
+  const seriesPreview = useMemo(() => {
+    if (!repeats) return null;
+
+    const firstDate = localDateKey(startDate);
+    const problem = validateScrimRecurrence(recurrence, firstDate, timeZone);
+    if (problem) return problem;
+
+    const dates = seriesOccurrenceDates(firstDate, recurrence);
+    const time = startDate.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+    return `${dates.length} scrims, ${formatSeriesDate(dates[0])} → ${formatSeriesDate(dates[dates.length - 1])}, each at ${time} ${timeZone}. The time holds through daylight saving changes.`;
+  }, [repeats, startDate, recurrence, timeZone]);
+
+  const toggleRepeats = (on: boolean) => {
+    setRepeats(on);
+    if (on && weekdays.length === 0) setWeekdays([startDate.getDay()]);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const blockStarts = useMemo(() => [startDate, ...extraStarts], [startDate, extraStarts]);
+
+  const toggleMultiSlot = (on: boolean) => {
+    setMultiSlot(on);
+    if (on && extraStarts.length === 0) setExtraStarts([nextBlockSlotStart([startDate], durationMinutes)]);
+  };
+
+  const addSlot = () => {
+    setExtraStarts((prev) => [...prev, nextBlockSlotStart([startDate, ...prev], durationMinutes)]);
+  };
+
+  const removeSlot = (index: number) => {
+    setExtraStarts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const slotLabel = (d: Date) =>
+    d.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
   const searchTeams = async (q: string) => {
     const query = q.trim();
     if (!query) {
@@ -185,15 +217,7 @@ export default function CreateScrimScreen() {
     try {
       setInviteLoading(true);
 
-      const { data, error } = await supabase
-        .from('teams')
-        .select('id, name, tag')
-        .ilike('name', `%${query}%`)
-        .order('name', { ascending: true })
-        .limit(8);
-
-      if (error) throw error;
-      setInviteResults((data ?? []) as any);
+      setInviteResults(await repo.teams.searchByName(query, { limit: 8 }));
     } catch (e: any) {
       console.log('[CreateScrim] team search error:', e);
       setInviteResults([]);
@@ -208,45 +232,38 @@ export default function CreateScrimScreen() {
       setPosting(true);
       setErrorMsg(null);
 
-      if (!primaryTeamId) {
-        setErrorMsg('No primary team set. Create/select a team first.');
-        return;
-      }
-      if (!region) {
-        setErrorMsg('Pick a region.');
-        return;
-      }
-
       const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
       if (sessionError) throw sessionError;
 
-      const user = sessionData.session?.user;
-      if (!user) {
-        setErrorMsg('Not signed in.');
-        return;
-      }
-
-      const startISO = startDate.toISOString();
-      const endISO = addMinutesToISO(startISO, durationMinutes);
-
-      const payload = {
-        host_team_id: primaryTeamId,
-        opponent_team_id: invitedTeam?.id ?? null,
-        status: 'open',
+      // Same payload as the web form (shared/scrim-types); throws the validation message
+      const payload = buildScrimSlot({
+        hostTeamId: primaryTeamId,
+        createdBy: sessionData.session?.user?.id ?? null,
         region,
         tier: tier === 'Any' ? null : tier,
-        modes: scrimTypeToModes(scrimType),
-        start_time: startISO,
-        end_time: endISO,
-        time_zone: timeZone,
-        duration_minutes: durationMinutes,
-        notes: notes?.trim() ? notes.trim() : null,
-        created_by: user.id,
-        scrim_type: scrimTypeToDb(scrimType),
-      };
-
-      const { error } = await supabase.from('scrims').insert(payload);
-      if (error) throw error;
+        scrimType,
+        start: startDate,
+        durationMinutes,
+        timeZone,
+        notes,
+        challengedTeamId: invitedTeam?.id ?? null,
+        requiresApproval: !invitedTeam && requiresApproval,
+        minLineupSize: minLineup,
+      });
+
+      if (repeats && !invitedTeam) {
+        const problem = validateScrimRecurrence(recurrence, localDateKey(startDate), timeZone);
+        if (problem) throw new Error(problem);
+
+        await repo.scrimSeries.create(payload, recurrence);
+      } else if (multiSlot && !invitedTeam) {
+        const problem = validateScrimBlock(blockStarts, durationMinutes);
+        if (problem) throw new Error(problem);
+
+        await repo.scrimBlocks.create(payload, blockStarts.map((d) => d.toISOString()), withdrawSiblings);
+      } else {
+        await repo.scrims.create(payload);
+      }
 
       router.back();
     } catch (e: any) {
@@ -299,6 +316,14 @@ export default function CreateScrimScreen() {
 
             {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
           </View>
+        ) : myRole && !teamCan(myRole, 'post_scrims') ? (
+          <View style={styles.card}>
+            <Text style={styles.blockTitle}>Your role can’t post scrims</Text>
+            <Text style={styles.blockText}>
+              You’re a {teamRoleLabel(myRole).toLowerCase()} on this team. Ask your owner, captain or manager to post
+              the slot.
+            </Text>
+          </View>
         ) : (
           <View style={styles.card}>
             {/* Date + Time */}
@@ -323,6 +348,183 @@ export default function CreateScrimScreen() {
               />
             </View>
 
+            {/* Repeat (challenges go to one team, one scrim at a time) */}
+            {!invitedTeam && !multiSlot ? (
+              <View style={styles.field}>
+                <Text style={styles.label}>Repeat</Text>
+                <View style={styles.pillRow}>
+                  {[
+                    { value: false, label: 'Just once' },
+                    { value: true, label: 'Weekly' },
+                  ].map((opt) => {
+                    const selected = repeats === opt.value;
+                    return (
+                      <Pressable
+                        key={opt.label}
+                        onPress={() => toggleRepeats(opt.value)}
+                        style={[styles.pill, selected && styles.pillSelected]}
+                      >
+                        <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{opt.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                {repeats ? (
+                  <>
+                    <View style={styles.pillRow}>
+                      {WEEKDAY_SHORT_LABELS.map((label, day) => {
+                        const selected = weekdays.includes(day);
+                        return (
+                          <Pressable
+                            key={label}
+                            onPress={() => toggleWeekday(day)}
+                            style={[styles.pill, selected && styles.pillSelected]}
+                          >
+                            <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{label}</Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+
+                    <View style={styles.pillRow}>
+                      {SCRIM_SERIES_COUNT_OPTIONS.map((n) => {
+                        const selected = seriesEnd === 'count' && seriesCount === n;
+                        return (
+                          <Pressable
+                            key={n}
+                            onPress={() => {
+                              setSeriesEnd('count');
+                              setSeriesCount(n);
+                            }}
+                            style={[styles.pill, selected && styles.pillSelected]}
+                          >
+                            <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{n} scrims</Text>
+                          </Pressable>
+                        );
+                      })}
+                      <Pressable
+                        onPress={() => setSeriesEnd('until')}
+                        style={[styles.pill, seriesEnd === 'until' && styles.pillSelected]}
+                      >
+                        <Text style={[styles.pillText, seriesEnd === 'until' && styles.pillTextSelected]}>
+                          Until a date
+                        </Text>
+                      </Pressable>
+                    </View>
+
+                    {seriesEnd === 'until' ? (
+                      <>
+                        <Pressable onPress={() => setUntilModalOpen(true)} style={styles.selectBtn}>
+                          <Ionicons name="flag-outline" size={16} color="#9ca3af" />
+                          <Text style={styles.selectBtnText}>Until {formatSeriesDate(localDateKey(untilDate))}</Text>
+                          <Ionicons name="chevron-down" size={16} color="#64748b" />
+                        </Pressable>
+
+                        <DateTimePickerModal
+                          isVisible={untilModalOpen}
+                          mode="date"
+                          date={untilDate}
+                          minimumDate={startDate}
+                          onConfirm={(d) => {
+                            setUntilModalOpen(false);
+                            setUntilDate(d);
+                          }}
+                          onCancel={() => setUntilModalOpen(false)}
+                        />
+                      </>
+                    ) : null}
+
+                    {seriesPreview ? <Text style={styles.helperText}>{seriesPreview}</Text> : null}
+                  </>
+                ) : null}
+              </View>
+            ) : null}
+
+            {/* Several slots in one offer */}
+            {!invitedTeam && !repeats ? (
+              <View style={styles.field}>
+                <Text style={styles.label}>Slots</Text>
+                <View style={styles.pillRow}>
+                  {[
+                    { value: false, label: 'One slot' },
+                    { value: true, label: 'Several slots' },
+                  ].map((opt) => {
+                    const selected = multiSlot === opt.value;
+                    return (
+                      <Pressable
+                        key={opt.label}
+                        onPress={() => toggleMultiSlot(opt.value)}
+                        style={[styles.pill, selected && styles.pillSelected]}
+                      >
+                        <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{opt.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                {multiSlot ? (
+                  <>
+                    {extraStarts.map((d, i) => (
+                      <View key={i} style={styles.searchRow}>
+                        <Pressable onPress={() => setSlotModalIndex(i)} style={[styles.selectBtn, { flex: 1 }]}>
+                          <Ionicons name="time-outline" size={16} color="#9ca3af" />
+                          <Text style={styles.selectBtnText}>{slotLabel(d)}</Text>
+                          <Ionicons name="chevron-down" size={16} color="#64748b" />
+                        </Pressable>
+                        <Pressable onPress={() => removeSlot(i)} hitSlop={10}>
+                          <Ionicons name="close-circle" size={20} color="#9ca3af" />
+                        </Pressable>
+                      </View>
+                    ))}
+
+                    <DateTimePickerModal
+                      isVisible={slotModalIndex !== null}
+                      mode="datetime"
+                      date={slotModalIndex !== null ? extraStarts[slotModalIndex] ?? startDate : startDate}
+                      onConfirm={(d) => {
+                        const index = slotModalIndex;
+                        setSlotModalIndex(null);
+                        if (index !== null) setExtraStarts((prev) => prev.map((x, i) => (i === index ? d : x)));
+                      }}
+                      onCancel={() => setSlotModalIndex(null)}
+                    />
+
+                    {blockStarts.length < SCRIM_BLOCK_MAX_SLOTS ? (
+                      <Pressable onPress={addSlot} style={styles.addSlotBtn}>
+                        <Ionicons name="add" size={16} color="#60a5fa" />
+                        <Text style={styles.addSlotText}>Add slot</Text>
+                      </Pressable>
+                    ) : null}
+
+                    <Text style={styles.label}>When one is taken</Text>
+                    <View style={styles.pillRow}>
+                      {[
+                        { value: true, label: 'Withdraw the others' },
+                        { value: false, label: 'Keep them open' },
+                      ].map((opt) => {
+                        const selected = withdrawSiblings === opt.value;
+                        return (
+                          <Pressable
+                            key={opt.label}
+                            onPress={() => setWithdrawSiblings(opt.value)}
+                            style={[styles.pill, selected && styles.pillSelected]}
+                          >
+                            <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{opt.label}</Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={styles.helperText}>
+                      {validateScrimBlock(blockStarts, durationMinutes) ??
+                        `${blockStarts.length} slots of ${durationText}, posted together. The first is the Date & Time above.`}
+                    </Text>
+                  </>
+                ) : null}
+              </View>
+            ) : null}
+
             {/* Region */}
             <View style={styles.field}>
               <Text style={styles.label}>Region</Text>
@@ -347,7 +549,7 @@ export default function CreateScrimScreen() {
             <View style={styles.field}>
               <Text style={styles.label}>Preferred Tier</Text>
               <View style={styles.pillRow}>
-                {['Any', 'Tier 1', 'Tier 2', 'Tier 3', 'Tier 4', 'Tier 5'].map((t) => {
+                {(['Any', ...SCRIM_TIERS] as const).map((t) => {
                   const selected = tier === t;
                   return (
                     <Pressable key={t} onPress={() => setTier(t)} style={[styles.pill, selected && styles.pillSelected]}>
@@ -358,11 +560,31 @@ export default function CreateScrimScreen() {
               </View>
             </View>
 
+            {/* Minimum lineup */}
+            <View style={styles.field}>
+              <Text style={styles.label}>Minimum Lineup</Text>
+              <View style={styles.pillRow}>
+                {[null, ...MIN_LINEUP_OPTIONS].map((n) => {
+                  const selected = minLineup === n;
+                  return (
+                    <Pressable
+                      key={n ?? 'none'}
+                      onPress={() => setMinLineup(n)}
+                      style={[styles.pill, selected && styles.pillSelected]}
+                    >
+                      <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{n ?? 'None'}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={styles.helperText}>Starters each team must pick before the scrim can be confirmed.</Text>
+            </View>
+
             {/* Scrim Type */}
             <View style={styles.field}>
               <Text style={styles.label}>Scrim Type</Text>
               <View style={styles.pillRow}>
-                {SCRIM_TYPES.map((s) => {
+                {SCRIM_TYPE_OPTIONS.map((s) => {
                   const selected = scrimType === s.id;
                   return (
                     <Pressable
@@ -378,60 +600,94 @@ export default function CreateScrimScreen() {
               <Text style={styles.helperText}>Duration auto-set to {durationText} for this scrim type.</Text>
             </View>
 
-            {/* Invite opponent */}
-            <View style={styles.field}>
-              <Text style={styles.label}>Invite opponent</Text>
-
-              {invitedTeam ? (
-                <View style={styles.invitedPill}>
-                  <Text style={styles.invitedText}>
-                    {invitedTeam.name} {invitedTeam.tag ? `(${invitedTeam.tag})` : ''}
-                  </Text>
-                  <Pressable onPress={() => setInvitedTeam(null)} hitSlop={10}>
-                    <Ionicons name="close-circle" size={18} color="#9ca3af" />
-                  </Pressable>
+            {/* Who gets the slot (challenges already go to one team) */}
+            {!invitedTeam ? (
+              <View style={styles.field}>
+                <Text style={styles.label}>Who Gets It</Text>
+                <View style={styles.pillRow}>
+                  {[
+                    { value: false, label: 'First to accept' },
+                    { value: true, label: 'I pick (host approval)' },
+                  ].map((opt) => {
+                    const selected = requiresApproval === opt.value;
+                    return (
+                      <Pressable
+                        key={opt.label}
+                        onPress={() => setRequiresApproval(opt.value)}
+                        style={[styles.pill, selected && styles.pillSelected]}
+                      >
+                        <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{opt.label}</Text>
+                      </Pressable>
+                    );
+                  })}
                 </View>
-              ) : (
-                <>
-                  <View style={styles.searchRow}>
-                    <TextInput
-                      value={inviteQuery}
-                      onChangeText={(v) => {
-                        setInviteQuery(v);
-                        searchTeams(v);
-                      }}
-                      placeholder="Search team name…"
-                      placeholderTextColor="#6b7280"
-                      style={[styles.input, { flex: 1 }]}
-                    />
-                    {inviteLoading ? <ActivityIndicator /> : null}
+                <Text style={styles.helperText}>
+                  {requiresApproval
+                    ? 'Teams ask to play; you compare their region, tier and record, then pick one.'
+                    : 'The first team to accept gets the scrim.'}
+                </Text>
+              </View>
+            ) : null}
+
+            {/* Challenge a team */}
+            {!repeats && !multiSlot ? (
+              <View style={styles.field}>
+                <Text style={styles.label}>Challenge a team</Text>
+
+                {invitedTeam ? (
+                  <View style={styles.invitedPill}>
+                    <Text style={styles.invitedText}>
+                      {invitedTeam.name} {invitedTeam.tag ? `(${invitedTeam.tag})` : ''}
+                    </Text>
+                    <Pressable onPress={() => setInvitedTeam(null)} hitSlop={10}>
+                      <Ionicons name="close-circle" size={18} color="#9ca3af" />
+                    </Pressable>
                   </View>
-
-                  {inviteResults.length > 0 ? (
-                    <View style={styles.resultsBox}>
-                      {inviteResults.map((t) => (
-                        <Pressable
-                          key={t.id}
-                          onPress={() => {
-                            setInvitedTeam(t);
-                            setInviteQuery('');
-                            setInviteResults([]);
-                          }}
-                          style={({ pressed }) => [styles.resultRow, pressed && { opacity: 0.9 }]}
-                        >
-                          <Text style={styles.resultName}>
-                            {t.name} {t.tag ? `(${t.tag})` : ''}
-                          </Text>
-                          <Ionicons name="add" size={16} color="#60a5fa" />
-                        </Pressable>
-                      ))}
+                ) : (
+                  <>
+                    <View style={styles.searchRow}>
+                      <TextInput
+                        value={inviteQuery}
+                        onChangeText={(v) => {
+                          setInviteQuery(v);
+                          searchTeams(v);
+                        }}
+                        placeholder="Search team name…"
+                        placeholderTextColor="#6b7280"
+                        style={[styles.input, { flex: 1 }]}
+                      />
+                      {inviteLoading ? <ActivityIndicator /> : null}
                     </View>
-                  ) : null}
 
-                  <Text style={styles.helperText}>Optional — leave blank for open scrims.</Text>
-                </>
-              )}
-            </View>
+                    {inviteResults.length > 0 ? (
+                      <View style={styles.resultsBox}>
+                        {inviteResults.map((t) => (
+                          <Pressable
+                            key={t.id}
+                            onPress={() => {
+                              setInvitedTeam(t);
+                              setInviteQuery('');
+                              setInviteResults([]);
+                            }}
+                            style={({ pressed }) => [styles.resultRow, pressed && { opacity: 0.9 }]}
+                          >
+                            <Text style={styles.resultName}>
+                              {t.name} {t.tag ? `(${t.tag})` : ''}
+                            </Text>
+                            <Ionicons name="add" size={16} color="#60a5fa" />
+                          </Pressable>
+                        ))}
+                      </View>
+                    ) : null}
+
+                    <Text style={styles.helperText}>
+                      Optional — they’ll be asked to accept, decline or propose a new time. Leave blank to post to
+                      Scrim Center.
+                    </Text>
+                  </>
+                )}
+              </View>
+            ) : null}
 
             {/* Notes */}
             <View style={styles.field}>
@@ -455,7 +711,11 @@ export default function CreateScrimScreen() {
               </Pressable>
 
               <Pressable disabled={posting} onPress={submit} style={[styles.btnPrimary, posting && { opacity: 0.7 }]}>
-                {posting ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Post</Text>}
+                {posting ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.btnPrimaryText}>{repeats && !invitedTeam ? 'Post Series' : multiSlot && !invitedTeam ? 'Post Block' : 'Post'}</Text>
+                )}
               </Pressable>
             </View>
           </View>
@@ -556,6 +816,9 @@ const styles = StyleSheet.create({
   pillTextSelected: { color: '#60a5fa' },
 
   searchRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+
+  addSlotBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 6 },
+  addSlotText: { color: '#60a5fa', fontWeight: '900' },
   resultsBox: {
     backgroundColor: '#0b1220',
     borderWidth: 1,
@@ -8,32 +8,16 @@ import {
   StyleSheet,
   ActivityIndicator,
   Alert,
+  ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
 import { supabase } from '../lib/supabase';
-
-type RegionId =
-  | 'pacific-nw'
-  | 'pacific-sw'
-  | 'central-north'
-  | 'central-south'
-  | 'atlantic-north'
-  | 'atlantic-south';
-
-const REGION_LABELS: Record<RegionId, string> = {
-  'pacific-nw': 'Pacific Northwest',
-  'pacific-sw': 'Pacific Southwest',
-  'central-north': 'Central North',
-  'central-south': 'Central South',
-  'atlantic-north': 'Atlantic North',
-  'atlantic-south': 'Atlantic South',
-};
-
-const REGION_OPTIONS: { id: RegionId; label: string }[] = Object.entries(REGION_LABELS).map(([id, label]) => ({
-  id: id as RegionId,
-  label,
-}));
+import { repo } from '../lib/repo';
+import { useTeamRole } from '../hooks/use-team-role';
+import { teamErrorMessage, type TeamOwnershipTransferRow, type TeamRow } from '../../shared/data';
+import { normalizeRegion, REGION_OPTIONS, type RegionId } from '../../shared/regions';
+import { teamCan } from '../../shared/team-roles';
 
 function guessTZ() {
   try {
@@ -43,15 +27,6 @@ function guessTZ() {
   }
 }
 
-type TeamRow = {
-  id: string;
-  owner_id: string;
-  name: string;
-  tag: string | null;
-  region: string;
-  time_zone: string | null;
-};
-
 export default function CreateTeamScreen() {
   const params = useLocalSearchParams<{ id?: string }>();
   const teamIdParam = typeof params?.id === 'string' ? params.id : null;
@@ -69,6 +44,11 @@ export default function CreateTeamScreen() {
   const [userId, setUserId] = useState<string | null>(null);
   const [loadedTeam, setLoadedTeam] = useState<TeamRow | null>(null);
 
+  // Ownership transfer (owner only)
+  const [teammates, setTeammates] = useState<{ id: string; name: string }[]>([]);
+  const [pendingTransfer, setPendingTransfer] = useState<TeamOwnershipTransferRow | null>(null);
+  const [transferTo, setTransferTo] = useState<string | null>(null);
+
   const canSubmit = useMemo(() => {
     return teamName.trim().length >= 3 && teamTag.trim().length >= 2 && !!region && !!timeZone;
   }, [teamName, teamTag, region, timeZone]);
@@ -79,6 +59,10 @@ export default function CreateTeamScreen() {
     return loadedTeam.owner_id === userId;
   }, [isEditMode, loadedTeam, userId]);
 
+  // Owners and managers edit the details; deleting stays with the owner
+  const myRole = useTeamRole(teamIdParam);
+  const canEdit = isOwner || teamCan(myRole, 'edit_team');
+
   useEffect(() => {
     let mounted = true;
 
@@ -101,25 +85,16 @@ export default function CreateTeamScreen() {
         setUserId(user.id);
 
         // Default region from Profile if available
-        const { data: p, error: pErr } = await supabase
-          .from('Profiles')
-          .select('primary_region')
-          .eq('id', user.id)
-          .maybeSingle();
-
-        if (!pErr && p?.primary_region && !isEditMode) {
-          setRegion(p.primary_region as RegionId);
+        const p = await repo.profiles.getById(user.id).catch(() => null);
+
+        const profileRegion = normalizeRegion(p?.primary_region);
+        if (profileRegion && !isEditMode) {
+          setRegion(profileRegion);
         }
 
         // If editing, load the team and prefill fields
         if (isEditMode && teamIdParam) {
-          const { data: t, error: tErr } = await supabase
-            .from('teams')
-            .select('id, owner_id, name, tag, region, time_zone')
-            .eq('id', teamIdParam)
-            .maybeSingle();
-
-          if (tErr) throw tErr;
+          const t = await repo.teams.getById(teamIdParam);
 
           if (!t) {
             // team not found or not accessible via RLS
@@ -133,12 +108,31 @@ export default function CreateTeamScreen() {
           }
 
           if (mounted) {
-            setLoadedTeam(t as any);
+            setLoadedTeam(t);
             setTeamName(t.name ?? '');
             setTeamTag((t.tag ?? '').toString());
-            setRegion((t.region ?? 'atlantic-north') as RegionId);
+            setRegion(normalizeRegion(t.region) ?? 'atlantic-north');
             setTimeZone((t.time_zone ?? guessTZ()).toString());
           }
+
+          if (t.owner_id === user.id) {
+            const [members, pending] = await Promise.all([
+              repo.teamMembers.listByTeam(t.id, { statuses: ['active'] }),
+              repo.teamTransfers.findPendingForTeam(t.id),
+            ]);
+            const others = members.filter((m) => m.user_id !== user.id).map((m) => m.user_id);
+            const profiles = await repo.profiles.listByIds(others);
+
+            if (mounted) {
+              setTeammates(
+                others.map((id) => {
+                  const p = profiles.find((row) => row.id === id);
+                  return { id, name: p?.username?.trim() || (p?.handle?.trim() ? `@${p.handle.replace(/^@/, '')}` : 'Player') };
+                })
+              );
+              setPendingTransfer(pending);
+            }
+          }
         }
 
         if (mounted) setLoading(false);
@@ -168,37 +162,26 @@ export default function CreateTeamScreen() {
       setSaving(true);
 
       // 1) Create team
-      const { data: createdTeam, error: teamErr } = await supabase
-        .from('teams')
-        .insert({
-          owner_id: userId,
-          name: teamName.trim(),
-          tag: teamTag.trim().toUpperCase(),
-          region,
-          time_zone: timeZone,
-        })
-        .select('id')
-        .single();
-
-      if (teamErr) throw teamErr;
-
-      const teamId = createdTeam.id as string;
-
-      // 2) Ensure owner is a member
-      const { error: memberErr } = await supabase.from('team_members').insert({
-        team_id: teamId,
-        user_id: userId,
-        status: 'active',
+      const createdTeam = await repo.teams.create(userId, {
+        name: teamName.trim(),
+        tag: teamTag.trim().toUpperCase(),
+        region,
+        time_zone: timeZone,
       });
 
-      if (memberErr && !String(memberErr.message || '').toLowerCase().includes('duplicate')) {
-        console.log('[CreateTeam] member insert error:', memberErr);
+      const teamId = createdTeam.id;
+
+      // 2) Ensure owner is a member
+      try {
+        await repo.teamMembers.add(teamId, userId, 'active', 'owner');
+      } catch (memberErr: any) {
+        if (!String(memberErr?.message || '').toLowerCase().includes('duplicate')) {
+          console.log('[CreateTeam] member insert error:', memberErr);
+        }
       }
 
       // 3) Set profile primary team
-      const { error: profErr } = await supabase.from('Profiles').update({ primary_team_id: teamId }).eq('id', userId);
-
-      if (profErr) throw profErr;
+      await repo.profiles.update(userId, { primary_team_id: teamId });
 
       // 4) Go to My Team tab
       router.replace('/(tabs)/my_team');
@@ -225,28 +208,20 @@ export default function CreateTeamScreen() {
     try {
       setSaving(true);
 
-      // Only owner can update team (safety check in query)
-      const { data: updated, error } = await supabase
-        .from('teams')
-        .update({
-          name: teamName.trim(),
-          tag: teamTag.trim().toUpperCase(),
-          region,
-          time_zone: timeZone,
-        })
-        .eq('id', teamIdParam)
-        .eq('owner_id', userId)
-        .select('id, owner_id, name, tag, region, time_zone')
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (!updated?.id) {
-        Alert.alert('Not allowed', 'Only the team owner can edit this team.');
+      // Policies only let the owner and managers through
+      const updated = await repo.teams.update(teamIdParam, {
+        name: teamName.trim(),
+        tag: teamTag.trim().toUpperCase(),
+        region,
+        time_zone: timeZone,
+      });
+
+      if (!updated) {
+        Alert.alert('Not allowed', 'Only the team owner or a manager can edit this team.');
         return;
       }
 
-      setLoadedTeam(updated as any);
+      setLoadedTeam(updated);
       Alert.alert('Saved', 'Team updated successfully.');
       router.back();
     } catch (e: any) {
@@ -273,23 +248,15 @@ export default function CreateTeamScreen() {
               setSaving(true);
 
               // Delete ONLY if current user is owner (safety)
-              const { data: deleted, error: delErr } = await supabase
-                .from('teams')
-                .delete()
-                .eq('id', teamIdParam)
-                .eq('owner_id', userId)
-                .select('id')
-                .maybeSingle();
+              const deleted = await repo.teams.deleteOwned(teamIdParam, userId);
 
-              if (delErr) throw delErr;
-
-              if (!deleted?.id) {
+              if (!deleted) {
                 Alert.alert('Not allowed', 'Only the team owner can delete this team.');
                 return;
               }
 
               // Clear *this user's* primary team if it was this team
-              await supabase.from('Profiles').update({ primary_team_id: null }).eq('id', userId).eq('primary_team_id', teamIdParam);
+              await repo.profiles.clearPrimaryTeam(userId, teamIdParam);
 
               Alert.alert('Deleted', 'Team deleted.');
               router.replace('/teams');
@@ -305,6 +272,52 @@ export default function CreateTeamScreen() {
     );
   };
 
+  const nameOf = (id: string) => teammates.find((m) => m.id === id)?.name ?? 'your teammate';
+
+  const onOfferTransfer = () => {
+    if (!teamIdParam || !transferTo) return;
+
+    const name = nameOf(transferTo);
+
+    Alert.alert(
+      'Transfer ownership?',
+      `${name} will own the team once they accept. You’ll stay on as a player.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send Offer',
+          onPress: async () => {
+            try {
+              setSaving(true);
+              setPendingTransfer(await repo.teamTransfers.offer(teamIdParam, transferTo));
+              setTransferTo(null);
+            } catch (e: any) {
+              console.log('[CreateTeam] transfer offer error:', e);
+              Alert.alert('Could not send offer', teamErrorMessage(e, 'Please try again.'));
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const onWithdrawTransfer = async () => {
+    if (!pendingTransfer) return;
+
+    try {
+      setSaving(true);
+      await repo.teamTransfers.cancel(pendingTransfer.id);
+      setPendingTransfer(null);
+    } catch (e: any) {
+      console.log('[CreateTeam] transfer withdraw error:', e);
+      Alert.alert('Could not withdraw', teamErrorMessage(e, 'Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const screenTitle = isEditMode ? 'Team Settings' : 'Create Team';
   const screenSubtitle = isEditMode ? 'Edit your team details' : 'Set up your team to start scrimming';
 
@@ -327,82 +340,136 @@ export default function CreateTeamScreen() {
             <Text style={styles.muted}>Loading…</Text>
           </View>
         ) : (
-          <View style={styles.card}>
-            <Text style={styles.label}>Team Name</Text>
-            <TextInput
-              value={teamName}
-              onChangeText={setTeamName}
-              placeholder="e.g. Pinnacle Academy"
-              placeholderTextColor="#6b7280"
-              style={styles.input}
-              autoCapitalize="words"
-            />
-
-            <Text style={[styles.label, { marginTop: 12 }]}>Team Tag</Text>
-            <TextInput
-              value={teamTag}
-              onChangeText={setTeamTag}
-              placeholder="e.g. PNC"
-              placeholderTextColor="#6b7280"
-              style={styles.input}
-              autoCapitalize="characters"
-              maxLength={6}
-            />
-
-            <Text style={[styles.label, { marginTop: 12 }]}>Region</Text>
-            <View style={styles.selectBox}>
-              {REGION_OPTIONS.map((opt) => {
-                const selected = opt.id === region;
-                return (
-                  <Pressable
-                    key={opt.id}
-                    onPress={() => setRegion(opt.id)}
-                    style={[styles.pill, selected && styles.pillSelected]}
-                  >
-                    <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{opt.label}</Text>
-                  </Pressable>
-                );
-              })}
-            </View>
-
-            <Text style={[styles.label, { marginTop: 12 }]}>Time Zone</Text>
-            <TextInput
-              value={timeZone}
-              onChangeText={setTimeZone}
-              placeholder="America/New_York"
-              placeholderTextColor="#6b7280"
-              style={styles.input}
-              autoCapitalize="none"
-              autoCorrect={false}
-            />
-
-            {!isEditMode ? (
-              <Pressable
-                disabled={!canSubmit || saving}
-                onPress={onCreate}
-                style={[styles.primaryBtn, (!canSubmit || saving) && { opacity: 0.6 }]}
-              >
-                {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryBtnText}>Create Team</Text>}
-              </Pressable>
-            ) : (
-              <>
+          <ScrollView contentContainerStyle={{ paddingBottom: 8 }}>
+            <View style={styles.card}>
+              <Text style={styles.label}>Team Name</Text>
+              <TextInput
+                value={teamName}
+                onChangeText={setTeamName}
+                placeholder="e.g. Pinnacle Academy"
+                placeholderTextColor="#6b7280"
+                style={styles.input}
+                autoCapitalize="words"
+              />
+
+              <Text style={[styles.label, { marginTop: 12 }]}>Team Tag</Text>
+              <TextInput
+                value={teamTag}
+                onChangeText={setTeamTag}
+                placeholder="e.g. PNC"
+                placeholderTextColor="#6b7280"
+                style={styles.input}
+                autoCapitalize="characters"
+                maxLength={6}
+              />
+
+              <Text style={[styles.label, { marginTop: 12 }]}>Region</Text>
+              <View style={styles.selectBox}>
+                {REGION_OPTIONS.map((opt) => {
+                  const selected = opt.id === region;
+                  return (
+                    <Pressable
+                      key={opt.id}
+                      onPress={() => setRegion(opt.id)}
+                      style={[styles.pill, selected && styles.pillSelected]}
+                    >
+                      <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{opt.label}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <Text style={[styles.label, { marginTop: 12 }]}>Time Zone</Text>
+              <TextInput
+                value={timeZone}
+                onChangeText={setTimeZone}
+                placeholder="America/New_York"
+                placeholderTextColor="#6b7280"
+                style={styles.input}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              {!isEditMode ? (
                 <Pressable
                   disabled={!canSubmit || saving}
-                  onPress={onSaveChanges}
+                  onPress={onCreate}
                   style={[styles.primaryBtn, (!canSubmit || saving) && { opacity: 0.6 }]}
                 >
-                  {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryBtnText}>Save Changes</Text>}
+                  {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryBtnText}>Create Team</Text>}
                 </Pressable>
-
-                {/* Delete Team (Owner only) */}
-                {isOwner ? (
-                  <Pressable disabled={saving} onPress={onDeleteTeam} style={[styles.dangerBtn, saving && { opacity: 0.7 }]}>
-                    <Text style={styles.dangerBtnText}>Delete Team</Text>
-                  </Pressable>
-                ) : null}
-              </>
-            )}
-          </View>
+              ) : (
+                <>
+                  {canEdit ? (
+                    <Pressable
+                      disabled={!canSubmit || saving}
+                      onPress={onSaveChanges}
+                      style={[styles.primaryBtn, (!canSubmit || saving) && { opacity: 0.6 }]}
+                    >
+                      {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryBtnText}>Save Changes</Text>}
+                    </Pressable>
+                  ) : (
+                    <Text style={[styles.muted, { marginTop: 16 }]}>Only the owner or a manager can edit this team.</Text>
+                  )}
+
+                  {/* Transfer Ownership (Owner only) */}
+                  {isOwner ? (
+                    <View style={styles.section}>
+                      <Text style={styles.label}>Transfer Ownership</Text>
+
+                      {pendingTransfer ? (
+                        <>
+                          <Text style={styles.muted}>
+                            Waiting for {nameOf(pendingTransfer.to_user_id)} to accept.
+                          </Text>
+                          <Pressable
+                            disabled={saving}
+                            onPress={onWithdrawTransfer}
+                            style={[styles.secondaryBtn, saving && { opacity: 0.7 }]}
+                          >
+                            <Text style={styles.secondaryBtnText}>Withdraw Offer</Text>
+                          </Pressable>
+                        </>
+                      ) : teammates.length === 0 ? (
+                        <Text style={styles.muted}>Ownership can only go to an active member. Invite a teammate first.</Text>
+                      ) : (
+                        <>
+                          <View style={styles.selectBox}>
+                            {teammates.map((m) => {
+                              const selected = m.id === transferTo;
+                              return (
+                                <Pressable
+                                  key={m.id}
+                                  onPress={() => setTransferTo(selected ? null : m.id)}
+                                  style={[styles.pill, selected && styles.pillSelected]}
+                                >
+                                  <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{m.name}</Text>
+                                </Pressable>
+                              );
+                            })}
+                          </View>
+                          <Pressable
+                            disabled={!transferTo || saving}
+                            onPress={onOfferTransfer}
+                            style={[styles.secondaryBtn, (!transferTo || saving) && { opacity: 0.6 }]}
+                          >
+                            <Text style={styles.secondaryBtnText}>Offer Ownership</Text>
+                          </Pressable>
+                        </>
+                      )}
+                    </View>
+                  ) : null}
+
+                  {/* Delete Team (Owner only) */}
+                  {isOwner ? (
+                    <Pressable disabled={saving} onPress={onDeleteTeam} style={[styles.dangerBtn, saving && { opacity: 0.7 }]}>
+                      <Text style={styles.dangerBtnText}>Delete Team</Text>
+                    </Pressable>
+                  ) : null}
+                </>
+              )}
+            </View>
+          </ScrollView>
         )}
 
         <Text style={styles.footer}>Pinnacle — Passion. Potential. Performance.</Text>
@@ -478,6 +545,19 @@ const styles = StyleSheet.create({
   },
   primaryBtnText: { color: '#fff', fontWeight: '900' },
 
+  section: { marginTop: 18, paddingTop: 14, borderTopWidth: 1, borderTopColor: '#27272a' },
+
+  secondaryBtn: {
+    marginTop: 12,
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryBtnText: { color: '#e5e7eb', fontWeight: '900' },
+
   dangerBtn: {
     marginTop: 10,
     backgroundColor: 'rgba(248,113,113,0.18)',
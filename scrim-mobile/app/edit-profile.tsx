@@ -12,15 +12,9 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
 
 
-type ProfileRow = {
-  id: string;
-  username: string | null;
-  handle: string | null;
-  email: string | null;
-};
-
 export default function EditProfileScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -52,13 +46,7 @@ export default function EditProfileScreen() {
 
       const authEmail = user.email ?? '';
 
-      const { data: profile, error: pErr } = await supabase
-        .from('Profiles')
-        .select('id, username, handle, email')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (pErr) throw pErr;
+      const profile = await repo.profiles.getById(user.id);
 
       setEmail((profile?.email ?? authEmail) || '');
       setUsername(profile?.username ?? '');
@@ -99,33 +87,20 @@ export default function EditProfileScreen() {
         return;
       }
 
-      const { data: existing, error: exErr } = await supabase
-        .from('Profiles')
-        .select('id')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (exErr) throw exErr;
+      const existing = await repo.profiles.getById(user.id);
 
       if (existing?.id) {
-        const { error: upErr } = await supabase
-          .from('Profiles')
-          .update({
-            username: cleanedUsername,
-            handle: cleanedHandle,
-          })
-          .eq('id', user.id);
-
-        if (upErr) throw upErr;
+        await repo.profiles.update(user.id, {
+          username: cleanedUsername,
+          handle: cleanedHandle,
+        });
       } else {
-        const { error: insErr } = await supabase.from('Profiles').insert({
+        await repo.profiles.insert({
           id: user.id,
           email: user.email ?? email ?? null,
           username: cleanedUsername,
           handle: cleanedHandle,
         });
-
-        if (insErr) throw insErr;
       }
 
       router.back();
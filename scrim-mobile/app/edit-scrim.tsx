@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SafeAreaView } from 'react-native-safe-area-context'
+import {
+  ScrollView,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { useLocalSearchParams, router } from 'expo-router';
+import { repo } from '../lib/repo';
+import { scrimErrorMessage, type ScrimOccurrenceScope, type ScrimWithTeams } from '../../shared/data';
+import { SCRIM_NOTES_MAX, SCRIM_TIERS, type ScrimTier } from '../../shared/scrim-types';
+import { isEditableScrim, seriesSummary } from '../../shared/scrim-series';
+
+const DURATION_OPTIONS = [60, 90, 120, 150, 180];
+
+function minutesLabel(min: number) {
+  const hrs = min / 60;
+  if (Number.isInteger(hrs)) return `${hrs} hour${hrs === 1 ? '' : 's'}`;
+  return `${hrs} hours`;
+}
+
+// Host edit for an open slot; series occurrences can carry the change to every later one
+export default function EditScrimScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const scrimId = typeof id === 'string' ? id : null;
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [scrim, setScrim] = useState<ScrimWithTeams | null>(null);
+
+  const [startDate, setStartDate] = useState<Date>(new Date());
+  const [dateModalOpen, setDateModalOpen] = useState(false);
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [tier, setTier] = useState<'Any' | ScrimTier>('Any');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    let mounted = true;
+
+    const init = async () => {
+      try {
+        if (!scrimId) throw new Error('Missing scrim id.');
+
+        const data = await repo.scrims.getById(scrimId);
+        if (!data) throw new Error('Scrim not found.');
+        if (!mounted) return;
+
+        setScrim(data);
+        setStartDate(new Date(data.start_time));
+        setDurationMinutes(
+          data.duration_minutes ?? Math.round((new Date(data.end_time).getTime() - new Date(data.start_time).getTime()) / 60000)
+        );
+        setTier((SCRIM_TIERS as readonly string[]).includes(data.tier ?? '') ? (data.tier as ScrimTier) : 'Any');
+        setNotes(data.notes ?? '');
+      } catch (e: any) {
+        console.log('[EditScrim] load error:', e);
+        if (mounted) setErrorMsg(e?.message ?? 'Failed to load scrim.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    init();
+    return () => {
+      mounted = false;
+    };
+  }, [scrimId]);
+
+  const durationOptions = useMemo(
+    () => (DURATION_OPTIONS.includes(durationMinutes) ? DURATION_OPTIONS : [...DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b)),
+    [durationMinutes]
+  );
+
+  const displayDate = useMemo(() => {
+    return startDate.toLocaleString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  }, [startDate]);
+
+  const save = async (scope: ScrimOccurrenceScope) => {
+    if (!scrim) return;
+
+    try {
+      setSaving(true);
+      setErrorMsg(null);
+
+      const changed = await repo.scrimSeries.editOccurrences(scrim.id, scope, {
+        startTime: startDate.toISOString(),
+        durationMinutes,
+        tier: tier === 'Any' ? null : tier,
+        notes,
+      });
+
+      if (scope === 'future') {
+        Alert.alert('Series updated', `${changed} scrim${changed === 1 ? '' : 's'} changed. Slots another team already took keep their time.`);
+      }
+
+      router.back();
+    } catch (e: any) {
+      console.log('[EditScrim] save error:', e);
+      setErrorMsg(scrimErrorMessage(e, 'Failed to save changes.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submit = () => {
+    Keyboard.dismiss();
+
+    if (startDate.getTime() <= Date.now()) {
+      setErrorMsg('Pick a start time in the future.');
+      return;
+    }
+    if (notes.trim().length > SCRIM_NOTES_MAX) {
+      setErrorMsg(`Notes must be ${SCRIM_NOTES_MAX} characters or fewer.`);
+      return;
+    }
+
+    if (!scrim?.series_id) {
+      save('this');
+      return;
+    }
+
+    Alert.alert('Edit recurring scrim', 'Apply these changes to this scrim only, or to it and every later one in the series?', [
+      { text: 'Back', style: 'cancel' },
+      { text: 'Only this scrim', onPress: () => save('this') },
+      { text: 'This and all future', onPress: () => save('future') },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={styles.topRow}>
+          <Pressable onPress={() => router.back()} style={styles.iconBtn} hitSlop={10}>
+            <Ionicons name="chevron-back" size={20} color="#e5e7eb" />
+          </Pressable>
+
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title}>Edit Scrim</Text>
+            <Text style={styles.subtitle}>{scrim?.series ? seriesSummary(scrim.series) : 'Change time, length, tier or notes'}</Text>
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+            <Text style={styles.mutedText}>Loading…</Text>
+          </View>
+        ) : !scrim ? (
+          <View style={styles.card}>
+            <Text style={styles.blockText}>Could not load scrim.</Text>
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+          </View>
+        ) : !isEditableScrim(scrim) ? (
+          <View style={styles.card}>
+            <Text style={styles.blockTitle}>This scrim can’t be edited</Text>
+            <Text style={styles.blockText}>Only open slots that haven’t started can be edited.</Text>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            {/* Date + Time */}
+            <View style={styles.field}>
+              <Text style={styles.label}>Date & Time</Text>
+
+              <Pressable onPress={() => setDateModalOpen(true)} style={styles.selectBtn}>
+                <Ionicons name="calendar-outline" size={16} color="#9ca3af" />
+                <Text style={styles.selectBtnText}>{displayDate}</Text>
+                <Ionicons name="chevron-down" size={16} color="#64748b" />
+              </Pressable>
+
+              <DateTimePickerModal
+                isVisible={dateModalOpen}
+                mode="datetime"
+                date={startDate}
+                onConfirm={(d) => {
+                  setDateModalOpen(false);
+                  setStartDate(d);
+                }}
+                onCancel={() => setDateModalOpen(false)}
+              />
+
+              {scrim.series ? (
+                <Text style={styles.helperText}>
+                  For later scrims, moving this one a day moves each of them a day too, at the new time.
+                </Text>
+              ) : null}
+            </View>
+
+            {/* Duration */}
+            <View style={styles.field}>
+              <Text style={styles.label}>Duration</Text>
+              <View style={styles.pillRow}>
+                {durationOptions.map((m) => {
+                  const selected = durationMinutes === m;
+                  return (
+                    <Pressable
+                      key={m}
+                      onPress={() => setDurationMinutes(m)}
+                      style={[styles.pill, selected && styles.pillSelected]}
+                    >
+                      <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{minutesLabel(m)}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Tier */}
+            <View style={styles.field}>
+              <Text style={styles.label}>Preferred Tier</Text>
+              <View style={styles.pillRow}>
+                {(['Any', ...SCRIM_TIERS] as const).map((t) => {
+                  const selected = tier === t;
+                  return (
+                    <Pressable key={t} onPress={() => setTier(t)} style={[styles.pill, selected && styles.pillSelected]}>
+                      <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{t}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Notes */}
+            <View style={styles.field}>
+              <Text style={styles.label}>Notes (optional)</Text>
+              <TextInput
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Any requirements, Discord info, etc…"
+                placeholderTextColor="#6b7280"
+                style={[styles.input, styles.textarea]}
+                multiline
+              />
+            </View>
+
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+            <View style={styles.actionsRow}>
+              <Pressable disabled={saving} onPress={() => router.back()} style={[styles.btnGhost, saving && { opacity: 0.7 }]}>
+                <Text style={styles.btnGhostText}>Cancel</Text>
+              </Pressable>
+
+              <Pressable disabled={saving} onPress={submit} style={[styles.btnPrimary, saving && { opacity: 0.7 }]}>
+                {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Save</Text>}
+              </Pressable>
+            </View>
+          </View>
+        )}
+
+        <Text style={styles.footer}>Pinnacle — Passion. Potential. Performance.</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: '#0a0a0b' },
+  container: { padding: 16, paddingBottom: 28 },
+
+  topRow: { flexDirection: 'row', alignItems: 'center', gap: 10, marginBottom: 14 },
+  title: { color: '#ffffff', fontSize: 22, fontWeight: '900' },
+  subtitle: { color: '#9ca3af', marginTop: 2 },
+
+  iconBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  center: { alignItems: 'center', justifyContent: 'center', paddingVertical: 28 },
+  mutedText: { color: '#9ca3af', marginTop: 10 },
+
+  card: {
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    gap: 14,
+  },
+
+  blockTitle: { color: '#fff', fontSize: 16, fontWeight: '900' },
+  blockText: { color: '#9ca3af', marginTop: 8, lineHeight: 18 },
+
+  field: { gap: 8 },
+  label: { color: '#e5e7eb', fontSize: 13, fontWeight: '800' },
+
+  selectBtn: {
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  selectBtnText: { color: '#ffffff', fontWeight: '800', flex: 1 },
+
+  input: {
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  textarea: { minHeight: 88, textAlignVertical: 'top' },
+
+  helperText: { color: '#94a3b8', fontSize: 12 },
+
+  pillRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  pill: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  pillSelected: { borderColor: '#3b82f6', backgroundColor: 'rgba(59,130,246,0.15)' },
+  pillText: { color: '#9ca3af', fontSize: 12, fontWeight: '800' },
+  pillTextSelected: { color: '#60a5fa' },
+
+  actionsRow: { flexDirection: 'row', gap: 10, marginTop: 6 },
+
+  btnGhost: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  btnGhostText: { color: '#e5e7eb', fontWeight: '900' },
+
+  btnPrimary: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#3b82f6',
+    justifyContent: 'center',
+  },
+  btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
+
+  error: { color: '#fca5a5', fontSize: 12, marginTop: 10 },
+
+  footer: { color: '#64748b', fontSize: 12, textAlign: 'center', marginTop: 18 },
+});
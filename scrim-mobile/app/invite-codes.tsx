@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
+import type { TeamInviteCodeRow, TeamRow } from '../../shared/data';
+import {
+  DEFAULT_INVITE_EXPIRY,
+  INVITE_CODE_USE_OPTIONS,
+  INVITE_EXPIRY_OPTIONS,
+  inviteCodeLink,
+  inviteCodeStatus,
+  inviteCodeUsesLabel,
+  inviteExpiresAt,
+  inviteExpiryLabel,
+} from '../../shared/invites';
+import { teamCan } from '../../shared/team-roles';
+
+// Join codes for the primary team, opened from My Team. Anyone with the code or
+// link can join — no account lookup needed.
+export default function InviteCodesScreen() {
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [team, setTeam] = useState<TeamRow | null>(null);
+  const [canInvite, setCanInvite] = useState(false);
+  const [codes, setCodes] = useState<TeamInviteCodeRow[]>([]);
+
+  const [expiryHours, setExpiryHours] = useState<number | null>(INVITE_EXPIRY_OPTIONS[DEFAULT_INVITE_EXPIRY].hours);
+  const [maxUses, setMaxUses] = useState<number | null>(INVITE_CODE_USE_OPTIONS[1].uses);
+
+  const [creating, setCreating] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+
+      const { data: sessionData, error: sErr } = await supabase.auth.getSession();
+      if (sErr) throw sErr;
+
+      const user = sessionData.session?.user;
+      setUserId(user?.id ?? null);
+
+      const teamId = user ? await repo.profiles.getPrimaryTeamId(user.id) : null;
+      if (!user || !teamId) {
+        setTeam(null);
+        setCanInvite(false);
+        setCodes([]);
+        setLoading(false);
+        return;
+      }
+
+      const [tr, role] = await Promise.all([repo.teams.getById(teamId), repo.teamMembers.getRole(teamId, user.id)]);
+      setTeam(tr);
+
+      const allowed = teamCan(role, 'invite_members');
+      setCanInvite(allowed);
+      setCodes(allowed ? await repo.teamInviteCodes.listForTeam(teamId) : []);
+
+      setLoading(false);
+    } catch (e: any) {
+      console.log('[InviteCodes] load error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load invite codes.');
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Usable codes first, newest first within each group
+  const sortedCodes = useMemo(() => {
+    const now = new Date();
+    return [...codes].sort(
+      (a, b) => Number(inviteCodeStatus(a, now) !== 'active') - Number(inviteCodeStatus(b, now) !== 'active')
+    );
+  }, [codes]);
+
+  const create = async () => {
+    if (!team || !userId) return;
+
+    try {
+      setCreating(true);
+      setErrorMsg(null);
+
+      const row = await repo.teamInviteCodes.create(team.id, userId, {
+        expiresAt: inviteExpiresAt(expiryHours),
+        maxUses,
+      });
+      setCodes((prev) => [row, ...prev]);
+    } catch (e: any) {
+      console.log('[InviteCodes] create error:', e);
+      setErrorMsg(e?.message ?? 'Could not create invite code.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const share = async (code: TeamInviteCodeRow) => {
+    try {
+      await Share.share({
+        message: `Join ${team?.name ?? 'my team'} on Scrim Center: ${inviteCodeLink(code.code)}`,
+      });
+    } catch (e) {
+      console.log('[InviteCodes] share error:', e);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => router.back()}
+          hitSlop={10}
+          style={({ pressed }) => [styles.iconButton, pressed && styles.iconButtonPressed]}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={20} color="#94a3b8" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Invite Links</Text>
+
+        <View style={{ width: 36, height: 36 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator />
+          <Text style={styles.muted}>Loading…</Text>
+        </View>
+      ) : !team || !canInvite ? (
+        <View style={styles.container}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{!team ? 'No primary team' : 'Invites are for team staff'}</Text>
+            <Text style={styles.muted}>
+              {!team
+                ? 'Set a primary team first (Profile → Teams).'
+                : 'Only the owner, captains and managers can create invite links.'}
+            </Text>
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+          </View>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.container}>
+          {/* New code */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>New invite for {team.name}</Text>
+            <Text style={styles.muted}>
+              Share the link or code with players who aren’t on the app yet, or whose handle you don’t know.
+            </Text>
+
+            <Text style={styles.label}>Expires after</Text>
+            <View style={styles.pillRow}>
+              {INVITE_EXPIRY_OPTIONS.map((opt) => {
+                const active = expiryHours === opt.hours;
+                return (
+                  <Pressable
+                    key={opt.label}
+                    onPress={() => setExpiryHours(opt.hours)}
+                    style={[styles.pill, active && styles.pillActive]}
+                  >
+                    <Text style={[styles.pillText, active && styles.pillTextActive]}>{opt.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Can be used</Text>
+            <View style={styles.pillRow}>
+              {INVITE_CODE_USE_OPTIONS.map((opt) => {
+                const active = maxUses === opt.uses;
+                return (
+                  <Pressable key={opt.label} onPress={() => setMaxUses(opt.uses)} style={[styles.pill, active && styles.pillActive]}>
+                    <Text style={[styles.pillText, active && styles.pillTextActive]}>{opt.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+            <Pressable
+              onPress={create}
+              disabled={creating}
+              style={({ pressed }) => [styles.primaryBtn, creating && { opacity: 0.6 }, pressed && { opacity: 0.92 }]}
+            >
+              {creating ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="link" size={18} color="#fff" />
+                  <Text style={styles.primaryBtnText}>Create Invite Link</Text>
+                </>
+              )}
+            </Pressable>
+          </View>
+
+          {/* Existing codes */}
+          <Text style={styles.sectionTitle}>Your team’s codes</Text>
+
+          {sortedCodes.length === 0 ? (
+            <Text style={styles.muted}>No invite codes yet.</Text>
+          ) : (
+            sortedCodes.map((c) => {
+              const status = inviteCodeStatus(c);
+              const usable = status === 'active';
+              return (
+                <View key={c.id} style={[styles.codeCard, !usable && { opacity: 0.55 }]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.codeText}>{c.code}</Text>
+                    <Text style={styles.codeMeta}>
+                      {inviteCodeUsesLabel(c)} · {status === 'used_up' ? 'Used up' : inviteExpiryLabel(c)}
+                    </Text>
+                  </View>
+
+                  {usable ? (
+                    <Pressable
+                      onPress={() => share(c)}
+                      style={({ pressed }) => [styles.shareBtn, pressed && { opacity: 0.9 }]}
+                    >
+                      <Ionicons name="share-outline" size={16} color="#60a5fa" />
+                      <Text style={styles.shareBtnText}>Share</Text>
+                    </Pressable>
+                  ) : null}
+                </View>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: '#050814' },
+
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  headerTitle: { flex: 1, color: '#e5e7eb', fontSize: 16, fontWeight: '900' },
+
+  iconButton: {
+    width: 38,
+    height: 38,
+    borderRadius: 999,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  iconButtonPressed: { opacity: 0.85 },
+
+  container: { padding: 16, paddingBottom: 28, gap: 10 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  muted: { color: '#94a3b8', fontSize: 12, lineHeight: 16 },
+
+  card: {
+    backgroundColor: '#0b1220',
+    borderRadius: 18,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#111827',
+    gap: 8,
+  },
+  cardTitle: { color: '#e5e7eb', fontSize: 15, fontWeight: '900' },
+
+  label: { color: '#94a3b8', fontSize: 12, fontWeight: '800', marginTop: 8 },
+  pillRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: '#050814',
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  pillActive: { backgroundColor: 'rgba(59,130,246,0.16)', borderColor: 'rgba(59,130,246,0.55)' },
+  pillText: { color: '#9ca3af', fontSize: 12, fontWeight: '800' },
+  pillTextActive: { color: '#60a5fa' },
+
+  error: { color: '#fca5a5', fontSize: 12, fontWeight: '700' },
+
+  primaryBtn: {
+    marginTop: 8,
+    backgroundColor: '#3b82f6',
+    borderRadius: 16,
+    paddingVertical: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  primaryBtnText: { color: '#fff', fontWeight: '900', fontSize: 14 },
+
+  sectionTitle: { color: '#e5e7eb', fontSize: 14, fontWeight: '900', marginTop: 8 },
+
+  codeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#0b1220',
+    borderRadius: 16,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  codeText: { color: '#e5e7eb', fontSize: 18, fontWeight: '900', letterSpacing: 2 },
+  codeMeta: { color: '#94a3b8', fontSize: 12, marginTop: 4 },
+
+  shareBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(59,130,246,0.12)',
+    borderWidth: 1,
+    borderColor: 'rgba(59,130,246,0.35)',
+  },
+  shareBtnText: { color: '#60a5fa', fontWeight: '900', fontSize: 12 },
+});
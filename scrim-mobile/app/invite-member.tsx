@@ -1,27 +1,23 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { ScrollView, View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { supabase } from '../lib/supabase';
-
-type TeamRow = {
-  id: string;
-  owner_id: string;
-  name: string;
-  tag: string | null;
-};
-
-type ProfileRow = {
-  id: string;
-  primary_team_id: string | null;
-};
-
-type CandidateProfile = {
-  id: string;
-  username: string | null;
-  handle: string | null;
-};
+import { repo } from '../lib/repo';
+import { teamErrorMessage, type ProfileSummary, type TeamInviteRow, type TeamRow } from '../../shared/data';
+import {
+  DEFAULT_INVITE_EXPIRY,
+  INVITE_EXPIRY_OPTIONS,
+  TEAM_INVITE_STATE_LABELS,
+  inviteExpiresAt,
+  inviteExpiryLabel,
+  teamInviteState,
+  type TeamInviteState,
+} from '../../shared/invites';
+import { teamCan } from '../../shared/team-roles';
+
+type CandidateProfile = ProfileSummary;
 
 function normalizeInput(raw: string) {
   return raw.trim().replace(/^@/, '');
@@ -41,17 +37,31 @@ function initialsFromText(text: string) {
   return (parts[0][0] + parts[1][0]).toUpperCase();
 }
 
+const STATE_COLORS: Record<TeamInviteState, string> = {
+  pending: '#60a5fa',
+  accepted: '#34d399',
+  declined: '#f87171',
+  revoked: '#94a3b8',
+  expired: '#94a3b8',
+};
+
 export default function InviteMemberScreen() {
   const [loading, setLoading] = useState(true);
-  const [isOwner, setIsOwner] = useState(false);
+  const [canInvite, setCanInvite] = useState(false);
   const [team, setTeam] = useState<TeamRow | null>(null);
 
   const [query, setQuery] = useState('');
   const [searching, setSearching] = useState(false);
   const [candidate, setCandidate] = useState<CandidateProfile | null>(null);
 
+  const [expiryIndex, setExpiryIndex] = useState<number>(DEFAULT_INVITE_EXPIRY);
   const [submitting, setSubmitting] = useState(false);
 
+  // Sent invites panel
+  const [sentInvites, setSentInvites] = useState<TeamInviteRow[]>([]);
+  const [inviteeNames, setInviteeNames] = useState<Record<string, string>>({});
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
 
@@ -67,6 +77,16 @@ export default function InviteMemberScreen() {
     return tag.toUpperCase();
   }, [team]);
 
+  const loadSentInvites = useCallback(async (teamId: string) => {
+    const rows = await repo.teamInvites.listForTeam(teamId);
+    setSentInvites(rows);
+
+    const profiles = await repo.profiles.listByIds(Array.from(new Set(rows.map((r) => r.invited_user_id))));
+    const names: Record<string, string> = {};
+    profiles.forEach((p) => (names[p.id] = displayNameFromProfile(p)));
+    setInviteeNames(names);
+  }, []);
+
   const loadContext = useCallback(async () => {
     try {
       setLoading(true);
@@ -80,50 +100,36 @@ export default function InviteMemberScreen() {
       const user = sessionData.session?.user;
       if (!user) {
         setTeam(null);
-        setIsOwner(false);
+        setCanInvite(false);
         setLoading(false);
         return;
       }
 
-      const { data: p, error: pErr } = await supabase
-        .from('Profiles')
-        .select('id, primary_team_id')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (pErr) throw pErr;
-
-      const profile = (p ?? null) as ProfileRow | null;
-      const teamId = profile?.primary_team_id ?? null;
+      const teamId = await repo.profiles.getPrimaryTeamId(user.id);
 
       if (!teamId) {
         setTeam(null);
-        setIsOwner(false);
+        setCanInvite(false);
         setLoading(false);
         return;
       }
 
-      const { data: t, error: tErr } = await supabase
-        .from('teams')
-        .select('id, owner_id, name, tag')
-        .eq('id', teamId)
-        .maybeSingle();
-
-      if (tErr) throw tErr;
-
-      const tr = (t ?? null) as TeamRow | null;
+      const [tr, role] = await Promise.all([repo.teams.getById(teamId), repo.teamMembers.getRole(teamId, user.id)]);
       setTeam(tr);
-      setIsOwner(!!tr?.owner_id && tr.owner_id === user.id);
+
+      const allowed = teamCan(role, 'invite_members');
+      setCanInvite(allowed);
+      if (allowed) await loadSentInvites(teamId);
 
       setLoading(false);
     } catch (e: any) {
       console.log('[InviteMember] load error:', e);
       setErrorMsg(e?.message ?? 'Failed to load team context.');
       setTeam(null);
-      setIsOwner(false);
+      setCanInvite(false);
       setLoading(false);
     }
-  }, []);
+  }, [loadSentInvites]);
 
   useEffect(() => {
     loadContext();
@@ -143,18 +149,7 @@ export default function InviteMemberScreen() {
 
       setSearching(true);
 
-      const h = input;
-      const hAt = `@${input}`;
-
-      const { data: candidates, error: cErr } = await supabase
-        .from('Profiles')
-        .select('id, username, handle')
-        .or(`handle.eq.${h},handle.eq.${hAt},username.eq.${h}`)
-        .limit(5);
-
-      if (cErr) throw cErr;
-
-      const matches = (candidates ?? []).filter((r: any) => !!r?.id) as CandidateProfile[];
+      const matches = await repo.profiles.findByHandleOrUsername(input);
 
       if (matches.length === 0) {
         setErrorMsg(`No user found for "${query.trim()}".`);
@@ -198,7 +193,7 @@ export default function InviteMemberScreen() {
       const user = sessionData.session?.user;
       if (!user) throw new Error('Not signed in.');
       if (!team?.id) throw new Error('No primary team set.');
-      if (!isOwner) throw new Error('Only the team owner can send invites right now.');
+      if (!canInvite) throw new Error('Only the owner, captains and managers can send invites.');
 
       // Use preview candidate if available; otherwise search once
       let target = candidate;
@@ -217,15 +212,7 @@ export default function InviteMemberScreen() {
       }
 
       // Check pending invite already exists
-      const { data: existing, error: exErr } = await supabase
-        .from('team_invites')
-        .select('id, status')
-        .eq('team_id', team.id)
-        .eq('invited_user_id', target.id)
-        .eq('status', 'pending')
-        .maybeSingle();
-
-      if (exErr) throw exErr;
+      const existing = await repo.teamInvites.findPending(team.id, target.id);
 
       if (existing?.id) {
         setErrorMsg('This player already has a pending invite.');
@@ -234,14 +221,13 @@ export default function InviteMemberScreen() {
       }
 
       // Create invite
-      const { error: insErr } = await supabase.from('team_invites').insert({
-        team_id: team.id,
-        invited_user_id: target.id,
-        invited_by: user.id,
-        status: 'pending',
-      });
-
-      if (insErr) throw insErr;
+      await repo.teamInvites.create(
+        team.id,
+        target.id,
+        user.id,
+        inviteExpiresAt(INVITE_EXPIRY_OPTIONS[expiryIndex].hours)
+      );
+      loadSentInvites(team.id).catch((e) => console.log('[InviteMember] sent invites error:', e));
 
       const display = displayNameFromProfile(target);
       setSuccessMsg(`Invite sent to ${display}.`);
@@ -255,15 +241,38 @@ export default function InviteMemberScreen() {
       setErrorMsg(e?.message ?? 'Could not send invite.');
       setSubmitting(false);
     }
-  }, [query, team, isOwner, candidate, findCandidate]);
+  }, [query, team, canInvite, candidate, findCandidate, expiryIndex, loadSentInvites]);
+
+  const revokeInvite = async (inv: TeamInviteRow) => {
+    try {
+      setRevokingId(inv.id);
+      setErrorMsg(null);
+
+      const row = await repo.teamInvites.revoke(inv.id);
+      setSentInvites((prev) => prev.map((r) => (r.id === row.id ? row : r)));
+    } catch (e: any) {
+      console.log('[InviteMember] revoke error:', e);
+      setErrorMsg(teamErrorMessage(e, 'Could not revoke invite.'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const confirmRevoke = (inv: TeamInviteRow) => {
+    const name = inviteeNames[inv.invited_user_id] ?? 'this player';
+    Alert.alert('Revoke invite?', `${name} won’t be able to join with this invite.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Revoke', style: 'destructive', onPress: () => revokeInvite(inv) },
+    ]);
+  };
 
   const disabledReason = useMemo(() => {
     if (!team) return 'Set a primary team first (Profile → Teams).';
-    if (!isOwner) return 'Only the team owner can invite players (for now).';
+    if (!canInvite) return 'Only the owner, captains and managers can invite players.';
     return null;
-  }, [team, isOwner]);
+  }, [team, canInvite]);
 
-  const canInteract = !!team && isOwner && !submitting;
+  const canInteract = !!team && canInvite && !submitting;
 
   return (
     <SafeAreaView style={styles.safe}>
@@ -284,7 +293,7 @@ export default function InviteMemberScreen() {
         <View style={{ width: 36, height: 36 }} />
       </View>
 
-      <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.container}>
         {loading ? (
           <View style={styles.center}>
             <ActivityIndicator />
@@ -375,6 +384,23 @@ export default function InviteMemberScreen() {
                 </View>
               ) : null}
 
+              <Text style={[styles.label, { marginTop: 14 }]}>Invite expires after</Text>
+              <View style={styles.pillRow}>
+                {INVITE_EXPIRY_OPTIONS.map((opt, i) => {
+                  const active = expiryIndex === i;
+                  return (
+                    <Pressable
+                      key={opt.label}
+                      onPress={() => setExpiryIndex(i)}
+                      disabled={!canInteract}
+                      style={[styles.pill, active && styles.pillActive]}
+                    >
+                      <Text style={[styles.pillText, active && styles.pillTextActive]}>{opt.label}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
               {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
               {successMsg ? <Text style={styles.success}>{successMsg}</Text> : null}
 
@@ -419,10 +445,56 @@ export default function InviteMemberScreen() {
               ) : null}
             </View>
 
+            {/* Sent invites */}
+            {canInvite ? (
+              <View style={[styles.card, { marginTop: 14 }]}>
+                <Text style={styles.label}>Sent invites</Text>
+
+                {sentInvites.length === 0 ? (
+                  <Text style={styles.sentEmpty}>No invites sent yet.</Text>
+                ) : (
+                  sentInvites.map((inv) => {
+                    const state = teamInviteState(inv);
+                    return (
+                      <View key={inv.id} style={styles.sentRow}>
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.sentName}>{inviteeNames[inv.invited_user_id] ?? 'Player'}</Text>
+                          <Text style={styles.sentMeta}>
+                            <Text style={{ color: STATE_COLORS[state], fontWeight: '900' }}>
+                              {TEAM_INVITE_STATE_LABELS[state]}
+                            </Text>
+                            {state === 'pending' || state === 'expired' ? ` · ${inviteExpiryLabel(inv)}` : ''}
+                          </Text>
+                        </View>
+
+                        {state === 'pending' ? (
+                          <Pressable
+                            onPress={() => confirmRevoke(inv)}
+                            disabled={revokingId === inv.id}
+                            style={({ pressed }) => [styles.revokeBtn, (pressed || revokingId === inv.id) && { opacity: 0.7 }]}
+                          >
+                            <Text style={styles.revokeBtnText}>{revokingId === inv.id ? 'Revoking…' : 'Revoke'}</Text>
+                          </Pressable>
+                        ) : null}
+                      </View>
+                    );
+                  })
+                )}
+              </View>
+            ) : null}
+
+            <Pressable
+              onPress={() => router.push('/invite-codes')}
+              style={({ pressed }) => [styles.codesLink, pressed && { opacity: 0.85 }]}
+            >
+              <Ionicons name="link" size={16} color="#60a5fa" />
+              <Text style={styles.codesLinkText}>Don’t know their handle? Share an invite link</Text>
+            </Pressable>
+
             <Text style={styles.footer}>Pinnacle — Passion. Potential. Performance.</Text>
           </>
         )}
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -452,7 +524,7 @@ const styles = StyleSheet.create({
   },
   iconButtonPressed: { opacity: 0.85 },
 
-  container: { flex: 1, padding: 16 },
+  container: { flexGrow: 1, padding: 16 },
   center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
   muted: { color: '#94a3b8', marginTop: 10 },
 
@@ -569,6 +641,19 @@ const styles = StyleSheet.create({
   },
   previewPillText: { color: '#34d399', fontWeight: '900', fontSize: 11, letterSpacing: 0.5 },
 
+  pillRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 8 },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: '#050814',
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  pillActive: { backgroundColor: 'rgba(59,130,246,0.16)', borderColor: 'rgba(59,130,246,0.55)' },
+  pillText: { color: '#9ca3af', fontSize: 12, fontWeight: '800' },
+  pillTextActive: { color: '#60a5fa' },
+
   error: { color: '#fca5a5', marginTop: 10, fontSize: 12, fontWeight: '700' },
   success: { color: '#34d399', marginTop: 10, fontSize: 12, fontWeight: '800' },
 
@@ -607,5 +692,30 @@ const styles = StyleSheet.create({
   },
   secondaryBtnText: { color: '#e5e7eb', fontWeight: '900', fontSize: 12 },
 
+  sentEmpty: { color: '#64748b', fontSize: 12, marginTop: 10 },
+  sentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#111827',
+    marginTop: 10,
+  },
+  sentName: { color: '#e5e7eb', fontSize: 14, fontWeight: '900' },
+  sentMeta: { color: '#94a3b8', fontSize: 12, marginTop: 3 },
+  revokeBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(239,68,68,0.10)',
+    borderWidth: 1,
+    borderColor: 'rgba(239,68,68,0.35)',
+  },
+  revokeBtnText: { color: '#f87171', fontWeight: '900', fontSize: 12 },
+
+  codesLink: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, marginTop: 14 },
+  codesLinkText: { color: '#60a5fa', fontSize: 13, fontWeight: '800' },
+
   footer: { color: '#64748b', fontSize: 12, textAlign: 'center', marginTop: 14 },
 });
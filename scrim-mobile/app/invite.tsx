@@ -0,0 +1,327 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, router } from 'expo-router';
+import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
+import { teamErrorMessage, type TeamInviteCodePreview, type TeamInviteRow, type TeamRow } from '../../shared/data';
+import { inviteCodeStatus, teamInviteState } from '../../shared/invites';
+import { regionLabel } from '../../shared/regions';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Target of scrimmobile://invite/<code> links. The code is either a team_invites
+// id (a personal invite) or a shareable join code from team_invite_codes.
+export default function InviteScreen() {
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const inviteCode = typeof code === 'string' ? code : null;
+  const isJoinCode = !!inviteCode && !UUID_RE.test(inviteCode);
+
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [invite, setInvite] = useState<TeamInviteRow | null>(null);
+  const [team, setTeam] = useState<TeamRow | null>(null);
+  const [inviterName, setInviterName] = useState<string | null>(null);
+  const [codePreview, setCodePreview] = useState<TeamInviteCodePreview | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+
+      if (!inviteCode) throw new Error('Missing invite code.');
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      setUserId(sessionData.session?.user?.id ?? null);
+
+      if (isJoinCode) {
+        const preview = await repo.teamInviteCodes.preview(inviteCode);
+        if (!preview) throw new Error('That invite code doesn’t exist.');
+        setCodePreview(preview);
+        setLoading(false);
+        return;
+      }
+
+      const row = await repo.teamInvites.getById(inviteCode);
+      if (!row) throw new Error('This invite doesn’t exist or isn’t for your account.');
+      setInvite(row);
+
+      setTeam(await repo.teams.getById(row.team_id));
+
+      const [inviter] = await repo.profiles.listByIds([row.invited_by]);
+      setInviterName(inviter?.username?.trim() || inviter?.handle?.trim() || null);
+
+      setLoading(false);
+    } catch (e: any) {
+      console.log('[Invite] load error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load invite.');
+      setInvite(null);
+      setTeam(null);
+      setCodePreview(null);
+      setLoading(false);
+    }
+  }, [inviteCode, isJoinCode]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const isForMe = !!invite && invite.invited_user_id === userId;
+  const inviteState = invite ? teamInviteState(invite) : null;
+  const canAnswer = isForMe && inviteState === 'pending';
+
+  const accept = async () => {
+    if (!invite || !userId) return;
+
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await repo.teamInvites.respond(invite.id, true);
+
+      router.replace(`/team?id=${invite.team_id}`);
+    } catch (e: any) {
+      console.log('[Invite] accept error:', e);
+      setErrorMsg(teamErrorMessage(e, 'Could not accept invite.'));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const joinWithCode = async () => {
+    if (!inviteCode || !codePreview) return;
+
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await repo.teamInviteCodes.redeem(inviteCode);
+
+      // First team: make it the primary one so My Team shows it straight away
+      if (userId && !(await repo.profiles.getPrimaryTeamId(userId))) {
+        await repo.profiles.update(userId, { primary_team_id: codePreview.team_id });
+      }
+
+      router.replace(`/team?id=${codePreview.team_id}`);
+    } catch (e: any) {
+      console.log('[Invite] join code error:', e);
+      setErrorMsg(teamErrorMessage(e, 'Could not join the team.'));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const decline = async () => {
+    if (!invite) return;
+
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await repo.teamInvites.respond(invite.id, false);
+      await load();
+    } catch (e: any) {
+      console.log('[Invite] decline error:', e);
+      setErrorMsg(teamErrorMessage(e, 'Could not decline invite.'));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const statusText =
+    inviteState === 'accepted'
+      ? 'This invite has already been accepted.'
+      : inviteState === 'declined'
+        ? 'This invite was declined.'
+        : inviteState === 'revoked'
+          ? 'This invite was withdrawn by the team.'
+          : inviteState === 'expired'
+            ? 'This invite has expired. Ask the team to send a new one.'
+            : !isForMe
+              ? 'This invite was sent to another player.'
+              : null;
+
+  const codeStatus = codePreview ? inviteCodeStatus(codePreview) : null;
+  const codeStatusText = codePreview?.is_member
+    ? 'You’re already on this team.'
+    : codeStatus === 'expired'
+      ? 'This invite link has expired. Ask the team for a new one.'
+      : codeStatus === 'used_up'
+        ? 'This invite link has been used up. Ask the team for a new one.'
+        : null;
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.topRow}>
+          <Pressable
+            onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+            style={styles.iconBtn}
+            hitSlop={10}
+          >
+            <Ionicons name="chevron-back" size={20} color="#e5e7eb" />
+          </Pressable>
+          <Text style={styles.title}>Team Invite</Text>
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+            <Text style={styles.mutedText}>Loading…</Text>
+          </View>
+        ) : codePreview ? (
+          <View style={styles.card}>
+            <View style={styles.teamIcon}>
+              <Ionicons name="people" size={26} color="#60a5fa" />
+            </View>
+
+            <Text style={styles.teamName}>
+              {codePreview.team_name} {codePreview.team_tag ? `(${codePreview.team_tag})` : ''}
+            </Text>
+            <Text style={styles.mutedText}>{regionLabel(codePreview.team_region, { fallback: 'Region not set' })}</Text>
+            <Text style={styles.mutedText}>
+              {codePreview.member_count} member{codePreview.member_count === 1 ? '' : 's'}
+            </Text>
+
+            {codeStatusText ? (
+              <View style={styles.infoBox}>
+                <Text style={styles.infoText}>{codeStatusText}</Text>
+              </View>
+            ) : null}
+
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+            {codeStatusText ? (
+              <Pressable onPress={() => router.replace(`/team?id=${codePreview.team_id}`)} style={styles.btnSecondary}>
+                <Text style={styles.btnSecondaryText}>View Team</Text>
+              </Pressable>
+            ) : (
+              <>
+                <Pressable disabled={acting} onPress={joinWithCode} style={[styles.btnPrimary, acting && { opacity: 0.7 }]}>
+                  {acting ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Join Team</Text>}
+                </Pressable>
+                <Pressable disabled={acting} onPress={() => router.replace('/(tabs)')} style={styles.btnSecondary}>
+                  <Text style={styles.btnSecondaryText}>Not Now</Text>
+                </Pressable>
+              </>
+            )}
+          </View>
+        ) : !invite ? (
+          <View style={styles.card}>
+            <Text style={styles.teamName}>Invite unavailable</Text>
+            {errorMsg ? <Text style={styles.mutedText}>{errorMsg}</Text> : null}
+            <Pressable onPress={() => router.replace('/(tabs)')} style={styles.btnSecondary}>
+              <Text style={styles.btnSecondaryText}>Go Home</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <View style={styles.teamIcon}>
+              <Ionicons name="people" size={26} color="#60a5fa" />
+            </View>
+
+            <Text style={styles.teamName}>
+              {team?.name ?? 'Team'} {team?.tag ? `(${team.tag})` : ''}
+            </Text>
+            <Text style={styles.mutedText}>{regionLabel(team?.region, { fallback: 'Region not set' })}</Text>
+            {inviterName ? <Text style={styles.mutedText}>Invited by {inviterName}</Text> : null}
+
+            {statusText ? (
+              <View style={styles.infoBox}>
+                <Text style={styles.infoText}>{statusText}</Text>
+              </View>
+            ) : null}
+
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+            {canAnswer ? (
+              <>
+                <Pressable disabled={acting} onPress={accept} style={[styles.btnPrimary, acting && { opacity: 0.7 }]}>
+                  {acting ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Join Team</Text>}
+                </Pressable>
+                <Pressable disabled={acting} onPress={decline} style={[styles.btnSecondary, acting && { opacity: 0.7 }]}>
+                  <Text style={styles.btnSecondaryText}>Decline</Text>
+                </Pressable>
+              </>
+            ) : (
+              <Pressable onPress={() => router.replace(`/team?id=${invite.team_id}`)} style={styles.btnSecondary}>
+                <Text style={styles.btnSecondaryText}>View Team</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: '#0a0a0b' },
+  container: { padding: 16, paddingBottom: 28 },
+
+  topRow: { flexDirection: 'row', alignItems: 'center', gap: 10, marginBottom: 14 },
+  title: { color: '#ffffff', fontSize: 20, fontWeight: '900' },
+
+  iconBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  center: { alignItems: 'center', justifyContent: 'center', paddingVertical: 28 },
+  mutedText: { color: '#9ca3af', textAlign: 'center' },
+
+  card: {
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    alignItems: 'stretch',
+    gap: 10,
+  },
+
+  teamIcon: {
+    alignSelf: 'center',
+    width: 56,
+    height: 56,
+    borderRadius: 16,
+    backgroundColor: 'rgba(59,130,246,0.15)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  teamName: { color: '#ffffff', fontSize: 18, fontWeight: '900', textAlign: 'center' },
+
+  infoBox: {
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+    borderRadius: 12,
+    padding: 12,
+  },
+  infoText: { color: '#9ca3af', fontSize: 12, fontWeight: '700', textAlign: 'center' },
+
+  btnPrimary: { paddingVertical: 14, borderRadius: 12, alignItems: 'center', backgroundColor: '#3b82f6' },
+  btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
+
+  btnSecondary: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#0a0a0b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  btnSecondaryText: { color: '#e5e7eb', fontWeight: '900' },
+
+  error: { color: '#fca5a5', fontSize: 12, textAlign: 'center' },
+});
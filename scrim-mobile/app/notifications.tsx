@@ -4,29 +4,16 @@ import { View, Text, Pressable, StyleSheet, ScrollView, RefreshControl } from 'r
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
+import {
+  clearNotifications,
+  markNotificationsRead,
+  refreshNotifications,
+  useNotifications,
+} from '../lib/notifications-store';
+import { DEFAULT_USER_SETTINGS, type NotificationType, type UserSettingsRow } from '../../shared/data';
 
-type LocalSettings = {
-  scrim_confirmed: boolean;
-  scrim_cancelled: boolean;
-  allow_team_invites: boolean;
-};
-
-type NotifType = 'scrim_confirmed' | 'scrim_cancelled' | 'team_invite';
-
-type NotificationRow = {
-  id: string;
-  type: NotifType;
-  title: string;
-  body: string;
-  created_at: string;
-  read_at: string | null;
-};
-
-const DEFAULT_SETTINGS: LocalSettings = {
-  scrim_confirmed: true,
-  scrim_cancelled: true,
-  allow_team_invites: true,
-};
+type LocalSettings = Omit<UserSettingsRow, 'user_id'>;
 
 function timeAgo(iso: string) {
   const t = new Date(iso).getTime();
@@ -41,7 +28,7 @@ function timeAgo(iso: string) {
   return `${days}d`;
 }
 
-function iconForType(type: NotifType): { icon: any; color: string; bg: string } {
+function iconForType(type: NotificationType): { icon: any; color: string; bg: string } {
   switch (type) {
     case 'scrim_confirmed':
       return { icon: 'checkmark-circle', color: '#34d399', bg: '#052016' };
@@ -49,80 +36,69 @@ function iconForType(type: NotifType): { icon: any; color: string; bg: string }
       return { icon: 'close-circle', color: '#f87171', bg: '#20090a' };
     case 'team_invite':
       return { icon: 'people', color: '#60a5fa', bg: '#06182b' };
+    case 'team_invite_answered':
+      return { icon: 'mail-open', color: '#60a5fa', bg: '#06182b' };
+    case 'team_member_joined':
+      return { icon: 'person-add', color: '#34d399', bg: '#052016' };
+    case 'team_member_left':
+      return { icon: 'person-remove', color: '#fbbf24', bg: '#1f1503' };
+    case 'scrim_message':
+      return { icon: 'chatbubbles', color: '#60a5fa', bg: '#06182b' };
+    case 'team_ownership':
+      return { icon: 'key', color: '#a78bfa', bg: '#150b2b' };
+    case 'scrim_challenge':
+      return { icon: 'flash', color: '#fbbf24', bg: '#1f1503' };
+    case 'scrim_application':
+      return { icon: 'shield-checkmark', color: '#60a5fa', bg: '#06182b' };
     default:
       return { icon: 'notifications', color: '#94a3b8', bg: '#0b1220' };
   }
 }
 
 export default function NotificationsScreen() {
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  const [userId, setUserId] = useState<string | null>(null);
-  const [settings, setSettings] = useState<LocalSettings>(DEFAULT_SETTINGS);
-  const [rows, setRows] = useState<NotificationRow[]>([]);
+  // Rows + unread state are live from the notifications store
+  const { userId, rows, loading } = useNotifications();
+  const [settings, setSettings] = useState<LocalSettings>(DEFAULT_USER_SETTINGS);
 
-  const loadAll = async () => {
+  const loadSettings = async () => {
     try {
-      setLoading(true);
-
       const { data: sessionData, error: sessionErr } = await supabase.auth.getSession();
       if (sessionErr) throw sessionErr;
 
       const uid = sessionData.session?.user?.id ?? null;
-      setUserId(uid);
 
       if (!uid) {
-        setRows([]);
-        setSettings(DEFAULT_SETTINGS);
-        setLoading(false);
+        setSettings(DEFAULT_USER_SETTINGS);
         return;
       }
 
       // Load user settings (fallback to defaults if missing)
-      const { data: s, error: sErr } = await supabase
-        .from('user_settings')
-        .select('scrim_confirmed, scrim_cancelled, allow_team_invites')
-        .eq('user_id', uid)
-        .maybeSingle();
-
-      if (sErr) console.log('[Notifications] settings fetch error:', sErr);
+      const s = await repo.userSettings.get(uid).catch((sErr) => {
+        console.log('[Notifications] settings fetch error:', sErr);
+        return null;
+      });
 
       setSettings({
-        scrim_confirmed: typeof s?.scrim_confirmed === 'boolean' ? s.scrim_confirmed : DEFAULT_SETTINGS.scrim_confirmed,
-        scrim_cancelled: typeof s?.scrim_cancelled === 'boolean' ? s.scrim_cancelled : DEFAULT_SETTINGS.scrim_cancelled,
+        scrim_confirmed:
+          typeof s?.scrim_confirmed === 'boolean' ? s.scrim_confirmed : DEFAULT_USER_SETTINGS.scrim_confirmed,
+        scrim_cancelled:
+          typeof s?.scrim_cancelled === 'boolean' ? s.scrim_cancelled : DEFAULT_USER_SETTINGS.scrim_cancelled,
         allow_team_invites:
-          typeof s?.allow_team_invites === 'boolean' ? s.allow_team_invites : DEFAULT_SETTINGS.allow_team_invites,
+          typeof s?.allow_team_invites === 'boolean' ? s.allow_team_invites : DEFAULT_USER_SETTINGS.allow_team_invites,
       });
-
-      // Load notifications
-      const { data: n, error: nErr } = await supabase
-        .from('notifications')
-        .select('id, type, title, body, created_at, read_at')
-        .eq('user_id', uid)
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (nErr) {
-        console.log('[Notifications] fetch error:', nErr);
-        setRows([]);
-        setLoading(false);
-        return;
-      }
-
-      setRows((n ?? []) as any);
-      setLoading(false);
     } catch (e) {
-      console.log('[Notifications] load error:', e);
-      setRows([]);
-      setLoading(false);
+      console.log('[Notifications] settings load error:', e);
     }
   };
 
   useEffect(() => {
-    loadAll();
+    loadSettings();
   }, []);
 
+  // The server already skips opted-out types when writing; this hides ones that
+  // arrived before the setting was turned off
   const filtered = useMemo(() => {
     return rows.filter((n) => {
       if (n.type === 'scrim_confirmed') return settings.scrim_confirmed;
@@ -136,7 +112,7 @@ export default function NotificationsScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadAll();
+    await Promise.all([loadSettings(), refreshNotifications()]);
     setRefreshing(false);
   };
 
@@ -144,34 +120,17 @@ export default function NotificationsScreen() {
     if (!userId) return;
 
     const unreadIds = filtered.filter((n) => !n.read_at).map((n) => n.id);
-    if (unreadIds.length === 0) return;
-
-    const now = new Date().toISOString();
-
-    const { error } = await supabase
-      .from('notifications')
-      .update({ read_at: now })
-      .in('id', unreadIds);
-
-    if (error) console.log('[Notifications] markAllRead error:', error);
-
-    await loadAll();
+    await markNotificationsRead(unreadIds);
   };
 
   const clearAll = async () => {
     if (!userId) return;
 
-    const { error } = await supabase.from('notifications').delete().eq('user_id', userId);
-    if (error) console.log('[Notifications] clear error:', error);
-
-    await loadAll();
+    await clearNotifications();
   };
 
   const markOneRead = async (id: string) => {
-    const now = new Date().toISOString();
-    const { error } = await supabase.from('notifications').update({ read_at: now }).eq('id', id);
-    if (error) console.log('[Notifications] markOneRead error:', error);
-    await loadAll();
+    await markNotificationsRead([id]);
   };
 
   const openSettings = () => router.push('/settings');
@@ -290,19 +249,41 @@ export default function NotificationsScreen() {
                       })}
                     </Text>
 
-                    <Pressable
-                      onPress={() => markOneRead(n.id)}
-                      disabled={isRead}
-                      style={({ pressed }) => [
-                        styles.smallBtn,
-                        isRead && styles.smallBtnDisabled,
-                        pressed && !isRead && styles.smallBtnPressed,
-                      ]}
-                    >
-                      <Text style={[styles.smallBtnText, isRead && styles.smallBtnTextDisabled]}>
-                        {isRead ? 'Read' : 'Mark read'}
-                      </Text>
-                    </Pressable>
+                    <View style={styles.cardActions}>
+                      {/* Chat notifications open the thread (which marks them read) */}
+                      {n.scrim_id ? (
+                        <Pressable
+                          onPress={() => router.push(`/scrim-details?id=${n.scrim_id}`)}
+                          style={({ pressed }) => [styles.smallBtn, pressed && styles.smallBtnPressed]}
+                        >
+                          <Text style={styles.smallBtnText}>Open</Text>
+                        </Pressable>
+                      ) : null}
+
+                      {/* Ownership offers are answered from Teams */}
+                      {n.type === 'team_ownership' ? (
+                        <Pressable
+                          onPress={() => router.push('/teams')}
+                          style={({ pressed }) => [styles.smallBtn, pressed && styles.smallBtnPressed]}
+                        >
+                          <Text style={styles.smallBtnText}>Teams</Text>
+                        </Pressable>
+                      ) : null}
+
+                      <Pressable
+                        onPress={() => markOneRead(n.id)}
+                        disabled={isRead}
+                        style={({ pressed }) => [
+                          styles.smallBtn,
+                          isRead && styles.smallBtnDisabled,
+                          pressed && !isRead && styles.smallBtnPressed,
+                        ]}
+                      >
+                        <Text style={[styles.smallBtnText, isRead && styles.smallBtnTextDisabled]}>
+                          {isRead ? 'Read' : 'Mark read'}
+                        </Text>
+                      </Pressable>
+                    </View>
                   </View>
                 </View>
               );
@@ -440,6 +421,8 @@ const styles = StyleSheet.create({
   },
   muted: { color: '#64748b', fontSize: 12 },
 
+  cardActions: { flexDirection: 'row', gap: 8 },
+
   smallBtn: {
     paddingHorizontal: 10,
     paddingVertical: 8,
@@ -10,29 +10,14 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
 import { router } from 'expo-router';
-
-type RegionId =
-  | 'pacific-nw'
-  | 'pacific-sw'
-  | 'central-north'
-  | 'central-south'
-  | 'atlantic-north'
-  | 'atlantic-south';
-
-const REGIONS: { id: RegionId; label: string }[] = [
-  { id: 'pacific-nw', label: 'Pacific Northwest' },
-  { id: 'pacific-sw', label: 'Pacific Southwest' },
-  { id: 'central-north', label: 'Central North' },
-  { id: 'central-south', label: 'Central South' },
-  { id: 'atlantic-north', label: 'Atlantic North' },
-  { id: 'atlantic-south', label: 'Atlantic South' },
-];
+import { normalizeRegion, REGION_OPTIONS as REGIONS, type RegionId } from '../../shared/regions';
 
 export default function RegionScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [currentRegion, setCurrentRegion] = useState<string | null>(null);
+  const [currentRegion, setCurrentRegion] = useState<RegionId | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
   const subtitle = useMemo(() => {
@@ -60,16 +45,10 @@ export default function RegionScreen() {
           return;
         }
 
-        const { data: p, error: pErr } = await supabase
-          .from('Profiles')
-          .select('primary_region')
-          .eq('id', user.id)
-          .maybeSingle();
-
-        if (pErr) throw pErr;
+        const p = await repo.profiles.getById(user.id);
 
         if (mounted) {
-          setCurrentRegion(p?.primary_region ?? null);
+          setCurrentRegion(normalizeRegion(p?.primary_region));
           setLoading(false);
         }
       } catch (e: any) {
@@ -101,12 +80,7 @@ export default function RegionScreen() {
         return;
       }
 
-      const { error } = await supabase
-        .from('Profiles')
-        .update({ primary_region: regionId })
-        .eq('id', user.id);
-
-      if (error) throw error;
+      await repo.profiles.update(user.id, { primary_region: regionId });
 
       Keyboard.dismiss();
       router.back(); // go back to Profile
@@ -1,53 +1,32 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useLocalSearchParams, router } from 'expo-router';
+import { useFocusEffect, useLocalSearchParams, router } from 'expo-router';
 import { supabase } from '../lib/supabase';
-
-type RegionId =
-  | 'pacific-nw'
-  | 'pacific-sw'
-  | 'central-north'
-  | 'central-south'
-  | 'atlantic-north'
-  | 'atlantic-south';
-
-const REGION_LABELS: Record<string, string> = {
-  'pacific-nw': 'Pacific Northwest',
-  'pacific-sw': 'Pacific Southwest',
-  'central-north': 'Central North',
-  'central-south': 'Central South',
-  'atlantic-north': 'Atlantic North',
-  'atlantic-south': 'Atlantic South',
-};
-
-const REGION_ALIASES: Record<string, RegionId> = {
-  'pacfic-nw': 'pacific-nw', // common typo
-  pacificnw: 'pacific-nw',
-  'pacific-northwest': 'pacific-nw',
-};
-
-function normalizeRegion(raw: any) {
-  return String(raw ?? '')
-    .toLowerCase()
-    .replace(/[\u200B-\u200D\uFEFF]/g, '')
-    .trim()
-    .replace(/_/g, '-');
-}
-
-function fmtDate(iso: string, tz?: string | null) {
-  const d = new Date(iso);
-  const opts: Intl.DateTimeFormatOptions = {
-    weekday: 'short',
-    month: 'short',
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-  };
-  if (tz) (opts as any).timeZone = tz;
-  return d.toLocaleString(undefined, opts);
-}
+import { formatScrimDate } from '../lib/dates';
+import { repo } from '../lib/repo';
+import { scrimErrorCode, scrimErrorMessage, type ScrimRow, type ScrimWithTeams } from '../../shared/data';
+import { regionLabel as formatRegion } from '../../shared/regions';
+import { blockSummary } from '../../shared/scrim-blocks';
+import { scrimTypeLabel } from '../../shared/scrim-types';
+import { ScrimApplications } from '../components/scrim-applications';
+import { ScrimChallenge } from '../components/scrim-challenge';
+import { ScrimChat } from '../components/scrim-chat';
+import { ScrimLineups } from '../components/scrim-lineups';
+import { ScrimRosters } from '../components/scrim-rosters';
+import { useTeamRole } from '../hooks/use-team-role';
+import {
+  canTransitionScrim,
+  isScrimChatOpen,
+  isTerminalScrimStatus,
+  scrimActorForTeam,
+  scrimStatusLabel,
+  type ScrimStatus,
+} from '../../shared/scrim-lifecycle';
+import { isOpenChallenge } from '../../shared/scrim-challenges';
+import { isEditableScrim, seriesSummary } from '../../shared/scrim-series';
+import { teamCan } from '../../shared/team-roles';
 
 function minutesBetween(startIso: string, endIso: string) {
   const s = new Date(startIso).getTime();
@@ -56,69 +35,17 @@ function minutesBetween(startIso: string, endIso: string) {
   return Math.max(0, Math.round((e - s) / 60000));
 }
 
-function scrimTypeLabel(scrimType?: string | null, modes?: string[] | null) {
-  const t = (scrimType ?? '').toLowerCase();
-
-  // Prefer scrim_type
-  if (t === 'hp-only') return 'Hardpoint';
-  if (t === 'snd-only') return 'S&D';
-  if (t === 'third-only') return '3rd Mode';
-  if (t === 'all-respawns') return 'Respawns';
-  if (t === 'mixed') return 'Respawns'; // legacy catch; you can change later
-
-  // Fallback from modes array
-  const m = (modes ?? []).map((x) => String(x).toLowerCase());
-  if (m.includes('hp') || m.includes('hardpoint')) return 'Hardpoint';
-  if (m.includes('snd') || m.includes('search') || m.includes('search and destroy')) return 'S&D';
-  if (m.includes('control') || m.includes('third') || m.includes('3rd')) return '3rd Mode';
-
-  return 'Scrim';
-}
-
-function statusLabel(status?: string | null) {
-  if (!status) return '—';
-  const s = status.toLowerCase();
-  if (s === 'open') return 'Open';
-  if (s === 'pending') return 'Pending';
-  if (s === 'confirmed') return 'Confirmed';
-  if (s === 'cancelled' || s === 'canceled') return 'Cancelled';
-  return status;
-}
-
 // Match Scrim Center / Details mapping you settled on:
-// Open = Blue, Pending = Yellow, Confirmed = Green, Cancelled = Red
-function statusColor(status?: string | null) {
-  const s = (status ?? '').toLowerCase();
+// Open = Blue, Requested = Yellow, Confirmed / In Progress = Green, Cancelled = Red, rest = Gray
+function statusColor(s?: ScrimStatus | null) {
   if (s === 'open') return { bg: 'rgba(59,130,246,0.15)', fg: '#60a5fa', bd: '#1d4ed8' };
-  if (s === 'pending') return { bg: 'rgba(234,179,8,0.15)', fg: '#fbbf24', bd: '#a16207' };
-  if (s === 'confirmed') return { bg: 'rgba(52,211,153,0.15)', fg: '#34d399', bd: '#047857' };
-  if (s === 'cancelled' || s === 'canceled')
-    return { bg: 'rgba(248,113,113,0.15)', fg: '#f87171', bd: '#991b1b' };
+  if (s === 'requested') return { bg: 'rgba(234,179,8,0.15)', fg: '#fbbf24', bd: '#a16207' };
+  if (s === 'confirmed' || s === 'in_progress')
+    return { bg: 'rgba(52,211,153,0.15)', fg: '#34d399', bd: '#047857' };
+  if (s === 'cancelled') return { bg: 'rgba(248,113,113,0.15)', fg: '#f87171', bd: '#991b1b' };
   return { bg: 'rgba(156,163,175,0.12)', fg: '#9ca3af', bd: '#374151' };
 }
 
-type TeamMini = { id: string; name: string | null; tag: string | null };
-
-type ScrimRow = {
-  id: string;
-  host_team_id: string;
-  opponent_team_id: string | null;
-  status: string;
-  region: string;
-  tier: string | null;
-  modes: string[] | null;
-  start_time: string;
-  end_time: string;
-  time_zone: string | null;
-  notes: string | null;
-  created_by: string;
-  created_at: string;
-  scrim_type: string | null;
-  duration_minutes: number | null;
-  host_team?: TeamMini | null;
-  opp_team?: TeamMini | null;
-};
-
 export default function ScrimDetailsScreen() {
   const { id } = useLocalSearchParams<{ id?: string }>();
   const scrimId = typeof id === 'string' ? id : null;
@@ -130,7 +57,10 @@ export default function ScrimDetailsScreen() {
   const [myUserId, setMyUserId] = useState<string | null>(null);
   const [myTeamId, setMyTeamId] = useState<string | null>(null);
 
-  const [scrim, setScrim] = useState<ScrimRow | null>(null);
+  const [scrim, setScrim] = useState<ScrimWithTeams | null>(null);
+  const [blockSlots, setBlockSlots] = useState<ScrimRow[]>([]);
+
+  const myRole = useTeamRole(myTeamId);
 
   const load = useCallback(async () => {
     try {
@@ -152,35 +82,20 @@ export default function ScrimDetailsScreen() {
 
       // Profile row may not exist — safe
       if (user?.id) {
-        const { data: p, error: pErr } = await supabase
-          .from('Profiles')
-          .select('primary_team_id')
-          .eq('id', user.id)
-          .maybeSingle();
-
-        if (!pErr) setMyTeamId(p?.primary_team_id ?? null);
-        else setMyTeamId(null);
+        try {
+          setMyTeamId(await repo.profiles.getPrimaryTeamId(user.id));
+        } catch {
+          setMyTeamId(null);
+        }
       } else {
         setMyTeamId(null);
       }
 
-      const { data, error } = await supabase
-        .from('scrims')
-        .select(
-          `
-          id, host_team_id, opponent_team_id, status, region, tier, modes,
-          start_time, end_time, time_zone, notes, created_by, created_at,
-          scrim_type, duration_minutes,
-          host_team:teams!scrims_host_team_id_fkey ( id, name, tag ),
-          opp_team:teams!scrims_opponent_team_id_fkey ( id, name, tag )
-        `
-        )
-        .eq('id', scrimId)
-        .single();
-
-      if (error) throw error;
-
-      setScrim(data as any);
+      const data = await repo.scrims.getById(scrimId);
+      if (!data) throw new Error('Scrim not found.');
+
+      setScrim(data);
+      setBlockSlots(data.block_id ? await repo.scrims.listByBlock(data.block_id) : []);
       setLoading(false);
     } catch (e: any) {
       console.log('[ScrimDetails] load error:', e);
@@ -190,11 +105,17 @@ export default function ScrimDetailsScreen() {
     }
   }, [scrimId]);
 
-  useEffect(() => {
-    load();
-  }, [load]);
+  // Also reloads on return from edit-scrim
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const scrimStatus = scrim?.status ?? null;
 
-  const scrimStatus = (scrim?.status ?? '').toLowerCase();
+  // host / guest / none — drives which actions the lifecycle allows
+  const myActor = useMemo(() => (scrim ? scrimActorForTeam(scrim, myTeamId) : null), [scrim, myTeamId]);
 
   const isHostTeam = useMemo(() => {
     if (!scrim || !myTeamId) return false;
@@ -209,33 +130,49 @@ export default function ScrimDetailsScreen() {
   const isInScrim = useMemo(() => isHostTeam || isOpponentTeam, [isHostTeam, isOpponentTeam]);
 
   const isTakenByOtherTeam = useMemo(() => {
-    if (!scrim || !myTeamId) return false;
-    if (scrimStatus !== 'open') return false;
-    if (!scrim.opponent_team_id) return false;
-    return scrim.opponent_team_id !== myTeamId;
-  }, [scrim, myTeamId, scrimStatus]);
-
-  const canAcceptOpen = useMemo(() => {
-    if (!scrim) return false;
-    if (!myTeamId) return false;
-    if (isHostTeam) return false;
-    if (scrimStatus !== 'open') return false;
-    if (isTakenByOtherTeam) return false;
-    // Accept only if untaken
-    return !scrim.opponent_team_id;
-  }, [scrim, myTeamId, isHostTeam, scrimStatus, isTakenByOtherTeam]);
+    if (!scrim || !myTeamId || !scrimStatus) return false;
+    if (isTerminalScrimStatus(scrimStatus)) return false;
+    return !!scrim.opponent_team_id && !isInScrim;
+  }, [scrim, myTeamId, scrimStatus, isInScrim]);
+
+  // Challenges are answered on their own card (ScrimChallenge), host-approval
+  // requests on theirs (ScrimApplications)
+  const isChallenge = useMemo(() => !!scrim && isOpenChallenge(scrim), [scrim]);
+  const isApproval = !!scrim?.requires_approval;
+
+  // What the lifecycle allows, before the viewer's team role is considered
+  const couldTakeSlot = useMemo(() => {
+    if (!scrimStatus || myActor !== 'guest' || isInScrim || isChallenge || isApproval) return false;
+    return canTransitionScrim(scrimStatus, 'confirmed', myActor);
+  }, [scrimStatus, myActor, isInScrim, isChallenge, isApproval]);
+
+  const canAcceptOpen = couldTakeSlot && teamCan(myRole, 'accept_scrims');
+
+  const canRequest = useMemo(() => {
+    if (!scrimStatus || myActor !== 'guest' || isInScrim || isChallenge || isApproval) return false;
+    return canTransitionScrim(scrimStatus, 'requested', myActor) && teamCan(myRole, 'accept_scrims');
+  }, [scrimStatus, myActor, isInScrim, isChallenge, isApproval, myRole]);
 
   const canCancel = useMemo(() => {
-    if (!scrim) return false;
-    const s = scrimStatus;
-    return isHostTeam && s !== 'cancelled' && s !== 'canceled';
-  }, [scrim, isHostTeam, scrimStatus]);
+    if (!scrimStatus || !myActor) return false;
+    return canTransitionScrim(scrimStatus, 'cancelled', myActor) && teamCan(myRole, 'cancel_scrims');
+  }, [scrimStatus, myActor, myRole]);
 
-  const regionLabel = useMemo(() => {
-    const raw = normalizeRegion(scrim?.region);
-    const key = REGION_ALIASES[raw] ?? (raw as any);
-    return REGION_LABELS[key as RegionId] || key || '—';
-  }, [scrim?.region]);
+  const canEdit = useMemo(
+    () => !!scrim && isHostTeam && isEditableScrim(scrim) && teamCan(myRole, 'post_scrims'),
+    [scrim, isHostTeam, myRole]
+  );
+
+  // Series occurrences can be cancelled together from here on
+  const canCancelSeries = canCancel && isHostTeam && !!scrim?.series_id;
+
+  // Once this slot is taken, the host can pull the block's other open slots
+  const canWithdrawSiblings = useMemo(() => {
+    if (!scrim || !scrimStatus || !isHostTeam || scrimStatus === 'open' || isTerminalScrimStatus(scrimStatus)) return false;
+    return teamCan(myRole, 'cancel_scrims') && blockSlots.some((s) => s.id !== scrim.id && s.status === 'open');
+  }, [scrim, scrimStatus, isHostTeam, myRole, blockSlots]);
+
+  const regionLabel = useMemo(() => formatRegion(scrim?.region), [scrim?.region]);
 
   const typeLabel = useMemo(
     () => scrimTypeLabel(scrim?.scrim_type, scrim?.modes ?? null),
@@ -256,10 +193,11 @@ export default function ScrimDetailsScreen() {
   const hostName = useMemo(() => scrim?.host_team?.name ?? 'Unknown Team', [scrim?.host_team?.name]);
 
   const oppName = useMemo(() => {
-    if (scrim?.opp_team?.name) return scrim.opp_team.name;
+    if (scrim?.opponent_team?.name) return scrim.opponent_team.name;
     if (scrim?.opponent_team_id) return 'Opponent';
+    if (scrim?.challenged_team?.name) return `${scrim.challenged_team.name} (challenged)`;
     return '—';
-  }, [scrim?.opp_team?.name, scrim?.opponent_team_id]);
+  }, [scrim?.opponent_team?.name, scrim?.opponent_team_id, scrim?.challenged_team?.name]);
 
   // ✅ Accept immediately for open scrims (race-safe)
   const doAcceptOpen = async () => {
@@ -269,31 +207,59 @@ export default function ScrimDetailsScreen() {
       setActing(true);
       setErrorMsg(null);
 
-      const { data: updated, error } = await supabase
-        .from('scrims')
-        .update({
-          status: 'confirmed',
-          opponent_team_id: myTeamId,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', scrimId)
-        .eq('status', 'open')
-        .is('opponent_team_id', null)
-        .select('id')
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (!updated?.id) {
+      await repo.scrims.accept(scrimId, myTeamId);
+      await load();
+    } catch (e: any) {
+      console.log('[ScrimDetails] accept open error:', e);
+
+      if (scrimErrorCode(e) === 'scrim_taken') {
         Alert.alert('Already taken', 'Another team accepted this scrim before you.');
         await load();
         return;
       }
 
+      setErrorMsg(scrimErrorMessage(e, 'Failed to accept scrim.'));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  // Ask the host instead of taking the slot outright
+  const doRequest = async () => {
+    if (!scrimId || !myTeamId) return;
+
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await repo.scrims.request(scrimId, myTeamId);
       await load();
     } catch (e: any) {
-      console.log('[ScrimDetails] accept open error:', e);
-      setErrorMsg(e?.message ?? 'Failed to accept scrim.');
+      console.log('[ScrimDetails] request error:', e);
+
+      if (scrimErrorCode(e) === 'scrim_taken') {
+        Alert.alert('Already taken', 'Another team took this scrim before you.');
+        await load();
+        return;
+      }
+
+      setErrorMsg(scrimErrorMessage(e, 'Failed to request scrim.'));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const runCancel = async (action: () => Promise<unknown>) => {
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await action();
+
+      await load();
+    } catch (e: any) {
+      console.log('[ScrimDetails] cancel error:', e);
+      setErrorMsg(scrimErrorMessage(e, 'Failed to cancel scrim.'));
     } finally {
       setActing(false);
     }
@@ -302,27 +268,44 @@ export default function ScrimDetailsScreen() {
   const doCancel = async () => {
     if (!scrimId) return;
 
+    if (canCancelSeries) {
+      Alert.alert('Cancel recurring scrim?', 'Cancel just this scrim, or it and every later one in the series?', [
+        { text: 'No', style: 'cancel' },
+        { text: 'Only this scrim', style: 'destructive', onPress: () => runCancel(() => repo.scrims.cancel(scrimId)) },
+        {
+          text: 'This and all future',
+          style: 'destructive',
+          onPress: () => runCancel(() => repo.scrimSeries.cancelFuture(scrimId)),
+        },
+      ]);
+      return;
+    }
+
     Alert.alert('Cancel scrim?', 'This will mark the scrim as cancelled.', [
+      { text: 'No', style: 'cancel' },
+      { text: 'Cancel scrim', style: 'destructive', onPress: () => runCancel(() => repo.scrims.cancel(scrimId)) },
+    ]);
+  };
+
+  const doWithdrawSiblings = async () => {
+    if (!scrimId) return;
+
+    Alert.alert('Withdraw other slots?', 'The other open slots in this block will be cancelled.', [
       { text: 'No', style: 'cancel' },
       {
-        text: 'Cancel scrim',
+        text: 'Withdraw',
         style: 'destructive',
         onPress: async () => {
           try {
             setActing(true);
             setErrorMsg(null);
 
-            const { error } = await supabase
-              .from('scrims')
-              .update({ status: 'cancelled', updated_at: new Date().toISOString() })
-              .eq('id', scrimId);
-
-            if (error) throw error;
+            await repo.scrimBlocks.withdrawSiblings(scrimId);
 
             await load();
           } catch (e: any) {
-            console.log('[ScrimDetails] cancel error:', e);
-            setErrorMsg(e?.message ?? 'Failed to cancel scrim.');
+            console.log('[ScrimDetails] withdraw slots error:', e);
+            setErrorMsg(scrimErrorMessage(e, 'Failed to withdraw the other slots.'));
           } finally {
             setActing(false);
           }
@@ -337,7 +320,11 @@ export default function ScrimDetailsScreen() {
     <SafeAreaView style={styles.safe}>
       <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
         <View style={styles.topRow}>
-          <Pressable onPress={() => router.back()} style={styles.iconBtn} hitSlop={10}>
+          <Pressable
+            onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+            style={styles.iconBtn}
+            hitSlop={10}
+          >
             <Ionicons name="chevron-back" size={20} color="#e5e7eb" />
           </Pressable>
 
@@ -347,7 +334,7 @@ export default function ScrimDetailsScreen() {
           </View>
 
           <View style={[styles.badge, { backgroundColor: statusStyle.bg, borderColor: statusStyle.bd }]}>
-            <Text style={[styles.badgeText, { color: statusStyle.fg }]}>{statusLabel(scrim?.status)}</Text>
+            <Text style={[styles.badgeText, { color: statusStyle.fg }]}>{scrimStatusLabel(scrim?.status)}</Text>
           </View>
         </View>
 
@@ -377,7 +364,7 @@ export default function ScrimDetailsScreen() {
               <View style={styles.kvRow}>
                 <Text style={styles.rowLabel}>When</Text>
                 <Text style={styles.rowValue}>
-                  {fmtDate(scrim.start_time, scrim.time_zone)} {scrim.time_zone ? `(${scrim.time_zone})` : ''}
+                  {formatScrimDate(scrim.start_time, scrim.time_zone)} {scrim.time_zone ? `(${scrim.time_zone})` : ''}
                 </Text>
               </View>
 
@@ -396,6 +383,13 @@ export default function ScrimDetailsScreen() {
                 <Text style={styles.rowValue}>{scrim.tier ?? 'Any'}</Text>
               </View>
 
+              {scrim.series ? (
+                <View style={styles.kvRow}>
+                  <Text style={styles.rowLabel}>Repeats</Text>
+                  <Text style={styles.rowValue}>{seriesSummary(scrim.series)}</Text>
+                </View>
+              ) : null}
+
               {scrim.notes ? (
                 <View style={{ marginTop: 10 }}>
                   <Text style={styles.rowLabel}>Notes</Text>
@@ -404,6 +398,38 @@ export default function ScrimDetailsScreen() {
               ) : null}
             </View>
 
+            {/* Other slots posted in the same block */}
+            {scrim.block && blockSlots.length > 0 ? (
+              <View style={[styles.card, { marginTop: 12 }]}>
+                <Text style={styles.rowLabel}>Block</Text>
+                <Text style={styles.blockText}>{blockSummary(scrim.block)}</Text>
+                {blockSlots.map((slot) => {
+                  const current = slot.id === scrim.id;
+                  return (
+                    <Pressable
+                      key={slot.id}
+                      disabled={current}
+                      onPress={() => router.push(`/scrim-details?id=${slot.id}`)}
+                      style={({ pressed }) => [styles.kvRow, pressed && { opacity: 0.8 }]}
+                    >
+                      <Text style={[styles.rowValue, { textAlign: 'left' }, current && { color: '#60a5fa' }]}>
+                        {formatScrimDate(slot.start_time, slot.time_zone)}
+                      </Text>
+                      <Text style={styles.blockText}>{current ? 'This slot' : scrimStatusLabel(slot.status)}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+
+            <ScrimChallenge scrim={scrim} myTeamId={myTeamId} myRole={myRole} onChanged={load} />
+
+            <ScrimApplications scrim={scrim} myTeamId={myTeamId} myRole={myRole} onChanged={load} />
+
+            <ScrimRosters hostTeam={scrim.host_team} opponentTeam={scrim.opponent_team} />
+
+            <ScrimLineups scrim={scrim} myTeamId={myTeamId} />
+
             <View style={styles.actionsCard}>
               {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
 
@@ -429,6 +455,18 @@ export default function ScrimDetailsScreen() {
                 </View>
               ) : null}
 
+              {myTeamId && isChallenge && !myActor ? (
+                <View style={styles.infoBox}>
+                  <Text style={styles.infoText}>This scrim is a direct challenge between two other teams.</Text>
+                </View>
+              ) : null}
+
+              {myTeamId && couldTakeSlot && myRole && !canAcceptOpen ? (
+                <View style={styles.infoBox}>
+                  <Text style={styles.infoText}>Ask your team’s owner, captain or manager to take this scrim.</Text>
+                </View>
+              ) : null}
+
               {/* Open scrim, not host, has team, untaken */}
               {myTeamId && canAcceptOpen ? (
                 <Pressable
@@ -440,6 +478,19 @@ export default function ScrimDetailsScreen() {
                 </Pressable>
               ) : null}
 
+              {myTeamId && canRequest ? (
+                <Pressable disabled={acting} onPress={doRequest} style={[styles.btnLink, acting && { opacity: 0.7 }]}>
+                  <Text style={styles.btnLinkText}>Request instead (host confirms)</Text>
+                </Pressable>
+              ) : null}
+
+              {/* Requested — waiting on the host */}
+              {myTeamId && scrimStatus === 'requested' && isOpponentTeam ? (
+                <View style={styles.infoBox}>
+                  <Text style={styles.infoText}>Request sent. Waiting for the host team to confirm.</Text>
+                </View>
+              ) : null}
+
               {/* Confirmed & I'm involved — just informational (no CTA needed yet) */}
               {myTeamId && scrimStatus === 'confirmed' && isInScrim ? (
                 <View style={styles.infoBox}>
@@ -447,6 +498,28 @@ export default function ScrimDetailsScreen() {
                 </View>
               ) : null}
 
+              {/* Host-only edit (open slots that haven't started) */}
+              {myTeamId && canEdit ? (
+                <Pressable
+                  disabled={acting}
+                  onPress={() => router.push(`/edit-scrim?id=${scrim.id}`)}
+                  style={[styles.btnGhost, acting && { opacity: 0.7 }]}
+                >
+                  <Text style={styles.btnGhostText}>{scrim.series_id ? 'Edit Scrim or Series' : 'Edit Scrim'}</Text>
+                </Pressable>
+              ) : null}
+
+              {/* Host: pull the rest of the block once this slot is taken */}
+              {myTeamId && canWithdrawSiblings ? (
+                <Pressable
+                  disabled={acting}
+                  onPress={doWithdrawSiblings}
+                  style={[styles.btnGhost, acting && { opacity: 0.7 }]}
+                >
+                  <Text style={styles.btnGhostText}>Withdraw Other Slots</Text>
+                </Pressable>
+              ) : null}
+
               {/* Host-only cancel */}
               {myTeamId && canCancel ? (
                 <Pressable disabled={acting} onPress={doCancel} style={[styles.btnDanger, acting && { opacity: 0.7 }]}>
@@ -458,6 +531,17 @@ export default function ScrimDetailsScreen() {
                 <Text style={styles.btnLinkText}>Refresh</Text>
               </Pressable>
             </View>
+
+            {/* Both teams on the scrim */}
+            {isInScrim && scrim.opponent_team_id ? (
+              <ScrimChat
+                scrimId={scrim.id}
+                myUserId={myUserId}
+                hostTeam={scrim.host_team}
+                opponentTeam={scrim.opponent_team}
+                readOnly={!isScrimChatOpen(scrim.status, scrim.opponent_team_id)}
+              />
+            ) : null}
           </>
         )}
 
@@ -505,6 +589,8 @@ const styles = StyleSheet.create({
     borderColor: '#27272a',
   },
 
+  blockText: { color: '#9ca3af', fontSize: 12, fontWeight: '700', marginTop: 4 },
+
   kvRow: { flexDirection: 'row', justifyContent: 'space-between', gap: 12, paddingVertical: 8 },
   rowLabel: { color: '#94a3b8', fontSize: 12, fontWeight: '800', width: 92 },
   rowValue: { color: '#e5e7eb', fontSize: 13, fontWeight: '700', flex: 1, textAlign: 'right' },
@@ -532,6 +618,16 @@ const styles = StyleSheet.create({
   btnPrimary: { paddingVertical: 14, borderRadius: 12, alignItems: 'center', backgroundColor: '#3b82f6' },
   btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
 
+  btnGhost: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  btnGhostText: { color: '#e5e7eb', fontWeight: '900' },
+
   btnDanger: {
     paddingVertical: 14,
     borderRadius: 12,
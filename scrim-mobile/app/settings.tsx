@@ -4,19 +4,8 @@ import { View, Text, Pressable, StyleSheet, Switch } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { supabase } from '../lib/supabase';
-
-type UserSettingsRow = {
-  user_id: string;
-  scrim_confirmed: boolean;
-  scrim_cancelled: boolean;
-  allow_team_invites: boolean;
-};
-
-const DEFAULTS: Omit<UserSettingsRow, 'user_id'> = {
-  scrim_confirmed: true,
-  scrim_cancelled: true,
-  allow_team_invites: true,
-};
+import { repo } from '../lib/repo';
+import { DEFAULT_USER_SETTINGS as DEFAULTS, type UserSettingsRow } from '../../shared/data';
 
 export default function SettingsScreen() {
   const [loading, setLoading] = useState(true);
@@ -41,13 +30,10 @@ export default function SettingsScreen() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('user_settings')
-        .select('user_id, scrim_confirmed, scrim_cancelled, allow_team_invites')
-        .eq('user_id', uid)
-        .maybeSingle();
-
-      if (error) {
+      let data: UserSettingsRow | null;
+      try {
+        data = await repo.userSettings.get(uid);
+      } catch (error) {
         console.log('[Settings] fetch error:', error);
         setLoading(false);
         return;
@@ -60,11 +46,9 @@ export default function SettingsScreen() {
           ...DEFAULTS,
         };
 
-        const { error: upErr } = await supabase
-          .from('user_settings')
-          .upsert(payload, { onConflict: 'user_id' });
-
-        if (upErr) console.log('[Settings] upsert default error:', upErr);
+        await repo.userSettings.upsert(payload).catch((upErr) => {
+          console.log('[Settings] upsert default error:', upErr);
+        });
 
         setScrimConfirmed(DEFAULTS.scrim_confirmed);
         setScrimCancelled(DEFAULTS.scrim_cancelled);
@@ -103,11 +87,7 @@ export default function SettingsScreen() {
           allow_team_invites: teamInvites,
         };
 
-        const { error } = await supabase
-          .from('user_settings')
-          .upsert(payload, { onConflict: 'user_id' });
-
-        if (error) console.log('[Settings] save error:', error);
+        await repo.userSettings.upsert(payload);
       } catch (e) {
         console.log('[Settings] save exception:', e);
       }
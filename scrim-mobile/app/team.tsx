@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, router } from 'expo-router';
+import { supabase } from '../lib/supabase';
+import { formatScrimDate } from '../lib/dates';
+import { repo } from '../lib/repo';
+import type { ScrimWithTeams, TeamRow } from '../../shared/data';
+import { regionLabel as formatRegion } from '../../shared/regions';
+import { scrimTypeLabel } from '../../shared/scrim-types';
+import { isTerminalScrimStatus, scrimStatusLabel } from '../../shared/scrim-lifecycle';
+
+type MemberUI = { id: string; name: string; isOwner: boolean };
+
+// Read-only team profile; target of scrimmobile://team/<id> links
+export default function TeamScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const teamId = typeof id === 'string' ? id : null;
+
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [team, setTeam] = useState<TeamRow | null>(null);
+  const [members, setMembers] = useState<MemberUI[]>([]);
+  const [upcoming, setUpcoming] = useState<ScrimWithTeams[]>([]);
+  const [myPrimaryTeamId, setMyPrimaryTeamId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+
+      if (!teamId) {
+        setTeam(null);
+        setErrorMsg('Missing team id.');
+        setLoading(false);
+        return;
+      }
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      const user = sessionData.session?.user;
+
+      if (user?.id) {
+        try {
+          setMyPrimaryTeamId(await repo.profiles.getPrimaryTeamId(user.id));
+        } catch {
+          setMyPrimaryTeamId(null);
+        }
+      }
+
+      const teamRow = await repo.teams.getById(teamId);
+      if (!teamRow) throw new Error('Team not found.');
+      setTeam(teamRow);
+
+      // Roster: owner first, then active members
+      const rows = await repo.teamMembers.listByTeam(teamId, { statuses: ['active'] });
+      const userIds = Array.from(new Set([teamRow.owner_id, ...rows.map((m) => m.user_id)]));
+      const profiles = await repo.profiles.listByIds(userIds);
+
+      const nameById: Record<string, string> = {};
+      profiles.forEach((p) => {
+        const handle = p.handle?.trim() ? (p.handle.startsWith('@') ? p.handle : `@${p.handle}`) : null;
+        nameById[p.id] = p.username?.trim() || handle || 'Member';
+      });
+
+      setMembers(
+        userIds.map((uid) => ({ id: uid, name: nameById[uid] ?? 'Member', isOwner: uid === teamRow.owner_id }))
+      );
+
+      const now = Date.now();
+      const scrims = await repo.scrims.listForTeam(teamId, { limit: 50 });
+      setUpcoming(
+        scrims.filter((s) => !isTerminalScrimStatus(s.status) && new Date(s.end_time).getTime() > now).slice(0, 5)
+      );
+
+      setLoading(false);
+    } catch (e: any) {
+      console.log('[Team] load error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load team.');
+      setTeam(null);
+      setMembers([]);
+      setUpcoming([]);
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const tag = useMemo(() => {
+    if (team?.tag?.trim()) return team.tag.trim();
+    return team?.name ? team.name.slice(0, 2).toUpperCase() : '—';
+  }, [team]);
+
+  const isMyTeam = !!team && team.id === myPrimaryTeamId;
+
+  // Links can open this screen with nothing underneath it
+  const goBack = () => (router.canGoBack() ? router.back() : router.replace('/(tabs)'));
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.topRow}>
+          <Pressable onPress={goBack} style={styles.iconBtn} hitSlop={10}>
+            <Ionicons name="chevron-back" size={20} color="#e5e7eb" />
+          </Pressable>
+
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title}>{team?.name ?? 'Team'}</Text>
+            <Text style={styles.subtitle}>{formatRegion(team?.region, { fallback: 'Region not set' })}</Text>
+          </View>
+
+          {team ? (
+            <View style={styles.tagBadge}>
+              <Text style={styles.tagText}>{tag}</Text>
+            </View>
+          ) : null}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+            <Text style={styles.mutedText}>Loading…</Text>
+          </View>
+        ) : !team ? (
+          <View style={styles.card}>
+            <Text style={styles.rowValue}>Could not load team.</Text>
+            {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+          </View>
+        ) : (
+          <>
+            {isMyTeam ? (
+              <Pressable onPress={() => router.replace('/(tabs)/my_team')} style={styles.btnPrimary}>
+                <Text style={styles.btnPrimaryText}>Open My Team</Text>
+              </Pressable>
+            ) : null}
+
+            <Text style={styles.sectionTitle}>Roster ({members.length})</Text>
+            <View style={styles.card}>
+              {members.map((m) => (
+                <View key={m.id} style={styles.memberRow}>
+                  <Ionicons name={m.isOwner ? 'star' : 'person'} size={14} color={m.isOwner ? '#fbbf24' : '#9ca3af'} />
+                  <Text style={styles.memberName}>{m.name}</Text>
+                  {m.isOwner ? <Text style={styles.memberRole}>Owner</Text> : null}
+                </View>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Upcoming Scrims</Text>
+            <View style={styles.card}>
+              {upcoming.length === 0 ? (
+                <Text style={styles.mutedText}>No upcoming scrims.</Text>
+              ) : (
+                upcoming.map((s) => {
+                  const other = s.host_team_id === team.id ? s.opponent_team : s.host_team;
+                  return (
+                    <Pressable
+                      key={s.id}
+                      onPress={() => router.push(`/scrim-details?id=${s.id}`)}
+                      style={styles.scrimRow}
+                    >
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.memberName}>
+                          {scrimTypeLabel(s.scrim_type, s.modes)} · {other?.name ?? 'Open slot'}
+                        </Text>
+                        <Text style={styles.scrimMeta}>{formatScrimDate(s.start_time, s.time_zone)}</Text>
+                      </View>
+                      <Text style={styles.memberRole}>{scrimStatusLabel(s.status)}</Text>
+                    </Pressable>
+                  );
+                })
+              )}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.footer}>Pinnacle — Passion. Potential. Performance.</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: '#0a0a0b' },
+  container: { padding: 16, paddingBottom: 28, gap: 12 },
+
+  topRow: { flexDirection: 'row', alignItems: 'center', gap: 10, marginBottom: 2 },
+  title: { color: '#ffffff', fontSize: 20, fontWeight: '900' },
+  subtitle: { color: '#9ca3af', marginTop: 2 },
+
+  iconBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  tagBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#1d4ed8',
+    backgroundColor: 'rgba(59,130,246,0.15)',
+  },
+  tagText: { color: '#60a5fa', fontSize: 12, fontWeight: '900' },
+
+  center: { alignItems: 'center', justifyContent: 'center', paddingVertical: 28 },
+  mutedText: { color: '#9ca3af', marginTop: 4 },
+
+  sectionTitle: { color: '#e5e7eb', fontSize: 14, fontWeight: '900', marginTop: 4 },
+
+  card: {
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    gap: 10,
+  },
+
+  rowValue: { color: '#e5e7eb', fontSize: 13, fontWeight: '700' },
+
+  memberRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  memberName: { color: '#e5e7eb', fontSize: 13, fontWeight: '700', flex: 1 },
+  memberRole: { color: '#94a3b8', fontSize: 12, fontWeight: '800' },
+
+  scrimRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  scrimMeta: { color: '#9ca3af', fontSize: 12, marginTop: 2 },
+
+  btnPrimary: { paddingVertical: 14, borderRadius: 12, alignItems: 'center', backgroundColor: '#3b82f6' },
+  btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
+
+  error: { color: '#fca5a5', fontSize: 12, marginTop: 8 },
+
+  footer: { color: '#64748b', fontSize: 12, textAlign: 'center', marginTop: 6 },
+});
@@ -12,50 +12,29 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { supabase } from '../lib/supabase';
-
-type TeamRow = {
-  id: string;
-  name: string | null;
-  tag: string | null;
-  region: string | null;
-  time_zone: string | null;
-  owner_id: string;
-  created_at: string | null;
-};
-
-type InviteRow = {
-  id: string;
-  team_id: string;
-  invited_user_id: string;
-  invited_by: string;
-  status: string;
-  created_at: string;
-  responded_at: string | null;
-};
-
-const REGION_LABELS: Record<string, string> = {
-  'pacific-nw': 'Pacific Northwest',
-  'pacific-sw': 'Pacific Southwest',
-  'central-north': 'Central North',
-  'central-south': 'Central South',
-  'atlantic-north': 'Atlantic North',
-  'atlantic-south': 'Atlantic South',
-};
-
-function regionLabel(raw: any) {
-  const key = String(raw ?? '').toLowerCase().trim();
-  return REGION_LABELS[key] ?? raw ?? '—';
-}
+import { repo } from '../lib/repo';
+import {
+  teamErrorMessage,
+  type TeamInviteRow as InviteRow,
+  type TeamOwnershipTransferRow,
+  type TeamRole,
+  type TeamRow,
+} from '../../shared/data';
+import { inviteExpiryLabel } from '../../shared/invites';
+import { regionLabel } from '../../shared/regions';
+import { teamCan, teamRoleLabel } from '../../shared/team-roles';
 
 export default function TeamsScreen() {
   const [loading, setLoading] = useState(true);
   const [teams, setTeams] = useState<TeamRow[]>([]);
+  const [rolesByTeam, setRolesByTeam] = useState<Record<string, TeamRole>>({});
   const [userId, setUserId] = useState<string | null>(null);
   const [primaryTeamId, setPrimaryTeamId] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
   // NEW: pending invites
   const [invites, setInvites] = useState<InviteRow[]>([]);
+  const [transfers, setTransfers] = useState<TeamOwnershipTransferRow[]>([]);
   const [invitesTeams, setInvitesTeams] = useState<Record<string, TeamRow>>({});
   const [invitesLoading, setInvitesLoading] = useState(false);
 
@@ -63,19 +42,14 @@ export default function TeamsScreen() {
     try {
       setInvitesLoading(true);
 
-      const { data: inv, error: invErr } = await supabase
-        .from('team_invites')
-        .select('id, team_id, invited_user_id, invited_by, status, created_at, responded_at')
-        .eq('invited_user_id', uid)
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false });
-
-      if (invErr) throw invErr;
-
-      const rows = (inv ?? []) as any as InviteRow[];
+      const [rows, offers] = await Promise.all([
+        repo.teamInvites.listPendingForUser(uid),
+        repo.teamTransfers.listPendingForUser(uid),
+      ]);
       setInvites(rows);
+      setTransfers(offers);
 
-      const teamIds = Array.from(new Set(rows.map((r) => r.team_id))).filter(Boolean);
+      const teamIds = Array.from(new Set([...rows, ...offers].map((r) => r.team_id))).filter(Boolean);
 
       if (teamIds.length === 0) {
         setInvitesTeams({});
@@ -83,15 +57,10 @@ export default function TeamsScreen() {
         return;
       }
 
-      const { data: t, error: tErr } = await supabase
-        .from('teams')
-        .select('id, name, tag, region, time_zone, owner_id, created_at')
-        .in('id', teamIds);
-
-      if (tErr) throw tErr;
+      const t = await repo.teams.listByIds(teamIds);
 
       const map: Record<string, TeamRow> = {};
-      (t ?? []).forEach((row: any) => {
+      t.forEach((row) => {
         if (row?.id) map[row.id] = row;
       });
 
@@ -100,6 +69,7 @@ export default function TeamsScreen() {
     } catch (e: any) {
       console.log('[Teams] invites load error:', e);
       setInvites([]);
+      setTransfers([]);
       setInvitesTeams({});
       setInvitesLoading(false);
     }
@@ -119,6 +89,7 @@ export default function TeamsScreen() {
         setPrimaryTeamId(null);
         setTeams([]);
         setInvites([]);
+        setTransfers([]);
         setInvitesTeams({});
         setLoading(false);
         return;
@@ -127,54 +98,31 @@ export default function TeamsScreen() {
       setUserId(user.id);
 
       // Primary team id
-      const { data: prof, error: profErr } = await supabase
-        .from('Profiles')
-        .select('primary_team_id')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (!profErr) setPrimaryTeamId((prof as any)?.primary_team_id ?? null);
+      try {
+        setPrimaryTeamId(await repo.profiles.getPrimaryTeamId(user.id));
+      } catch (profErr) {
+        console.log('[Teams] primary team load error:', profErr);
+      }
 
       // Load invites in parallel-ish
       loadInvites(user.id);
 
       // Owned teams
-      const { data: owned, error: ownedErr } = await supabase
-        .from('teams')
-        .select('id, name, tag, region, time_zone, owner_id, created_at')
-        .eq('owner_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (ownedErr) throw ownedErr;
+      const owned = await repo.teams.listOwnedBy(user.id);
 
       // Member teams
-      const { data: memberRows, error: memberErr } = await supabase
-        .from('team_members')
-        .select('team_id')
-        .eq('user_id', user.id)
-        .in('status', ['active', 'invited', 'pending']);
-
-      if (memberErr) throw memberErr;
-
-      const memberTeamIds = Array.from(new Set((memberRows ?? []).map((r: any) => r.team_id))).filter(Boolean);
-
-      let memberTeams: TeamRow[] = [];
-      if (memberTeamIds.length > 0) {
-        const { data: teamsData, error: teamsErr } = await supabase
-          .from('teams')
-          .select('id, name, tag, region, time_zone, owner_id, created_at')
-          .in('id', memberTeamIds)
-          .order('created_at', { ascending: false });
-
-        if (teamsErr) throw teamsErr;
-        memberTeams = (teamsData ?? []) as any;
-      }
+      const memberTeamIds = await repo.teamMembers.listTeamIdsForUser(user.id, ['active', 'invited', 'pending']);
+      const [memberTeams, roles] = await Promise.all([
+        repo.teams.listByIds(memberTeamIds),
+        repo.teamMembers.listRolesForUser(user.id),
+      ]);
+      setRolesByTeam(roles);
 
       // Merge + dedupe
-      const merged = [...(owned ?? []), ...memberTeams];
+      const merged = [...owned, ...memberTeams];
       const seen = new Set<string>();
       const deduped: TeamRow[] = [];
-      for (const t of merged as any[]) {
+      for (const t of merged) {
         if (!t?.id) continue;
         if (seen.has(t.id)) continue;
         seen.add(t.id);
@@ -222,8 +170,7 @@ export default function TeamsScreen() {
     try {
       if (!userId) return;
 
-      const { error } = await supabase.from('Profiles').update({ primary_team_id: teamId }).eq('id', userId);
-      if (error) throw error;
+      await repo.profiles.update(userId, { primary_team_id: teamId });
 
       setPrimaryTeamId(teamId);
     } catch (e: any) {
@@ -232,10 +179,12 @@ export default function TeamsScreen() {
     }
   };
 
-  const onViewTeam = (team: TeamRow) => {
-    const isOwner = !!userId && team.owner_id === userId;
+  const roleOf = (team: TeamRow): TeamRole | null =>
+    !!userId && team.owner_id === userId ? 'owner' : rolesByTeam[team.id] ?? null;
 
-    if (isOwner) {
+  const onViewTeam = (team: TeamRow) => {
+    // Settings for whoever can edit the team
+    if (teamCan(roleOf(team), 'edit_team')) {
       router.push(`/create-team?id=${team.id}`);
       return;
     }
@@ -247,47 +196,49 @@ export default function TeamsScreen() {
     try {
       if (!userId) return;
 
-      // 1) Add membership
-      const { error: mErr } = await supabase.from('team_members').insert({
-        team_id: inv.team_id,
-        user_id: userId,
-        status: 'active',
-      });
-
-      if (mErr) throw mErr;
-
-      // 2) Mark invite accepted
-      const { error: upErr } = await supabase
-        .from('team_invites')
-        .update({ status: 'accepted', responded_at: new Date().toISOString() })
-        .eq('id', inv.id);
-
-      if (upErr) throw upErr;
+      // Adds the membership and marks the invite accepted
+      await repo.teamInvites.respond(inv.id, true);
 
       // Refresh lists
       await loadTeams();
     } catch (e: any) {
       console.log('[Teams] accept invite error:', e);
-      Alert.alert('Could not accept invite', e?.message ?? 'Please try again.');
+      Alert.alert('Could not accept invite', teamErrorMessage(e, 'Please try again.'));
+      await loadTeams();
     }
   };
 
   const declineInvite = async (inv: InviteRow) => {
     try {
-      const { error: upErr } = await supabase
-        .from('team_invites')
-        .update({ status: 'declined', responded_at: new Date().toISOString() })
-        .eq('id', inv.id);
-
-      if (upErr) throw upErr;
+      await repo.teamInvites.respond(inv.id, false);
 
       await loadTeams();
     } catch (e: any) {
       console.log('[Teams] decline invite error:', e);
-      Alert.alert('Could not decline invite', e?.message ?? 'Please try again.');
+      Alert.alert('Could not decline invite', teamErrorMessage(e, 'Please try again.'));
+      await loadTeams();
+    }
+  };
+
+  const answerTransfer = async (transfer: TeamOwnershipTransferRow, accept: boolean) => {
+    try {
+      await repo.teamTransfers.respond(transfer.id, accept);
+      await loadTeams();
+    } catch (e: any) {
+      console.log('[Teams] transfer answer error:', e);
+      Alert.alert(accept ? 'Could not accept' : 'Could not decline', teamErrorMessage(e, 'Please try again.'));
+      await loadTeams();
     }
   };
 
+  const confirmAcceptTransfer = (transfer: TeamOwnershipTransferRow) => {
+    const name = invitesTeams[transfer.team_id]?.name ?? 'this team';
+    Alert.alert('Become the owner?', `You’ll own ${name}. The current owner stays on the team as a player.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Accept', onPress: () => answerTransfer(transfer, true) },
+    ]);
+  };
+
   return (
     <SafeAreaView style={styles.safe}>
       <View style={styles.container}>
@@ -323,6 +274,45 @@ export default function TeamsScreen() {
           <ScrollView contentContainerStyle={{ paddingBottom: 18 }}>
             {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
 
+            {/* Ownership Offers */}
+            {transfers.length > 0 ? (
+              <View style={{ marginBottom: 14 }}>
+                <View style={styles.invitesHeaderRow}>
+                  <Text style={styles.invitesTitle}>Ownership Offers</Text>
+                </View>
+
+                <View style={{ gap: 10 }}>
+                  {transfers.map((tr) => {
+                    const t = invitesTeams[tr.team_id];
+                    return (
+                      <View key={tr.id} style={styles.inviteCard}>
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.inviteTeamName}>{t?.name ?? 'Team'}</Text>
+                          <Text style={styles.inviteMeta}>The owner wants to hand this team to you</Text>
+                        </View>
+
+                        <View style={styles.inviteActions}>
+                          <Pressable
+                            onPress={() => confirmAcceptTransfer(tr)}
+                            style={({ pressed }) => [styles.inviteAccept, pressed && { opacity: 0.9 }]}
+                          >
+                            <Text style={styles.inviteAcceptText}>Accept</Text>
+                          </Pressable>
+
+                          <Pressable
+                            onPress={() => answerTransfer(tr, false)}
+                            style={({ pressed }) => [styles.inviteDecline, pressed && { opacity: 0.9 }]}
+                          >
+                            <Text style={styles.inviteDeclineText}>Decline</Text>
+                          </Pressable>
+                        </View>
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+            ) : null}
+
             {/* Pending Invites */}
             <View style={{ marginBottom: 14 }}>
               <View style={styles.invitesHeaderRow}>
@@ -346,6 +336,7 @@ export default function TeamsScreen() {
                           <Text style={styles.inviteMeta}>
                             {t?.tag ? `[${t.tag}]` : '—'} · {regionLabel(t?.region)} · {t?.time_zone ?? '—'}
                           </Text>
+                          <Text style={styles.inviteMeta}>{inviteExpiryLabel(inv)}</Text>
                         </View>
 
                         <View style={styles.inviteActions}>
@@ -388,7 +379,8 @@ export default function TeamsScreen() {
             {hasTeams ? (
               <View style={{ gap: 12 }}>
                 {sortedTeams.map((t) => {
-                  const isOwner = !!userId && t.owner_id === userId;
+                  const role = roleOf(t);
+                  const isOwner = role === 'owner';
                   const isPrimary = !!primaryTeamId && primaryTeamId === t.id;
 
                   return (
@@ -413,7 +405,7 @@ export default function TeamsScreen() {
 
                         <View style={[styles.badge, isOwner ? styles.badgeOwner : styles.badgeMember]}>
                           <Text style={[styles.badgeText, isOwner ? { color: '#60a5fa' } : { color: '#34d399' }]}>
-                            {isOwner ? 'Owner' : 'Member'}
+                            {teamRoleLabel(role)}
                           </Text>
                         </View>
                       </View>
@@ -434,7 +426,7 @@ export default function TeamsScreen() {
                           onPress={() => onViewTeam(t)}
                           style={({ pressed }) => [styles.ghostBtn, pressed && { opacity: 0.85 }]}
                         >
-                          <Text style={styles.ghostBtnText}>{isOwner ? 'Settings' : 'View'}</Text>
+                          <Text style={styles.ghostBtnText}>{teamCan(role, 'edit_team') ? 'Settings' : 'View'}</Text>
                         </Pressable>
                       </View>
                     </View>
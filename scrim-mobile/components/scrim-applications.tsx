@@ -0,0 +1,322 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { repo } from '../lib/repo';
+import {
+  scrimErrorMessage,
+  type ScrimApplicationWithTeam,
+  type ScrimWithTeams,
+  type TeamScrimRecord,
+} from '../../shared/data';
+import { regionLabel } from '../../shared/regions';
+import {
+  acceptsApplications,
+  APPLICATION_MESSAGE_MAX,
+  SCRIM_APPLICATION_STATUS_LABELS,
+  teamReliabilityLabel,
+} from '../../shared/scrim-applications';
+import { SCRIM_TIERS } from '../../shared/scrim-types';
+import { teamCan, type TeamRole } from '../../shared/team-roles';
+
+type Props = {
+  scrim: ScrimWithTeams;
+  myTeamId: string | null;
+  myRole: TeamRole | null;
+  onChanged: () => void | Promise<void>;
+};
+
+function teamLabel(a: ScrimApplicationWithTeam) {
+  if (!a.team) return 'Unknown Team';
+  return a.team.tag ? `${a.team.name} [${a.team.tag}]` : a.team.name;
+}
+
+// Host-approval scrims on Scrim Details: the host compares applicants and picks
+// one; any other team asks to play (or withdraws its request)
+export function ScrimApplications({ scrim, myTeamId, myRole, onChanged }: Props) {
+  const [loading, setLoading] = useState(true);
+  const [applications, setApplications] = useState<ScrimApplicationWithTeam[]>([]);
+  const [records, setRecords] = useState<Record<string, TeamScrimRecord>>({});
+
+  const [tier, setTier] = useState<string | null>(scrim.tier);
+  const [message, setMessage] = useState('');
+  const [acting, setActing] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const isHost = !!myTeamId && scrim.host_team_id === myTeamId;
+  const open = acceptsApplications(scrim);
+
+  const load = useCallback(async () => {
+    if (!scrim.requires_approval || !myTeamId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await repo.scrimApplications.listForScrim(scrim.id);
+      setApplications(data);
+
+      if (scrim.host_team_id === myTeamId) {
+        const rows = await repo.scrimApplications.records(data.map((a) => a.team_id));
+        setRecords(Object.fromEntries(rows.map((r) => [r.team_id, r])));
+      }
+    } catch (e) {
+      console.log('[ScrimApplications] load error:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [scrim.id, scrim.requires_approval, scrim.host_team_id, myTeamId]);
+
+  // Reload when the scrim moves on (someone asked, withdrew or was picked)
+  useEffect(() => {
+    load();
+  }, [load, scrim.status, scrim.opponent_team_id]);
+
+  if (!scrim.requires_approval || !myTeamId) return null;
+
+  const run = async (label: string, fallback: string, action: () => Promise<unknown>) => {
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await action();
+      await load();
+      await onChanged();
+    } catch (e: any) {
+      console.log(`[ScrimApplications] ${label} error:`, e);
+      setErrorMsg(scrimErrorMessage(e, fallback));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const apply = () => {
+    run('apply', 'Failed to send request.', async () => {
+      await repo.scrimApplications.apply(scrim.id, myTeamId, { tier, message });
+      setMessage('');
+    });
+  };
+
+  const withdraw = (id: string) => {
+    run('withdraw', 'Failed to withdraw request.', () => repo.scrimApplications.withdraw(id));
+  };
+
+  const choose = (a: ScrimApplicationWithTeam) => {
+    const others = applications.filter((x) => x.status === 'pending' && x.id !== a.id).length;
+    Alert.alert(
+      `Play ${a.team?.name ?? 'this team'}?`,
+      others
+        ? `This confirms the scrim. The other ${others === 1 ? 'team' : `${others} teams`} will be told you picked someone else.`
+        : 'This confirms the scrim.',
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: 'Confirm',
+          onPress: () => run('choose', 'Failed to pick this team.', () => repo.scrimApplications.choose(a.id)),
+        },
+      ]
+    );
+  };
+
+  const header = (
+    <View style={styles.headerRow}>
+      <Ionicons name="shield-checkmark-outline" size={18} color="#60a5fa" />
+      <Text style={styles.title}>{isHost ? 'Requests' : 'Host approval'}</Text>
+      {isHost ? (
+        <Text style={styles.muted}>{applications.filter((a) => a.status === 'pending').length} waiting</Text>
+      ) : null}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.card}>
+        {header}
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  // Host: compare and pick
+  if (isHost) {
+    const canPick = open && teamCan(myRole, 'accept_scrims');
+
+    return (
+      <View style={styles.card}>
+        {header}
+
+        {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+        {applications.length === 0 ? (
+          <Text style={styles.muted}>No requests yet. Teams that ask to play will show up here.</Text>
+        ) : (
+          applications.map((a) => (
+            <View key={a.id} style={[styles.applicant, a.status !== 'pending' && { opacity: 0.55 }]}>
+              <View style={{ flex: 1, gap: 3 }}>
+                <Text style={styles.teamName}>{teamLabel(a)}</Text>
+                <Text style={styles.lineText}>
+                  {regionLabel(a.team?.region, { fallback: 'Region not set' })} · {a.tier ?? 'Tier not given'}
+                </Text>
+                <Text style={styles.lineText}>{teamReliabilityLabel(records[a.team_id])}</Text>
+                {a.message ? <Text style={styles.messageText}>“{a.message}”</Text> : null}
+                {a.status !== 'pending' ? (
+                  <Text style={styles.statusText}>{SCRIM_APPLICATION_STATUS_LABELS[a.status]}</Text>
+                ) : null}
+              </View>
+
+              {canPick && a.status === 'pending' ? (
+                <Pressable
+                  disabled={acting}
+                  onPress={() => choose(a)}
+                  style={[styles.pickBtn, acting && { opacity: 0.7 }]}
+                >
+                  <Text style={styles.pickBtnText}>Pick</Text>
+                </Pressable>
+              ) : null}
+            </View>
+          ))
+        )}
+
+        {open && !teamCan(myRole, 'accept_scrims') && applications.length > 0 ? (
+          <Text style={styles.muted}>Ask your team’s owner, captain or manager to pick an opponent.</Text>
+        ) : null}
+      </View>
+    );
+  }
+
+  // Another team: ask, wait, or hear the outcome
+  const mine = applications.find((a) => a.team_id === myTeamId) ?? null;
+  const canApply = open && (!mine || mine.status === 'withdrawn');
+
+  if (!canApply && !mine) return null;
+
+  return (
+    <View style={styles.card}>
+      {header}
+
+      {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+      {mine && mine.status !== 'withdrawn' ? (
+        <Text style={styles.muted}>
+          {mine.status === 'pending'
+            ? 'Request sent. The host will compare the teams that asked and pick one.'
+            : mine.status === 'rejected'
+              ? 'The host picked another team for this scrim.'
+              : 'The host picked your team.'}
+        </Text>
+      ) : null}
+
+      {mine?.status === 'pending' && teamCan(myRole, 'accept_scrims') ? (
+        <Pressable disabled={acting} onPress={() => withdraw(mine.id)} style={[styles.btnLink, acting && { opacity: 0.7 }]}>
+          <Text style={styles.btnLinkText}>Withdraw request</Text>
+        </Pressable>
+      ) : null}
+
+      {canApply && !teamCan(myRole, 'accept_scrims') ? (
+        <Text style={styles.muted}>Ask your team’s owner, captain or manager to request this scrim.</Text>
+      ) : null}
+
+      {canApply && teamCan(myRole, 'accept_scrims') ? (
+        <>
+          <Text style={styles.muted}>The host picks who plays. Tell them a bit about your team.</Text>
+
+          <Text style={styles.label}>Your tier</Text>
+          <View style={styles.pillRow}>
+            {SCRIM_TIERS.map((t) => {
+              const selected = tier === t;
+              return (
+                <Pressable
+                  key={t}
+                  onPress={() => setTier(selected ? null : t)}
+                  style={[styles.pill, selected && styles.pillSelected]}
+                >
+                  <Text style={[styles.pillText, selected && styles.pillTextSelected]}>{t}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <TextInput
+            value={message}
+            onChangeText={setMessage}
+            placeholder="Note for the host (optional)"
+            placeholderTextColor="#6b7280"
+            maxLength={APPLICATION_MESSAGE_MAX}
+            multiline
+            style={styles.input}
+          />
+
+          <Pressable disabled={acting} onPress={apply} style={[styles.btnPrimary, acting && { opacity: 0.7 }]}>
+            {acting ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Ask to Play</Text>}
+          </Pressable>
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 12,
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    gap: 10,
+  },
+  headerRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { color: '#ffffff', fontSize: 15, fontWeight: '900', flex: 1 },
+  muted: { color: '#9ca3af', fontSize: 12, fontWeight: '700' },
+  label: { color: '#94a3b8', fontSize: 12, fontWeight: '800' },
+
+  applicant: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    backgroundColor: '#0a0a0b',
+  },
+  teamName: { color: '#e5e7eb', fontSize: 13, fontWeight: '900' },
+  lineText: { color: '#cbd5e1', fontSize: 12 },
+  messageText: { color: '#9ca3af', fontSize: 12, fontStyle: 'italic' },
+  statusText: { color: '#9ca3af', fontSize: 11, fontWeight: '900' },
+
+  pickBtn: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 12, backgroundColor: '#3b82f6' },
+  pickBtnText: { color: '#ffffff', fontWeight: '900' },
+
+  pillRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: '#0a0a0b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  pillSelected: { backgroundColor: 'rgba(59,130,246,0.16)', borderColor: 'rgba(59,130,246,0.55)' },
+  pillText: { color: '#9ca3af', fontSize: 12, fontWeight: '800' },
+  pillTextSelected: { color: '#60a5fa' },
+
+  input: {
+    minHeight: 64,
+    color: '#e5e7eb',
+    backgroundColor: '#0a0a0b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    textAlignVertical: 'top',
+  },
+
+  error: { color: '#fca5a5', fontSize: 12 },
+
+  btnPrimary: { paddingVertical: 14, borderRadius: 12, alignItems: 'center', backgroundColor: '#3b82f6' },
+  btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
+
+  btnLink: { alignItems: 'center', paddingVertical: 8 },
+  btnLinkText: { color: '#60a5fa', fontWeight: '900' },
+});
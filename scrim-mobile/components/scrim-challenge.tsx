@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { formatScrimDate } from '../lib/dates';
+import { repo } from '../lib/repo';
+import { scrimErrorMessage, type ScrimWithTeams } from '../../shared/data';
+import {
+  challengeAwaits,
+  challengeSideForTeam,
+  isOpenChallenge,
+  SCRIM_CHALLENGE_STATUS_LABELS,
+} from '../../shared/scrim-challenges';
+import { teamCan, type TeamRole } from '../../shared/team-roles';
+
+type Props = {
+  scrim: ScrimWithTeams;
+  myTeamId: string | null;
+  myRole: TeamRole | null;
+  onChanged: () => void | Promise<void>;
+};
+
+// Challenge card on Scrim Details for the two teams involved: the challenged team
+// accepts, declines or proposes another time; the host answers a proposal or
+// withdraws the challenge
+export function ScrimChallenge({ scrim, myTeamId, myRole, onChanged }: Props) {
+  const [acting, setActing] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const side = challengeSideForTeam(scrim, myTeamId);
+  if (!side || !scrim.challenge_status || scrim.challenge_status === 'accepted' || scrim.status !== 'open') {
+    return null;
+  }
+
+  const open = isOpenChallenge(scrim);
+  const awaits = challengeAwaits(scrim);
+  const hostName = scrim.host_team?.name ?? 'The host team';
+  const challengedName = scrim.challenged_team?.name ?? 'the challenged team';
+
+  const canAnswer = open && side === 'challenged' && teamCan(myRole, 'accept_scrims');
+  const canAnswerCounter = awaits === 'host' && side === 'host' && teamCan(myRole, 'accept_scrims');
+  const canWithdraw = side === 'host' && teamCan(myRole, 'post_scrims');
+
+  const run = async (label: string, fallback: string, action: () => Promise<unknown>) => {
+    try {
+      setActing(true);
+      setErrorMsg(null);
+
+      await action();
+      await onChanged();
+    } catch (e: any) {
+      console.log(`[ScrimChallenge] ${label} error:`, e);
+      setErrorMsg(scrimErrorMessage(e, fallback));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const accept = () => {
+    if (!myTeamId) return;
+    run('accept', 'Failed to accept challenge.', () => repo.scrims.accept(scrim.id, myTeamId));
+  };
+
+  const decline = () => {
+    Alert.alert('Decline challenge?', `${hostName} will be told you can’t make it.`, [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Decline',
+        style: 'destructive',
+        onPress: () => run('decline', 'Failed to decline challenge.', () => repo.scrims.declineChallenge(scrim.id)),
+      },
+    ]);
+  };
+
+  const propose = (d: Date) => {
+    setPickerOpen(false);
+    run('counter', 'Failed to propose a new time.', () => repo.scrims.counterChallenge(scrim.id, d.toISOString()));
+  };
+
+  const answerCounter = (accept: boolean) => {
+    run('answer counter', 'Failed to answer the proposed time.', () => repo.scrims.answerCounter(scrim.id, accept));
+  };
+
+  const withdraw = () => {
+    Alert.alert('Withdraw challenge?', 'The scrim will be posted to Scrim Center for any team to take.', [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Withdraw',
+        style: 'destructive',
+        onPress: () => run('withdraw', 'Failed to withdraw challenge.', () => repo.scrims.withdrawChallenge(scrim.id)),
+      },
+    ]);
+  };
+
+  const summary =
+    side === 'host' ? `You challenged ${challengedName}.` : `${hostName} challenged your team to this scrim.`;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="flash-outline" size={18} color="#fbbf24" />
+        <Text style={styles.title}>Challenge</Text>
+        <Text style={styles.statusText}>{SCRIM_CHALLENGE_STATUS_LABELS[scrim.challenge_status]}</Text>
+      </View>
+
+      <Text style={styles.muted}>{summary}</Text>
+
+      {scrim.challenge_status === 'countered' && scrim.proposed_start_time ? (
+        <View style={styles.infoBox}>
+          <Text style={styles.infoLabel}>
+            {side === 'host' ? `${challengedName} proposed` : 'You proposed'}
+          </Text>
+          <Text style={styles.infoValue}>{formatScrimDate(scrim.proposed_start_time, scrim.time_zone)}</Text>
+          <Text style={styles.muted}>instead of {formatScrimDate(scrim.start_time, scrim.time_zone)}</Text>
+        </View>
+      ) : null}
+
+      {scrim.challenge_status === 'declined' ? (
+        <Text style={styles.muted}>
+          {side === 'host'
+            ? 'They can’t make it. Withdraw the challenge to post the slot for any team, or cancel the scrim.'
+            : 'You declined this challenge.'}
+        </Text>
+      ) : null}
+
+      {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+      {side === 'challenged' && open && !canAnswer ? (
+        <Text style={styles.muted}>Ask your team’s owner, captain or manager to answer this challenge.</Text>
+      ) : null}
+
+      {side === 'host' && awaits === 'challenged' ? (
+        <Text style={styles.muted}>Waiting for {challengedName} to answer.</Text>
+      ) : null}
+
+      {canAnswer ? (
+        <>
+          {scrim.challenge_status === 'countered' ? (
+            <Text style={styles.muted}>Waiting for the host to answer. You can still take the original time.</Text>
+          ) : null}
+
+          <Pressable disabled={acting} onPress={accept} style={[styles.btnPrimary, acting && { opacity: 0.7 }]}>
+            {acting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.btnPrimaryText}>
+                {scrim.challenge_status === 'countered' ? 'Accept Original Time' : 'Accept Challenge'}
+              </Text>
+            )}
+          </Pressable>
+
+          <View style={styles.buttonRow}>
+            <Pressable
+              disabled={acting}
+              onPress={() => setPickerOpen(true)}
+              style={[styles.btnSecondary, acting && { opacity: 0.7 }]}
+            >
+              <Text style={styles.btnSecondaryText}>Propose New Time</Text>
+            </Pressable>
+
+            <Pressable disabled={acting} onPress={decline} style={[styles.btnDanger, acting && { opacity: 0.7 }]}>
+              <Text style={styles.btnDangerText}>Decline</Text>
+            </Pressable>
+          </View>
+
+          <DateTimePickerModal
+            isVisible={pickerOpen}
+            mode="datetime"
+            date={new Date(scrim.proposed_start_time ?? scrim.start_time)}
+            minimumDate={new Date()}
+            onConfirm={propose}
+            onCancel={() => setPickerOpen(false)}
+          />
+        </>
+      ) : null}
+
+      {canAnswerCounter ? (
+        <View style={styles.buttonRow}>
+          <Pressable
+            disabled={acting}
+            onPress={() => answerCounter(true)}
+            style={[styles.btnPrimary, { flex: 1 }, acting && { opacity: 0.7 }]}
+          >
+            {acting ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Accept New Time</Text>}
+          </Pressable>
+
+          <Pressable
+            disabled={acting}
+            onPress={() => answerCounter(false)}
+            style={[styles.btnSecondary, acting && { opacity: 0.7 }]}
+          >
+            <Text style={styles.btnSecondaryText}>Keep Original</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {canWithdraw ? (
+        <Pressable disabled={acting} onPress={withdraw} style={[styles.btnLink, acting && { opacity: 0.7 }]}>
+          <Text style={styles.btnLinkText}>Withdraw challenge and post to Scrim Center</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 12,
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(234,179,8,0.45)',
+    gap: 10,
+  },
+  headerRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { color: '#ffffff', fontSize: 15, fontWeight: '900', flex: 1 },
+  statusText: { color: '#fbbf24', fontSize: 12, fontWeight: '900' },
+  muted: { color: '#9ca3af', fontSize: 12, fontWeight: '700' },
+
+  infoBox: {
+    backgroundColor: '#0b1220',
+    borderWidth: 1,
+    borderColor: '#111827',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  infoLabel: { color: '#94a3b8', fontSize: 12, fontWeight: '800' },
+  infoValue: { color: '#e5e7eb', fontSize: 14, fontWeight: '900' },
+
+  error: { color: '#fca5a5', fontSize: 12 },
+
+  buttonRow: { flexDirection: 'row', gap: 10 },
+  btnPrimary: { paddingVertical: 14, borderRadius: 12, alignItems: 'center', backgroundColor: '#3b82f6' },
+  btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
+  btnSecondary: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#0a0a0b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  btnSecondaryText: { color: '#e5e7eb', fontWeight: '900' },
+  btnDanger: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(248,113,113,0.18)',
+    borderWidth: 1,
+    borderColor: 'rgba(248,113,113,0.45)',
+  },
+  btnDangerText: { color: '#fca5a5', fontWeight: '900' },
+
+  btnLink: { alignItems: 'center', paddingVertical: 8 },
+  btnLinkText: { color: '#60a5fa', fontWeight: '900' },
+});
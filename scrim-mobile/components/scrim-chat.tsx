@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { repo } from '../lib/repo';
+import {
+  SCRIM_MESSAGE_MAX,
+  scrimErrorMessage,
+  type ScrimMessageRow,
+  type TeamSummary,
+} from '../../shared/data';
+
+type Props = {
+  scrimId: string;
+  myUserId: string | null;
+  hostTeam: TeamSummary | null;
+  opponentTeam: TeamSummary | null;
+  readOnly: boolean;
+};
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Team-to-team thread on Scrim Details. Opening it marks the chat read, which
+// also clears the scrim_message notification for this scrim.
+export function ScrimChat({ scrimId, myUserId, hostTeam, opponentTeam, readOnly }: Props) {
+  const [loading, setLoading] = useState(true);
+  const [messages, setMessages] = useState<ScrimMessageRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const namesRef = useRef(names);
+
+  useEffect(() => {
+    namesRef.current = names;
+  }, [names]);
+
+  const loadNames = useCallback(async (userIds: string[]) => {
+    const missing = userIds.filter((id) => !namesRef.current[id]);
+    if (missing.length === 0) return;
+
+    try {
+      const profiles = await repo.profiles.listByIds(Array.from(new Set(missing)));
+      setNames((prev) => {
+        const next = { ...prev };
+        profiles.forEach((p) => {
+          next[p.id] = p.username?.trim() || (p.handle?.trim() ? `@${p.handle.replace(/^@/, '')}` : 'Player');
+        });
+        return next;
+      });
+    } catch (e) {
+      console.log('[ScrimChat] names error:', e);
+    }
+  }, []);
+
+  const markRead = useCallback(() => {
+    repo.scrimMessages.markRead(scrimId).catch((e) => console.log('[ScrimChat] markRead error:', e));
+  }, [scrimId]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const rows = await repo.scrimMessages.listForScrim(scrimId);
+        if (!mounted) return;
+
+        setMessages(rows);
+        loadNames(rows.map((m) => m.sender_id));
+        markRead();
+      } catch (e) {
+        console.log('[ScrimChat] load error:', e);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    load();
+
+    const unsubscribe = repo.scrimMessages.subscribeForScrim(scrimId, (row) => {
+      if (!mounted) return;
+
+      setMessages((prev) => (prev.some((m) => m.id === row.id) ? prev : [...prev, row]));
+      loadNames([row.sender_id]);
+      if (row.sender_id !== myUserId) markRead();
+    });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [scrimId, myUserId, loadNames, markRead]);
+
+  const send = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    try {
+      setSending(true);
+      setErrorMsg(null);
+
+      const row = await repo.scrimMessages.send(scrimId, body);
+      setMessages((prev) => (prev.some((m) => m.id === row.id) ? prev : [...prev, row]));
+      setDraft('');
+    } catch (e: any) {
+      console.log('[ScrimChat] send error:', e);
+      setErrorMsg(scrimErrorMessage(e, 'Failed to send message.'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const teamLabel = (teamId: string) => {
+    const t = teamId === hostTeam?.id ? hostTeam : teamId === opponentTeam?.id ? opponentTeam : null;
+    return t?.tag?.trim() || t?.name || 'Team';
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="chatbubbles" size={16} color="#60a5fa" />
+        <Text style={styles.title}>Team Chat</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator />
+      ) : messages.length === 0 ? (
+        <Text style={styles.muted}>No messages yet.</Text>
+      ) : (
+        <View style={{ gap: 8 }}>
+          {messages.map((m) => {
+            const mine = m.sender_id === myUserId;
+            return (
+              <View key={m.id} style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleTheirs]}>
+                <Text style={styles.sender}>
+                  {mine ? 'You' : names[m.sender_id] ?? 'Player'} · {teamLabel(m.team_id)}
+                </Text>
+                <Text style={styles.body}>{m.body}</Text>
+                <Text style={styles.time}>{fmtTime(m.created_at)}</Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+      {readOnly ? (
+        <Text style={styles.muted}>This scrim is over — chat is read-only.</Text>
+      ) : (
+        <View style={styles.inputRow}>
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="Message the other team…"
+            placeholderTextColor="#6b7280"
+            maxLength={SCRIM_MESSAGE_MAX}
+            multiline
+            style={styles.input}
+          />
+          <Pressable
+            disabled={sending || !draft.trim()}
+            onPress={send}
+            style={[styles.sendBtn, (sending || !draft.trim()) && { opacity: 0.5 }]}
+          >
+            {sending ? <ActivityIndicator color="#fff" /> : <Ionicons name="send" size={16} color="#fff" />}
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 12,
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    gap: 10,
+  },
+  headerRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { color: '#ffffff', fontSize: 15, fontWeight: '900' },
+  muted: { color: '#9ca3af', fontSize: 12 },
+
+  bubble: { borderRadius: 12, padding: 10, maxWidth: '85%', borderWidth: 1 },
+  bubbleMine: { alignSelf: 'flex-end', backgroundColor: 'rgba(59,130,246,0.15)', borderColor: '#1d4ed8' },
+  bubbleTheirs: { alignSelf: 'flex-start', backgroundColor: '#0b1220', borderColor: '#111827' },
+  sender: { color: '#94a3b8', fontSize: 11, fontWeight: '800' },
+  body: { color: '#e5e7eb', fontSize: 13, marginTop: 4 },
+  time: { color: '#64748b', fontSize: 10, marginTop: 4 },
+
+  inputRow: { flexDirection: 'row', alignItems: 'flex-end', gap: 8 },
+  input: {
+    flex: 1,
+    minHeight: 42,
+    maxHeight: 120,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#0a0a0b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+    color: '#e5e7eb',
+  },
+  sendBtn: {
+    width: 42,
+    height: 42,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+  },
+
+  error: { color: '#fca5a5', fontSize: 12 },
+});
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { repo } from '../lib/repo';
+import {
+  scrimErrorMessage,
+  type ScrimLineupPlayerRow,
+  type ScrimWithTeams,
+  type TeamSummary,
+} from '../../shared/data';
+import {
+  isLineupEditable,
+  lineupShortfall,
+  nextLineupSlot,
+  setLineupSlot,
+  teamLineup,
+  type LineupSlot,
+  type TeamLineup,
+} from '../../shared/scrim-lineups';
+import { scrimActorForTeam } from '../../shared/scrim-lifecycle';
+
+type Props = {
+  scrim: ScrimWithTeams;
+  myTeamId: string | null;
+};
+
+type Side = { team: TeamSummary; label: string };
+
+function profileName(p: { username: string | null; handle: string | null } | undefined) {
+  return p?.username?.trim() || (p?.handle?.trim() ? `@${p.handle.replace(/^@/, '')}` : 'Player');
+}
+
+// Lineups on Scrim Details: both teams' picks, and an editor for the viewer's team
+export function ScrimLineups({ scrim, myTeamId }: Props) {
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<ScrimLineupPlayerRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const [editing, setEditing] = useState(false);
+  const [roster, setRoster] = useState<string[]>([]);
+  const [draft, setDraft] = useState<TeamLineup>({ starters: [], substitutes: [] });
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const addNames = useCallback(async (userIds: string[]) => {
+    if (userIds.length === 0) return;
+
+    const profiles = await repo.profiles.listByIds(Array.from(new Set(userIds)));
+    setNames((prev) => {
+      const next = { ...prev };
+      profiles.forEach((p) => (next[p.id] = profileName(p)));
+      return next;
+    });
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await repo.scrimLineups.listForScrim(scrim.id);
+      setRows(data);
+      await addNames(data.map((r) => r.user_id));
+    } catch (e) {
+      console.log('[ScrimLineups] load error:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [scrim.id, addNames]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // The team lining up for an open slot (or the challenged team) can pick its
+  // players before accepting
+  const isProspectiveGuest =
+    !scrim.opponent_team_id && scrimActorForTeam(scrim, myTeamId) === 'guest';
+
+  const editTeamId =
+    myTeamId &&
+    isLineupEditable(scrim.status) &&
+    (myTeamId === scrim.host_team_id || myTeamId === scrim.opponent_team_id || isProspectiveGuest)
+      ? myTeamId
+      : null;
+
+  const sides = useMemo(() => {
+    const list: Side[] = [];
+    if (scrim.host_team) list.push({ team: scrim.host_team, label: 'Host' });
+    if (scrim.opponent_team) list.push({ team: scrim.opponent_team, label: 'Opponent' });
+    if (isProspectiveGuest && myTeamId) {
+      list.push({ team: { id: myTeamId, name: 'Your Team', tag: null }, label: 'Ready to accept' });
+    }
+    return list;
+  }, [scrim.host_team, scrim.opponent_team, isProspectiveGuest, myTeamId]);
+
+  const startEditing = async () => {
+    if (!editTeamId) return;
+
+    try {
+      setErrorMsg(null);
+
+      const [team, members] = await Promise.all([
+        repo.teams.getById(editTeamId),
+        repo.teamMembers.listByTeam(editTeamId, { statuses: ['active'] }),
+      ]);
+
+      const ids = Array.from(new Set([...(team?.owner_id ? [team.owner_id] : []), ...members.map((m) => m.user_id)]));
+      await addNames(ids);
+
+      setRoster(ids);
+      setDraft(teamLineup(rows, editTeamId));
+      setEditing(true);
+    } catch (e: any) {
+      console.log('[ScrimLineups] roster error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load your roster.');
+    }
+  };
+
+  const slotOf = (userId: string): LineupSlot | null =>
+    draft.starters.includes(userId) ? 'starter' : draft.substitutes.includes(userId) ? 'substitute' : null;
+
+  const cycle = (userId: string) => {
+    let slot = nextLineupSlot(slotOf(userId));
+    let next = setLineupSlot(draft, userId, slot);
+
+    // Full slot: skip ahead (starters full → substitute, substitutes full → out)
+    while (!next) {
+      slot = nextLineupSlot(slot);
+      next = setLineupSlot(draft, userId, slot);
+    }
+
+    setDraft(next);
+  };
+
+  const save = async () => {
+    if (!editTeamId) return;
+
+    try {
+      setSaving(true);
+      setErrorMsg(null);
+
+      await repo.scrimLineups.set(scrim.id, editTeamId, draft);
+      setEditing(false);
+      await load();
+    } catch (e: any) {
+      console.log('[ScrimLineups] save error:', e);
+      setErrorMsg(scrimErrorMessage(e, 'Failed to save lineup.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderNames = (ids: string[]) =>
+    ids.length === 0 ? '—' : ids.map((id) => names[id] ?? 'Player').join(', ');
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="people" size={16} color="#60a5fa" />
+        <Text style={styles.title}>Lineups</Text>
+        {scrim.min_lineup_size ? <Text style={styles.muted}>Min {scrim.min_lineup_size} starters</Text> : null}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator />
+      ) : editing ? (
+        <View style={{ gap: 8 }}>
+          <Text style={styles.muted}>Tap a player: starter → substitute → out.</Text>
+
+          {roster.map((id) => {
+            const slot = slotOf(id);
+            return (
+              <Pressable key={id} onPress={() => cycle(id)} style={[styles.playerRow, slot && styles.playerRowOn]}>
+                <Text style={styles.playerName}>{names[id] ?? 'Player'}</Text>
+                <Text style={[styles.slotText, slot === 'starter' && { color: '#34d399' }]}>
+                  {slot === 'starter' ? 'Starter' : slot === 'substitute' ? 'Sub' : 'Out'}
+                </Text>
+              </Pressable>
+            );
+          })}
+
+          {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+          <View style={styles.buttonRow}>
+            <Pressable disabled={saving} onPress={() => setEditing(false)} style={styles.btnSecondary}>
+              <Text style={styles.btnSecondaryText}>Cancel</Text>
+            </Pressable>
+            <Pressable disabled={saving} onPress={save} style={[styles.btnPrimary, saving && { opacity: 0.7 }]}>
+              {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Save Lineup</Text>}
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <View style={{ gap: 12 }}>
+          {sides.map(({ team, label }) => {
+            const lineup = teamLineup(rows, team.id);
+            const short = lineupShortfall(lineup, scrim.min_lineup_size);
+            return (
+              <View key={team.id} style={{ gap: 4 }}>
+                <Text style={styles.teamName}>
+                  {team.name} <Text style={styles.muted}>· {label}</Text>
+                </Text>
+                <Text style={styles.lineText}>Starters: {renderNames(lineup.starters)}</Text>
+                <Text style={styles.lineText}>Subs: {renderNames(lineup.substitutes)}</Text>
+                {short > 0 && isLineupEditable(scrim.status) ? (
+                  <Text style={styles.warn}>Needs {short} more starter{short === 1 ? '' : 's'}</Text>
+                ) : null}
+              </View>
+            );
+          })}
+
+          {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+          {editTeamId ? (
+            <Pressable onPress={startEditing} style={styles.btnSecondary}>
+              <Text style={styles.btnSecondaryText}>Edit My Lineup</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 12,
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    gap: 10,
+  },
+  headerRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { color: '#ffffff', fontSize: 15, fontWeight: '900', flex: 1 },
+  muted: { color: '#9ca3af', fontSize: 12, fontWeight: '700' },
+
+  teamName: { color: '#e5e7eb', fontSize: 13, fontWeight: '900' },
+  lineText: { color: '#cbd5e1', fontSize: 12 },
+  warn: { color: '#fbbf24', fontSize: 12, fontWeight: '800' },
+
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    backgroundColor: '#0a0a0b',
+  },
+  playerRowOn: { borderColor: '#1d4ed8', backgroundColor: 'rgba(59,130,246,0.12)' },
+  playerName: { color: '#e5e7eb', fontSize: 13, fontWeight: '700' },
+  slotText: { color: '#9ca3af', fontSize: 12, fontWeight: '900' },
+
+  buttonRow: { flexDirection: 'row', gap: 10 },
+  btnPrimary: { flex: 1, paddingVertical: 12, borderRadius: 12, alignItems: 'center', backgroundColor: '#3b82f6' },
+  btnPrimaryText: { color: '#ffffff', fontWeight: '900' },
+  btnSecondary: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#0a0a0b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  btnSecondaryText: { color: '#e5e7eb', fontWeight: '900' },
+
+  error: { color: '#fca5a5', fontSize: 12 },
+});
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { repo } from '../lib/repo';
+import type { TeamGameRole, TeamSummary } from '../../shared/data';
+import { gameRoleLabel } from '../../shared/team-roles';
+
+type Props = {
+  hostTeam: TeamSummary | null;
+  opponentTeam: TeamSummary | null;
+};
+
+type Player = { id: string; name: string; role: TeamGameRole | null };
+
+// Active players on each team in the scrim, with their in-game roles
+export function ScrimRosters({ hostTeam, opponentTeam }: Props) {
+  const [loading, setLoading] = useState(true);
+  const [rosters, setRosters] = useState<Record<string, Player[]>>({});
+
+  const hostId = hostTeam?.id ?? null;
+  const opponentId = opponentTeam?.id ?? null;
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        const teamIds = [hostId, opponentId].filter((id): id is string => !!id);
+        const rows = await Promise.all(teamIds.map((id) => repo.teamMembers.listByTeam(id, { statuses: ['active'] })));
+
+        const profiles = await repo.profiles.listByIds(Array.from(new Set(rows.flat().map((m) => m.user_id))));
+        const nameById: Record<string, string> = {};
+        profiles.forEach((p) => {
+          nameById[p.id] = p.username?.trim() || (p.handle?.trim() ? `@${p.handle.replace(/^@/, '')}` : 'Player');
+        });
+
+        if (!mounted) return;
+
+        const next: Record<string, Player[]> = {};
+        teamIds.forEach((id, i) => {
+          next[id] = rows[i].map((m) => ({ id: m.user_id, name: nameById[m.user_id] ?? 'Player', role: m.game_role }));
+        });
+        setRosters(next);
+      } catch (e) {
+        console.log('[ScrimRosters] load error:', e);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [hostId, opponentId]);
+
+  const sides = [hostTeam, opponentTeam].filter((t): t is TeamSummary => !!t);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="shield" size={16} color="#60a5fa" />
+        <Text style={styles.title}>Rosters</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator />
+      ) : (
+        sides.map((team) => {
+          const players = rosters[team.id] ?? [];
+          return (
+            <View key={team.id} style={{ gap: 6 }}>
+              <Text style={styles.teamName}>{team.name}</Text>
+              {players.length === 0 ? (
+                <Text style={styles.muted}>No active players yet.</Text>
+              ) : (
+                players.map((p) => (
+                  <View key={p.id} style={styles.playerRow}>
+                    <Text style={styles.playerName}>{p.name}</Text>
+                    <Text style={styles.playerRole}>{gameRoleLabel(p.role, '—')}</Text>
+                  </View>
+                ))
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 12,
+    backgroundColor: '#1a1a1b',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    gap: 12,
+  },
+  headerRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { color: '#ffffff', fontSize: 15, fontWeight: '900' },
+  muted: { color: '#9ca3af', fontSize: 12 },
+
+  teamName: { color: '#e5e7eb', fontSize: 13, fontWeight: '900' },
+  playerRow: { flexDirection: 'row', justifyContent: 'space-between', gap: 12 },
+  playerName: { color: '#cbd5e1', fontSize: 13, fontWeight: '700', flex: 1 },
+  playerRole: { color: '#94a3b8', fontSize: 12, fontWeight: '800' },
+});
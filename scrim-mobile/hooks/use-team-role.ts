@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { repo } from '../lib/repo';
+import type { TeamRole } from '../../shared/data';
+
+// The signed-in user's role on a team; null while loading or when not on it
+export function useTeamRole(teamId: string | null) {
+  const [role, setRole] = useState<TeamRole | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setRole(null);
+
+    if (!teamId) return;
+
+    (async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        const userId = data.session?.user?.id;
+        if (!userId) return;
+
+        const next = await repo.teamMembers.getRole(teamId, userId);
+        if (mounted) setRole(next);
+      } catch (e) {
+        console.log('[useTeamRole] error:', e);
+      }
+    })();
+
+    return () => {
+      mounted = false;
+    };
+  }, [teamId]);
+
+  return role;
+}
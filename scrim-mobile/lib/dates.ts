@@ -0,0 +1,11 @@
+// "Tue, Oct 21, 7:00 PM" in the scrim's own time zone when it has one, else the device's
+export function formatScrimDate(iso: string, timeZone?: string | null) {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: timeZone ?? undefined,
+  });
+}
@@ -0,0 +1,62 @@
+import type { Href } from 'expo-router';
+
+// Incoming app links (scheme `scrimmobile`, see app.json):
+//
+//   scrimmobile://scrim/<id>     → /scrim-details?id=<id>
+//   scrimmobile://team/<id>      → /team?id=<id>
+//   scrimmobile://invite/<code>  → /invite?code=<code>   (a team_invites id or a join code)
+//
+// Anything else is passed through to Expo Router untouched.
+
+// Top-level screens a link can land on; used by the route guard to keep the link
+// while the user signs in
+export const DEEP_LINK_SCREENS = ['scrim-details', 'team', 'invite'] as const;
+
+export function resolveDeepLink(url: string): string | null {
+  // "scrimmobile://scrim/abc" → "scrim/abc"; "/scrim/abc" → "scrim/abc"
+  const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/[?#].*$/, '');
+  const parts = path.split('/').filter(Boolean);
+  if (parts.length !== 2) return null;
+
+  let value: string;
+  try {
+    value = encodeURIComponent(decodeURIComponent(parts[1]));
+  } catch {
+    return null;
+  }
+
+  switch (parts[0]) {
+    case 'scrim':
+      return `/scrim-details?id=${value}`;
+    case 'team':
+      return `/team?id=${value}`;
+    case 'invite':
+      return `/invite?code=${value}`;
+    default:
+      return null;
+  }
+}
+
+// In-app href for the current route, e.g. "/scrim-details?id=abc"
+export function currentHref(pathname: string, params: Record<string, string | string[] | undefined>) {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (typeof value === 'string') query.set(key, value);
+  });
+
+  const qs = query.toString();
+  return qs ? `${pathname}?${qs}` : pathname;
+}
+
+// A link opened while signed out, resumed once the user is in
+let pendingLink: string | null = null;
+
+export function setPendingLink(href: string) {
+  pendingLink = href;
+}
+
+export function takePendingLink(): Href | null {
+  const href = pendingLink;
+  pendingLink = null;
+  return href as Href | null;
+}
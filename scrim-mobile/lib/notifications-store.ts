@@ -0,0 +1,144 @@
+import { useSyncExternalStore } from 'react';
+import type { NotificationChange, NotificationRow } from '../../shared/data';
+import { repo } from './repo';
+
+// One place for the signed-in user's notifications. The root layout starts it on
+// sign-in; the tab badge, the home bell and the Notifications screen all read from
+// it, and Realtime keeps it current (no refetch on focus).
+
+type NotificationsState = {
+  userId: string | null;
+  rows: NotificationRow[]; // newest first, capped at LIST_LIMIT
+  unreadCount: number; // server count (not limited to `rows`), then moved by Realtime events
+  loading: boolean;
+};
+
+const LIST_LIMIT = 50;
+
+let state: NotificationsState = { userId: null, rows: [], unreadCount: 0, loading: false };
+let stopRealtime: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<NotificationsState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const getSnapshot = () => state;
+
+// The unread count moves with each event rather than being refetched. UPDATE
+// payloads don't carry the old row, so a row's previous read state comes from
+// `rows`; changes to rows outside the list leave the count alone.
+function applyChange(change: NotificationChange) {
+  const id = change.type === 'DELETE' ? change.id : change.row.id;
+  const before = state.rows.find((r) => r.id === id);
+  const wasUnread = before ? !before.read_at : false;
+
+  if (change.type === 'DELETE') {
+    setState({
+      rows: state.rows.filter((r) => r.id !== change.id),
+      unreadCount: Math.max(0, state.unreadCount - (wasUnread ? 1 : 0)),
+    });
+    return;
+  }
+
+  const tracked = change.type === 'INSERT' || !!before;
+  const delta = tracked ? (change.row.read_at ? 0 : 1) - (wasUnread ? 1 : 0) : 0;
+  const rows = [change.row, ...state.rows.filter((r) => r.id !== change.row.id)]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, LIST_LIMIT);
+
+  setState({ rows, unreadCount: Math.max(0, state.unreadCount + delta) });
+}
+
+export async function refreshNotifications() {
+  const userId = state.userId;
+  if (!userId) return;
+
+  try {
+    setState({ loading: true });
+
+    const [rows, unreadCount] = await Promise.all([
+      repo.notifications.listForUser(userId, { limit: LIST_LIMIT }),
+      repo.notifications.countUnread(userId),
+    ]);
+
+    if (state.userId !== userId) return;
+    setState({ rows, unreadCount, loading: false });
+  } catch (e) {
+    console.log('[Notifications] load error:', e);
+    if (state.userId === userId) setState({ loading: false });
+  }
+}
+
+export function startNotifications(userId: string) {
+  if (state.userId === userId) return;
+
+  stopNotifications();
+  setState({ userId, rows: [], unreadCount: 0, loading: true });
+
+  // The first join is covered by the load below; a rejoin may have missed events
+  let joined = false;
+  stopRealtime = repo.notifications.subscribeForUser(
+    userId,
+    (change) => {
+      if (state.userId !== userId) return;
+      applyChange(change);
+    },
+    () => {
+      if (joined && state.userId === userId) refreshNotifications();
+      joined = true;
+    }
+  );
+
+  refreshNotifications();
+}
+
+export function stopNotifications() {
+  stopRealtime?.();
+  stopRealtime = null;
+  setState({ userId: null, rows: [], unreadCount: 0, loading: false });
+}
+
+export async function markNotificationsRead(ids: string[]) {
+  const userId = state.userId;
+  if (!userId || ids.length === 0) return;
+
+  // Optimistic; the Realtime UPDATEs will confirm it
+  const now = new Date().toISOString();
+  const wasUnread = state.rows.filter((r) => ids.includes(r.id) && !r.read_at).length;
+  setState({
+    rows: state.rows.map((r) => (ids.includes(r.id) && !r.read_at ? { ...r, read_at: now } : r)),
+    unreadCount: Math.max(0, state.unreadCount - wasUnread),
+  });
+
+  try {
+    await repo.notifications.markRead(ids);
+  } catch (e) {
+    console.log('[Notifications] markRead error:', e);
+    await refreshNotifications();
+  }
+}
+
+export async function clearNotifications() {
+  const userId = state.userId;
+  if (!userId) return;
+
+  try {
+    await repo.notifications.clearAll(userId);
+    setState({ rows: [], unreadCount: 0 });
+  } catch (e) {
+    console.log('[Notifications] clear error:', e);
+  }
+}
+
+export function useNotifications() {
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
@@ -0,0 +1,4 @@
+import { createRepository } from '../../shared/data';
+import { supabase } from './supabase';
+
+export const repo = createRepository(supabase);
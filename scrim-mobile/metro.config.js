@@ -0,0 +1,15 @@
+// https://docs.expo.dev/guides/customizing-metro/
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const projectRoot = __dirname;
+const sharedRoot = path.resolve(projectRoot, '../shared');
+
+const config = getDefaultConfig(projectRoot);
+
+// ../shared holds the data layer used by both this app and the web app.
+// Watch it, and resolve its imports from this app's node_modules.
+config.watchFolders = [...(config.watchFolders ?? []), sharedRoot];
+config.resolver.nodeModulesPaths = [path.resolve(projectRoot, 'node_modules')];
+
+module.exports = config;
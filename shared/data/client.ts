@@ -0,0 +1,6 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+// Each app owns its own client (storage adapters differ between web and native),
+// so the repositories take it as an argument instead of importing one.
+export type DbClient = SupabaseClient<Database>;
@@ -0,0 +1,1149 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          read_at: string | null
+          scrim_id: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          scrim_id?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          scrim_id?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_scrim_id_fkey"
+            columns: ["scrim_id"]
+            isOneToOne: false
+            referencedRelation: "scrims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      Profiles: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          handle: string | null
+          id: string
+          primary_region: string | null
+          primary_team_id: string | null
+          username: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          handle?: string | null
+          id: string
+          primary_region?: string | null
+          primary_team_id?: string | null
+          username?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          handle?: string | null
+          id?: string
+          primary_region?: string | null
+          primary_team_id?: string | null
+          username?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "Profiles_primary_team_id_fkey"
+            columns: ["primary_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_applications: {
+        Row: {
+          applied_by: string
+          created_at: string
+          id: string
+          message: string | null
+          responded_at: string | null
+          scrim_id: string
+          status: Database["public"]["Enums"]["scrim_application_status"]
+          team_id: string
+          tier: string | null
+        }
+        Insert: {
+          applied_by: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          responded_at?: string | null
+          scrim_id: string
+          status?: Database["public"]["Enums"]["scrim_application_status"]
+          team_id: string
+          tier?: string | null
+        }
+        Update: {
+          applied_by?: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          responded_at?: string | null
+          scrim_id?: string
+          status?: Database["public"]["Enums"]["scrim_application_status"]
+          team_id?: string
+          tier?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_applications_scrim_id_fkey"
+            columns: ["scrim_id"]
+            isOneToOne: false
+            referencedRelation: "scrims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrim_applications_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_blocks: {
+        Row: {
+          created_at: string
+          created_by: string
+          host_team_id: string
+          id: string
+          slot_count: number
+          withdraw_siblings: boolean
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          host_team_id: string
+          id?: string
+          slot_count: number
+          withdraw_siblings?: boolean
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          host_team_id?: string
+          id?: string
+          slot_count?: number
+          withdraw_siblings?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_blocks_host_team_id_fkey"
+            columns: ["host_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_lineup_players: {
+        Row: {
+          created_at: string
+          is_substitute: boolean
+          scrim_id: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          is_substitute?: boolean
+          scrim_id: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          is_substitute?: boolean
+          scrim_id?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_lineup_players_scrim_id_fkey"
+            columns: ["scrim_id"]
+            isOneToOne: false
+            referencedRelation: "scrims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrim_lineup_players_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_message_reads: {
+        Row: {
+          last_read_at: string
+          scrim_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          scrim_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          scrim_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_message_reads_scrim_id_fkey"
+            columns: ["scrim_id"]
+            isOneToOne: false
+            referencedRelation: "scrims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          scrim_id: string
+          sender_id: string
+          team_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          scrim_id: string
+          sender_id: string
+          team_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          scrim_id?: string
+          sender_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_messages_scrim_id_fkey"
+            columns: ["scrim_id"]
+            isOneToOne: false
+            referencedRelation: "scrims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrim_messages_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_series: {
+        Row: {
+          created_at: string
+          created_by: string
+          host_team_id: string
+          id: string
+          local_start: string
+          occurrence_count: number | null
+          time_zone: string
+          until_date: string | null
+          updated_at: string | null
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          host_team_id: string
+          id?: string
+          local_start: string
+          occurrence_count?: number | null
+          time_zone: string
+          until_date?: string | null
+          updated_at?: string | null
+          weekdays: number[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          host_team_id?: string
+          id?: string
+          local_start?: string
+          occurrence_count?: number | null
+          time_zone?: string
+          until_date?: string | null
+          updated_at?: string | null
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_series_host_team_id_fkey"
+            columns: ["host_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrim_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["scrim_status"] | null
+          id: string
+          scrim_id: string
+          to_status: Database["public"]["Enums"]["scrim_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["scrim_status"] | null
+          id?: string
+          scrim_id: string
+          to_status: Database["public"]["Enums"]["scrim_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["scrim_status"] | null
+          id?: string
+          scrim_id?: string
+          to_status?: Database["public"]["Enums"]["scrim_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrim_status_events_scrim_id_fkey"
+            columns: ["scrim_id"]
+            isOneToOne: false
+            referencedRelation: "scrims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrims: {
+        Row: {
+          block_id: string | null
+          challenge_status: Database["public"]["Enums"]["scrim_challenge_status"] | null
+          challenged_team_id: string | null
+          created_at: string
+          created_by: string
+          duration_minutes: number | null
+          end_time: string
+          host_team_id: string
+          id: string
+          min_lineup_size: number | null
+          modes: string[] | null
+          notes: string | null
+          opponent_team_id: string | null
+          proposed_start_time: string | null
+          region: string
+          requires_approval: boolean
+          scrim_type: string | null
+          series_id: string | null
+          start_time: string
+          status: Database["public"]["Enums"]["scrim_status"]
+          tier: string | null
+          time_zone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          block_id?: string | null
+          challenge_status?: Database["public"]["Enums"]["scrim_challenge_status"] | null
+          challenged_team_id?: string | null
+          created_at?: string
+          created_by: string
+          duration_minutes?: number | null
+          end_time: string
+          host_team_id: string
+          id?: string
+          min_lineup_size?: number | null
+          modes?: string[] | null
+          notes?: string | null
+          opponent_team_id?: string | null
+          proposed_start_time?: string | null
+          region: string
+          requires_approval?: boolean
+          scrim_type?: string | null
+          series_id?: string | null
+          start_time: string
+          status?: Database["public"]["Enums"]["scrim_status"]
+          tier?: string | null
+          time_zone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          block_id?: string | null
+          challenge_status?: Database["public"]["Enums"]["scrim_challenge_status"] | null
+          challenged_team_id?: string | null
+          created_at?: string
+          created_by?: string
+          duration_minutes?: number | null
+          end_time?: string
+          host_team_id?: string
+          id?: string
+          min_lineup_size?: number | null
+          modes?: string[] | null
+          notes?: string | null
+          opponent_team_id?: string | null
+          proposed_start_time?: string | null
+          region?: string
+          requires_approval?: boolean
+          scrim_type?: string | null
+          series_id?: string | null
+          start_time?: string
+          status?: Database["public"]["Enums"]["scrim_status"]
+          tier?: string | null
+          time_zone?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrims_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "scrim_blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrims_challenged_team_id_fkey"
+            columns: ["challenged_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrims_host_team_id_fkey"
+            columns: ["host_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrims_opponent_team_id_fkey"
+            columns: ["opponent_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrims_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "scrim_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_invite_code_uses: {
+        Row: {
+          code_id: string
+          used_at: string
+          user_id: string
+        }
+        Insert: {
+          code_id: string
+          used_at?: string
+          user_id: string
+        }
+        Update: {
+          code_id?: string
+          used_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invite_code_uses_code_id_fkey"
+            columns: ["code_id"]
+            isOneToOne: false
+            referencedRelation: "team_invite_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_invite_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          team_id: string
+          use_count: number
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          team_id: string
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          team_id?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invite_codes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_invites: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          invited_by: string
+          invited_user_id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["team_invite_status"]
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          invited_by: string
+          invited_user_id: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["team_invite_status"]
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          invited_by?: string
+          invited_user_id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["team_invite_status"]
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invites_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string | null
+          game_role: Database["public"]["Enums"]["team_game_role"] | null
+          id: string
+          status: Database["public"]["Enums"]["team_member_status"]
+          team_id: string
+          team_role: Database["public"]["Enums"]["team_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          game_role?: Database["public"]["Enums"]["team_game_role"] | null
+          id?: string
+          status?: Database["public"]["Enums"]["team_member_status"]
+          team_id: string
+          team_role?: Database["public"]["Enums"]["team_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          game_role?: Database["public"]["Enums"]["team_game_role"] | null
+          id?: string
+          status?: Database["public"]["Enums"]["team_member_status"]
+          team_id?: string
+          team_role?: Database["public"]["Enums"]["team_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_ownership_transfers: {
+        Row: {
+          created_at: string
+          from_user_id: string
+          id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["team_transfer_status"]
+          team_id: string
+          to_user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_user_id: string
+          id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["team_transfer_status"]
+          team_id: string
+          to_user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_user_id?: string
+          id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["team_transfer_status"]
+          team_id?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_ownership_transfers_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          owner_id: string
+          region: string | null
+          tag: string | null
+          time_zone: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          owner_id: string
+          region?: string | null
+          tag?: string | null
+          time_zone?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          owner_id?: string
+          region?: string | null
+          tag?: string | null
+          time_zone?: string | null
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          allow_team_invites: boolean
+          scrim_cancelled: boolean
+          scrim_confirmed: boolean
+          user_id: string
+        }
+        Insert: {
+          allow_team_invites?: boolean
+          scrim_cancelled?: boolean
+          scrim_confirmed?: boolean
+          user_id: string
+        }
+        Update: {
+          allow_team_invites?: boolean
+          scrim_cancelled?: boolean
+          scrim_confirmed?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_scrim: {
+        Args: { p_scrim_id: string; p_team_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      advance_scrim_statuses: { Args: never; Returns: undefined }
+      answer_scrim_counter: {
+        Args: { p_accept: boolean; p_scrim_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      apply_for_scrim: {
+        Args: {
+          p_message?: string
+          p_scrim_id: string
+          p_team_id: string
+          p_tier?: string
+        }
+        Returns: Database["public"]["Tables"]["scrim_applications"]["Row"]
+      }
+      cancel_scrim: {
+        Args: { p_scrim_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      cancel_scrim_series: {
+        Args: { p_scrim_id: string }
+        Returns: number
+      }
+      cancel_team_ownership: {
+        Args: { p_transfer_id: string }
+        Returns: Database["public"]["Tables"]["team_ownership_transfers"]["Row"]
+      }
+      choose_scrim_applicant: {
+        Args: { p_application_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      counter_scrim_challenge: {
+        Args: { p_scrim_id: string; p_start_time: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      create_scrim_block: {
+        Args: {
+          p_scrim: Json
+          p_start_times: string[]
+          p_withdraw_siblings?: boolean
+        }
+        Returns: Database["public"]["Tables"]["scrim_blocks"]["Row"]
+      }
+      create_scrim_series: {
+        Args: {
+          p_occurrence_count?: number
+          p_scrim: Json
+          p_until_date?: string
+          p_weekdays: number[]
+        }
+        Returns: Database["public"]["Tables"]["scrim_series"]["Row"]
+      }
+      decline_scrim_challenge: {
+        Args: { p_scrim_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      edit_scrim_occurrences: {
+        Args: {
+          p_duration_minutes: number
+          p_notes?: string
+          p_scope: string
+          p_scrim_id: string
+          p_start_time: string
+          p_tier?: string
+        }
+        Returns: number
+      }
+      generate_invite_code: { Args: never; Returns: string }
+      has_team_permission: {
+        Args: { p_permission: string; p_team_id: string; p_user_id?: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { p_team_id: string; p_user_id?: string }
+        Returns: boolean
+      }
+      leave_team: {
+        Args: { p_team_id: string }
+        Returns: Database["public"]["Tables"]["team_members"]["Row"]
+      }
+      lock_open_scrim_for_guest: {
+        Args: { p_scrim_id: string; p_team_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      lock_scrim_challenge: {
+        Args: { p_permission: string; p_scrim_id: string; p_side: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      mark_scrim_chat_read: { Args: { p_scrim_id: string }; Returns: undefined }
+      normalize_legacy_regions: {
+        Args: never
+        Returns: {
+          rows_updated: number
+          table_name: string
+        }[]
+      }
+      normalize_region: { Args: { raw: string }; Returns: string }
+      notify_users: {
+        Args: {
+          p_body: string
+          p_scrim_id?: string
+          p_title: string
+          p_type: Database["public"]["Enums"]["notification_type"]
+          p_user_ids: string[]
+        }
+        Returns: undefined
+      }
+      offer_team_ownership: {
+        Args: { p_team_id: string; p_user_id: string }
+        Returns: Database["public"]["Tables"]["team_ownership_transfers"]["Row"]
+      }
+      preview_team_invite_code: {
+        Args: { p_code: string }
+        Returns: {
+          expires_at: string | null
+          is_member: boolean
+          max_uses: number | null
+          member_count: number
+          team_id: string
+          team_name: string
+          team_region: string | null
+          team_tag: string | null
+          use_count: number
+        }[]
+      }
+      profile_display_name: { Args: { p_user_id: string }; Returns: string }
+      raise_scrim_error: {
+        Args: { p_code: string; p_message: string }
+        Returns: undefined
+      }
+      redeem_team_invite_code: {
+        Args: { p_code: string }
+        Returns: Database["public"]["Tables"]["team_members"]["Row"]
+      }
+      remove_team_member: {
+        Args: { p_team_id: string; p_user_id: string }
+        Returns: Database["public"]["Tables"]["team_members"]["Row"]
+      }
+      request_scrim: {
+        Args: { p_scrim_id: string; p_team_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+      respond_team_invite: {
+        Args: { p_accept: boolean; p_invite_id: string }
+        Returns: Database["public"]["Tables"]["team_invites"]["Row"]
+      }
+      respond_team_ownership: {
+        Args: { p_accept: boolean; p_transfer_id: string }
+        Returns: Database["public"]["Tables"]["team_ownership_transfers"]["Row"]
+      }
+      revoke_team_invite: {
+        Args: { p_invite_id: string }
+        Returns: Database["public"]["Tables"]["team_invites"]["Row"]
+      }
+      scrim_series_start: {
+        Args: { p_local_date: string; p_local_start: string; p_time_zone: string }
+        Returns: string
+      }
+      scrim_transition_allowed: {
+        Args: {
+          p_actor: string
+          p_from: Database["public"]["Enums"]["scrim_status"]
+          p_to: Database["public"]["Enums"]["scrim_status"]
+        }
+        Returns: boolean
+      }
+      send_scrim_message: {
+        Args: { p_body: string; p_scrim_id: string }
+        Returns: Database["public"]["Tables"]["scrim_messages"]["Row"]
+      }
+      set_scrim_lineup: {
+        Args: {
+          p_scrim_id: string
+          p_starters: string[]
+          p_substitutes?: string[]
+          p_team_id: string
+        }
+        Returns: Database["public"]["Tables"]["scrim_lineup_players"]["Row"][]
+      }
+      set_team_member_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["team_game_role"] | null
+          p_team_id: string
+          p_user_id: string
+        }
+        Returns: Database["public"]["Tables"]["team_members"]["Row"]
+      }
+      set_team_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["team_role"]
+          p_team_id: string
+          p_user_id: string
+        }
+        Returns: Database["public"]["Tables"]["team_members"]["Row"]
+      }
+      team_display_name: { Args: { p_team_id: string }; Returns: string }
+      team_permission_roles: {
+        Args: { p_permission: string }
+        Returns: Database["public"]["Enums"]["team_role"][]
+      }
+      team_recipient_ids: { Args: { p_team_id: string }; Returns: string[] }
+      team_role_of: {
+        Args: { p_team_id: string; p_user_id?: string }
+        Returns: Database["public"]["Enums"]["team_role"]
+      }
+      team_scrim_records: {
+        Args: { p_team_ids: string[] }
+        Returns: {
+          cancelled: number
+          completed: number
+          team_id: string
+        }[]
+      }
+      wants_notification: {
+        Args: {
+          p_type: Database["public"]["Enums"]["notification_type"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      withdraw_block_siblings: {
+        Args: { p_block_id: string; p_keep_scrim_id: string }
+        Returns: number
+      }
+      withdraw_scrim_application: {
+        Args: { p_application_id: string }
+        Returns: Database["public"]["Tables"]["scrim_applications"]["Row"]
+      }
+      withdraw_scrim_block_siblings: {
+        Args: { p_scrim_id: string }
+        Returns: number
+      }
+      withdraw_scrim_challenge: {
+        Args: { p_scrim_id: string }
+        Returns: Database["public"]["Tables"]["scrims"]["Row"]
+      }
+    }
+    Enums: {
+      notification_type:
+        | "scrim_confirmed"
+        | "scrim_cancelled"
+        | "team_invite"
+        | "team_invite_answered"
+        | "team_member_joined"
+        | "team_member_left"
+        | "scrim_message"
+        | "team_ownership"
+        | "scrim_challenge"
+        | "scrim_application"
+      scrim_application_status: "pending" | "accepted" | "rejected" | "withdrawn"
+      scrim_challenge_status: "pending" | "countered" | "accepted" | "declined"
+      scrim_status:
+        | "open"
+        | "requested"
+        | "confirmed"
+        | "in_progress"
+        | "completed"
+        | "cancelled"
+        | "expired"
+      team_game_role: "igl" | "main_ar" | "entry_sub" | "flex"
+      team_invite_status: "pending" | "accepted" | "declined" | "revoked"
+      team_member_status: "active" | "invited" | "pending" | "left" | "removed"
+      team_role: "owner" | "captain" | "manager" | "player" | "coach"
+      team_transfer_status: "pending" | "accepted" | "declined" | "cancelled"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      notification_type: [
+        "scrim_confirmed",
+        "scrim_cancelled",
+        "team_invite",
+        "team_invite_answered",
+        "team_member_joined",
+        "team_member_left",
+        "scrim_message",
+        "team_ownership",
+        "scrim_challenge",
+        "scrim_application",
+      ],
+      scrim_application_status: ["pending", "accepted", "rejected", "withdrawn"],
+      scrim_challenge_status: ["pending", "countered", "accepted", "declined"],
+      scrim_status: [
+        "open",
+        "requested",
+        "confirmed",
+        "in_progress",
+        "completed",
+        "cancelled",
+        "expired",
+      ],
+      team_game_role: ["igl", "main_ar", "entry_sub", "flex"],
+      team_invite_status: ["pending", "accepted", "declined", "revoked"],
+      team_member_status: ["active", "invited", "pending", "left", "removed"],
+      team_role: ["owner", "captain", "manager", "player", "coach"],
+      team_transfer_status: ["pending", "accepted", "declined", "cancelled"],
+    },
+  },
+} as const
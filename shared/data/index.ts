@@ -0,0 +1,53 @@
+import type { DbClient } from './client';
+import { createNotificationsRepository } from './notifications';
+import { createProfilesRepository } from './profiles';
+import { createScrimApplicationsRepository } from './scrim-applications';
+import { createScrimBlocksRepository } from './scrim-blocks';
+import { createScrimLineupsRepository } from './scrim-lineups';
+import { createScrimMessagesRepository } from './scrim-messages';
+import { createScrimSeriesRepository } from './scrim-series';
+import { createScrimsRepository } from './scrims';
+import { createTeamInviteCodesRepository } from './team-invite-codes';
+import { createTeamInvitesRepository } from './team-invites';
+import { createTeamMembersRepository } from './team-members';
+import { createTeamTransfersRepository } from './team-transfers';
+import { createTeamsRepository } from './teams';
+import { createUserSettingsRepository } from './user-settings';
+
+export * from './types';
+export type { DbClient } from './client';
+export type { Database, Json } from './database.types';
+export type { NotificationChange } from './notifications';
+export type { ProfileSummary, ProfileUpdate } from './profiles';
+export type { OpenScrimFilters, ScrimChange } from './scrims';
+export type { ScrimOccurrenceChanges, ScrimOccurrenceScope, ScrimRecurrence } from './scrim-series';
+export { SCRIM_MESSAGE_MAX } from './scrim-messages';
+export type { TeamInput } from './teams';
+export { DEFAULT_USER_SETTINGS } from './user-settings';
+export { SCRIM_ERROR_CODES, SCRIM_ERROR_MESSAGES, scrimErrorCode, scrimErrorMessage } from './scrim-errors';
+export type { ScrimErrorCode } from './scrim-errors';
+export { TEAM_ERROR_CODES, TEAM_ERROR_MESSAGES, teamErrorCode, teamErrorMessage } from './team-errors';
+export type { TeamErrorCode } from './team-errors';
+
+// Single entry point for all table access. Both apps build one of these from
+// their own Supabase client (see scrim-mobile/lib/repo.ts and src/lib/repo.ts).
+export function createRepository(client: DbClient) {
+  return {
+    scrims: createScrimsRepository(client),
+    scrimMessages: createScrimMessagesRepository(client),
+    scrimLineups: createScrimLineupsRepository(client),
+    scrimApplications: createScrimApplicationsRepository(client),
+    scrimSeries: createScrimSeriesRepository(client),
+    scrimBlocks: createScrimBlocksRepository(client),
+    teams: createTeamsRepository(client),
+    teamMembers: createTeamMembersRepository(client),
+    teamInvites: createTeamInvitesRepository(client),
+    teamInviteCodes: createTeamInviteCodesRepository(client),
+    teamTransfers: createTeamTransfersRepository(client),
+    notifications: createNotificationsRepository(client),
+    userSettings: createUserSettingsRepository(client),
+    profiles: createProfilesRepository(client),
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
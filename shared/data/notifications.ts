@@ -0,0 +1,84 @@
+import type { DbClient } from './client';
+import type { NotificationRow } from './types';
+
+const NOTIFICATION_COLUMNS = 'id, user_id, type, title, body, created_at, read_at, scrim_id';
+
+export type NotificationChange =
+  | { type: 'INSERT' | 'UPDATE'; row: NotificationRow }
+  | { type: 'DELETE'; id: string };
+
+export function createNotificationsRepository(client: DbClient) {
+  return {
+    async countUnread(userId: string): Promise<number> {
+      const { count, error } = await client
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async listForUser(userId: string, opts: { limit?: number } = {}): Promise<NotificationRow[]> {
+      const { data, error } = await client
+        .from('notifications')
+        .select(NOTIFICATION_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(opts.limit ?? 50);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async markRead(ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+
+      const { error } = await client
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    async clearAll(userId: string): Promise<void> {
+      const { error } = await client.from('notifications').delete().eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    // Realtime feed for one user. Note: Realtime can't filter DELETE events, so
+    // deletes are only reported for rows this client can see (its own).
+    // onSubscribed runs each time the channel (re)joins; events sent while it was
+    // down are not replayed.
+    subscribeForUser(
+      userId: string,
+      onChange: (change: NotificationChange) => void,
+      onSubscribed?: () => void
+    ): () => void {
+      const channel = client
+        .channel(`notifications-${userId}-${Math.random().toString(36).slice(2)}`)
+        .on<NotificationRow>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+          (payload) => {
+            if (payload.eventType === 'DELETE') {
+              if (payload.old.id) onChange({ type: 'DELETE', id: payload.old.id });
+              return;
+            }
+            onChange({ type: payload.eventType, row: payload.new });
+          }
+        )
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') onSubscribed?.();
+        });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export type NotificationsRepository = ReturnType<typeof createNotificationsRepository>;
@@ -0,0 +1,101 @@
+import type { DbClient } from './client';
+import type { ProfileRow } from './types';
+
+// NOTE: the table really is capitalised ("Profiles")
+const PROFILE_COLUMNS = 'id, email, username, handle, primary_region, primary_team_id, created_at';
+
+export type ProfileSummary = Pick<ProfileRow, 'id' | 'username' | 'handle'>;
+
+export type ProfileUpdate = Partial<Pick<ProfileRow, 'email' | 'username' | 'handle' | 'primary_region' | 'primary_team_id'>>;
+
+export function createProfilesRepository(client: DbClient) {
+  const getById = async (id: string): Promise<ProfileRow | null> => {
+    const { data, error } = await client.from('Profiles').select(PROFILE_COLUMNS).eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data ?? null;
+  };
+
+  return {
+    getById,
+
+    async getPrimaryTeamId(userId: string): Promise<string | null> {
+      const { data, error } = await client
+        .from('Profiles')
+        .select('primary_team_id')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.primary_team_id ?? null;
+    },
+
+    async listByIds(ids: string[]): Promise<ProfileSummary[]> {
+      if (ids.length === 0) return [];
+
+      const { data, error } = await client.from('Profiles').select('id, username, handle').in('id', ids);
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Exact match on handle (with or without "@") or username
+    async findByHandleOrUsername(input: string, opts: { limit?: number } = {}): Promise<ProfileSummary[]> {
+      const h = input.trim().replace(/^@/, '');
+      if (!h) return [];
+
+      const { data, error } = await client
+        .from('Profiles')
+        .select('id, username, handle')
+        .or(`handle.eq.${h},handle.eq.@${h},username.eq.${h}`)
+        .limit(opts.limit ?? 5);
+
+      if (error) throw error;
+      return (data ?? []).filter((r) => !!r?.id);
+    },
+
+    // Keep auth user id (no new UUIDs). Only inserts if the row truly doesn't exist.
+    async ensureExists(user: { id: string; email?: string | null }): Promise<ProfileRow> {
+      const existing = await getById(user.id);
+      if (existing) return existing;
+
+      const { data, error } = await client
+        .from('Profiles')
+        .insert({
+          id: user.id,
+          email: user.email ?? null,
+          username: user.email?.split('@')[0] ?? 'New User',
+          handle: null,
+          primary_region: null,
+          primary_team_id: null,
+        })
+        .select(PROFILE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async insert(row: Pick<ProfileRow, 'id'> & ProfileUpdate): Promise<void> {
+      const { error } = await client.from('Profiles').insert(row);
+      if (error) throw error;
+    },
+
+    async update(id: string, patch: ProfileUpdate): Promise<ProfileRow> {
+      const { data, error } = await client.from('Profiles').update(patch).eq('id', id).select(PROFILE_COLUMNS).single();
+      if (error) throw error;
+      return data;
+    },
+
+    // Clear the user's primary team only if it still points at `teamId`
+    async clearPrimaryTeam(userId: string, teamId: string): Promise<void> {
+      const { error } = await client
+        .from('Profiles')
+        .update({ primary_team_id: null })
+        .eq('id', userId)
+        .eq('primary_team_id', teamId);
+
+      if (error) throw error;
+    },
+  };
+}
+
+export type ProfilesRepository = ReturnType<typeof createProfilesRepository>;
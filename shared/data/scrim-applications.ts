@@ -0,0 +1,61 @@
+import type { DbClient } from './client';
+import type { ScrimApplicationRow, ScrimApplicationWithTeam, ScrimRow, TeamScrimRecord } from './types';
+
+const APPLICATION_COLUMNS = 'id, scrim_id, team_id, applied_by, status, tier, message, created_at, responded_at';
+
+// Requests to play a host-approval scrim (see supabase/migrations/*_scrim_applications.sql).
+// The RPCs' failures carry a ScrimErrorCode.
+export function createScrimApplicationsRepository(client: DbClient) {
+  return {
+    // The host sees every applicant, an applicant only its own request; oldest first
+    async listForScrim(scrimId: string): Promise<ScrimApplicationWithTeam[]> {
+      const { data, error } = await client
+        .from('scrim_applications')
+        .select(`${APPLICATION_COLUMNS}, team:teams!scrim_applications_team_id_fkey ( id, name, tag, region )`)
+        .eq('scrim_id', scrimId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async apply(
+      scrimId: string,
+      teamId: string,
+      opts: { tier?: string | null; message?: string | null } = {}
+    ): Promise<ScrimApplicationRow> {
+      const { data, error } = await client.rpc('apply_for_scrim', {
+        p_scrim_id: scrimId,
+        p_team_id: teamId,
+        p_tier: opts.tier ?? undefined,
+        p_message: opts.message ?? undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+
+    async withdraw(id: string): Promise<ScrimApplicationRow> {
+      const { data, error } = await client.rpc('withdraw_scrim_application', { p_application_id: id });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host: confirm the scrim against this applicant; the rest are turned down
+    async choose(id: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('choose_scrim_applicant', { p_application_id: id });
+      if (error) throw error;
+      return data;
+    },
+
+    // Completed / cancelled counts per team, for comparing applicants
+    async records(teamIds: string[]): Promise<TeamScrimRecord[]> {
+      if (teamIds.length === 0) return [];
+
+      const { data, error } = await client.rpc('team_scrim_records', { p_team_ids: teamIds });
+      if (error) throw error;
+      return data ?? [];
+    },
+  };
+}
+
+export type ScrimApplicationsRepository = ReturnType<typeof createScrimApplicationsRepository>;
@@ -0,0 +1,30 @@
+import type { DbClient } from './client';
+import type { NewScrim, ScrimBlockRow } from './types';
+
+// Multi-slot offers (see supabase/migrations/*_scrim_blocks.sql). Each slot is
+// an ordinary scrim; these RPCs post them together and withdraw the rest.
+// Failures carry a ScrimErrorCode.
+export function createScrimBlocksRepository(client: DbClient) {
+  return {
+    // Posts one open scrim per start time, each as long as payload. With
+    // withdrawSiblings the other open slots are cancelled once one is confirmed.
+    async create(payload: NewScrim, startTimes: string[], withdrawSiblings: boolean): Promise<ScrimBlockRow> {
+      const { data, error } = await client.rpc('create_scrim_block', {
+        p_scrim: payload,
+        p_start_times: startTimes,
+        p_withdraw_siblings: withdrawSiblings,
+      });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host: cancel the block's other open slots; returns how many were withdrawn
+    async withdrawSiblings(scrimId: string): Promise<number> {
+      const { data, error } = await client.rpc('withdraw_scrim_block_siblings', { p_scrim_id: scrimId });
+      if (error) throw error;
+      return data;
+    },
+  };
+}
+
+export type ScrimBlocksRepository = ReturnType<typeof createScrimBlocksRepository>;
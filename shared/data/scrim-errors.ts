@@ -0,0 +1,67 @@
+// Error codes raised by the scrim RPCs (accept_scrim, request_scrim, cancel_scrim,
+// send_scrim_message, set_scrim_lineup, the challenge, application, series and
+// block RPCs) and the lifecycle / lineup triggers. Postgres puts the code in the error's `hint`.
+
+export const SCRIM_ERROR_CODES = [
+  'not_authenticated',
+  'not_team_member',
+  'scrim_not_found',
+  'own_scrim',
+  'scrim_taken',
+  'scrim_started',
+  'not_host',
+  'invalid_transition',
+  'chat_closed',
+  'message_invalid',
+  'lineup_locked',
+  'lineup_invalid',
+  'lineup_incomplete',
+  'not_permitted',
+  'challenge_not_pending',
+  'approval_required',
+  'already_applied',
+  'application_not_pending',
+  'series_invalid',
+  'scrim_invalid',
+  'scrim_locked',
+  'block_invalid',
+] as const;
+
+export type ScrimErrorCode = (typeof SCRIM_ERROR_CODES)[number];
+
+export const SCRIM_ERROR_MESSAGES: Record<ScrimErrorCode, string> = {
+  not_authenticated: 'Sign in to do that.',
+  not_team_member: 'You need to be on that team to do that.',
+  scrim_not_found: 'This scrim no longer exists.',
+  own_scrim: 'You can’t take your own team’s scrim.',
+  scrim_taken: 'Already taken — another team got this scrim first.',
+  scrim_started: 'This scrim has already started.',
+  not_host: 'Only the host team can do that.',
+  invalid_transition: 'This scrim can’t be changed from its current status.',
+  chat_closed: 'Chat is closed for this scrim.',
+  message_invalid: 'Messages must be 1–1000 characters.',
+  lineup_locked: 'Lineups are locked once a scrim has started.',
+  lineup_invalid: 'Lineups can only list active team members, once each.',
+  lineup_incomplete: 'Both teams need a full lineup before this scrim can be confirmed.',
+  not_permitted: 'Your team role doesn’t allow that.',
+  challenge_not_pending: 'This challenge was already answered or withdrawn.',
+  approval_required: 'The host approves teams for this scrim — ask to play instead.',
+  already_applied: 'Your team already asked to play this scrim.',
+  application_not_pending: 'This request was already answered or withdrawn.',
+  series_invalid: 'This repeat schedule can’t be posted — check the weekdays and end.',
+  scrim_invalid: 'Check the time, length and notes and try again.',
+  scrim_locked: 'Only open slots that haven’t started can be edited.',
+  block_invalid: 'These slots can’t be posted together — check their times.',
+};
+
+export function scrimErrorCode(e: unknown): ScrimErrorCode | null {
+  const hint = (e as { hint?: unknown } | null)?.hint;
+  return (SCRIM_ERROR_CODES as readonly unknown[]).includes(hint) ? (hint as ScrimErrorCode) : null;
+}
+
+// Friendly text for any error thrown by a scrim action
+export function scrimErrorMessage(e: unknown, fallback: string) {
+  const code = scrimErrorCode(e);
+  if (code) return SCRIM_ERROR_MESSAGES[code];
+  return (e as { message?: string } | null)?.message ?? fallback;
+}
@@ -0,0 +1,41 @@
+import type { DbClient } from './client';
+import type { ScrimLineupPlayerRow } from './types';
+
+const LINEUP_COLUMNS = 'scrim_id, team_id, user_id, is_substitute, created_at';
+
+export function createScrimLineupsRepository(client: DbClient) {
+  return {
+    // Every team's picks for the scrim, starters first
+    async listForScrim(scrimId: string): Promise<ScrimLineupPlayerRow[]> {
+      const { data, error } = await client
+        .from('scrim_lineup_players')
+        .select(LINEUP_COLUMNS)
+        .eq('scrim_id', scrimId)
+        .order('is_substitute', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Replaces the team's lineup (see supabase/migrations/*_scrim_lineups.sql).
+    // Failures carry a ScrimErrorCode.
+    async set(
+      scrimId: string,
+      teamId: string,
+      lineup: { starters: string[]; substitutes: string[] }
+    ): Promise<ScrimLineupPlayerRow[]> {
+      const { data, error } = await client.rpc('set_scrim_lineup', {
+        p_scrim_id: scrimId,
+        p_team_id: teamId,
+        p_starters: lineup.starters,
+        p_substitutes: lineup.substitutes,
+      });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  };
+}
+
+export type ScrimLineupsRepository = ReturnType<typeof createScrimLineupsRepository>;
@@ -0,0 +1,56 @@
+import type { DbClient } from './client';
+import type { ScrimMessageRow } from './types';
+
+const MESSAGE_COLUMNS = 'id, scrim_id, team_id, sender_id, body, created_at';
+
+// Same limit as the scrim_messages.body check constraint
+export const SCRIM_MESSAGE_MAX = 1000;
+
+export function createScrimMessagesRepository(client: DbClient) {
+  return {
+    // Oldest first (chat order), newest `limit` messages
+    async listForScrim(scrimId: string, opts: { limit?: number } = {}): Promise<ScrimMessageRow[]> {
+      const { data, error } = await client
+        .from('scrim_messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('scrim_id', scrimId)
+        .order('created_at', { ascending: false })
+        .limit(opts.limit ?? 200);
+
+      if (error) throw error;
+      return (data ?? []).reverse();
+    },
+
+    // Server-side (see supabase/migrations/*_scrim_chat.sql): picks the sender's team
+    // and refuses once the scrim is over. Failures carry a ScrimErrorCode.
+    async send(scrimId: string, body: string): Promise<ScrimMessageRow> {
+      const { data, error } = await client.rpc('send_scrim_message', { p_scrim_id: scrimId, p_body: body });
+      if (error) throw error;
+      return data;
+    },
+
+    // Moves the caller's read marker and clears their chat notification for the scrim
+    async markRead(scrimId: string): Promise<void> {
+      const { error } = await client.rpc('mark_scrim_chat_read', { p_scrim_id: scrimId });
+      if (error) throw error;
+    },
+
+    // Realtime: new messages on one scrim (rows arrive through the select policy)
+    subscribeForScrim(scrimId: string, onMessage: (row: ScrimMessageRow) => void): () => void {
+      const channel = client
+        .channel(`scrim-messages-${scrimId}-${Math.random().toString(36).slice(2)}`)
+        .on<ScrimMessageRow>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'scrim_messages', filter: `scrim_id=eq.${scrimId}` },
+          (payload) => onMessage(payload.new)
+        )
+        .subscribe();
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export type ScrimMessagesRepository = ReturnType<typeof createScrimMessagesRepository>;
@@ -0,0 +1,63 @@
+import type { DbClient } from './client';
+import type { NewScrim, ScrimSeriesRow } from './types';
+
+// Which occurrences an edit covers: just this scrim, or it and every later one in its series
+export type ScrimOccurrenceScope = 'this' | 'future';
+
+export type ScrimRecurrence = {
+  // 0 = Sunday … 6 = Saturday
+  weekdays: number[];
+  // Last local date (YYYY-MM-DD), or how many scrims to post — exactly one of the two
+  untilDate?: string | null;
+  count?: number | null;
+};
+
+export type ScrimOccurrenceChanges = {
+  startTime: string;
+  durationMinutes: number;
+  tier: string | null;
+  notes: string | null;
+};
+
+// Recurring scrim slots (see supabase/migrations/*_scrim_series.sql). The
+// occurrences are ordinary scrims; these RPCs post and change them together.
+// Failures carry a ScrimErrorCode.
+export function createScrimSeriesRepository(client: DbClient) {
+  return {
+    // Posts one open scrim per occurrence, each at payload's wall-clock time in payload.time_zone
+    async create(payload: NewScrim, rule: ScrimRecurrence): Promise<ScrimSeriesRow> {
+      const { data, error } = await client.rpc('create_scrim_series', {
+        p_scrim: payload,
+        p_weekdays: rule.weekdays,
+        p_until_date: rule.untilDate ?? undefined,
+        p_occurrence_count: rule.count ?? undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host: returns how many scrims changed (taken occurrences keep their time)
+    async editOccurrences(scrimId: string, scope: ScrimOccurrenceScope, changes: ScrimOccurrenceChanges): Promise<number> {
+      const { data, error } = await client.rpc('edit_scrim_occurrences', {
+        p_scrim_id: scrimId,
+        p_scope: scope,
+        p_start_time: changes.startTime,
+        p_duration_minutes: changes.durationMinutes,
+        p_tier: changes.tier ?? undefined,
+        p_notes: changes.notes ?? undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host: cancel this occurrence and every later one; returns how many were cancelled.
+    // A single occurrence is cancelled with scrims.cancel().
+    async cancelFuture(scrimId: string): Promise<number> {
+      const { data, error } = await client.rpc('cancel_scrim_series', { p_scrim_id: scrimId });
+      if (error) throw error;
+      return data;
+    },
+  };
+}
+
+export type ScrimSeriesRepository = ReturnType<typeof createScrimSeriesRepository>;
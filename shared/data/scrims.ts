@@ -0,0 +1,246 @@
+import type { DbClient } from './client';
+import type { NewScrim, ScrimRow, ScrimStatus, ScrimStatusEventRow, ScrimWithTeams } from './types';
+
+const SCRIM_COLUMNS = `
+  id,
+  host_team_id,
+  opponent_team_id,
+  status,
+  region,
+  tier,
+  modes,
+  scrim_type,
+  series_id,
+  block_id,
+  start_time,
+  end_time,
+  time_zone,
+  duration_minutes,
+  min_lineup_size,
+  requires_approval,
+  challenged_team_id,
+  challenge_status,
+  proposed_start_time,
+  notes,
+  created_by,
+  created_at,
+  updated_at
+` as const;
+
+// One set of aliases for every screen: host_team / opponent_team / challenged_team,
+// plus the recurrence rule for scrims posted as a series and the block for multi-slot offers
+const SCRIM_WITH_TEAMS = `
+  ${SCRIM_COLUMNS},
+  host_team:teams!scrims_host_team_id_fkey ( id, name, tag ),
+  opponent_team:teams!scrims_opponent_team_id_fkey ( id, name, tag ),
+  challenged_team:teams!scrims_challenged_team_id_fkey ( id, name, tag ),
+  series:scrim_series!scrims_series_id_fkey ( id, weekdays, local_start, time_zone, until_date, occurrence_count ),
+  block:scrim_blocks!scrims_block_id_fkey ( id, slot_count, withdraw_siblings )
+` as const;
+
+export type ScrimChange = { type: 'INSERT' | 'UPDATE' | 'DELETE'; id: string };
+
+// Marketplace filters, applied in the query. Times are ISO strings.
+export type OpenScrimFilters = {
+  region?: string | null;
+  tier?: string | null;
+  scrimType?: string | null;
+  startsAfter?: string | null;
+  startsBefore?: string | null;
+};
+
+export function createScrimsRepository(client: DbClient) {
+  return {
+    async getById(id: string): Promise<ScrimWithTeams | null> {
+      const { data, error } = await client.from('scrims').select(SCRIM_WITH_TEAMS).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    // Scrims the team hosts or plays in (any status unless filtered)
+    async listForTeam(
+      teamId: string,
+      opts: { statuses?: ScrimStatus[]; limit?: number } = {}
+    ): Promise<ScrimWithTeams[]> {
+      let query = client
+        .from('scrims')
+        .select(SCRIM_WITH_TEAMS)
+        .or(`host_team_id.eq.${teamId},opponent_team_id.eq.${teamId}`);
+
+      if (opts.statuses?.length) query = query.in('status', opts.statuses);
+
+      const { data, error } = await query.order('start_time', { ascending: true }).limit(opts.limit ?? 150);
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Challenges waiting on this team's answer (the challenge inbox), soonest first
+    async listChallengesForTeam(teamId: string): Promise<ScrimWithTeams[]> {
+      const { data, error } = await client
+        .from('scrims')
+        .select(SCRIM_WITH_TEAMS)
+        .eq('challenged_team_id', teamId)
+        .eq('status', 'open')
+        .in('challenge_status', ['pending', 'countered'])
+        .gt('start_time', new Date().toISOString())
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Marketplace: open (or still taking requests), untaken and not a challenge,
+    // optionally hiding the viewer's own team
+    async listOpen(
+      opts: { excludeTeamId?: string | null; limit?: number } & OpenScrimFilters = {}
+    ): Promise<ScrimWithTeams[]> {
+      let query = client
+        .from('scrims')
+        .select(SCRIM_WITH_TEAMS)
+        .or('status.eq.open,and(status.eq.requested,requires_approval.is.true)')
+        .is('opponent_team_id', null)
+        .is('challenged_team_id', null);
+
+      if (opts.excludeTeamId) query = query.neq('host_team_id', opts.excludeTeamId);
+      if (opts.region) query = query.eq('region', opts.region);
+      if (opts.scrimType) query = query.eq('scrim_type', opts.scrimType);
+      if (opts.startsAfter) query = query.gte('start_time', opts.startsAfter);
+      if (opts.startsBefore) query = query.lt('start_time', opts.startsBefore);
+
+      // No tier on a slot means any tier is welcome
+      if (opts.tier) query = query.or(`tier.is.null,tier.eq."${opts.tier}"`);
+
+      const { data, error } = await query.order('start_time', { ascending: true }).limit(opts.limit ?? 150);
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Every slot posted in one multi-slot block, soonest first
+    async listByBlock(blockId: string): Promise<ScrimRow[]> {
+      const { data, error } = await client
+        .from('scrims')
+        .select(SCRIM_COLUMNS)
+        .eq('block_id', blockId)
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Scrims a team has hosted, newest first (used for team / profile stats)
+    async listHostedBy(teamId: string, opts: { limit?: number } = {}): Promise<ScrimRow[]> {
+      const { data, error } = await client
+        .from('scrims')
+        .select(SCRIM_COLUMNS)
+        .eq('host_team_id', teamId)
+        .order('start_time', { ascending: false })
+        .limit(opts.limit ?? 300);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async listRecent(opts: { limit?: number } = {}): Promise<ScrimRow[]> {
+      const { data, error } = await client
+        .from('scrims')
+        .select(SCRIM_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(opts.limit ?? 50);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Every status the scrim has been in, oldest first (written by a trigger)
+    async listStatusHistory(scrimId: string): Promise<ScrimStatusEventRow[]> {
+      const { data, error } = await client
+        .from('scrim_status_events')
+        .select('id, scrim_id, from_status, to_status, changed_by, created_at')
+        .eq('scrim_id', scrimId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async create(payload: NewScrim): Promise<ScrimRow> {
+      const { data, error } = await client.from('scrims').insert(payload).select(SCRIM_COLUMNS).single();
+      if (error) throw error;
+      return data;
+    },
+
+    // The actions below run server-side (see supabase/migrations/*_scrim_action_rpcs.sql)
+    // so the lifecycle + team checks happen in one transaction. Failures carry a
+    // ScrimErrorCode — use scrimErrorCode() / scrimErrorMessage() to read it.
+
+    // Instant accept: open → confirmed
+    async accept(id: string, teamId: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('accept_scrim', { p_scrim_id: id, p_team_id: teamId });
+      if (error) throw error;
+      return data;
+    },
+
+    // Ask the host first: open → requested
+    async request(id: string, teamId: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('request_scrim', { p_scrim_id: id, p_team_id: teamId });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host team only
+    async cancel(id: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('cancel_scrim', { p_scrim_id: id });
+      if (error) throw error;
+      return data;
+    },
+
+    // Challenges (see supabase/migrations/*_scrim_challenges.sql). The challenged
+    // team accepts with accept() above.
+
+    // Challenged team: no thanks
+    async declineChallenge(id: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('decline_scrim_challenge', { p_scrim_id: id });
+      if (error) throw error;
+      return data;
+    },
+
+    // Challenged team: propose another start time (ISO string)
+    async counterChallenge(id: string, startTime: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('counter_scrim_challenge', { p_scrim_id: id, p_start_time: startTime });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host: take the proposed time (confirms the scrim) or keep the original
+    async answerCounter(id: string, accept: boolean): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('answer_scrim_counter', { p_scrim_id: id, p_accept: accept });
+      if (error) throw error;
+      return data;
+    },
+
+    // Host: turn the challenge back into an ordinary open slot
+    async withdrawChallenge(id: string): Promise<ScrimRow> {
+      const { data, error } = await client.rpc('withdraw_scrim_challenge', { p_scrim_id: id });
+      if (error) throw error;
+      return data;
+    },
+
+    // Realtime: calls back with the id of every inserted / updated / deleted scrim.
+    // Returns an unsubscribe function.
+    subscribeToChanges(onChange: (change: ScrimChange) => void): () => void {
+      const channel = client
+        .channel(`scrims-changes-${Math.random().toString(36).slice(2)}`)
+        .on<ScrimRow>('postgres_changes', { event: '*', schema: 'public', table: 'scrims' }, (payload) => {
+          const id = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+          if (id) onChange({ type: payload.eventType, id });
+        })
+        .subscribe();
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export type ScrimsRepository = ReturnType<typeof createScrimsRepository>;
@@ -0,0 +1,54 @@
+// Error codes raised by the team RPCs (set_team_member_role, set_team_role, the
+// ownership transfer RPCs, leave_team, remove_team_member, the invite RPCs,
+// redeem_team_invite_code) and the team policies' triggers. Like the scrim codes,
+// Postgres puts the code in the error's `hint`.
+
+export const TEAM_ERROR_CODES = [
+  'not_authenticated',
+  'team_not_found',
+  'not_team_member',
+  'not_team_owner',
+  'not_permitted',
+  'transfer_not_found',
+  'transfer_not_pending',
+  'owner_cannot_leave',
+  'invite_not_found',
+  'invite_not_pending',
+  'invite_expired',
+  'invite_code_not_found',
+  'invite_code_expired',
+  'invite_code_used_up',
+  'already_team_member',
+] as const;
+
+export type TeamErrorCode = (typeof TEAM_ERROR_CODES)[number];
+
+export const TEAM_ERROR_MESSAGES: Record<TeamErrorCode, string> = {
+  not_authenticated: 'Sign in to do that.',
+  team_not_found: 'This team no longer exists.',
+  not_team_member: 'That player isn’t on the team.',
+  not_team_owner: 'Only the team owner can do that.',
+  not_permitted: 'Your team role doesn’t allow that.',
+  transfer_not_found: 'That ownership transfer no longer exists.',
+  transfer_not_pending: 'That ownership transfer was already answered or withdrawn.',
+  owner_cannot_leave: 'Transfer ownership to a teammate before leaving.',
+  invite_not_found: 'That invite no longer exists.',
+  invite_not_pending: 'That invite was already answered or revoked.',
+  invite_expired: 'That invite has expired. Ask the team to send a new one.',
+  invite_code_not_found: 'That invite code doesn’t exist. Check it and try again.',
+  invite_code_expired: 'That invite code has expired. Ask the team for a new one.',
+  invite_code_used_up: 'That invite code has been used up. Ask the team for a new one.',
+  already_team_member: 'You’re already on this team.',
+};
+
+export function teamErrorCode(e: unknown): TeamErrorCode | null {
+  const hint = (e as { hint?: unknown } | null)?.hint;
+  return (TEAM_ERROR_CODES as readonly unknown[]).includes(hint) ? (hint as TeamErrorCode) : null;
+}
+
+// Friendly text for any error thrown by a team action
+export function teamErrorMessage(e: unknown, fallback: string) {
+  const code = teamErrorCode(e);
+  if (code) return TEAM_ERROR_MESSAGES[code];
+  return (e as { message?: string } | null)?.message ?? fallback;
+}
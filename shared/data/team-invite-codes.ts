@@ -0,0 +1,53 @@
+import type { DbClient } from './client';
+import type { TeamInviteCodePreview, TeamInviteCodeRow, TeamMemberRow } from './types';
+
+const CODE_COLUMNS = 'id, team_id, code, created_by, expires_at, max_uses, use_count, created_at';
+
+// Shareable join codes (see supabase/migrations/*_team_invite_codes.sql).
+// The RPCs' failures carry a TeamErrorCode.
+export function createTeamInviteCodesRepository(client: DbClient) {
+  return {
+    // Team staff only (RLS); newest first
+    async listForTeam(teamId: string): Promise<TeamInviteCodeRow[]> {
+      const { data, error } = await client
+        .from('team_invite_codes')
+        .select(CODE_COLUMNS)
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // The server picks the code; null expiresAt / maxUses means no limit
+    async create(
+      teamId: string,
+      createdBy: string,
+      opts: { expiresAt: string | null; maxUses: number | null }
+    ): Promise<TeamInviteCodeRow> {
+      const { data, error } = await client
+        .from('team_invite_codes')
+        .insert({ team_id: teamId, created_by: createdBy, expires_at: opts.expiresAt, max_uses: opts.maxUses })
+        .select(CODE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Null when the code doesn't exist
+    async preview(code: string): Promise<TeamInviteCodePreview | null> {
+      const { data, error } = await client.rpc('preview_team_invite_code', { p_code: code });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+
+    async redeem(code: string): Promise<TeamMemberRow> {
+      const { data, error } = await client.rpc('redeem_team_invite_code', { p_code: code });
+      if (error) throw error;
+      return data as TeamMemberRow;
+    },
+  };
+}
+
+export type TeamInviteCodesRepository = ReturnType<typeof createTeamInviteCodesRepository>;
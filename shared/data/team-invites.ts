@@ -0,0 +1,93 @@
+import type { DbClient } from './client';
+import type { TeamInviteRow } from './types';
+
+const INVITE_COLUMNS = 'id, team_id, invited_user_id, invited_by, status, created_at, responded_at, expires_at';
+
+// PostgREST filter for invites that haven't expired yet
+const notExpired = () => `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+
+// Answering and revoking go through RPCs (see
+// supabase/migrations/*_team_invite_expiry.sql); their failures carry a TeamErrorCode.
+export function createTeamInvitesRepository(client: DbClient) {
+  return {
+    // Pending and not yet expired
+    async listPendingForUser(userId: string): Promise<TeamInviteRow[]> {
+      const { data, error } = await client
+        .from('team_invites')
+        .select(INVITE_COLUMNS)
+        .eq('invited_user_id', userId)
+        .eq('status', 'pending')
+        .or(notExpired())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Every invite sent for the team, newest first (RLS: team staff)
+    async listForTeam(teamId: string, opts: { limit?: number } = {}): Promise<TeamInviteRow[]> {
+      const { data, error } = await client
+        .from('team_invites')
+        .select(INVITE_COLUMNS)
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false })
+        .limit(opts.limit ?? 50);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    // Null when missing or not visible (RLS: invitee, inviter and team staff)
+    async getById(id: string): Promise<TeamInviteRow | null> {
+      const { data, error } = await client.from('team_invites').select(INVITE_COLUMNS).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    // Newest live one; two staff inviting at once can leave more than one pending
+    async findPending(teamId: string, userId: string): Promise<TeamInviteRow | null> {
+      const { data, error } = await client
+        .from('team_invites')
+        .select(INVITE_COLUMNS)
+        .eq('team_id', teamId)
+        .eq('invited_user_id', userId)
+        .eq('status', 'pending')
+        .or(notExpired())
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    // expiresAt null means the invite never expires
+    async create(teamId: string, invitedUserId: string, invitedBy: string, expiresAt: string | null): Promise<void> {
+      const { error } = await client.from('team_invites').insert({
+        team_id: teamId,
+        invited_user_id: invitedUserId,
+        invited_by: invitedBy,
+        status: 'pending',
+        expires_at: expiresAt,
+      });
+
+      if (error) throw error;
+    },
+
+    // Accepting also adds the invitee to the team
+    async respond(id: string, accept: boolean): Promise<TeamInviteRow> {
+      const { data, error } = await client.rpc('respond_team_invite', { p_invite_id: id, p_accept: accept });
+      if (error) throw error;
+      return data;
+    },
+
+    // The sender or team staff
+    async revoke(id: string): Promise<TeamInviteRow> {
+      const { data, error } = await client.rpc('revoke_team_invite', { p_invite_id: id });
+      if (error) throw error;
+      return data;
+    },
+  };
+}
+
+export type TeamInvitesRepository = ReturnType<typeof createTeamInvitesRepository>;
@@ -0,0 +1,108 @@
+import type { DbClient } from './client';
+import type { TeamGameRole, TeamMemberRow, TeamMemberStatus, TeamRole } from './types';
+
+const MEMBER_COLUMNS = 'id, team_id, user_id, status, team_role, game_role, created_at';
+
+export function createTeamMembersRepository(client: DbClient) {
+  return {
+    async listByTeam(teamId: string, opts: { statuses?: TeamMemberStatus[] } = {}): Promise<TeamMemberRow[]> {
+      let query = client.from('team_members').select(MEMBER_COLUMNS).eq('team_id', teamId);
+      if (opts.statuses?.length) query = query.in('status', opts.statuses);
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async listTeamIdsForUser(userId: string, statuses: TeamMemberStatus[]): Promise<string[]> {
+      const { data, error } = await client
+        .from('team_members')
+        .select('team_id')
+        .eq('user_id', userId)
+        .in('status', statuses);
+
+      if (error) throw error;
+      return Array.from(new Set((data ?? []).map((r: { team_id: string }) => r.team_id))).filter(Boolean);
+    },
+
+    // team_id → team_role for the user's active memberships
+    async listRolesForUser(userId: string): Promise<Record<string, TeamRole>> {
+      const { data, error } = await client
+        .from('team_members')
+        .select('team_id, team_role')
+        .eq('user_id', userId)
+        .eq('status', 'active');
+
+      if (error) throw error;
+
+      const roles: Record<string, TeamRole> = {};
+      (data ?? []).forEach((r: { team_id: string; team_role: TeamRole }) => (roles[r.team_id] = r.team_role));
+      return roles;
+    },
+
+    // Only a team's owner adds themselves here, as 'owner'; players join through
+    // invites and invite codes
+    async add(
+      teamId: string,
+      userId: string,
+      status: TeamMemberStatus = 'active',
+      teamRole: TeamRole = 'player'
+    ): Promise<void> {
+      const { error } = await client
+        .from('team_members')
+        .insert({ team_id: teamId, user_id: userId, status, team_role: teamRole });
+
+      if (error) throw error;
+    },
+
+    // The user's team_role (owner from teams.owner_id), or null when not on the team
+    async getRole(teamId: string, userId: string): Promise<TeamRole | null> {
+      const { data, error } = await client.rpc('team_role_of', { p_team_id: teamId, p_user_id: userId });
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    // Own role, or anyone's with set_game_roles; null clears it.
+    // Failures carry a TeamErrorCode.
+    async setGameRole(teamId: string, userId: string, role: TeamGameRole | null): Promise<TeamMemberRow> {
+      const { data, error } = await client.rpc('set_team_member_role', {
+        p_team_id: teamId,
+        p_user_id: userId,
+        p_role: role,
+      });
+
+      if (error) throw error;
+      return data as TeamMemberRow;
+    },
+
+    // Owner only; ownership itself moves with a transfer. Failures carry a TeamErrorCode.
+    async setTeamRole(teamId: string, userId: string, role: TeamRole): Promise<TeamMemberRow> {
+      const { data, error } = await client.rpc('set_team_role', {
+        p_team_id: teamId,
+        p_user_id: userId,
+        p_role: role,
+      });
+
+      if (error) throw error;
+      return data as TeamMemberRow;
+    },
+
+    // Marks your membership 'left' (the owner has to transfer first). The server
+    // clears your primary team and lineup spots. Failures carry a TeamErrorCode.
+    async leave(teamId: string): Promise<TeamMemberRow> {
+      const { data, error } = await client.rpc('leave_team', { p_team_id: teamId });
+      if (error) throw error;
+      return data as TeamMemberRow;
+    },
+
+    // remove_members permission; never the owner, and captains and managers only by the
+    // owner. Failures carry a TeamErrorCode.
+    async remove(teamId: string, userId: string): Promise<TeamMemberRow> {
+      const { data, error } = await client.rpc('remove_team_member', { p_team_id: teamId, p_user_id: userId });
+      if (error) throw error;
+      return data as TeamMemberRow;
+    },
+  };
+}
+
+export type TeamMembersRepository = ReturnType<typeof createTeamMembersRepository>;
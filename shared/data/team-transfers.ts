@@ -0,0 +1,56 @@
+import type { DbClient } from './client';
+import type { TeamOwnershipTransferRow } from './types';
+
+const TRANSFER_COLUMNS = 'id, team_id, from_user_id, to_user_id, status, created_at, responded_at';
+
+// Ownership transfers (see supabase/migrations/*_team_ownership_transfers.sql).
+// The RPCs' failures carry a TeamErrorCode.
+export function createTeamTransfersRepository(client: DbClient) {
+  return {
+    // Offers waiting on this user's answer
+    async listPendingForUser(userId: string): Promise<TeamOwnershipTransferRow[]> {
+      const { data, error } = await client
+        .from('team_ownership_transfers')
+        .select(TRANSFER_COLUMNS)
+        .eq('to_user_id', userId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async findPendingForTeam(teamId: string): Promise<TeamOwnershipTransferRow | null> {
+      const { data, error } = await client
+        .from('team_ownership_transfers')
+        .select(TRANSFER_COLUMNS)
+        .eq('team_id', teamId)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    // Withdraws any earlier pending offer for the team
+    async offer(teamId: string, userId: string): Promise<TeamOwnershipTransferRow> {
+      const { data, error } = await client.rpc('offer_team_ownership', { p_team_id: teamId, p_user_id: userId });
+      if (error) throw error;
+      return data;
+    },
+
+    async respond(id: string, accept: boolean): Promise<TeamOwnershipTransferRow> {
+      const { data, error } = await client.rpc('respond_team_ownership', { p_transfer_id: id, p_accept: accept });
+      if (error) throw error;
+      return data;
+    },
+
+    async cancel(id: string): Promise<TeamOwnershipTransferRow> {
+      const { data, error } = await client.rpc('cancel_team_ownership', { p_transfer_id: id });
+      if (error) throw error;
+      return data;
+    },
+  };
+}
+
+export type TeamTransfersRepository = ReturnType<typeof createTeamTransfersRepository>;
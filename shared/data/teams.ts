@@ -0,0 +1,95 @@
+import type { DbClient } from './client';
+import type { TeamRow } from './types';
+
+const TEAM_COLUMNS = 'id, owner_id, name, tag, region, time_zone, created_at';
+
+export type TeamInput = Pick<TeamRow, 'name' | 'tag' | 'region' | 'time_zone'>;
+
+export function createTeamsRepository(client: DbClient) {
+  return {
+    async getById(id: string): Promise<TeamRow | null> {
+      const { data, error } = await client.from('teams').select(TEAM_COLUMNS).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    async listByIds(ids: string[]): Promise<TeamRow[]> {
+      if (ids.length === 0) return [];
+
+      const { data, error } = await client
+        .from('teams')
+        .select(TEAM_COLUMNS)
+        .in('id', ids)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async listOwnedBy(userId: string): Promise<TeamRow[]> {
+      const { data, error } = await client
+        .from('teams')
+        .select(TEAM_COLUMNS)
+        .eq('owner_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async searchByName(query: string, opts: { limit?: number } = {}): Promise<TeamRow[]> {
+      const q = query.trim();
+      if (!q) return [];
+
+      const { data, error } = await client
+        .from('teams')
+        .select(TEAM_COLUMNS)
+        .ilike('name', `%${q}%`)
+        .order('name', { ascending: true })
+        .limit(opts.limit ?? 8);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async create(ownerId: string, input: TeamInput): Promise<TeamRow> {
+      const { data, error } = await client
+        .from('teams')
+        .insert({ owner_id: ownerId, ...input })
+        .select(TEAM_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Needs the edit_team permission (enforced by policy). Returns null when not allowed.
+    async update(id: string, input: TeamInput): Promise<TeamRow | null> {
+      const { data, error } = await client
+        .from('teams')
+        .update(input)
+        .eq('id', id)
+        .select(TEAM_COLUMNS)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    // Delete ONLY if the caller is the owner. Returns false when nothing was deleted.
+    async deleteOwned(id: string, ownerId: string): Promise<boolean> {
+      const { data, error } = await client
+        .from('teams')
+        .delete()
+        .eq('id', id)
+        .eq('owner_id', ownerId)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data?.id;
+    },
+  };
+}
+
+export type TeamsRepository = ReturnType<typeof createTeamsRepository>;
@@ -0,0 +1,85 @@
+// Row shapes shared by the web and mobile apps.
+// These come from the generated schema types (database.types.ts) — screens should
+// import from here instead of redeclaring their own copies.
+
+import type { Database, Enums, Tables, TablesInsert } from './database.types';
+
+export type ProfileRow = Tables<'Profiles'>;
+
+export type TeamRow = Tables<'teams'>;
+
+// Minimal team shape used for joins (host / opponent / challenged team on a scrim)
+export type TeamSummary = Pick<TeamRow, 'id' | 'name' | 'tag'>;
+
+export type TeamMemberStatus = Enums<'team_member_status'>;
+
+export type TeamMemberRow = Tables<'team_members'>;
+
+export type TeamGameRole = Enums<'team_game_role'>;
+
+export type TeamRole = Enums<'team_role'>;
+
+export type TeamInviteStatus = Enums<'team_invite_status'>;
+
+export type TeamInviteRow = Tables<'team_invites'>;
+
+export type TeamInviteCodeRow = Tables<'team_invite_codes'>;
+
+export type TeamInviteCodePreview = Database['public']['Functions']['preview_team_invite_code']['Returns'][number];
+
+export type TeamTransferStatus = Enums<'team_transfer_status'>;
+
+export type TeamOwnershipTransferRow = Tables<'team_ownership_transfers'>;
+
+export type ScrimStatus = Enums<'scrim_status'>;
+
+export type ScrimRow = Tables<'scrims'>;
+
+export type ScrimChallengeStatus = Enums<'scrim_challenge_status'>;
+
+export type ScrimSeriesRow = Tables<'scrim_series'>;
+
+// The recurrence rule joined onto a scrim that belongs to a series
+export type ScrimSeriesSummary = Pick<
+  ScrimSeriesRow,
+  'id' | 'weekdays' | 'local_start' | 'time_zone' | 'until_date' | 'occurrence_count'
+>;
+
+export type ScrimBlockRow = Tables<'scrim_blocks'>;
+
+// The offer joined onto a scrim posted as one slot of a block
+export type ScrimBlockSummary = Pick<ScrimBlockRow, 'id' | 'slot_count' | 'withdraw_siblings'>;
+
+export type ScrimWithTeams = ScrimRow & {
+  host_team: TeamSummary | null;
+  opponent_team: TeamSummary | null;
+  challenged_team: TeamSummary | null;
+  series: ScrimSeriesSummary | null;
+  block: ScrimBlockSummary | null;
+};
+
+export type NewScrim = TablesInsert<'scrims'>;
+
+export type ScrimStatusEventRow = Tables<'scrim_status_events'>;
+
+export type ScrimMessageRow = Tables<'scrim_messages'>;
+
+export type ScrimLineupPlayerRow = Tables<'scrim_lineup_players'>;
+
+export type ScrimApplicationStatus = Enums<'scrim_application_status'>;
+
+export type ScrimApplicationRow = Tables<'scrim_applications'>;
+
+// An applicant with the team details the host compares
+export type ScrimApplicationWithTeam = ScrimApplicationRow & {
+  team: (TeamSummary & Pick<TeamRow, 'region'>) | null;
+};
+
+// Played vs dropped scrims (see team_scrim_records)
+export type TeamScrimRecord = { team_id: string; completed: number; cancelled: number };
+
+export type NotificationType = Enums<'notification_type'>;
+
+export type NotificationRow = Tables<'notifications'>;
+
+export type UserSettingsRow = Tables<'user_settings'>;
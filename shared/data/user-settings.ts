@@ -0,0 +1,30 @@
+import type { DbClient } from './client';
+import type { UserSettingsRow } from './types';
+
+export const DEFAULT_USER_SETTINGS: Omit<UserSettingsRow, 'user_id'> = {
+  scrim_confirmed: true,
+  scrim_cancelled: true,
+  allow_team_invites: true,
+};
+
+export function createUserSettingsRepository(client: DbClient) {
+  return {
+    async get(userId: string): Promise<UserSettingsRow | null> {
+      const { data, error } = await client
+        .from('user_settings')
+        .select('user_id, scrim_confirmed, scrim_cancelled, allow_team_invites')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ?? null;
+    },
+
+    async upsert(row: UserSettingsRow): Promise<void> {
+      const { error } = await client.from('user_settings').upsert(row, { onConflict: 'user_id' });
+      if (error) throw error;
+    },
+  };
+}
+
+export type UserSettingsRepository = ReturnType<typeof createUserSettingsRepository>;
@@ -0,0 +1,85 @@
+// Team invites (sent to a player) and invite codes (shared as a link), for the
+// web and mobile apps. The database enforces expiry, use limits and revocation
+// (supabase/migrations/*_team_invite_codes.sql, *_team_invite_expiry.sql); this
+// copy is for the create forms and the status labels.
+
+import type { TeamInviteCodePreview, TeamInviteCodeRow, TeamInviteRow, TeamInviteStatus } from './data';
+
+// Offered when sending an invite or creating a code; null means it never expires
+export const INVITE_EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' },
+  { hours: null, label: 'Never' },
+] as const;
+
+// Index into INVITE_EXPIRY_OPTIONS picked by default (7 days, same as the database)
+export const DEFAULT_INVITE_EXPIRY = 1;
+
+// null means unlimited
+export const INVITE_CODE_USE_OPTIONS = [
+  { uses: 1, label: '1 use' },
+  { uses: 5, label: '5 uses' },
+  { uses: 10, label: '10 uses' },
+  { uses: null, label: 'Unlimited' },
+] as const;
+
+export function inviteExpiresAt(hours: number | null, now = new Date()) {
+  return hours == null ? null : new Date(now.getTime() + hours * 3_600_000).toISOString();
+}
+
+function isExpired(expiresAt: string | null, now: Date) {
+  return !!expiresAt && new Date(expiresAt) <= now;
+}
+
+export function inviteExpiryLabel(invite: { expires_at: string | null }, now = new Date()) {
+  if (!invite.expires_at) return 'Never expires';
+
+  const day = new Date(invite.expires_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return isExpired(invite.expires_at, now) ? `Expired ${day}` : `Expires ${day}`;
+}
+
+// ---------------------------------------------------------------------------
+// Invites sent to a player
+// ---------------------------------------------------------------------------
+
+// A pending invite past its expiry is never rewritten; it just reads as expired
+export type TeamInviteState = TeamInviteStatus | 'expired';
+
+export function teamInviteState(invite: Pick<TeamInviteRow, 'status' | 'expires_at'>, now = new Date()): TeamInviteState {
+  return invite.status === 'pending' && isExpired(invite.expires_at, now) ? 'expired' : invite.status;
+}
+
+export const TEAM_INVITE_STATE_LABELS: Record<TeamInviteState, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+// ---------------------------------------------------------------------------
+// Invite codes
+// ---------------------------------------------------------------------------
+
+export type InviteCodeStatus = 'active' | 'expired' | 'used_up';
+
+type CodeLimits = Pick<TeamInviteCodeRow, 'expires_at' | 'max_uses' | 'use_count'> | TeamInviteCodePreview;
+
+export function inviteCodeStatus(code: CodeLimits, now = new Date()): InviteCodeStatus {
+  if (isExpired(code.expires_at, now)) return 'expired';
+  if (code.max_uses != null && code.use_count >= code.max_uses) return 'used_up';
+  return 'active';
+}
+
+// Opens the mobile app's join screen (scrimmobile://invite/<code>, see
+// scrim-mobile/lib/deep-links.ts)
+export function inviteCodeLink(code: string) {
+  return `scrimmobile://invite/${encodeURIComponent(code)}`;
+}
+
+// "3 of 5 uses", or "2 uses" without a limit
+export function inviteCodeUsesLabel(code: CodeLimits) {
+  if (code.max_uses == null) return `${code.use_count} use${code.use_count === 1 ? '' : 's'}`;
+  return `${code.use_count} of ${code.max_uses} uses`;
+}
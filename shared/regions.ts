@@ -0,0 +1,86 @@
+// Region catalog shared by the web and mobile apps.
+// The ids are what we store in scrims.region, teams.region and Profiles.primary_region.
+
+export const REGION_IDS = [
+  'pacific-nw',
+  'pacific-sw',
+  'central-north',
+  'central-south',
+  'atlantic-north',
+  'atlantic-south',
+] as const;
+
+export type RegionId = (typeof REGION_IDS)[number];
+
+export const REGION_LABELS: Record<RegionId, string> = {
+  'pacific-nw': 'Pacific Northwest',
+  'pacific-sw': 'Pacific Southwest',
+  'central-north': 'Central North',
+  'central-south': 'Central South',
+  'atlantic-north': 'Atlantic North',
+  'atlantic-south': 'Atlantic South',
+};
+
+// Compact labels for chips / tight layouts (web map, profile cards)
+export const REGION_SHORT_LABELS: Record<RegionId, string> = {
+  'pacific-nw': 'Pacific NW',
+  'pacific-sw': 'Pacific SW',
+  'central-north': 'Central N',
+  'central-south': 'Central S',
+  'atlantic-north': 'Atlantic N',
+  'atlantic-south': 'Atlantic S',
+};
+
+export const REGION_OPTIONS: { id: RegionId; label: string }[] = REGION_IDS.map((id) => ({
+  id,
+  label: REGION_LABELS[id],
+}));
+
+// Legacy / hand-typed values seen in the tables, keyed by their cleaned form.
+// Keep in sync with public.normalize_region() in supabase/migrations.
+export const REGION_ALIASES: Record<string, RegionId> = {
+  'pacfic-nw': 'pacific-nw', // common typo
+  pacificnw: 'pacific-nw',
+  'pacific-northwest': 'pacific-nw',
+  'pac-nw': 'pacific-nw',
+  pacificsw: 'pacific-sw',
+  'pacific-southwest': 'pacific-sw',
+  'pac-sw': 'pacific-sw',
+  centralnorth: 'central-north',
+  'central-n': 'central-north',
+  centralsouth: 'central-south',
+  'central-s': 'central-south',
+  atlanticnorth: 'atlantic-north',
+  'atlantic-n': 'atlantic-north',
+  atlanticsouth: 'atlantic-south',
+  'atlantic-s': 'atlantic-south',
+};
+
+export function isRegionId(value: unknown): value is RegionId {
+  return typeof value === 'string' && (REGION_IDS as readonly string[]).includes(value);
+}
+
+// Lowercase, strip zero-width chars, and use dashes as separators
+function cleanRegion(raw: unknown) {
+  return String(raw ?? '')
+    .toLowerCase()
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-');
+}
+
+// Canonical id for any stored / typed region value, or null if it isn't one we know
+export function normalizeRegion(raw: unknown): RegionId | null {
+  const key = cleanRegion(raw);
+  if (isRegionId(key)) return key;
+  return REGION_ALIASES[key] ?? null;
+}
+
+// Display label; unknown values are shown as-is so nothing silently disappears
+export function regionLabel(raw: unknown, opts: { short?: boolean; fallback?: string } = {}) {
+  const id = normalizeRegion(raw);
+  if (id) return (opts.short ? REGION_SHORT_LABELS : REGION_LABELS)[id];
+
+  const text = String(raw ?? '').trim();
+  return text || (opts.fallback ?? '—');
+}
@@ -0,0 +1,40 @@
+// Host-approval scrims shared by the web and mobile apps.
+// The database enforces the same rules (apply_for_scrim / choose_scrim_applicant
+// in supabase/migrations); this copy is for deciding what to show.
+
+import type { ScrimApplicationStatus, ScrimStatus, TeamScrimRecord } from './data';
+
+export type { ScrimApplicationStatus } from './data';
+
+export const SCRIM_APPLICATION_STATUS_LABELS: Record<ScrimApplicationStatus, string> = {
+  pending: 'Waiting for the host',
+  accepted: 'Picked',
+  rejected: 'Not picked',
+  withdrawn: 'Withdrawn',
+};
+
+export const APPLICATION_MESSAGE_MAX = 280;
+
+// Teams can still ask to play: nobody picked yet and the scrim hasn't moved on
+export function acceptsApplications(scrim: {
+  status: ScrimStatus;
+  opponent_team_id: string | null;
+  requires_approval: boolean;
+}) {
+  return (
+    scrim.requires_approval && !scrim.opponent_team_id && (scrim.status === 'open' || scrim.status === 'requested')
+  );
+}
+
+// Share of a team's scrims that were played rather than dropped, 0–100; null
+// for a team with no history yet
+export function teamReliability(record: TeamScrimRecord | null | undefined) {
+  const total = (record?.completed ?? 0) + (record?.cancelled ?? 0);
+  return total ? Math.round(((record?.completed ?? 0) / total) * 100) : null;
+}
+
+export function teamReliabilityLabel(record: TeamScrimRecord | null | undefined) {
+  const pct = teamReliability(record);
+  if (pct === null) return 'No scrims played yet';
+  return `${pct}% reliable · ${record?.completed ?? 0} played`;
+}
@@ -0,0 +1,39 @@
+// Multi-slot blocks shared by the web and mobile apps. create_scrim_block
+// (supabase/migrations) checks the same rules; this copy lets the forms explain
+// a problem before anything is posted.
+
+import type { ScrimBlockSummary } from './data';
+
+// Same caps as create_scrim_block
+export const SCRIM_BLOCK_MIN_SLOTS = 2;
+export const SCRIM_BLOCK_MAX_SLOTS = 6;
+
+// Default start for an added slot: straight after the last one
+export function nextBlockSlotStart(starts: Date[], durationMinutes: number) {
+  const last = starts.reduce((a, b) => (b.getTime() > a.getTime() ? b : a));
+  return new Date(last.getTime() + durationMinutes * 60_000);
+}
+
+// First problem with the slot times, as a message for the user, or null
+export function validateScrimBlock(starts: Date[], durationMinutes: number) {
+  if (starts.length < SCRIM_BLOCK_MIN_SLOTS || starts.length > SCRIM_BLOCK_MAX_SLOTS) {
+    return `A block has between ${SCRIM_BLOCK_MIN_SLOTS} and ${SCRIM_BLOCK_MAX_SLOTS} slots.`;
+  }
+  if (starts.some((d) => Number.isNaN(d.getTime()))) return 'Pick a time for every slot.';
+  if (starts.some((d) => d.getTime() <= Date.now())) return 'Every slot must start in the future.';
+
+  const sorted = starts.map((d) => d.getTime()).sort((a, b) => a - b);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] === sorted[i - 1]) return 'Two slots start at the same time.';
+    // Back-to-back is fine
+    if (sorted[i] < sorted[i - 1] + durationMinutes * 60_000) return 'Slots in a block can’t overlap.';
+  }
+  return null;
+}
+
+// "3-slot block · the rest are withdrawn once one is taken"
+export function blockSummary(block: Pick<ScrimBlockSummary, 'slot_count' | 'withdraw_siblings'>) {
+  return `${block.slot_count}-slot block · ${
+    block.withdraw_siblings ? 'the rest are withdrawn once one is taken' : 'every slot stays open'
+  }`;
+}
@@ -0,0 +1,48 @@
+// Direct team-to-team challenges shared by the web and mobile apps.
+// The database enforces the same rules (lock_scrim_challenge and the challenge
+// RPCs in supabase/migrations); this copy is for deciding what to show.
+
+import type { ScrimChallengeStatus, ScrimStatus } from './data';
+
+export type { ScrimChallengeStatus } from './data';
+
+export const SCRIM_CHALLENGE_STATUS_LABELS: Record<ScrimChallengeStatus, string> = {
+  pending: 'Awaiting answer',
+  countered: 'New time proposed',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+type ChallengeFields = {
+  status: ScrimStatus;
+  host_team_id: string;
+  challenged_team_id: string | null;
+  challenge_status: ScrimChallengeStatus | null;
+};
+
+// Still waiting on an answer from one side or the other
+export function isOpenChallenge(scrim: ChallengeFields) {
+  return (
+    scrim.status === 'open' &&
+    !!scrim.challenged_team_id &&
+    (scrim.challenge_status === 'pending' || scrim.challenge_status === 'countered')
+  );
+}
+
+// Which side of a challenge a team is on, if any
+export function challengeSideForTeam(
+  scrim: ChallengeFields,
+  teamId: string | null | undefined
+): 'host' | 'challenged' | null {
+  if (!teamId || !scrim.challenged_team_id) return null;
+  if (scrim.host_team_id === teamId) return 'host';
+  if (scrim.challenged_team_id === teamId) return 'challenged';
+  return null;
+}
+
+// Whose move it is: the challenged team answers a pending challenge, the host
+// answers a counter-proposal
+export function challengeAwaits(scrim: ChallengeFields): 'host' | 'challenged' | null {
+  if (!isOpenChallenge(scrim)) return null;
+  return scrim.challenge_status === 'countered' ? 'host' : 'challenged';
+}
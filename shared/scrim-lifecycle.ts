@@ -0,0 +1,115 @@
+// Scrim lifecycle shared by the web and mobile apps.
+// The database enforces the same rules (see public.scrims_enforce_lifecycle in
+// supabase/migrations); this copy is for deciding what to show, not for security.
+
+import type { ScrimChallengeStatus, ScrimStatus } from './data';
+
+export type { ScrimStatus } from './data';
+
+export const SCRIM_STATUSES: readonly ScrimStatus[] = [
+  'open',
+  'requested',
+  'confirmed',
+  'in_progress',
+  'completed',
+  'cancelled',
+  'expired',
+];
+
+export const SCRIM_STATUS_LABELS: Record<ScrimStatus, string> = {
+  open: 'Open',
+  requested: 'Requested',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+// host = member of the host team, guest = member of the team taking / asking for
+// the slot, system = scheduled jobs / service role
+export type ScrimActor = 'host' | 'guest' | 'system';
+
+type Transition = { from: ScrimStatus; to: ScrimStatus; by: ScrimActor[] };
+
+export const SCRIM_TRANSITIONS: readonly Transition[] = [
+  { from: 'open', to: 'requested', by: ['guest'] },
+  { from: 'open', to: 'confirmed', by: ['guest'] },
+  { from: 'requested', to: 'confirmed', by: ['host'] },
+  { from: 'requested', to: 'open', by: ['host', 'guest'] },
+  { from: 'confirmed', to: 'in_progress', by: ['host', 'guest'] },
+  { from: 'in_progress', to: 'completed', by: ['host', 'guest'] },
+  { from: 'open', to: 'cancelled', by: ['host'] },
+  { from: 'requested', to: 'cancelled', by: ['host'] },
+  { from: 'confirmed', to: 'cancelled', by: ['host'] },
+  { from: 'in_progress', to: 'cancelled', by: ['host'] },
+  { from: 'open', to: 'expired', by: ['system'] },
+  { from: 'requested', to: 'expired', by: ['system'] },
+];
+
+export const TERMINAL_SCRIM_STATUSES: readonly ScrimStatus[] = ['completed', 'cancelled', 'expired'];
+
+// Statuses where two teams are locked in (or about to be)
+export const ACTIVE_SCRIM_STATUSES: readonly ScrimStatus[] = ['requested', 'confirmed', 'in_progress'];
+
+// Older rows / payloads used free text ('canceled', 'pending')
+const LEGACY_STATUSES: Record<string, ScrimStatus> = {
+  canceled: 'cancelled',
+  pending: 'requested',
+};
+
+export function normalizeScrimStatus(raw: unknown): ScrimStatus | null {
+  const s = String(raw ?? '').toLowerCase().trim();
+  if ((SCRIM_STATUSES as readonly string[]).includes(s)) return s as ScrimStatus;
+  return LEGACY_STATUSES[s] ?? null;
+}
+
+export function scrimStatusLabel(raw: unknown) {
+  const s = normalizeScrimStatus(raw);
+  return s ? SCRIM_STATUS_LABELS[s] : String(raw ?? '').trim() || '—';
+}
+
+export function isTerminalScrimStatus(status: ScrimStatus) {
+  return TERMINAL_SCRIM_STATUSES.includes(status);
+}
+
+// Chat needs both teams and turns read-only once the scrim is over (same rule as
+// send_scrim_message)
+export function isScrimChatOpen(status: ScrimStatus, opponentTeamId: string | null) {
+  return !!opponentTeamId && !isTerminalScrimStatus(status);
+}
+
+export function canTransitionScrim(from: ScrimStatus, to: ScrimStatus, actor: ScrimActor) {
+  if (actor === 'system') return true;
+  return SCRIM_TRANSITIONS.some((t) => t.from === from && t.to === to && t.by.includes(actor));
+}
+
+// Statuses this actor may move the scrim to from where it is now
+export function nextScrimStatuses(from: ScrimStatus, actor: ScrimActor): ScrimStatus[] {
+  return SCRIM_TRANSITIONS.filter((t) => t.from === from && t.by.includes(actor)).map((t) => t.to);
+}
+
+// How a team relates to a scrim. A team that isn't on it yet counts as a guest
+// while the slot is open (it could take it, or ask for a host-approval slot that
+// is still collecting requests), otherwise it has no role. A challenge is only
+// open to the challenged team, and only until it declines.
+export function scrimActorForTeam(
+  scrim: {
+    status: ScrimStatus;
+    host_team_id: string;
+    opponent_team_id: string | null;
+    challenged_team_id?: string | null;
+    challenge_status?: ScrimChallengeStatus | null;
+    requires_approval?: boolean;
+  },
+  teamId: string | null | undefined
+): Exclude<ScrimActor, 'system'> | null {
+  if (!teamId) return null;
+  if (scrim.host_team_id === teamId) return 'host';
+  if (scrim.opponent_team_id === teamId) return 'guest';
+
+  const available = scrim.status === 'open' || (scrim.status === 'requested' && !!scrim.requires_approval);
+  if (!available || scrim.opponent_team_id) return null;
+  if (!scrim.challenged_team_id) return 'guest';
+  return scrim.challenged_team_id === teamId && scrim.challenge_status !== 'declined' ? 'guest' : null;
+}
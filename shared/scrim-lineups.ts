@@ -0,0 +1,56 @@
+// Per-scrim lineups shared by the web and mobile apps.
+// The database enforces the same rules (set_scrim_lineup / scrims_check_lineups in
+// supabase/migrations); this copy is for the editor and the warnings.
+
+import type { ScrimLineupPlayerRow, ScrimStatus } from './data';
+
+export const LINEUP_MAX_STARTERS = 12;
+export const LINEUP_MAX_SUBSTITUTES = 6;
+
+// Offered when posting a slot; null means no minimum
+export const MIN_LINEUP_OPTIONS = [2, 3, 4, 5, 6] as const;
+
+export type LineupSlot = 'starter' | 'substitute';
+
+export type TeamLineup = { starters: string[]; substitutes: string[] };
+
+// Lineups can change until the scrim starts
+export function isLineupEditable(status: ScrimStatus) {
+  return status === 'open' || status === 'requested' || status === 'confirmed';
+}
+
+export function teamLineup(rows: readonly ScrimLineupPlayerRow[], teamId: string | null): TeamLineup {
+  const mine = rows.filter((r) => r.team_id === teamId);
+  return {
+    starters: mine.filter((r) => !r.is_substitute).map((r) => r.user_id),
+    substitutes: mine.filter((r) => r.is_substitute).map((r) => r.user_id),
+  };
+}
+
+// Starters still needed to reach the scrim's minimum (0 when met or no minimum)
+export function lineupShortfall(lineup: TeamLineup, minLineupSize: number | null) {
+  return minLineupSize ? Math.max(0, minLineupSize - lineup.starters.length) : 0;
+}
+
+// Tapping a player in the editor: out → starter → substitute → out
+export function nextLineupSlot(slot: LineupSlot | null): LineupSlot | null {
+  if (slot === null) return 'starter';
+  if (slot === 'starter') return 'substitute';
+  return null;
+}
+
+// Places a player in a slot (or takes them out); null if that slot is full
+export function setLineupSlot(lineup: TeamLineup, userId: string, slot: LineupSlot | null): TeamLineup | null {
+  const starters = lineup.starters.filter((id) => id !== userId);
+  const substitutes = lineup.substitutes.filter((id) => id !== userId);
+
+  if (slot === 'starter') {
+    if (starters.length >= LINEUP_MAX_STARTERS) return null;
+    starters.push(userId);
+  } else if (slot === 'substitute') {
+    if (substitutes.length >= LINEUP_MAX_SUBSTITUTES) return null;
+    substitutes.push(userId);
+  }
+
+  return { starters, substitutes };
+}
@@ -0,0 +1,95 @@
+// Recurring scrim slots shared by the web and mobile apps.
+// create_scrim_series (supabase/migrations) posts the occurrences and turns each
+// local date into a UTC start, DST included; this copy walks the same local
+// dates to check the form and preview what will be posted.
+
+import type { ScrimRecurrence, ScrimSeriesSummary, ScrimWithTeams } from './data';
+
+export type { ScrimOccurrenceScope, ScrimRecurrence } from './data';
+
+// Indexed by Date.getDay() / extract(dow): 0 = Sunday
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+// Same caps as create_scrim_series
+export const SCRIM_SERIES_MAX_OCCURRENCES = 52;
+const SERIES_MAX_DAYS = 364;
+
+export const SCRIM_SERIES_COUNT_OPTIONS = [4, 8, 12, 16, 24];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Calendar date (YYYY-MM-DD) of d in the device's time zone
+export function localDateKey(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Date-only arithmetic in UTC so no clock change can shift the day
+function keyToUtc(key: string) {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+function addDays(key: string, days: number) {
+  const d = keyToUtc(key);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// "Tue, Oct 21" for a YYYY-MM-DD date
+export function formatSeriesDate(key: string) {
+  return keyToUtc(key).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// Local dates the series posts on, starting at firstDate. Walks one past the cap
+// so validation can tell an over-long series apart.
+export function seriesOccurrenceDates(firstDate: string, rule: ScrimRecurrence): string[] {
+  const weekdays = new Set(rule.weekdays);
+  const cap = addDays(firstDate, SERIES_MAX_DAYS);
+  const lastDate = rule.untilDate && rule.untilDate < cap ? rule.untilDate : cap;
+  const limit = Math.min(rule.count ?? SCRIM_SERIES_MAX_OCCURRENCES + 1, SCRIM_SERIES_MAX_OCCURRENCES + 1);
+
+  const dates: string[] = [];
+  for (let day = firstDate; day <= lastDate && dates.length < limit; day = addDays(day, 1)) {
+    if (weekdays.has(keyToUtc(day).getUTCDay())) dates.push(day);
+  }
+  return dates;
+}
+
+// First problem with the repeat settings, as a message for the user, or null
+export function validateScrimRecurrence(rule: ScrimRecurrence, firstDate: string, timeZone: string | null) {
+  if (!timeZone) return 'Recurring scrims need your device’s time zone.';
+  if (rule.weekdays.length === 0) return 'Pick at least one weekday.';
+  if (!rule.untilDate === (rule.count == null)) return 'End the series on a date or after a number of scrims.';
+  if (rule.count != null && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > SCRIM_SERIES_MAX_OCCURRENCES)) {
+    return `A series can post between 1 and ${SCRIM_SERIES_MAX_OCCURRENCES} scrims.`;
+  }
+  if (rule.untilDate && rule.untilDate < firstDate) return 'The end date is before the first scrim.';
+
+  const dates = seriesOccurrenceDates(firstDate, rule);
+  if (dates.length === 0) return 'None of the picked weekdays fall before the end date.';
+  if (dates.length > SCRIM_SERIES_MAX_OCCURRENCES) {
+    return `A series can post at most ${SCRIM_SERIES_MAX_OCCURRENCES} scrims — pick an earlier end date.`;
+  }
+  return null;
+}
+
+// "Weekly on Tue, Thu · 8 scrims" / "Weekly on Tue, Thu until Thu, Nov 13"
+export function seriesSummary(series: Pick<ScrimSeriesSummary, 'weekdays' | 'until_date' | 'occurrence_count'>) {
+  const days = [...series.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_SHORT_LABELS[d] ?? '?');
+  const base = `Weekly on ${days.join(', ')}`;
+
+  if (series.until_date) return `${base} until ${formatSeriesDate(series.until_date)}`;
+  if (series.occurrence_count) return `${base} · ${series.occurrence_count} scrims`;
+  return base;
+}
+
+// Host edits are limited to open, unchallenged slots that haven't started (edit_scrim_occurrences)
+export function isEditableScrim(scrim: Pick<ScrimWithTeams, 'status' | 'challenged_team_id' | 'start_time'>) {
+  return (
+    scrim.status === 'open' && !scrim.challenged_team_id && new Date(scrim.start_time).getTime() > Date.now()
+  );
+}
@@ -0,0 +1,150 @@
+// Scrim type + tier catalog shared by the web and mobile apps, and the one place
+// that turns the "post a scrim slot" form into a scrims insert.
+// The ids are what we store in scrims.scrim_type; scrims.modes is derived from them.
+
+import type { NewScrim } from './data';
+import type { RegionId } from './regions';
+
+export const SCRIM_TYPE_IDS = ['hp-only', 'snd-only', 'third-only', 'all-respawns', 'full-series', 'mixed'] as const;
+
+export type ScrimTypeId = (typeof SCRIM_TYPE_IDS)[number];
+
+export const SCRIM_TYPE_LABELS: Record<ScrimTypeId, string> = {
+  'hp-only': 'Hardpoint',
+  'snd-only': 'S&D',
+  'third-only': '3rd Mode',
+  'all-respawns': 'Respawns', // Hardpoint + 3rd mode
+  'full-series': 'Full Series', // Hardpoint, S&D and 3rd mode
+  mixed: 'Custom',
+};
+
+export const SCRIM_TYPE_MODES: Record<ScrimTypeId, string[]> = {
+  'hp-only': ['hp'],
+  'snd-only': ['snd'],
+  'third-only': ['control'],
+  'all-respawns': ['hp', 'control'],
+  'full-series': ['hp', 'snd', 'control'],
+  mixed: ['custom'],
+};
+
+// Default slot length when the type is picked
+export const SCRIM_TYPE_MINUTES: Record<ScrimTypeId, number> = {
+  'hp-only': 60,
+  'snd-only': 90,
+  'third-only': 60,
+  'all-respawns': 90,
+  'full-series': 150,
+  mixed: 90,
+};
+
+export const SCRIM_TYPE_OPTIONS: { id: ScrimTypeId; label: string }[] = SCRIM_TYPE_IDS.map((id) => ({
+  id,
+  label: SCRIM_TYPE_LABELS[id],
+}));
+
+// scrims.tier is free text; null means any tier is welcome
+export const SCRIM_TIERS = ['Tier 1', 'Tier 2', 'Tier 3', 'Tier 4', 'Tier 5'] as const;
+
+export type ScrimTier = (typeof SCRIM_TIERS)[number];
+
+export function isScrimTypeId(value: unknown): value is ScrimTypeId {
+  return typeof value === 'string' && (SCRIM_TYPE_IDS as readonly string[]).includes(value);
+}
+
+// Older rows may only have modes (or mode names spelled out)
+export function normalizeScrimType(scrimType: unknown, modes?: readonly unknown[] | null): ScrimTypeId | null {
+  const t = String(scrimType ?? '').toLowerCase().trim();
+  if (isScrimTypeId(t)) return t;
+
+  const m = (modes ?? []).map((x) => String(x).toLowerCase().trim());
+  const hp = m.includes('hp') || m.includes('hardpoint');
+  const snd = m.includes('snd') || m.includes('search') || m.includes('search and destroy');
+  const control = m.includes('control') || m.includes('third') || m.includes('3rd');
+
+  if (hp && snd && control) return 'full-series';
+  if (hp && control) return 'all-respawns';
+  if (hp) return 'hp-only';
+  if (snd) return 'snd-only';
+  if (control) return 'third-only';
+  if (m.includes('custom')) return 'mixed';
+  return null;
+}
+
+export function scrimTypeLabel(scrimType: unknown, modes?: readonly unknown[] | null, fallback = 'Scrim') {
+  const id = normalizeScrimType(scrimType, modes);
+  return id ? SCRIM_TYPE_LABELS[id] : fallback;
+}
+
+// ---------------------------------------------------------------------------
+// Posting a slot
+// ---------------------------------------------------------------------------
+
+export type ScrimSlotInput = {
+  hostTeamId: string | null;
+  createdBy: string | null;
+  region: RegionId | null;
+  tier: ScrimTier | null;
+  scrimType: ScrimTypeId;
+  start: Date;
+  durationMinutes: number;
+  timeZone: string | null;
+  notes?: string | null;
+  // A direct challenge to this team instead of a marketplace slot
+  challengedTeamId?: string | null;
+  // Teams ask to play and the host picks one, instead of first come first served
+  requiresApproval?: boolean;
+  minLineupSize?: number | null;
+};
+
+export const SCRIM_NOTES_MAX = 500;
+
+// First problem with the form, as a message for the user, or null if it can be posted
+export function validateScrimSlot(input: ScrimSlotInput, now = new Date()): string | null {
+  if (!input.createdBy) return 'Not signed in.';
+  if (!input.hostTeamId) return 'No primary team set. Create/select a team first.';
+  if (!input.region) return 'Pick a region.';
+  if (Number.isNaN(input.start.getTime())) return 'Pick a start date and time.';
+  if (input.start.getTime() <= now.getTime()) return 'Start time must be in the future.';
+  if (!Number.isFinite(input.durationMinutes) || input.durationMinutes < 15 || input.durationMinutes > 8 * 60) {
+    return 'Duration must be between 15 minutes and 8 hours.';
+  }
+  if ((input.notes ?? '').trim().length > SCRIM_NOTES_MAX) return `Notes must be ${SCRIM_NOTES_MAX} characters or fewer.`;
+  if (input.challengedTeamId && input.challengedTeamId === input.hostTeamId) return 'You can’t challenge your own team.';
+  if (input.challengedTeamId && input.requiresApproval) {
+    return 'A challenge already goes to one team — turn off host approval or clear the challenge.';
+  }
+  const minLineup = input.minLineupSize;
+  if (minLineup != null && (!Number.isInteger(minLineup) || minLineup < 1 || minLineup > 12)) {
+    return 'Minimum lineup must be between 1 and 12 players.';
+  }
+  return null;
+}
+
+// The scrims insert both apps post. Throws with the validation message if the
+// form isn't ready, so callers can show e.message like any other failure.
+export function buildScrimSlot(input: ScrimSlotInput): NewScrim {
+  const problem = validateScrimSlot(input);
+  const { hostTeamId, createdBy, region } = input;
+  if (problem || !hostTeamId || !createdBy || !region) throw new Error(problem ?? 'Scrim slot is incomplete.');
+
+  const end = new Date(input.start.getTime() + input.durationMinutes * 60_000);
+  const notes = input.notes?.trim();
+
+  return {
+    host_team_id: hostTeamId,
+    challenged_team_id: input.challengedTeamId ?? null,
+    requires_approval: !!input.requiresApproval,
+    status: 'open',
+    region,
+    tier: input.tier,
+    modes: SCRIM_TYPE_MODES[input.scrimType],
+    scrim_type: input.scrimType,
+    start_time: input.start.toISOString(),
+    end_time: end.toISOString(),
+    time_zone: input.timeZone,
+    duration_minutes: input.durationMinutes,
+    notes: notes ? notes : null,
+    min_lineup_size: input.minLineupSize ?? null,
+    created_by: createdBy,
+  };
+}
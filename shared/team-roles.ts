@@ -0,0 +1,73 @@
+// Team roles shared by the web and mobile apps: in-game roles
+// (team_members.game_role) and permission roles (team_members.team_role).
+// The database enforces the same permissions (has_team_permission in
+// supabase/migrations); this copy is for deciding what to show, not for security.
+
+import type { TeamGameRole, TeamRole } from './data';
+
+export type { TeamGameRole, TeamRole } from './data';
+
+export const GAME_ROLE_LABELS: Record<TeamGameRole, string> = {
+  igl: 'IGL',
+  main_ar: 'Main AR',
+  entry_sub: 'Entry Sub',
+  flex: 'Flex',
+};
+
+export const GAME_ROLE_OPTIONS: { id: TeamGameRole; label: string }[] = (
+  Object.keys(GAME_ROLE_LABELS) as TeamGameRole[]
+).map((id) => ({ id, label: GAME_ROLE_LABELS[id] }));
+
+export function gameRoleLabel(role: TeamGameRole | null | undefined, fallback = 'No role') {
+  return role ? GAME_ROLE_LABELS[role] : fallback;
+}
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  captain: 'Captain',
+  manager: 'Manager',
+  player: 'Player',
+  coach: 'Coach',
+};
+
+// What the owner can hand out (ownership moves with a transfer)
+export const ASSIGNABLE_TEAM_ROLES: readonly TeamRole[] = ['captain', 'manager', 'player', 'coach'];
+
+export function teamRoleLabel(role: TeamRole | null | undefined, fallback = 'Member') {
+  return role ? TEAM_ROLE_LABELS[role] : fallback;
+}
+
+export const TEAM_PERMISSIONS = {
+  post_scrims: ['owner', 'captain', 'manager'],
+  accept_scrims: ['owner', 'captain', 'manager'],
+  cancel_scrims: ['owner', 'captain', 'manager'],
+  invite_members: ['owner', 'captain', 'manager'],
+  remove_members: ['owner', 'manager'],
+  edit_team: ['owner', 'manager'],
+  set_game_roles: ['owner', 'captain', 'manager', 'coach'],
+  manage_roles: ['owner'],
+} as const satisfies Record<string, readonly TeamRole[]>;
+
+export type TeamPermission = keyof typeof TEAM_PERMISSIONS;
+
+export function teamCan(role: TeamRole | null | undefined, permission: TeamPermission) {
+  return !!role && (TEAM_PERMISSIONS[permission] as readonly TeamRole[]).includes(role);
+}
+
+// Never the owner or yourself (you leave instead); captains and managers only by the owner
+export function canRemoveMember(
+  viewerId: string | null,
+  viewerRole: TeamRole | null,
+  memberId: string,
+  memberRole: TeamRole | null
+) {
+  if (!viewerId || viewerId === memberId || memberRole === 'owner' || !teamCan(viewerRole, 'remove_members')) {
+    return false;
+  }
+  return viewerRole === 'owner' || (memberRole !== 'captain' && memberRole !== 'manager');
+}
+
+// Players pick their own in-game role; staff with set_game_roles can set anyone's
+export function canEditGameRole(viewerId: string | null, viewerRole: TeamRole | null, playerId: string) {
+  return !!viewerId && (viewerId === playerId || teamCan(viewerRole, 'set_game_roles'));
+}
@@ -12,28 +12,33 @@ import { MyTeam } from './components/screens/MyTeam';
 import { Profile } from './components/screens/Profile';
 import { RegionSelection } from './components/screens/RegionSelection';
 import { supabase } from './lib/supabaseclient';
+import { repo } from './lib/repo';
+import type { ProfileRow, ProfileUpdate, ScrimRow, TeamRole, TeamRow } from '../shared/data';
+import { teamCan } from '../shared/team-roles';
 import type { Session } from '@supabase/supabase-js';
 import { AuthScreen } from './components/screens/AuthScreen';
+import { currentPath, goBack, navigate, useRoute, type Route } from './lib/router';
 
-type Screen = 'home' | 'scrim-center' | 'create-scrim' | 'scrim-details' | 'my-team' | 'profile';
+// Sidebar / tab bar ids → top-level routes
+const NAV_ROUTES: Record<string, Route> = {
+  home: { name: 'home' },
+  'scrim-center': { name: 'scrim-center' },
+  'my-team': { name: 'my-team' },
+  profile: { name: 'profile' },
+};
 
 export default function App() {
-  const [currentScreen, setCurrentScreen] = useState<Screen>('home');
+  const route = useRoute();
 
-  const [selectedScrimId, setSelectedScrimId] = useState<string | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
-  const [debugProfile, setDebugProfile] = useState<any | null>(null);
+  const [debugProfile, setDebugProfile] = useState<ProfileRow | null>(null);
+  const [primaryTeam, setPrimaryTeam] = useState<TeamRow | null>(null);
+  const [teamRole, setTeamRole] = useState<TeamRole | null>(null);
 
   const [session, setSession] = useState<Session | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
 
-  const [scrims, setScrims] = useState<any[]>([]);
-  const [profileScreen, setProfileScreen] = useState<'main' | 'region'>('main');
-
-  const navigate = (screen: Screen) => {
-    setCurrentScreen(screen);
-    if (screen !== 'profile') setProfileScreen('main');
-  };
+  const [scrims, setScrims] = useState<ScrimRow[]>([]);
 
   useEffect(() => {
     let isMounted = true;
@@ -69,73 +74,84 @@ export default function App() {
         return;
       }
 
-      const userId = session.user.id;
+      try {
+        const profile = await repo.profiles.ensureExists({
+          id: session.user.id,
+          email: session.user.email ?? null,
+        });
 
-      const { data: existing, error: fetchErr } = await supabase
-        .from('Profiles')
-        .select('id, username, handle, email, primary_region, primary_team, created_at')
-        .eq('id', userId)
-        .maybeSingle();
-
-      if (fetchErr) {
-        console.error('[Profile] Error fetching profile:', fetchErr);
-        return;
+        setDebugProfile(profile);
+        if (!profile.primary_region) setShowOnboarding(true);
+      } catch (err) {
+        console.error('[Profile] Error loading profile:', err);
       }
+    }
 
-      if (existing) {
-        setDebugProfile(existing);
-        if (!existing.primary_region) setShowOnboarding(true);
-        return;
-      }
+    loadOrCreateProfile();
+  }, [session]);
+
+  // Profiles only store the team id; resolve it so the UI can show the name
+  const primaryTeamId = debugProfile?.primary_team_id ?? null;
 
-      const insertPayload = {
-        id: userId,
-        email: session.user.email ?? null,
-        username: session.user.email?.split('@')[0] ?? 'New User',
-        handle: null,
-        primary_region: null,
-        primary_team: null,
-      };
-
-      const { data: created, error: insertErr } = await supabase
-        .from('Profiles')
-        .insert(insertPayload)
-        .select('id, username, handle, email, primary_region, primary_team, created_at')
-        .single();
-
-      if (insertErr) {
-        console.error('[Profile] Error creating profile:', insertErr);
+  useEffect(() => {
+    async function loadPrimaryTeam() {
+      if (!primaryTeamId || !session?.user?.id) {
+        setPrimaryTeam(null);
+        setTeamRole(null);
         return;
       }
 
-      setDebugProfile(created);
-      setShowOnboarding(true);
+      try {
+        const [team, role] = await Promise.all([
+          repo.teams.getById(primaryTeamId),
+          repo.teamMembers.getRole(primaryTeamId, session.user.id),
+        ]);
+        setPrimaryTeam(team);
+        setTeamRole(role);
+      } catch (error) {
+        console.error('[Team] Error loading primary team:', error);
+      }
     }
 
-    loadOrCreateProfile();
-  }, [session]);
+    loadPrimaryTeam();
+  }, [primaryTeamId, session?.user?.id]);
+
+  // Without a team the create screen explains what's missing; with one, the role decides
+  const canPostScrims = !primaryTeamId || teamCan(teamRole, 'post_scrims');
 
   useEffect(() => {
     async function loadScrims() {
       if (!session?.user?.id) return;
 
-      const { data: scrimsData, error } = await supabase
-        .from('scrims')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (error) {
+      try {
+        setScrims(await repo.scrims.listRecent({ limit: 50 }));
+      } catch (error) {
         console.error('[Supabase] Error loading scrims:', error);
-        return;
       }
-
-      setScrims(scrimsData || []);
     }
 
     loadScrims();
   }, [session]);
 
+  // Route guard (same idea as the Expo root layout): signed-out users go to /login
+  // and come back to where they were headed; unknown paths go home.
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!session && route.name !== 'login') {
+      const next = currentPath();
+      navigate({ name: 'login', next: next === '/' ? null : next }, { replace: true });
+      return;
+    }
+
+    if (session && route.name === 'login') {
+      navigate(route.next ?? '/', { replace: true });
+      return;
+    }
+
+    if (route.name === 'not-found') navigate('/', { replace: true });
+  }, [authLoading, session, route]);
+
   useEffect(() => {
     if (window.location.hash.includes('error=')) {
       window.history.replaceState(null, '', window.location.pathname + window.location.search);
@@ -145,52 +161,29 @@ export default function App() {
   const updateProfileRegion = async (newRegion: string) => {
     if (!debugProfile?.id) return;
 
-    const { error } = await supabase.from('Profiles').update({ primary_region: newRegion }).eq('id', debugProfile.id);
-
-    if (error) {
+    try {
+      setDebugProfile(await repo.profiles.update(debugProfile.id, { primary_region: newRegion }));
+    } catch (error) {
       console.error('[Profile] Error updating region:', error);
-      return;
     }
-
-    setDebugProfile({
-      ...debugProfile,
-      primary_region: newRegion,
-    });
   };
 
-  const updateProfileDetails = async (updates: {
-    username?: string;
-    handle?: string;
-    email?: string;
-    primary_team?: string;
-  }) => {
+  const updateProfileDetails = async (updates: ProfileUpdate) => {
     if (!debugProfile?.id) return;
 
-    const { data, error } = await supabase
-      .from('Profiles')
-      .update(updates)
-      .eq('id', debugProfile.id)
-      .select('id, username, handle, email, primary_region, primary_team, created_at')
-      .single();
-
-    if (error) {
+    try {
+      setDebugProfile(await repo.profiles.update(debugProfile.id, updates));
+    } catch (error) {
       console.error('[Profile] Error updating details:', error);
-      return;
     }
-
-    setDebugProfile((prev: any) => ({
-      ...prev,
-      ...data,
-    }));
   };
 
   const handleViewScrimDetails = (scrimId: string) => {
-    setSelectedScrimId(scrimId);
-    setCurrentScreen('scrim-details');
+    navigate({ name: 'scrim-details', scrimId });
   };
 
   const handleCreateScrim = () => {
-    setCurrentScreen('create-scrim');
+    navigate({ name: 'create-scrim' });
   };
 
   const handleSignOut = async () => {
@@ -218,45 +211,83 @@ export default function App() {
         onRegionSelected={(newRegion) => updateProfileRegion(newRegion)}
         onComplete={() => {
           setShowOnboarding(false);
-          setCurrentScreen('home');
+          navigate({ name: 'home' });
         }}
         onBack={() => {
           setShowOnboarding(false);
-          setCurrentScreen('profile');
+          navigate({ name: 'profile' });
         }}
       />
     );
   }
 
   const renderScreen = () => {
-    switch (currentScreen) {
+    switch (route.name) {
       case 'home':
         return <HomePage onViewScrimDetails={handleViewScrimDetails} onCreateScrim={handleCreateScrim} />;
 
       case 'scrim-center':
-        return <ScrimCenter onViewScrimDetails={handleViewScrimDetails} onCreateScrim={handleCreateScrim} />;
+        return (
+          <ScrimCenter
+            teamId={primaryTeamId}
+            teamRole={teamRole}
+            onViewScrimDetails={handleViewScrimDetails}
+            onCreateScrim={canPostScrims ? handleCreateScrim : undefined}
+          />
+        );
 
       case 'create-scrim':
-        return <CreateScrimSlot onClose={() => setCurrentScreen('scrim-center')} />;
+        return (
+          <CreateScrimSlot
+            userId={session.user.id}
+            teamId={primaryTeamId}
+            teamRole={teamRole}
+            defaultRegion={debugProfile?.primary_region}
+            onClose={() => goBack({ name: 'scrim-center' })}
+            onCreated={(scrimId) => navigate({ name: 'scrim-details', scrimId }, { replace: true })}
+          />
+        );
 
       case 'scrim-details':
-        return <ScrimDetails scrimId={selectedScrimId} onBack={() => setCurrentScreen('home')} />;
+        return (
+          <ScrimDetails
+            key={route.scrimId}
+            scrimId={route.scrimId}
+            userId={session.user.id}
+            teamId={primaryTeamId}
+            teamRole={teamRole}
+            onBack={() => goBack({ name: 'scrim-center' })}
+            onViewScrimDetails={handleViewScrimDetails}
+          />
+        );
 
       case 'my-team':
-        return <MyTeam profile={debugProfile} scrims={scrims} />;
+        return (
+          <MyTeam
+            profile={debugProfile}
+            team={primaryTeam}
+            scrims={scrims}
+            // leave_team already cleared it server-side
+            onLeftTeam={() => setDebugProfile((p) => (p ? { ...p, primary_team_id: null } : p))}
+          />
+        );
 
-      case 'profile':
-        return profileScreen === 'region' ? (
+      case 'profile-region':
+        return (
           <RegionSelection
             currentRegion={debugProfile?.primary_region}
             onRegionSelected={(newRegion) => updateProfileRegion(newRegion)}
-            onComplete={() => setProfileScreen('main')}
-            onBack={() => setProfileScreen('main')}
+            onComplete={() => navigate({ name: 'profile' }, { replace: true })}
+            onBack={() => goBack({ name: 'profile' })}
           />
-        ) : (
+        );
+
+      case 'profile':
+        return (
           <Profile
-            onNavigateToRegionSelection={() => setProfileScreen('region')}
+            onNavigateToRegionSelection={() => navigate({ name: 'profile-region' })}
             profile={debugProfile}
+            team={primaryTeam}
             scrims={scrims}
             onUpdateProfile={updateProfileDetails}
           />
@@ -267,6 +298,16 @@ export default function App() {
     }
   };
 
+  // Sub-screens highlight their parent tab
+  const activeNav =
+    route.name === 'scrim-details' || route.name === 'create-scrim'
+      ? 'scrim-center'
+      : route.name === 'profile-region'
+        ? 'profile'
+        : route.name;
+
+  const navigateToTab = (id: string) => navigate(NAV_ROUTES[id] ?? { name: 'home' });
+
   const navItems = [
     { id: 'home', label: 'Home', icon: Calendar },
     { id: 'scrim-center', label: 'Scrim Center', icon: Target },
@@ -276,15 +317,15 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-[#0a0a0b] text-white">
-      <TopNav onCreateScrim={handleCreateScrim} profile={debugProfile} isAuthed={!!session} onSignOut={handleSignOut} />
+      <TopNav onCreateScrim={canPostScrims ? handleCreateScrim : undefined} profile={debugProfile} team={primaryTeam} isAuthed={!!session} onSignOut={handleSignOut} />
 
       <div className="flex">
-        <DesktopSidebar navItems={navItems} currentScreen={currentScreen} onNavigate={(screen) => navigate(screen as Screen)} />
+        <DesktopSidebar navItems={navItems} currentScreen={activeNav} onNavigate={navigateToTab} />
 
         <main className="flex-1 pb-20 lg:pb-0">{renderScreen()}</main>
       </div>
 
-      <MobileTabBar navItems={navItems} currentScreen={currentScreen} onNavigate={(screen) => navigate(screen as Screen)} />
+      <MobileTabBar navItems={navItems} currentScreen={activeNav} onNavigate={navigateToTab} />
 
       <DemoControls onShowOnboarding={() => setShowOnboarding(true)} />
     </div>
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Send, ShieldCheck } from 'lucide-react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Tag } from './ui/Tag';
+import { repo } from '../lib/repo';
+import {
+  scrimErrorMessage,
+  type ScrimApplicationWithTeam,
+  type ScrimWithTeams,
+  type TeamRole,
+  type TeamScrimRecord,
+} from '../../shared/data';
+import { regionLabel } from '../../shared/regions';
+import {
+  acceptsApplications,
+  APPLICATION_MESSAGE_MAX,
+  SCRIM_APPLICATION_STATUS_LABELS,
+  teamReliabilityLabel,
+} from '../../shared/scrim-applications';
+import { SCRIM_TIERS } from '../../shared/scrim-types';
+import { teamCan } from '../../shared/team-roles';
+
+interface ScrimApplicationsProps {
+  scrim: ScrimWithTeams;
+  teamId: string | null;
+  teamRole: TeamRole | null;
+  onChanged: () => void | Promise<void>;
+}
+
+const fieldClass =
+  'w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+function teamLabel(a: ScrimApplicationWithTeam) {
+  if (!a.team) return 'Unknown Team';
+  return a.team.tag ? `${a.team.name} [${a.team.tag}]` : a.team.name;
+}
+
+// Host-approval requests on Scrim Details (same rules as mobile's components/scrim-applications.tsx)
+export function ScrimApplications({ scrim, teamId, teamRole, onChanged }: ScrimApplicationsProps) {
+  const [applications, setApplications] = useState<ScrimApplicationWithTeam[]>([]);
+  const [records, setRecords] = useState<Record<string, TeamScrimRecord>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [tier, setTier] = useState<string>(scrim.tier ?? '');
+  const [message, setMessage] = useState('');
+  const [acting, setActing] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const isHost = !!teamId && scrim.host_team_id === teamId;
+  const open = acceptsApplications(scrim);
+  const canAct = teamCan(teamRole, 'accept_scrims');
+
+  const load = useCallback(async () => {
+    if (!scrim.requires_approval || !teamId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await repo.scrimApplications.listForScrim(scrim.id);
+      setApplications(data);
+
+      if (scrim.host_team_id === teamId) {
+        const rows = await repo.scrimApplications.records(data.map((a) => a.team_id));
+        setRecords(Object.fromEntries(rows.map((r) => [r.team_id, r])));
+      }
+    } catch (e) {
+      console.error('[ScrimApplications] load error:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [scrim.id, scrim.requires_approval, scrim.host_team_id, teamId]);
+
+  // Reload when the scrim moves on (someone asked, withdrew or was picked)
+  useEffect(() => {
+    load();
+  }, [load, scrim.status, scrim.opponent_team_id]);
+
+  if (!scrim.requires_approval || !teamId || loading) return null;
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setActing(true);
+      setErrorMsg(null);
+      await action();
+      await load();
+      await onChanged();
+    } catch (e: any) {
+      console.error('[ScrimApplications] action error:', e);
+      setErrorMsg(scrimErrorMessage(e, fallback));
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const doApply = () => {
+    run(async () => {
+      await repo.scrimApplications.apply(scrim.id, teamId, { tier: tier || null, message });
+      setMessage('');
+    }, 'Failed to send request.');
+  };
+
+  const doWithdraw = (id: string) => {
+    run(() => repo.scrimApplications.withdraw(id), 'Failed to withdraw request.');
+  };
+
+  const doChoose = (a: ScrimApplicationWithTeam) => {
+    const others = applications.filter((x) => x.status === 'pending' && x.id !== a.id).length;
+    const note = others ? ` The other ${others === 1 ? 'team' : `${others} teams`} will be told you picked someone else.` : '';
+    if (!window.confirm(`Play ${a.team?.name ?? 'this team'}? This confirms the scrim.${note}`)) return;
+    run(() => repo.scrimApplications.choose(a.id), 'Failed to pick this team.');
+  };
+
+  const pending = applications.filter((a) => a.status === 'pending').length;
+  const mine = applications.find((a) => a.team_id === teamId) ?? null;
+  const canApply = !isHost && open && (!mine || mine.status === 'withdrawn');
+
+  if (!isHost && !canApply && !mine) return null;
+
+  return (
+    <Card className="p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-blue-400" />
+          {isHost ? 'Requests' : 'Host Approval'}
+        </h3>
+        {isHost && <Tag variant={pending ? 'warning' : 'default'}>{pending} waiting</Tag>}
+      </div>
+
+      {errorMsg && <p className="text-sm text-red-400 mb-3">{errorMsg}</p>}
+
+      {isHost ? (
+        applications.length === 0 ? (
+          <p className="text-sm text-gray-500">No requests yet. Teams that ask to play will show up here.</p>
+        ) : (
+          <div className="space-y-3">
+            {applications.map((a) => (
+              <div
+                key={a.id}
+                className={`flex items-center gap-4 p-4 rounded-xl border border-gray-800 bg-gray-900/30 ${
+                  a.status !== 'pending' ? 'opacity-60' : ''
+                }`}
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span>{teamLabel(a)}</span>
+                    {a.status !== 'pending' && (
+                      <Tag variant={a.status === 'accepted' ? 'success' : 'default'}>
+                        {SCRIM_APPLICATION_STATUS_LABELS[a.status]}
+                      </Tag>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    {regionLabel(a.team?.region, { fallback: 'Region not set' })} · {a.tier ?? 'Tier not given'}
+                  </div>
+                  <div className="text-sm text-gray-400">{teamReliabilityLabel(records[a.team_id])}</div>
+                  {a.message && <p className="text-sm text-gray-500 italic">“{a.message}”</p>}
+                </div>
+
+                {open && canAct && a.status === 'pending' && (
+                  <Button onClick={() => doChoose(a)} disabled={acting}>
+                    <Check className="w-4 h-4" />
+                    Pick
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {open && !canAct && (
+              <p className="text-sm text-gray-400">Ask your team’s owner, captain or manager to pick an opponent.</p>
+            )}
+          </div>
+        )
+      ) : (
+        <div className="space-y-3">
+          {mine && mine.status !== 'withdrawn' && (
+            <p className="text-sm text-gray-400">
+              {mine.status === 'pending'
+                ? 'Request sent. The host will compare the teams that asked and pick one.'
+                : mine.status === 'rejected'
+                  ? 'The host picked another team for this scrim.'
+                  : 'The host picked your team.'}
+            </p>
+          )}
+
+          {mine?.status === 'pending' && canAct && (
+            <Button variant="ghost" onClick={() => doWithdraw(mine.id)} disabled={acting}>
+              Withdraw Request
+            </Button>
+          )}
+
+          {canApply && !canAct && (
+            <p className="text-sm text-gray-400">Ask your team’s owner, captain or manager to request this scrim.</p>
+          )}
+
+          {canApply && canAct && (
+            <>
+              <p className="text-sm text-gray-400">The host picks who plays. Tell them a bit about your team.</p>
+              <select value={tier} onChange={(e) => setTier(e.target.value)} className={fieldClass}>
+                <option value="">Tier not given</option>
+                {SCRIM_TIERS.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                rows={3}
+                value={message}
+                maxLength={APPLICATION_MESSAGE_MAX}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Note for the host (optional)"
+                className={`${fieldClass} placeholder:text-gray-500 resize-none`}
+              />
+              <Button onClick={doApply} disabled={acting} className="w-full">
+                <Send className="w-4 h-4" />
+                Ask to Play
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
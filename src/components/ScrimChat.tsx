@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send } from 'lucide-react';
+import { Card } from './ui/Card';
+import { repo } from '../lib/repo';
+import {
+  SCRIM_MESSAGE_MAX,
+  scrimErrorMessage,
+  type ProfileSummary,
+  type ScrimMessageRow,
+  type TeamSummary,
+} from '../../shared/data';
+
+interface ScrimChatProps {
+  scrimId: string;
+  userId: string | null;
+  hostTeam: TeamSummary | null;
+  opponentTeam: TeamSummary | null;
+  readOnly: boolean;
+}
+
+function displayName(p: ProfileSummary | undefined) {
+  return p?.username?.trim() || p?.handle?.trim() || 'Player';
+}
+
+function timestamp(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Team-to-team thread on Scrim Details (same data and rules as mobile's
+// components/scrim-chat.tsx). Opening it marks the chat read.
+export function ScrimChat({ scrimId, userId, hostTeam, opponentTeam, readOnly }: ScrimChatProps) {
+  const [messages, setMessages] = useState<ScrimMessageRow[]>([]);
+  const [people, setPeople] = useState<Record<string, ProfileSummary>>({});
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const peopleRef = useRef(people);
+
+  useEffect(() => {
+    peopleRef.current = people;
+  }, [people]);
+
+  const loadPeople = useCallback(async (ids: string[]) => {
+    const missing = Array.from(new Set(ids)).filter((id) => !peopleRef.current[id]);
+    if (missing.length === 0) return;
+
+    try {
+      const profiles = await repo.profiles.listByIds(missing);
+      setPeople((prev) => {
+        const next = { ...prev };
+        profiles.forEach((p) => (next[p.id] = p));
+        return next;
+      });
+    } catch (e) {
+      console.error('[ScrimChat] profiles error:', e);
+    }
+  }, []);
+
+  const markRead = useCallback(() => {
+    repo.scrimMessages.markRead(scrimId).catch((e) => console.error('[ScrimChat] markRead error:', e));
+  }, [scrimId]);
+
+  useEffect(() => {
+    let active = true;
+
+    repo.scrimMessages
+      .listForScrim(scrimId)
+      .then((rows) => {
+        if (!active) return;
+        setMessages(rows);
+        loadPeople(rows.map((m) => m.sender_id));
+        markRead();
+      })
+      .catch((e) => console.error('[ScrimChat] load error:', e))
+      .finally(() => active && setLoading(false));
+
+    const unsubscribe = repo.scrimMessages.subscribeForScrim(scrimId, (row) => {
+      if (!active) return;
+      setMessages((prev) => (prev.some((m) => m.id === row.id) ? prev : [...prev, row]));
+      loadPeople([row.sender_id]);
+      if (row.sender_id !== userId) markRead();
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [scrimId, userId, loadPeople, markRead]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    try {
+      setSending(true);
+      setErrorMsg(null);
+
+      const row = await repo.scrimMessages.send(scrimId, body);
+      setMessages((prev) => (prev.some((m) => m.id === row.id) ? prev : [...prev, row]));
+      setDraft('');
+    } catch (err: any) {
+      console.error('[ScrimChat] send error:', err);
+      setErrorMsg(scrimErrorMessage(err, 'Failed to send message.'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const teamLabel = (teamId: string) => {
+    const team = teamId === hostTeam?.id ? hostTeam : teamId === opponentTeam?.id ? opponentTeam : null;
+    return team?.tag?.trim() || team?.name || 'Team';
+  };
+
+  return (
+    <Card className="p-5">
+      <h3 className="text-lg mb-4 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-blue-400" />
+        Team Chat
+      </h3>
+
+      <div ref={listRef} className="space-y-4 max-h-96 overflow-y-auto pr-1">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading messages…</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500">No messages yet.</p>
+        ) : (
+          messages.map((msg) => {
+            const name = msg.sender_id === userId ? 'You' : displayName(people[msg.sender_id]);
+            return (
+              <div key={msg.id} className="flex gap-3">
+                <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-xs flex-shrink-0">
+                  {teamLabel(msg.team_id).slice(0, 2).toUpperCase()}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline gap-2 mb-1">
+                    <span className="text-sm">{name}</span>
+                    <span className="text-xs text-gray-500">
+                      {teamLabel(msg.team_id)} · {timestamp(msg.created_at)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-400 leading-relaxed whitespace-pre-line break-words">{msg.body}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {errorMsg && <p className="mt-4 text-sm text-red-400">{errorMsg}</p>}
+
+      <div className="mt-6 pt-4 border-t border-gray-800">
+        {readOnly ? (
+          <p className="text-sm text-gray-500">This scrim is over — chat is read-only.</p>
+        ) : (
+          <form onSubmit={send} className="flex gap-2">
+            <input
+              type="text"
+              value={draft}
+              maxLength={SCRIM_MESSAGE_MAX}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Type a message..."
+              className="flex-1 px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={sending || !draft.trim()}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg hover:from-blue-500 hover:to-purple-500 transition-all disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        )}
+      </div>
+    </Card>
+  );
+}
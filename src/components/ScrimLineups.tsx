@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ClipboardList } from 'lucide-react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { repo } from '../lib/repo';
+import {
+  scrimErrorMessage,
+  type ProfileSummary,
+  type ScrimLineupPlayerRow,
+  type ScrimWithTeams,
+  type TeamSummary,
+} from '../../shared/data';
+import {
+  isLineupEditable,
+  lineupShortfall,
+  setLineupSlot,
+  teamLineup,
+  type LineupSlot,
+  type TeamLineup,
+} from '../../shared/scrim-lineups';
+import { scrimActorForTeam } from '../../shared/scrim-lifecycle';
+
+interface ScrimLineupsProps {
+  scrim: ScrimWithTeams;
+  teamId: string | null;
+}
+
+type Side = { team: TeamSummary; label: string };
+
+function displayName(p: ProfileSummary | undefined) {
+  return p?.username?.trim() || p?.handle?.trim() || 'Player';
+}
+
+const SLOT_LABELS: Record<LineupSlot, string> = { starter: 'Starter', substitute: 'Sub' };
+
+// Lineups on Scrim Details (same rules as mobile's components/scrim-lineups.tsx)
+export function ScrimLineups({ scrim, teamId }: ScrimLineupsProps) {
+  const [rows, setRows] = useState<ScrimLineupPlayerRow[]>([]);
+  const [people, setPeople] = useState<Record<string, ProfileSummary>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [editing, setEditing] = useState(false);
+  const [roster, setRoster] = useState<string[]>([]);
+  const [draft, setDraft] = useState<TeamLineup>({ starters: [], substitutes: [] });
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const addPeople = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const profiles = await repo.profiles.listByIds(Array.from(new Set(ids)));
+    setPeople((prev) => {
+      const next = { ...prev };
+      profiles.forEach((p) => (next[p.id] = p));
+      return next;
+    });
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await repo.scrimLineups.listForScrim(scrim.id);
+      setRows(data);
+      await addPeople(data.map((r) => r.user_id));
+    } catch (e) {
+      console.error('[ScrimLineups] load error:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [scrim.id, addPeople]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // The team lining up for an open slot (or the challenged team) can pick its
+  // players before accepting
+  const isProspectiveGuest =
+    !scrim.opponent_team_id && scrimActorForTeam(scrim, teamId) === 'guest';
+
+  const editTeamId =
+    teamId &&
+    isLineupEditable(scrim.status) &&
+    (teamId === scrim.host_team_id || teamId === scrim.opponent_team_id || isProspectiveGuest)
+      ? teamId
+      : null;
+
+  const sides = useMemo(() => {
+    const list: Side[] = [];
+    if (scrim.host_team) list.push({ team: scrim.host_team, label: 'Host' });
+    if (scrim.opponent_team) list.push({ team: scrim.opponent_team, label: 'Opponent' });
+    if (isProspectiveGuest && teamId) {
+      list.push({ team: { id: teamId, name: 'Your Team', tag: null }, label: 'Ready to accept' });
+    }
+    return list;
+  }, [scrim.host_team, scrim.opponent_team, isProspectiveGuest, teamId]);
+
+  const startEditing = async () => {
+    if (!editTeamId) return;
+
+    try {
+      setErrorMsg(null);
+
+      const [team, members] = await Promise.all([
+        repo.teams.getById(editTeamId),
+        repo.teamMembers.listByTeam(editTeamId, { statuses: ['active'] }),
+      ]);
+
+      const ids = Array.from(new Set([...(team?.owner_id ? [team.owner_id] : []), ...members.map((m) => m.user_id)]));
+      await addPeople(ids);
+
+      setRoster(ids);
+      setDraft(teamLineup(rows, editTeamId));
+      setEditing(true);
+    } catch (e: any) {
+      console.error('[ScrimLineups] roster error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load your roster.');
+    }
+  };
+
+  const slotOf = (userId: string): LineupSlot | null =>
+    draft.starters.includes(userId) ? 'starter' : draft.substitutes.includes(userId) ? 'substitute' : null;
+
+  const pickSlot = (userId: string, slot: LineupSlot | null) => {
+    const next = setLineupSlot(draft, userId, slot);
+    if (next) setDraft(next);
+    else setErrorMsg(`No room left for another ${slot === 'starter' ? 'starter' : 'substitute'}.`);
+  };
+
+  const save = async () => {
+    if (!editTeamId) return;
+
+    try {
+      setSaving(true);
+      setErrorMsg(null);
+
+      await repo.scrimLineups.set(scrim.id, editTeamId, draft);
+      setEditing(false);
+      await load();
+    } catch (e: any) {
+      console.error('[ScrimLineups] save error:', e);
+      setErrorMsg(scrimErrorMessage(e, 'Failed to save lineup.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const names = (ids: string[]) => (ids.length === 0 ? '—' : ids.map((id) => displayName(people[id])).join(', '));
+
+  return (
+    <Card className="p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-blue-400" />
+          Lineups
+        </h3>
+        {scrim.min_lineup_size && <span className="text-sm text-gray-400">Min {scrim.min_lineup_size} starters</span>}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading lineups…</p>
+      ) : editing ? (
+        <div className="space-y-2">
+          {roster.map((id) => {
+            const slot = slotOf(id);
+            return (
+              <div key={id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-900/50 border border-gray-800">
+                <span className="text-sm">{displayName(people[id])}</span>
+                <div className="flex gap-1">
+                  {([null, 'starter', 'substitute'] as const).map((option) => (
+                    <button
+                      key={option ?? 'out'}
+                      type="button"
+                      onClick={() => pickSlot(id, option)}
+                      className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+                        slot === option ? 'bg-blue-500/20 text-blue-300' : 'text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {option ? SLOT_LABELS[option] : 'Out'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {errorMsg && <p className="text-sm text-red-400">{errorMsg}</p>}
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="ghost" onClick={() => setEditing(false)} disabled={saving} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving} className="flex-1">
+              {saving ? 'Saving…' : 'Save Lineup'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sides.map(({ team, label }) => {
+            const lineup = teamLineup(rows, team.id);
+            const short = lineupShortfall(lineup, scrim.min_lineup_size);
+            return (
+              <div key={team.id}>
+                <div className="text-sm mb-1">
+                  {team.name} <span className="text-gray-500">· {label}</span>
+                </div>
+                <div className="text-sm text-gray-400">Starters: {names(lineup.starters)}</div>
+                <div className="text-sm text-gray-400">Subs: {names(lineup.substitutes)}</div>
+                {short > 0 && isLineupEditable(scrim.status) && (
+                  <div className="text-xs text-amber-400 mt-1">
+                    Needs {short} more starter{short === 1 ? '' : 's'}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {errorMsg && <p className="text-sm text-red-400">{errorMsg}</p>}
+
+          {editTeamId && (
+            <Button variant="secondary" onClick={startEditing} className="w-full">
+              Edit My Lineup
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
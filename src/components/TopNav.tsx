@@ -1,18 +1,20 @@
 import { Plus, ChevronDown, LogIn, LogOut } from 'lucide-react';
 import { Button } from './ui/Button';
+import type { ProfileRow, TeamRow } from '../../shared/data';
 
 interface TopNavProps {
-  onCreateScrim: () => void;
-  profile?: any | null;
+  onCreateScrim?: () => void; // omitted when the viewer's team role can't post
+  profile?: ProfileRow | null;
+  team?: TeamRow | null;
   isAuthed: boolean;          // ✅ add this
   onSignOut: () => void;
 }
 
 
 
-export function TopNav({ onCreateScrim, profile, isAuthed, onSignOut }: TopNavProps) {
+export function TopNav({ onCreateScrim, profile, team, isAuthed, onSignOut }: TopNavProps) {
   const displayUsername = profile?.username ?? 'JohnDoe';
-  const displayTeam = profile?.primary_team ?? 'Vanguard Prime';
+  const displayTeam = team?.name ?? 'Vanguard Prime';
 
   const initials = (() => {
     const name = displayUsername.trim();
@@ -47,10 +49,12 @@ export function TopNav({ onCreateScrim, profile, isAuthed, onSignOut }: TopNavPr
         </div>
 
         <div className="flex items-center gap-3">
-          <Button onClick={onCreateScrim} className="hidden sm:flex" disabled={!isAuthed}>
-            <Plus className="w-4 h-4" />
-            Post Scrim
-          </Button>
+          {onCreateScrim && (
+            <Button onClick={onCreateScrim} className="hidden sm:flex" disabled={!isAuthed}>
+              <Plus className="w-4 h-4" />
+              Post Scrim
+            </Button>
+          )}
 
           <button className="hidden lg:flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-900/50 border border-gray-800 hover:border-gray-700 transition-colors">
             <div className="w-6 h-6 bg-gradient-to-br from-blue-500 to-blue-600 rounded flex items-center justify-center text-xs">
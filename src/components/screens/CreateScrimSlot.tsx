@@ -1,37 +1,232 @@
-import { useState } from 'react';
-import { X, Calendar, Clock, MapPin, Trophy, Gamepad2 } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { X, Calendar, Clock, MapPin, Trophy, Gamepad2, Users, AlertCircle, ShieldCheck, Repeat, Layers, Plus } from 'lucide-react';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
-import { Input } from '../ui/Input';
-import { Select } from '../ui/Select';
-import { Tag } from '../ui/Tag';
+import { repo } from '../../lib/repo';
+import type { ScrimRecurrence, TeamRole, TeamRow } from '../../../shared/data';
+import { normalizeRegion, REGION_OPTIONS, type RegionId } from '../../../shared/regions';
+import {
+  buildScrimSlot,
+  SCRIM_NOTES_MAX,
+  SCRIM_TIERS,
+  SCRIM_TYPE_MINUTES,
+  SCRIM_TYPE_OPTIONS,
+  type ScrimTier,
+  type ScrimTypeId,
+} from '../../../shared/scrim-types';
+import { MIN_LINEUP_OPTIONS } from '../../../shared/scrim-lineups';
+import {
+  formatSeriesDate,
+  localDateKey,
+  SCRIM_SERIES_COUNT_OPTIONS,
+  seriesOccurrenceDates,
+  validateScrimRecurrence,
+  WEEKDAY_SHORT_LABELS,
+} from '../../../shared/scrim-series';
+import { nextBlockSlotStart, SCRIM_BLOCK_MAX_SLOTS, validateScrimBlock } from '../../../shared/scrim-blocks';
+import { teamCan } from '../../../shared/team-roles';
 
 interface CreateScrimSlotProps {
+  userId?: string | null;
+  teamId?: string | null;
+  teamRole?: TeamRole | null;
+  defaultRegion?: string | null;
   onClose: () => void;
+  onCreated?: (scrimId: string) => void;
 }
 
-export function CreateScrimSlot({ onClose }: CreateScrimSlotProps) {
-  const [selectedModes, setSelectedModes] = useState<string[]>([]);
-
-  const gameModes = [
-    { id: 'hp', label: 'Hardpoint' },
-    { id: 'snd', label: 'Search & Destroy' },
-    { id: 'control', label: 'Control' },
-    { id: 'full', label: 'Full Series' },
-  ];
-
-  const toggleMode = (modeId: string) => {
-    setSelectedModes(prev =>
-      prev.includes(modeId)
-        ? prev.filter(id => id !== modeId)
-        : [...prev, modeId]
-    );
+type TeamSearchRow = Pick<TeamRow, 'id' | 'name' | 'tag'>;
+
+const DURATION_OPTIONS = [60, 90, 120, 150, 180];
+
+const fieldClass =
+  'w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+function minutesLabel(min: number) {
+  const hrs = min / 60;
+  return `${hrs} hour${hrs === 1 ? '' : 's'}`;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local date / time strings for <input type="date|time">, 15 minutes from now
+function defaultStart() {
+  const d = new Date(Date.now() + 15 * 60_000);
+  return {
+    date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    time: `${pad(d.getHours())}:${pad(d.getMinutes())}`,
+  };
+}
+
+// Value for <input type="datetime-local"> in the viewer's time zone
+function toLocalInputValue(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function CreateScrimSlot({
+  userId = null,
+  teamId = null,
+  teamRole = null,
+  defaultRegion = null,
+  onClose,
+  onCreated,
+}: CreateScrimSlotProps) {
+  const initialStart = useMemo(defaultStart, []);
+
+  const [date, setDate] = useState(initialStart.date);
+  const [time, setTime] = useState(initialStart.time);
+  const [region, setRegion] = useState<RegionId | null>(normalizeRegion(defaultRegion));
+  const [tier, setTier] = useState<'any' | ScrimTier>('any');
+  const [minLineup, setMinLineup] = useState<number | null>(null);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [scrimType, setScrimType] = useState<ScrimTypeId>('hp-only');
+  const [durationMinutes, setDurationMinutes] = useState(SCRIM_TYPE_MINUTES['hp-only']);
+  const [notes, setNotes] = useState('');
+
+  // Repeat weekly (posts one scrim per occurrence)
+  const [repeats, setRepeats] = useState(false);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [seriesEnd, setSeriesEnd] = useState<'count' | 'until'>('count');
+  const [seriesCount, setSeriesCount] = useState(8);
+  const [untilDate, setUntilDate] = useState(() => localDateKey(new Date(Date.now() + 28 * 24 * 60 * 60_000)));
+
+  // Several slots in one offer (the first is the Date / Start Time above)
+  const [multiSlot, setMultiSlot] = useState(false);
+  const [extraStarts, setExtraStarts] = useState<string[]>([]);
+  const [withdrawSiblings, setWithdrawSiblings] = useState(true);
+
+  // Challenge a team (instead of posting to the marketplace)
+  const [inviteQuery, setInviteQuery] = useState('');
+  const [inviteResults, setInviteResults] = useState<TeamSearchRow[]>([]);
+  const [invitedTeam, setInvitedTeam] = useState<TeamSearchRow | null>(null);
+
+  const [posting, setPosting] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const timeZone = useMemo(() => {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone ?? null;
+    } catch {
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    setRegion((prev) => prev ?? normalizeRegion(defaultRegion));
+  }, [defaultRegion]);
+
+  const recurrence = useMemo<ScrimRecurrence>(
+    () => ({
+      weekdays,
+      untilDate: seriesEnd === 'until' ? untilDate : null,
+      count: seriesEnd === 'count' ? seriesCount : null,
+    }),
+    [weekdays, seriesEnd, untilDate, seriesCount]
+  );
+
+  const seriesPreview = useMemo(() => {
+    if (!repeats || !date) return null;
+
+    const problem = validateScrimRecurrence(recurrence, date, timeZone);
+    if (problem) return problem;
+
+    const dates = seriesOccurrenceDates(date, recurrence);
+    return `${dates.length} scrims, ${formatSeriesDate(dates[0])} → ${formatSeriesDate(dates[dates.length - 1])}, each at ${time} ${timeZone}. The time holds through daylight saving changes.`;
+  }, [repeats, date, time, recurrence, timeZone]);
+
+  const toggleRepeats = (on: boolean) => {
+    setRepeats(on);
+    if (on && weekdays.length === 0 && date) setWeekdays([new Date(`${date}T00:00:00`).getDay()]);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const blockStarts = useMemo(
+    () => [new Date(`${date}T${time}`), ...extraStarts.map((v) => new Date(v))],
+    [date, time, extraStarts]
+  );
+
+  const toggleMultiSlot = (on: boolean) => {
+    setMultiSlot(on);
+    if (on && extraStarts.length === 0) {
+      setExtraStarts([toLocalInputValue(nextBlockSlotStart(blockStarts, durationMinutes))]);
+    }
+  };
+
+  const addSlot = () => {
+    setExtraStarts((prev) => [...prev, toLocalInputValue(nextBlockSlotStart(blockStarts, durationMinutes))]);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const pickScrimType = (id: ScrimTypeId) => {
+    setScrimType(id);
+    setDurationMinutes(SCRIM_TYPE_MINUTES[id]);
+  };
+
+  const searchTeams = async (q: string) => {
+    setInviteQuery(q);
+
+    const query = q.trim();
+    if (!query) {
+      setInviteResults([]);
+      return;
+    }
+
+    try {
+      const teams = await repo.teams.searchByName(query, { limit: 8 });
+      setInviteResults(teams.filter((t) => t.id !== teamId));
+    } catch (e) {
+      console.error('[CreateScrim] team search error:', e);
+      setInviteResults([]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Handle form submission
-    onClose();
+
+    try {
+      setPosting(true);
+      setErrorMsg(null);
+
+      // Same payload as mobile create-scrim (shared/scrim-types); throws the validation message
+      const payload = buildScrimSlot({
+        hostTeamId: teamId,
+        createdBy: userId,
+        region,
+        tier: tier === 'any' ? null : tier,
+        scrimType,
+        start: new Date(`${date}T${time}`),
+        durationMinutes,
+        timeZone,
+        notes,
+        challengedTeamId: invitedTeam?.id ?? null,
+        requiresApproval: !invitedTeam && requiresApproval,
+        minLineupSize: minLineup,
+      });
+
+      if (repeats && !invitedTeam) {
+        const problem = validateScrimRecurrence(recurrence, date, timeZone);
+        if (problem) throw new Error(problem);
+
+        await repo.scrimSeries.create(payload, recurrence);
+        onClose();
+      } else if (multiSlot && !invitedTeam) {
+        const problem = validateScrimBlock(blockStarts, durationMinutes);
+        if (problem) throw new Error(problem);
+
+        await repo.scrimBlocks.create(payload, blockStarts.map((d) => d.toISOString()), withdrawSiblings);
+        onClose();
+      } else {
+        const created = await repo.scrims.create(payload);
+        onCreated ? onCreated(created.id) : onClose();
+      }
+    } catch (err: any) {
+      console.error('[CreateScrim] submit error:', err);
+      setErrorMsg(err?.message ?? 'Failed to post scrim slot.');
+    } finally {
+      setPosting(false);
+    }
   };
 
   return (
@@ -42,7 +237,7 @@ export function CreateScrimSlot({ onClose }: CreateScrimSlotProps) {
           <h1 className="text-2xl lg:text-3xl mb-1">Post Scrim Slot</h1>
           <p className="text-gray-400">Create an available scrim slot for other teams</p>
         </div>
-        <button 
+        <button
           onClick={onClose}
           className="p-2 hover:bg-gray-900/50 rounded-lg transition-colors"
         >
@@ -52,124 +247,441 @@ export function CreateScrimSlot({ onClose }: CreateScrimSlotProps) {
 
       {/* Form */}
       <Card className="p-6 lg:p-8">
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Date Picker */}
+        {!teamId ? (
           <div className="space-y-2">
-            <label className="block text-sm text-gray-300 flex items-center gap-2">
-              <Calendar className="w-4 h-4" />
-              Date
-            </label>
-            <input
-              type="date"
-              className="w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-              required
-            />
+            <h2 className="text-lg">You need a team to post scrims</h2>
+            <p className="text-gray-400 text-sm">
+              Create a team (or set a primary team) first. Then you’ll be able to post and accept scrims.
+            </p>
           </div>
+        ) : !teamCan(teamRole, 'post_scrims') ? (
+          <div className="space-y-2">
+            <h2 className="text-lg">Your role can’t post scrims</h2>
+            <p className="text-gray-400 text-sm">Ask your team’s owner, captain or manager to post this slot.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Date Picker */}
+            <div className="space-y-2">
+              <label className="block text-sm text-gray-300 flex items-center gap-2">
+                <Calendar className="w-4 h-4" />
+                Date
+              </label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={fieldClass} required />
+            </div>
+
+            {/* Start Time */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-300 flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Start Time
+                </label>
+                <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={fieldClass} required />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-300 flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Duration
+                </label>
+                <select
+                  value={durationMinutes}
+                  onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                  className={fieldClass}
+                >
+                  {DURATION_OPTIONS.map((m) => (
+                    <option key={m} value={m}>
+                      {minutesLabel(m)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Repeat (challenges go to one team, one scrim at a time) */}
+            {!invitedTeam && !multiSlot && (
+              <div className="space-y-3">
+                <label className="block text-sm text-gray-300 flex items-center gap-2">
+                  <Repeat className="w-4 h-4" />
+                  Repeat
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { value: false, label: 'Just once' },
+                    { value: true, label: 'Weekly' },
+                  ].map((opt) => (
+                    <button
+                      key={opt.label}
+                      type="button"
+                      onClick={() => toggleRepeats(opt.value)}
+                      className={`px-4 py-3 rounded-xl border-2 transition-all ${
+                        repeats === opt.value
+                          ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                          : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+
+                {repeats && (
+                  <>
+                    <div className="grid grid-cols-7 gap-2">
+                      {WEEKDAY_SHORT_LABELS.map((label, day) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => toggleWeekday(day)}
+                          className={`py-2 rounded-xl border-2 text-sm transition-all ${
+                            weekdays.includes(day)
+                              ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                              : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <select
+                        value={seriesEnd === 'count' ? String(seriesCount) : 'until'}
+                        onChange={(e) => {
+                          if (e.target.value === 'until') {
+                            setSeriesEnd('until');
+                          } else {
+                            setSeriesEnd('count');
+                            setSeriesCount(Number(e.target.value));
+                          }
+                        }}
+                        className={fieldClass}
+                      >
+                        {SCRIM_SERIES_COUNT_OPTIONS.map((n) => (
+                          <option key={n} value={n}>
+                            {n} scrims
+                          </option>
+                        ))}
+                        <option value="until">Until a date</option>
+                      </select>
+
+                      {seriesEnd === 'until' && (
+                        <input
+                          type="date"
+                          value={untilDate}
+                          min={date}
+                          onChange={(e) => setUntilDate(e.target.value)}
+                          className={fieldClass}
+                          required
+                        />
+                      )}
+                    </div>
+
+                    {seriesPreview && <p className="text-xs text-gray-500">{seriesPreview}</p>}
+                  </>
+                )}
+              </div>
+            )}
 
-          {/* Start Time */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {/* Several slots in one offer */}
+            {!invitedTeam && !repeats && (
+              <div className="space-y-3">
+                <label className="block text-sm text-gray-300 flex items-center gap-2">
+                  <Layers className="w-4 h-4" />
+                  Slots
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { value: false, label: 'One slot' },
+                    { value: true, label: 'Several slots' },
+                  ].map((opt) => (
+                    <button
+                      key={opt.label}
+                      type="button"
+                      onClick={() => toggleMultiSlot(opt.value)}
+                      className={`px-4 py-3 rounded-xl border-2 transition-all ${
+                        multiSlot === opt.value
+                          ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                          : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+
+                {multiSlot && (
+                  <>
+                    {extraStarts.map((value, i) => (
+                      <div key={i} className="flex items-center gap-2">
+                        <input
+                          type="datetime-local"
+                          value={value}
+                          onChange={(e) =>
+                            setExtraStarts((prev) => prev.map((x, j) => (j === i ? e.target.value : x)))
+                          }
+                          className={fieldClass}
+                          required
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setExtraStarts((prev) => prev.filter((_, j) => j !== i))}
+                          className="p-2 text-gray-400 hover:text-white"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+
+                    {blockStarts.length < SCRIM_BLOCK_MAX_SLOTS && (
+                      <Button type="button" variant="ghost" onClick={addSlot}>
+                        <Plus className="w-4 h-4" />
+                        Add Slot
+                      </Button>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { value: true, label: 'Withdraw the others' },
+                        { value: false, label: 'Keep them open' },
+                      ].map((opt) => (
+                        <button
+                          key={opt.label}
+                          type="button"
+                          onClick={() => setWithdrawSiblings(opt.value)}
+                          className={`px-4 py-3 rounded-xl border-2 transition-all ${
+                            withdrawSiblings === opt.value
+                              ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                              : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                      {validateScrimBlock(blockStarts, durationMinutes) ??
+                        `${blockStarts.length} slots of ${minutesLabel(durationMinutes)}, posted together. When one is taken, the others ${
+                          withdrawSiblings ? 'are withdrawn' : 'stay open'
+                        }.`}
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Region */}
             <div className="space-y-2">
               <label className="block text-sm text-gray-300 flex items-center gap-2">
-                <Clock className="w-4 h-4" />
-                Start Time
+                <MapPin className="w-4 h-4" />
+                Region
               </label>
-              <input
-                type="time"
-                className="w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                required
-              />
+              <select
+                value={region ?? ''}
+                onChange={(e) => setRegion(normalizeRegion(e.target.value))}
+                className={fieldClass}
+              >
+                <option value="">Select region…</option>
+                {REGION_OPTIONS.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">Defaults to your profile region.</p>
             </div>
 
+            {/* Preferred Tier */}
             <div className="space-y-2">
               <label className="block text-sm text-gray-300 flex items-center gap-2">
-                <Clock className="w-4 h-4" />
-                Duration
+                <Trophy className="w-4 h-4" />
+                Preferred Tier
               </label>
-              <select className="w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all">
-                <option>1 hour</option>
-                <option>1.5 hours</option>
-                <option>2 hours</option>
-                <option>2.5 hours</option>
-                <option>3 hours</option>
+              <select value={tier} onChange={(e) => setTier(e.target.value as 'any' | ScrimTier)} className={fieldClass}>
+                <option value="any">Any Tier</option>
+                {SCRIM_TIERS.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
               </select>
             </div>
-          </div>
 
-          {/* Region */}
-          <Select
-            label="Region"
-            options={[
-              { value: 'na', label: 'North America (NA)' },
-              { value: 'eu', label: 'Europe (EU)' },
-              { value: 'apac', label: 'Asia Pacific (APAC)' },
-            ]}
-          />
-
-          {/* Preferred Tier */}
-          <div className="space-y-2">
-            <label className="block text-sm text-gray-300 flex items-center gap-2">
-              <Trophy className="w-4 h-4" />
-              Preferred Tier
-            </label>
-            <select className="w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all">
-              <option>Any Tier</option>
-              <option>Tier 1</option>
-              <option>Tier 2</option>
-              <option>Tier 3</option>
-            </select>
-          </div>
+            {/* Minimum lineup */}
+            <div className="space-y-2">
+              <label className="block text-sm text-gray-300 flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Minimum Lineup
+              </label>
+              <select
+                value={minLineup ?? ''}
+                onChange={(e) => setMinLineup(e.target.value ? Number(e.target.value) : null)}
+                className={fieldClass}
+              >
+                <option value="">No minimum</option>
+                {MIN_LINEUP_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n} starters
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">Starters each team must pick before the scrim can be confirmed.</p>
+            </div>
 
-          {/* Game Mode Selection */}
-          <div className="space-y-3">
-            <label className="block text-sm text-gray-300 flex items-center gap-2">
-              <Gamepad2 className="w-4 h-4" />
-              Game Modes
-            </label>
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-              {gameModes.map((mode) => (
-                <button
-                  key={mode.id}
-                  type="button"
-                  onClick={() => toggleMode(mode.id)}
-                  className={`px-4 py-3 rounded-xl border-2 transition-all ${
-                    selectedModes.includes(mode.id)
-                      ? 'border-blue-500 bg-blue-500/10 text-blue-400'
-                      : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
-                  }`}
-                >
-                  {mode.label}
-                </button>
-              ))}
+            {/* Scrim Type */}
+            <div className="space-y-3">
+              <label className="block text-sm text-gray-300 flex items-center gap-2">
+                <Gamepad2 className="w-4 h-4" />
+                Scrim Type
+              </label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {SCRIM_TYPE_OPTIONS.map((type) => (
+                  <button
+                    key={type.id}
+                    type="button"
+                    onClick={() => pickScrimType(type.id)}
+                    className={`px-4 py-3 rounded-xl border-2 transition-all ${
+                      scrimType === type.id
+                        ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                        : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
+                    }`}
+                  >
+                    {type.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Duration auto-set to {minutesLabel(SCRIM_TYPE_MINUTES[scrimType])} for this scrim type.</p>
             </div>
-          </div>
 
-          {/* Optional Notes */}
-          <div className="space-y-2">
-            <label className="block text-sm text-gray-300">
-              Optional Notes
-            </label>
-            <textarea
-              rows={4}
-              placeholder="Add any specific requirements or preferences..."
-              className="w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all resize-none"
-            />
-          </div>
+            {/* Who gets the slot (challenges already go to one team) */}
+            {!invitedTeam && (
+              <div className="space-y-3">
+                <label className="block text-sm text-gray-300 flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4" />
+                  Who Gets It
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { value: false, label: 'First to accept' },
+                    { value: true, label: 'I pick (host approval)' },
+                  ].map((opt) => (
+                    <button
+                      key={opt.label}
+                      type="button"
+                      onClick={() => setRequiresApproval(opt.value)}
+                      className={`px-4 py-3 rounded-xl border-2 transition-all ${
+                        requiresApproval === opt.value
+                          ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                          : 'border-gray-800 bg-gray-900/50 text-gray-400 hover:border-gray-700'
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {requiresApproval
+                    ? 'Teams ask to play; you compare their region, tier and record, then pick one.'
+                    : 'The first team to accept gets the scrim.'}
+                </p>
+              </div>
+            )}
 
-          {/* Advanced Options Link */}
-          <button type="button" className="text-sm text-blue-400 hover:text-blue-300 transition-colors">
-            + Advanced options
-          </button>
-
-          {/* Action Buttons */}
-          <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4">
-            <Button type="button" variant="ghost" onClick={onClose} className="flex-1">
-              Cancel
-            </Button>
-            <Button type="submit" className="flex-1">
-              Post Slot
-            </Button>
-          </div>
-        </form>
+            {/* Challenge a team */}
+            {!repeats && !multiSlot && (
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-300 flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Challenge a team
+                </label>
+
+                {invitedTeam ? (
+                  <div className="flex items-center justify-between px-4 py-2.5 rounded-xl border border-blue-500/30 bg-blue-500/10 text-blue-300">
+                    <span>
+                      {invitedTeam.name} {invitedTeam.tag ? `(${invitedTeam.tag})` : ''}
+                    </span>
+                    <button type="button" onClick={() => setInvitedTeam(null)} className="text-gray-400 hover:text-white">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      value={inviteQuery}
+                      onChange={(e) => searchTeams(e.target.value)}
+                      placeholder="Search team name…"
+                      className={`${fieldClass} placeholder:text-gray-500`}
+                    />
+
+                    {inviteResults.length > 0 && (
+                      <div className="rounded-xl border border-gray-800 bg-gray-900/80 divide-y divide-gray-800">
+                        {inviteResults.map((t) => (
+                          <button
+                            key={t.id}
+                            type="button"
+                            onClick={() => {
+                              setInvitedTeam(t);
+                              setInviteQuery('');
+                              setInviteResults([]);
+                            }}
+                            className="w-full text-left px-4 py-2.5 hover:bg-gray-800/60 transition-colors"
+                          >
+                            {t.name} {t.tag ? `(${t.tag})` : ''}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                      Optional — they’ll be asked to accept, decline or propose a new time. Leave blank to post to
+                      Scrim Center.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Optional Notes */}
+            <div className="space-y-2">
+              <label className="block text-sm text-gray-300">
+                Optional Notes
+              </label>
+              <textarea
+                rows={4}
+                value={notes}
+                maxLength={SCRIM_NOTES_MAX}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add any specific requirements or preferences..."
+                className={`${fieldClass} placeholder:text-gray-500 resize-none`}
+              />
+            </div>
+
+            {errorMsg && (
+              <div className="flex items-center gap-2 px-4 py-3 rounded-xl border border-red-500/20 bg-red-500/10 text-sm text-red-400">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{errorMsg}</span>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4">
+              <Button type="button" variant="ghost" onClick={onClose} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={posting} className="flex-1">
+                {posting
+                  ? 'Posting…'
+                  : repeats && !invitedTeam
+                    ? 'Post Series'
+                    : multiSlot && !invitedTeam
+                      ? 'Post Block'
+                      : 'Post Slot'}
+              </Button>
+            </div>
+          </form>
+        )}
       </Card>
     </div>
   );
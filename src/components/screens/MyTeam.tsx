@@ -1,35 +1,61 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Users, MapPin, Trophy, Calendar, CheckCircle2, XCircle, Clock } from 'lucide-react';
 import { Card } from '../ui/Card';
 import { Tag } from '../ui/Tag';
+import { repo } from '../../lib/repo';
+import {
+  teamErrorMessage,
+  type ProfileRow,
+  type TeamGameRole,
+  type TeamInviteCodeRow,
+  type TeamRole,
+  type TeamRow,
+} from '../../../shared/data';
+import {
+  DEFAULT_INVITE_EXPIRY,
+  INVITE_CODE_USE_OPTIONS,
+  INVITE_EXPIRY_OPTIONS,
+  inviteCodeLink,
+  inviteCodeStatus,
+  inviteCodeUsesLabel,
+  inviteExpiresAt,
+  inviteExpiryLabel,
+} from '../../../shared/invites';
+import { regionLabel } from '../../../shared/regions';
+import {
+  ASSIGNABLE_TEAM_ROLES,
+  GAME_ROLE_OPTIONS,
+  canEditGameRole,
+  canRemoveMember,
+  gameRoleLabel,
+  teamCan,
+  teamRoleLabel,
+} from '../../../shared/team-roles';
 
 interface MyTeamProps {
-  profile?: any | null;
+  profile?: ProfileRow | null;
+  team?: TeamRow | null;
   scrims?: any[];
+  onLeftTeam?: () => void;
 }
 
 type TeamMember = {
+  id?: string;
   name: string;
+  teamRole?: TeamRole;
+  gameRole?: TeamGameRole | null;
   role?: string;
   status?: 'online' | 'away' | 'offline';
   handle?: string | null;
 };
 
-export function MyTeam({ profile, scrims = [] }: MyTeamProps = {}) {
-  const displayTeam = profile?.primary_team ?? 'Vanguard Prime';
+const selectClass =
+  'mt-0.5 px-2 py-1 bg-gray-900/50 border border-gray-800 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
 
-  const REGION_LABELS: Record<string, string> = {
-    'pacific-nw': 'Pacific NW',
-    'pacific-sw': 'Pacific SW',
-    'central-north': 'Central N',
-    'central-south': 'Central S',
-    'atlantic-north': 'Atlantic N',
-    'atlantic-south': 'Atlantic S',
-  };
+export function MyTeam({ profile, team, scrims = [], onLeftTeam }: MyTeamProps = {}) {
+  const displayTeam = team?.name ?? 'Vanguard Prime';
 
-  const rawRegion: string = profile?.primary_region ?? '';
-  const displayRegion =
-    rawRegion && REGION_LABELS[rawRegion] ? REGION_LABELS[rawRegion] : rawRegion || 'Region not set';
+  const displayRegion = regionLabel(profile?.primary_region, { short: true, fallback: 'Region not set' });
 
   const teamTag = (() => {
     const name = displayTeam.trim();
@@ -39,19 +65,170 @@ export function MyTeam({ profile, scrims = [] }: MyTeamProps = {}) {
     return letters.slice(0, 2).toUpperCase();
   })();
 
-  const teamMembers: TeamMember[] = useMemo(() => {
-    const fromProfile = profile?.team_members;
-    if (Array.isArray(fromProfile) && fromProfile.length) {
-      return fromProfile
-        .filter(Boolean)
-        .slice(0, 10)
-        .map((m: any) => ({
-          name: m?.name ?? m?.username ?? m?.handle ?? 'Team Member',
-          role: m?.role ?? undefined,
-          status: (m?.status ?? 'online') as TeamMember['status'],
-          handle: m?.handle ? (m.handle.startsWith('@') ? m.handle : `@${m.handle}`) : null,
-        }));
+  const [roster, setRoster] = useState<TeamMember[] | null>(null);
+  const [savingRoleFor, setSavingRoleFor] = useState<string | null>(null);
+  const [roleError, setRoleError] = useState<string | null>(null);
+
+  const [showInvites, setShowInvites] = useState(false);
+  const [inviteCodes, setInviteCodes] = useState<TeamInviteCodeRow[]>([]);
+  const [codeExpiry, setCodeExpiry] = useState<number>(DEFAULT_INVITE_EXPIRY);
+  const [codeUses, setCodeUses] = useState(1);
+  const [creatingCode, setCreatingCode] = useState(false);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const teamId = team?.id ?? null;
+  const ownerId = team?.owner_id ?? null;
+
+  // Owner first, then active members (same as mobile's My Team)
+  useEffect(() => {
+    if (!teamId) {
+      setRoster(null);
+      return;
+    }
+
+    let active = true;
+
+    (async () => {
+      try {
+        const rows = await repo.teamMembers.listByTeam(teamId, { statuses: ['active'] });
+        const byId: Record<string, { teamRole: TeamRole; gameRole: TeamGameRole | null }> = {};
+        rows.forEach((m) => (byId[m.user_id] = { teamRole: m.team_role, gameRole: m.game_role }));
+
+        const userIds = Array.from(new Set([...(ownerId ? [ownerId] : []), ...rows.map((m) => m.user_id)]));
+        const profiles = await repo.profiles.listByIds(userIds);
+        if (!active) return;
+
+        setRoster(
+          userIds.map((id) => {
+            const p = profiles.find((row) => row.id === id);
+            const handle = p?.handle ? (p.handle.startsWith('@') ? p.handle : `@${p.handle}`) : null;
+            const teamRole: TeamRole = id === ownerId ? 'owner' : (byId[id]?.teamRole ?? 'player');
+            const gameRole = byId[id]?.gameRole ?? null;
+            return {
+              id,
+              name: p?.username?.trim() || handle || 'Member',
+              teamRole,
+              gameRole,
+              status: 'online',
+              handle,
+            };
+          })
+        );
+      } catch (e) {
+        console.error('[MyTeam] roster error:', e);
+      }
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [teamId, ownerId]);
+
+  const myRole = roster?.find((m) => m.id === profile?.id)?.teamRole ?? null;
+
+  const saveRole = async (userId: string, change: { gameRole: TeamGameRole | null } | { teamRole: TeamRole }) => {
+    if (!teamId) return;
+
+    try {
+      setSavingRoleFor(userId);
+      setRoleError(null);
+
+      const row =
+        'teamRole' in change
+          ? await repo.teamMembers.setTeamRole(teamId, userId, change.teamRole)
+          : await repo.teamMembers.setGameRole(teamId, userId, change.gameRole);
+
+      setRoster(
+        (prev) =>
+          prev?.map((m) => {
+            if (m.id !== userId) return m;
+            return { ...m, teamRole: m.teamRole === 'owner' ? 'owner' : row.team_role, gameRole: row.game_role };
+          }) ?? null
+      );
+    } catch (e: any) {
+      console.error('[MyTeam] role error:', e);
+      setRoleError(teamErrorMessage(e, 'Failed to update role.'));
+    } finally {
+      setSavingRoleFor(null);
+    }
+  };
+
+  const removeMember = async (member: TeamMember) => {
+    if (!teamId || !member.id) return;
+    if (!window.confirm(`Remove ${member.name} from the team? They'll be taken out of lineups for upcoming scrims.`)) return;
+
+    try {
+      setRoleError(null);
+      await repo.teamMembers.remove(teamId, member.id);
+      setRoster((prev) => prev?.filter((m) => m.id !== member.id) ?? null);
+    } catch (e: any) {
+      console.error('[MyTeam] remove error:', e);
+      setRoleError(teamErrorMessage(e, 'Failed to remove player.'));
+    }
+  };
+
+  const leaveTeam = async () => {
+    if (!teamId) return;
+    if (!window.confirm(`Leave ${displayTeam}? You'll be taken out of its lineups for upcoming scrims.`)) return;
+
+    try {
+      setRoleError(null);
+      // The server also clears this team as your primary
+      await repo.teamMembers.leave(teamId);
+      onLeftTeam?.();
+    } catch (e: any) {
+      console.error('[MyTeam] leave error:', e);
+      setRoleError(teamErrorMessage(e, 'Failed to leave team.'));
     }
+  };
+
+  // Shareable join codes, loaded the first time the panel opens
+  useEffect(() => {
+    if (!showInvites || !teamId) return;
+
+    let active = true;
+
+    repo.teamInviteCodes
+      .listForTeam(teamId)
+      .then((rows) => active && setInviteCodes(rows))
+      .catch((e) => console.error('[MyTeam] invite codes error:', e));
+
+    return () => {
+      active = false;
+    };
+  }, [showInvites, teamId]);
+
+  const createInviteCode = async () => {
+    if (!teamId || !profile?.id) return;
+
+    try {
+      setCreatingCode(true);
+      setRoleError(null);
+
+      const row = await repo.teamInviteCodes.create(teamId, profile.id, {
+        expiresAt: inviteExpiresAt(INVITE_EXPIRY_OPTIONS[codeExpiry].hours),
+        maxUses: INVITE_CODE_USE_OPTIONS[codeUses].uses,
+      });
+      setInviteCodes((prev) => [row, ...prev]);
+    } catch (e: any) {
+      console.error('[MyTeam] create invite code error:', e);
+      setRoleError(e?.message ?? 'Failed to create invite link.');
+    } finally {
+      setCreatingCode(false);
+    }
+  };
+
+  const copyInviteLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteCodeLink(code));
+      setCopiedCode(code);
+    } catch (e) {
+      console.error('[MyTeam] copy error:', e);
+    }
+  };
+
+  const teamMembers: TeamMember[] = useMemo(() => {
+    if (roster) return roster;
 
     if (profile?.username || profile?.handle) {
       const name = profile?.username || profile?.handle || 'Team Member';
@@ -66,7 +243,7 @@ export function MyTeam({ profile, scrims = [] }: MyTeamProps = {}) {
       { name: 'Strategist', role: 'IGL', status: 'offline' },
       { name: 'SubPlayer', role: 'Substitute', status: 'offline' },
     ];
-  }, [profile]);
+  }, [roster, profile]);
 
   const now = new Date();
   const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
@@ -221,21 +398,160 @@ export function MyTeam({ profile, scrims = [] }: MyTeamProps = {}) {
                   </div>
                   <div>
                     <div className="mb-0.5">{member.name}</div>
-                    <div className="text-sm text-gray-400">
-                      {member.role ?? member.handle ?? 'Team member'}
-                    </div>
+                    {member.id && teamCan(myRole, 'manage_roles') && member.teamRole !== 'owner' ? (
+                      <select
+                        value={member.teamRole}
+                        disabled={savingRoleFor === member.id}
+                        onChange={(e) => saveRole(member.id!, { teamRole: e.target.value as TeamRole })}
+                        className={selectClass}
+                      >
+                        {ASSIGNABLE_TEAM_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {teamRoleLabel(role)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : member.teamRole ? (
+                      <div className="text-sm text-gray-400">{teamRoleLabel(member.teamRole)}</div>
+                    ) : null}
+                    {member.id && canEditGameRole(profile?.id ?? null, myRole, member.id) ? (
+                      <select
+                        value={member.gameRole ?? ''}
+                        disabled={savingRoleFor === member.id}
+                        onChange={(e) => saveRole(member.id!, { gameRole: (e.target.value || null) as TeamGameRole | null })}
+                        className={`ml-2 ${selectClass}`}
+                      >
+                        <option value="">No role</option>
+                        {GAME_ROLE_OPTIONS.map((opt) => (
+                          <option key={opt.id} value={opt.id}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : member.teamRole ? (
+                      <div className="text-sm text-gray-400">{gameRoleLabel(member.gameRole)}</div>
+                    ) : (
+                      <div className="text-sm text-gray-400">
+                        {member.role ?? member.handle ?? 'Team member'}
+                      </div>
+                    )}
                   </div>
                 </div>
 
-                <div className="text-sm text-gray-500 capitalize hidden sm:block">{status}</div>
+                <div className="flex items-center gap-4">
+                  {member.id &&
+                    canRemoveMember(profile?.id ?? null, myRole, member.id, member.teamRole ?? null) && (
+                      <button
+                        onClick={() => removeMember(member)}
+                        className="text-sm text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  <div className="text-sm text-gray-500 capitalize hidden sm:block">{status}</div>
+                </div>
               </div>
             );
           })}
         </div>
 
-        <button className="w-full mt-4 px-4 py-3 border border-gray-800 rounded-xl text-gray-400 hover:text-white hover:border-gray-700 transition-colors">
-          + Invite Team Member
-        </button>
+        {roleError && <p className="mt-4 text-sm text-red-400">{roleError}</p>}
+
+        {(!teamId || teamCan(myRole, 'invite_members')) && (
+          <button
+            onClick={() => setShowInvites((v) => !v)}
+            className="w-full mt-4 px-4 py-3 border border-gray-800 rounded-xl text-gray-400 hover:text-white hover:border-gray-700 transition-colors"
+          >
+            + Invite Team Member
+          </button>
+        )}
+
+        {showInvites && teamId && (
+          <div className="mt-3 p-4 bg-gray-900/30 border border-gray-800 rounded-xl">
+            <p className="text-sm text-gray-400 mb-3">
+              Anyone with an invite link can join {displayTeam} from the mobile app.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="text-xs text-gray-500">
+                Expires after
+                <select
+                  value={codeExpiry}
+                  onChange={(e) => setCodeExpiry(Number(e.target.value))}
+                  className={`block ${selectClass}`}
+                >
+                  {INVITE_EXPIRY_OPTIONS.map((opt, i) => (
+                    <option key={opt.label} value={i}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="text-xs text-gray-500">
+                Can be used
+                <select
+                  value={codeUses}
+                  onChange={(e) => setCodeUses(Number(e.target.value))}
+                  className={`block ${selectClass}`}
+                >
+                  {INVITE_CODE_USE_OPTIONS.map((opt, i) => (
+                    <option key={opt.label} value={i}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <button
+                onClick={createInviteCode}
+                disabled={creatingCode}
+                className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white transition-colors disabled:opacity-50"
+              >
+                {creatingCode ? 'Creating…' : 'Create Link'}
+              </button>
+            </div>
+
+            {inviteCodes.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {inviteCodes.map((c) => {
+                  const status = inviteCodeStatus(c);
+                  return (
+                    <div
+                      key={c.id}
+                      className={`flex items-center justify-between gap-3 ${status === 'active' ? '' : 'opacity-50'}`}
+                    >
+                      <div>
+                        <div className="font-mono tracking-widest text-white">{c.code}</div>
+                        <div className="text-xs text-gray-500">
+                          {inviteCodeUsesLabel(c)} · {status === 'used_up' ? 'Used up' : inviteExpiryLabel(c)}
+                        </div>
+                      </div>
+                      {status === 'active' && (
+                        <button
+                          onClick={() => copyInviteLink(c.code)}
+                          className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+                        >
+                          {copiedCode === c.code ? 'Copied' : 'Copy link'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* The owner transfers the team before leaving */}
+        {myRole && myRole !== 'owner' && (
+          <button
+            onClick={leaveTeam}
+            className="w-full mt-3 px-4 py-3 border border-red-500/30 rounded-xl text-red-400 hover:text-red-300 hover:border-red-500/50 transition-colors"
+          >
+            Leave Team
+          </button>
+        )}
       </Card>
 
       <Card className="p-6 mt-6">
@@ -15,17 +15,15 @@ import {
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Tag } from '../ui/Tag';
+import type { ProfileRow, ProfileUpdate, TeamRow } from '../../../shared/data';
+import { regionLabel } from '../../../shared/regions';
 
 interface ProfileProps {
   onNavigateToRegionSelection?: () => void;
-  profile?: any | null;
+  profile?: ProfileRow | null;
+  team?: TeamRow | null;
   scrims?: any[];
-  onUpdateProfile?: (updates: {
-    username?: string;
-    handle?: string;
-    email?: string;
-    primary_team?: string;
-  }) => void;
+  onUpdateProfile?: (updates: ProfileUpdate) => void;
 }
 
 type RecentMatch = {
@@ -37,7 +35,7 @@ type RecentMatch = {
 };
 
 export function Profile(
-  { onNavigateToRegionSelection, profile, scrims = [], onUpdateProfile }: ProfileProps = {}
+  { onNavigateToRegionSelection, profile, team, scrims = [], onUpdateProfile }: ProfileProps = {}
 ) {
   const displayUsername = profile?.username ?? 'JohnDoe';
 
@@ -58,22 +56,9 @@ export function Profile(
     return parts[0][0].toUpperCase();
   })();
 
-  const REGION_LABELS: Record<string, string> = {
-    'pacific-nw': 'Pacific NW',
-    'pacific-sw': 'Pacific SW',
-    'central-north': 'Central N',
-    'central-south': 'Central S',
-    'atlantic-north': 'Atlantic N',
-    'atlantic-south': 'Atlantic S',
-  };
-
-  const rawRegion: string = profile?.primary_region ?? '';
-  const displayRegion =
-    rawRegion && REGION_LABELS[rawRegion]
-      ? REGION_LABELS[rawRegion]
-      : rawRegion || 'Region not set';
+  const displayRegion = regionLabel(profile?.primary_region, { short: true, fallback: 'Region not set' });
 
-  const rawHandle: string | undefined = profile?.handle;
+  const rawHandle: string | undefined = profile?.handle ?? undefined;
   const displayHandle =
     rawHandle && rawHandle.length > 0
       ? rawHandle.startsWith('@')
@@ -82,7 +67,7 @@ export function Profile(
       : `@${displayUsername.toLowerCase() || 'player'}`;
 
   const displayEmail = profile?.email ?? 'email@example.com';
-  const displayTeam = profile?.primary_team ?? 'Vanguard Prime';
+  const displayTeam = team?.name ?? 'Vanguard Prime';
 
   let memberSince = 'January 2024';
   if (profile?.created_at) {
@@ -100,14 +85,12 @@ export function Profile(
   const [formUsername, setFormUsername] = useState(displayUsername);
   const [formHandle, setFormHandle] = useState(rawHandle ?? '');
   const [formEmail, setFormEmail] = useState(profile?.email ?? '');
-  const [formTeam, setFormTeam] = useState(profile?.primary_team ?? '');
   const [formError, setFormError] = useState<string | null>(null);
 
   const startEditing = () => {
     setFormUsername(displayUsername);
     setFormHandle(rawHandle ?? '');
     setFormEmail(profile?.email ?? '');
-    setFormTeam(profile?.primary_team ?? '');
     setFormError(null);
     setIsEditing(true);
   };
@@ -128,7 +111,6 @@ export function Profile(
     const trimmedUsername = formUsername.trim();
     const trimmedHandle = formHandle.trim();
     const trimmedEmail = formEmail.trim();
-    const trimmedTeam = formTeam.trim();
 
     if (!trimmedUsername) {
       setFormError('Username is required.');
@@ -152,7 +134,6 @@ export function Profile(
       username: trimmedUsername,
       handle: trimmedHandle || undefined,
       email: trimmedEmail || undefined,
-      primary_team: trimmedTeam || undefined,
     });
 
     setIsEditing(false);
@@ -330,17 +311,6 @@ export function Profile(
                     />
                   </div>
 
-                  <div className="text-left">
-                    <label className="block text-xs text-gray-400 mb-1">Current Team</label>
-                    <input
-                      type="text"
-                      value={formTeam}
-                      onChange={(e) => setFormTeam(e.target.value)}
-                      className="w-full rounded-lg bg-gray-900/70 border border-gray-700 px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
-                      placeholder="Your main team name"
-                    />
-                  </div>
-
                   {formError && <p className="text-xs text-red-400 mt-1">{formError}</p>}
                 </div>
               )}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { MapPin } from 'lucide-react';
 import { Card } from '../ui/Card';
+import { normalizeRegion, REGION_SHORT_LABELS, type RegionId } from '../../../shared/regions';
 
 interface RegionSelectionProps {
   onComplete: () => void;
@@ -15,17 +16,19 @@ export function RegionSelection({
   currentRegion,
   onRegionSelected,
 }: RegionSelectionProps) {
-  const [selectedRegion, setSelectedRegion] = useState<string>(currentRegion || '');
+  const [selectedRegion, setSelectedRegion] = useState<string>(normalizeRegion(currentRegion) ?? '');
 
-  // Single region list – ids should match what you store in Supabase
-  const regions = [
-    { id: 'pacific-nw', label: 'Pacific NW', x: 10, y: 35, width: 18, height: 22 },
-    { id: 'pacific-sw', label: 'Pacific SW', x: 10, y: 57, width: 18, height: 25 },
-    { id: 'central-north', label: 'Central N', x: 35, y: 32, width: 20, height: 23 },
-    { id: 'central-south', label: 'Central S', x: 35, y: 55, width: 20, height: 27 },
-    { id: 'atlantic-north', label: 'Atlantic N', x: 62, y: 28, width: 20, height: 25 },
-    { id: 'atlantic-south', label: 'Atlantic S', x: 62, y: 53, width: 20, height: 29 },
-  ];
+  // Map layout only – ids + labels come from the shared region catalog
+  const regions = (
+    [
+      { id: 'pacific-nw', x: 10, y: 35, width: 18, height: 22 },
+      { id: 'pacific-sw', x: 10, y: 57, width: 18, height: 25 },
+      { id: 'central-north', x: 35, y: 32, width: 20, height: 23 },
+      { id: 'central-south', x: 35, y: 55, width: 20, height: 27 },
+      { id: 'atlantic-north', x: 62, y: 28, width: 20, height: 25 },
+      { id: 'atlantic-south', x: 62, y: 53, width: 20, height: 29 },
+    ] satisfies { id: RegionId; x: number; y: number; width: number; height: number }[]
+  ).map((r) => ({ ...r, label: REGION_SHORT_LABELS[r.id] }));
 
   const handleRegionClick = (regionId: string) => {
     setSelectedRegion(regionId);
@@ -1,93 +1,178 @@
-import { useState } from 'react';
-import { Plus, Filter, Clock, MapPin, Trophy, Gamepad2, Star } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Plus, Filter, Clock, MapPin, Trophy, Gamepad2, Shield, AlertCircle, Zap } from 'lucide-react';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Tag } from '../ui/Tag';
+import { StatusChip } from '../ui/StatusChip';
+import { repo } from '../../lib/repo';
+import {
+  scrimErrorCode,
+  scrimErrorMessage,
+  type OpenScrimFilters,
+  type ScrimWithTeams,
+  type TeamRole,
+} from '../../../shared/data';
+import { regionLabel, REGION_IDS, REGION_SHORT_LABELS, type RegionId } from '../../../shared/regions';
+import { acceptsApplications } from '../../../shared/scrim-applications';
+import { SCRIM_CHALLENGE_STATUS_LABELS } from '../../../shared/scrim-challenges';
+import { canTransitionScrim, scrimActorForTeam } from '../../../shared/scrim-lifecycle';
+import { scrimTypeLabel, SCRIM_TIERS, SCRIM_TYPE_OPTIONS } from '../../../shared/scrim-types';
+import { teamCan } from '../../../shared/team-roles';
 
 interface ScrimCenterProps {
+  teamId?: string | null;
+  teamRole?: TeamRole | null;
   onViewScrimDetails: (scrimId: string) => void;
-  onCreateScrim: () => void;
+  onCreateScrim?: () => void; // omitted when the viewer's team role can't post
 }
 
-export function ScrimCenter({ onViewScrimDetails, onCreateScrim }: ScrimCenterProps) {
-  const [timeFilter, setTimeFilter] = useState('all');
-  const [regionFilter, setRegionFilter] = useState('all');
+type TimeFilter = 'all' | 'tonight' | 'tomorrow' | 'week';
+
+const LOGO_COLORS = [
+  'from-green-500 to-green-600',
+  'from-red-500 to-red-600',
+  'from-blue-500 to-blue-600',
+  'from-purple-500 to-purple-600',
+  'from-yellow-500 to-yellow-600',
+  'from-pink-500 to-pink-600',
+];
+
+function startOfDay(d: Date, addDays = 0) {
+  const out = new Date(d);
+  out.setHours(0, 0, 0, 0);
+  out.setDate(out.getDate() + addDays);
+  return out;
+}
+
+// Local-time windows; "all" still hides slots that already started
+function timeRange(filter: TimeFilter): Pick<OpenScrimFilters, 'startsAfter' | 'startsBefore'> {
+  const now = new Date();
+
+  switch (filter) {
+    case 'tonight':
+      return { startsAfter: now.toISOString(), startsBefore: startOfDay(now, 1).toISOString() };
+    case 'tomorrow':
+      return { startsAfter: startOfDay(now, 1).toISOString(), startsBefore: startOfDay(now, 2).toISOString() };
+    case 'week':
+      return { startsAfter: now.toISOString(), startsBefore: startOfDay(now, 8).toISOString() };
+    default:
+      return { startsAfter: now.toISOString() };
+  }
+}
+
+function teamInitials(team: { name: string; tag: string | null } | null) {
+  const tag = team?.tag?.trim();
+  if (tag) return tag.slice(0, 3).toUpperCase();
+
+  const parts = (team?.name ?? '').trim().split(/\s+/).filter(Boolean);
+  return parts.map((p) => p[0]).join('').slice(0, 2).toUpperCase() || '?';
+}
+
+function logoColor(id: string) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return LOGO_COLORS[Math.abs(hash) % LOGO_COLORS.length];
+}
+
+function formatTimeRange(scrim: ScrimWithTeams) {
+  const start = new Date(scrim.start_time);
+  const end = new Date(scrim.end_time);
+  if (Number.isNaN(start.getTime())) return '—';
+
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  return Number.isNaN(end.getTime()) ? time(start) : `${time(start)}–${time(end)}`;
+}
+
+function formatDay(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '—';
+
+  const today = startOfDay(new Date());
+  const day = startOfDay(d);
+  const diff = Math.round((day.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (diff === 0) return 'Tonight';
+  if (diff === 1) return 'Tomorrow';
+  return d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+const selectClass =
+  'w-full px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function ScrimCenter({ teamId = null, teamRole = null, onViewScrimDetails, onCreateScrim }: ScrimCenterProps) {
+  const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
+  const [regionFilter, setRegionFilter] = useState<'all' | RegionId>('all');
   const [tierFilter, setTierFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+
+  const [openScrims, setOpenScrims] = useState<ScrimWithTeams[]>([]);
+  const [myScrims, setMyScrims] = useState<ScrimWithTeams[]>([]);
+  const [challenges, setChallenges] = useState<ScrimWithTeams[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  // Filters can change while a load is in flight; only the latest one may set state
+  const loadSeq = useRef(0);
+
+  const loadScrims = useCallback(async () => {
+    const seq = ++loadSeq.current;
+
+    try {
+      setErrorMsg(null);
+
+      const [open, mine, challenged] = await Promise.all([
+        repo.scrims.listOpen({
+          excludeTeamId: teamId,
+          region: regionFilter === 'all' ? null : regionFilter,
+          tier: tierFilter === 'all' ? null : tierFilter,
+          scrimType: typeFilter === 'all' ? null : typeFilter,
+          ...timeRange(timeFilter),
+        }),
+        teamId ? repo.scrims.listForTeam(teamId) : Promise.resolve([]),
+        teamId ? repo.scrims.listChallengesForTeam(teamId) : Promise.resolve([]),
+      ]);
+      if (seq !== loadSeq.current) return;
+
+      setOpenScrims(open);
+      setMyScrims(mine);
+      setChallenges(challenged);
+    } catch (e: any) {
+      if (seq !== loadSeq.current) return;
+      console.error('[ScrimCenter] load scrims error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load scrims.');
+    } finally {
+      if (seq === loadSeq.current) setLoading(false);
+    }
+  }, [teamId, regionFilter, tierFilter, typeFilter, timeFilter]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadScrims();
+  }, [loadScrims]);
+
+  const acceptScrim = async (scrimId: string) => {
+    if (!teamId) return;
+
+    try {
+      setAcceptingId(scrimId);
+      setErrorMsg(null);
 
-  const availableScrims = [
-    {
-      id: '1',
-      team: 'OpTic Red',
-      logo: 'OR',
-      time: '8:00–10:00 PM EST',
-      date: 'Tonight',
-      region: 'NA',
-      tier: 'Tier 1',
-      mode: 'BO6 HP/SND',
-      reliability: 'High Reliability',
-      logoColor: 'from-green-500 to-green-600',
-    },
-    {
-      id: '2',
-      team: 'FaZe Academy',
-      logo: 'FA',
-      time: '6:00–8:00 PM EST',
-      date: 'Tomorrow',
-      region: 'NA',
-      tier: 'Tier 2',
-      mode: 'Full Series',
-      reliability: 'High Reliability',
-      logoColor: 'from-red-500 to-red-600',
-    },
-    {
-      id: '3',
-      team: 'Team Envy',
-      logo: 'TE',
-      time: '9:00–11:00 PM EST',
-      date: 'Dec 18',
-      region: 'NA',
-      tier: 'Tier 1',
-      mode: 'HP Only',
-      reliability: 'Medium Reliability',
-      logoColor: 'from-blue-500 to-blue-600',
-    },
-    {
-      id: '4',
-      team: 'London Royal Ravens',
-      logo: 'LR',
-      time: '3:00–5:00 PM GMT',
-      date: 'Tomorrow',
-      region: 'EU',
-      tier: 'Tier 1',
-      mode: 'Search Only',
-      reliability: 'High Reliability',
-      logoColor: 'from-purple-500 to-purple-600',
-    },
-    {
-      id: '5',
-      team: 'NYSL Challengers',
-      logo: 'NY',
-      time: '7:00–9:00 PM EST',
-      date: 'Dec 19',
-      region: 'NA',
-      tier: 'Tier 2',
-      mode: '3rd Mode Only',
-      reliability: 'High Reliability',
-      logoColor: 'from-yellow-500 to-yellow-600',
-    },
-    {
-      id: '6',
-      team: 'Atlanta Legion',
-      logo: 'AL',
-      time: '8:00–10:00 PM EST',
-      date: 'Dec 20',
-      region: 'NA',
-      tier: 'Tier 1',
-      mode: 'Full Series',
-      reliability: 'Medium Reliability',
-      logoColor: 'from-pink-500 to-pink-600',
-    },
-  ];
+      await repo.scrims.accept(scrimId, teamId);
+      onViewScrimDetails(scrimId);
+    } catch (e: any) {
+      console.error('[ScrimCenter] accept error:', e);
+      setErrorMsg(scrimErrorMessage(e, 'Failed to accept scrim.'));
+
+      // Slot moved on under us — show the current marketplace
+      const code = scrimErrorCode(e);
+      if (code === 'scrim_taken' || code === 'invalid_transition' || code === 'scrim_started') {
+        await loadScrims();
+      }
+    } finally {
+      setAcceptingId(null);
+    }
+  };
 
   return (
     <div className="p-4 lg:p-8 max-w-7xl mx-auto">
@@ -97,11 +182,13 @@ export function ScrimCenter({ onViewScrimDetails, onCreateScrim }: ScrimCenterPr
           <h1 className="text-2xl lg:text-3xl mb-1">Scrim Center</h1>
           <p className="text-gray-400">Find and book scrims with top teams</p>
         </div>
-        
-        <Button onClick={onCreateScrim} className="hidden sm:flex">
-          <Plus className="w-4 h-4" />
-          Post Scrim Slot
-        </Button>
+
+        {onCreateScrim && (
+          <Button onClick={onCreateScrim} className="hidden sm:flex">
+            <Plus className="w-4 h-4" />
+            Post Scrim Slot
+          </Button>
+        )}
       </div>
 
       {/* Filters */}
@@ -110,17 +197,17 @@ export function ScrimCenter({ onViewScrimDetails, onCreateScrim }: ScrimCenterPr
           <Filter className="w-4 h-4" />
           <span className="text-sm">Filters</span>
         </div>
-        
+
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
           <div className="space-y-2">
             <label className="text-xs text-gray-400 flex items-center gap-1.5">
               <Clock className="w-3.5 h-3.5" />
               Time Window
             </label>
-            <select 
+            <select
               value={timeFilter}
-              onChange={(e) => setTimeFilter(e.target.value)}
-              className="w-full px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              onChange={(e) => setTimeFilter(e.target.value as TimeFilter)}
+              className={selectClass}
             >
               <option value="all">All Times</option>
               <option value="tonight">Tonight</option>
@@ -134,14 +221,17 @@ export function ScrimCenter({ onViewScrimDetails, onCreateScrim }: ScrimCenterPr
               <MapPin className="w-3.5 h-3.5" />
               Region
             </label>
-            <select 
+            <select
               value={regionFilter}
-              onChange={(e) => setRegionFilter(e.target.value)}
-              className="w-full px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              onChange={(e) => setRegionFilter(e.target.value as 'all' | RegionId)}
+              className={selectClass}
             >
               <option value="all">All Regions</option>
-              <option value="na">NA</option>
-              <option value="eu">EU</option>
+              {REGION_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {REGION_SHORT_LABELS[id]}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -150,15 +240,17 @@ export function ScrimCenter({ onViewScrimDetails, onCreateScrim }: ScrimCenterPr
               <Trophy className="w-3.5 h-3.5" />
               Tier
             </label>
-            <select 
+            <select
               value={tierFilter}
               onChange={(e) => setTierFilter(e.target.value)}
-              className="w-full px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className={selectClass}
             >
               <option value="all">All Tiers</option>
-              <option value="t1">Tier 1</option>
-              <option value="t2">Tier 2</option>
-              <option value="t3">Tier 3</option>
+              {SCRIM_TIERS.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -167,77 +259,201 @@ export function ScrimCenter({ onViewScrimDetails, onCreateScrim }: ScrimCenterPr
               <Gamepad2 className="w-3.5 h-3.5" />
               Scrim Type
             </label>
-            <select className="w-full px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500">
+            <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className={selectClass}>
               <option value="all">All Types</option>
-              <option value="full">Full Series</option>
-              <option value="hp">HP Only</option>
-              <option value="search">Search Only</option>
-              <option value="third">3rd Mode Only</option>
+              {SCRIM_TYPE_OPTIONS.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.label}
+                </option>
+              ))}
             </select>
           </div>
         </div>
       </Card>
 
+      {errorMsg && (
+        <div className="flex items-center gap-2 mb-4 px-4 py-3 rounded-xl border border-red-500/20 bg-red-500/10 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{errorMsg}</span>
+        </div>
+      )}
+
+      {/* Challenges sent to us, still waiting on an answer */}
+      {teamId && challenges.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-lg mb-3 flex items-center gap-2">
+            <Zap className="w-5 h-5 text-amber-400" />
+            Challenges
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {challenges.map((scrim) => (
+              <Card key={scrim.id} onClick={() => onViewScrimDetails(scrim.id)} className="p-4 space-y-3 cursor-pointer">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="text-sm text-blue-400">{formatTimeRange(scrim)}</div>
+                    <div className="text-xs text-gray-400">{formatDay(scrim.start_time)}</div>
+                  </div>
+                  <Tag variant="warning">
+                    {scrim.challenge_status ? SCRIM_CHALLENGE_STATUS_LABELS[scrim.challenge_status] : 'Challenge'}
+                  </Tag>
+                </div>
+
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">CHALLENGED BY</div>
+                  <div>{scrim.host_team?.name ?? 'Unknown Team'}</div>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  <Tag variant="info">{scrimTypeLabel(scrim.scrim_type, scrim.modes)}</Tag>
+                  <Tag>{regionLabel(scrim.region, { short: true })}</Tag>
+                  <Tag variant="purple">{scrim.tier ?? 'Any Tier'}</Tag>
+                </div>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* My Scrims */}
+      {teamId && myScrims.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-lg mb-3">My Scrims</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {myScrims.map((scrim) => {
+              const isHost = scrim.host_team_id === teamId;
+              const opponent = isHost ? scrim.opponent_team : scrim.host_team;
+              const challenged = isHost && !opponent && scrim.status === 'open' ? scrim.challenged_team : null;
+
+              return (
+                <Card key={scrim.id} onClick={() => onViewScrimDetails(scrim.id)} className="p-4 space-y-3 cursor-pointer">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="text-sm text-blue-400">{formatTimeRange(scrim)}</div>
+                      <div className="text-xs text-gray-400">{formatDay(scrim.start_time)}</div>
+                    </div>
+                    <StatusChip status={scrim.status} />
+                  </div>
+
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">{isHost ? 'HOST · vs' : 'OPPONENT · vs'}</div>
+                    <div>
+                      {opponent?.name ??
+                        (challenged && scrim.challenge_status
+                          ? `${challenged.name} (${SCRIM_CHALLENGE_STATUS_LABELS[scrim.challenge_status].toLowerCase()})`
+                          : isHost && acceptsApplications(scrim)
+                            ? 'You pick from requests'
+                            : 'Waiting for opponent')}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1.5">
+                    <Tag variant="info">{scrimTypeLabel(scrim.scrim_type, scrim.modes)}</Tag>
+                    <Tag>{regionLabel(scrim.region, { short: true })}</Tag>
+                    <Tag variant="purple">{scrim.tier ?? 'Any Tier'}</Tag>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Results Count */}
       <div className="flex items-center justify-between mb-4">
         <p className="text-sm text-gray-400">
-          {availableScrims.length} available scrims
+          {loading ? 'Loading scrims…' : `${openScrims.length} available scrims`}
         </p>
       </div>
 
+      {!loading && openScrims.length === 0 && (
+        <Card className="p-8 text-center text-gray-400">
+          No open scrims match these filters. Try widening them, or post your own slot.
+        </Card>
+      )}
+
       {/* Scrim Cards Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {availableScrims.map((scrim) => (
-          <Card key={scrim.id} className="p-5 space-y-4 hover:scale-[1.02] transition-transform">
-            {/* Header */}
-            <div className="flex items-start gap-3">
-              <div className={`w-12 h-12 bg-gradient-to-br ${scrim.logoColor} rounded-xl flex items-center justify-center flex-shrink-0`}>
-                <span>{scrim.logo}</span>
+        {openScrims.map((scrim) => {
+          const actor = scrimActorForTeam(scrim, teamId);
+          const canAccept =
+            !!actor && canTransitionScrim(scrim.status, 'confirmed', actor) && teamCan(teamRole, 'accept_scrims');
+          const accepting = acceptingId === scrim.id;
+          // The host picks; teams ask on Scrim Details
+          const approval = scrim.requires_approval;
+
+          return (
+            <Card key={scrim.id} className="p-5 space-y-4 hover:scale-[1.02] transition-transform">
+              {/* Header */}
+              <div className="flex items-start gap-3">
+                <div className={`w-12 h-12 bg-gradient-to-br ${logoColor(scrim.host_team_id)} rounded-xl flex items-center justify-center flex-shrink-0`}>
+                  <span>{teamInitials(scrim.host_team)}</span>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="truncate mb-1">{scrim.host_team?.name ?? 'Unknown Team'}</h3>
+                  <div className="flex items-center gap-1.5 text-xs text-gray-400">
+                    <Shield className="w-3.5 h-3.5" />
+                    <span>{scrim.host_team?.tag ? `[${scrim.host_team.tag}]` : 'Host team'}</span>
+                  </div>
+                </div>
               </div>
-              <div className="flex-1 min-w-0">
-                <h3 className="truncate mb-1">{scrim.team}</h3>
-                <div className="flex items-center gap-1.5 text-xs text-gray-400">
-                  <Star className="w-3.5 h-3.5 text-yellow-500 fill-yellow-500" />
-                  <span>{scrim.reliability}</span>
+
+              {/* Time & Date */}
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-blue-400">
+                  <Clock className="w-4 h-4" />
+                  <span className="text-sm">{formatTimeRange(scrim)}</span>
                 </div>
+                <div className="text-sm text-gray-400 pl-6">{formatDay(scrim.start_time)}</div>
               </div>
-            </div>
 
-            {/* Time & Date */}
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-blue-400">
-                <Clock className="w-4 h-4" />
-                <span className="text-sm">{scrim.time}</span>
+              {/* Tags */}
+              <div className="flex flex-wrap gap-1.5">
+                <Tag variant="info">{scrimTypeLabel(scrim.scrim_type, scrim.modes)}</Tag>
+                <Tag>{regionLabel(scrim.region, { short: true })}</Tag>
+                <Tag variant="purple">{scrim.tier ?? 'Any Tier'}</Tag>
+                {approval && <Tag variant="warning">Host picks</Tag>}
+                {scrim.block && <Tag>{scrim.block.slot_count}-slot block</Tag>}
               </div>
-              <div className="text-sm text-gray-400 pl-6">{scrim.date}</div>
-            </div>
-
-            {/* Tags */}
-            <div className="flex flex-wrap gap-1.5">
-              <Tag variant="info">{scrim.mode}</Tag>
-              <Tag>{scrim.region}</Tag>
-              <Tag variant="purple">{scrim.tier}</Tag>
-            </div>
-
-            {/* Action Button */}
-            <Button 
-              onClick={() => onViewScrimDetails(scrim.id)}
-              variant="secondary" 
-              className="w-full"
-            >
-              Request Scrim
-            </Button>
-          </Card>
-        ))}
+
+              {/* Actions */}
+              <div className="flex gap-2">
+                {approval ? (
+                  <Button
+                    onClick={() => onViewScrimDetails(scrim.id)}
+                    disabled={!teamId || !teamCan(teamRole, 'accept_scrims')}
+                    className="flex-1"
+                  >
+                    {!teamId ? 'Create Team to Accept' : 'Request to Join'}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => acceptScrim(scrim.id)}
+                    disabled={!canAccept || acceptingId !== null}
+                    className="flex-1"
+                  >
+                    {!teamId ? 'Create Team to Accept' : accepting ? 'Accepting…' : 'Accept Scrim'}
+                  </Button>
+                )}
+                <Button onClick={() => onViewScrimDetails(scrim.id)} variant="secondary">
+                  Details
+                </Button>
+              </div>
+            </Card>
+          );
+        })}
       </div>
 
       {/* Mobile FAB */}
-      <button 
-        onClick={onCreateScrim}
-        className="lg:hidden fixed bottom-24 right-6 w-14 h-14 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full shadow-2xl shadow-blue-500/40 flex items-center justify-center hover:scale-110 transition-transform z-40"
-      >
-        <Plus className="w-6 h-6" />
-      </button>
+      {onCreateScrim && (
+        <button
+          onClick={onCreateScrim}
+          className="lg:hidden fixed bottom-24 right-6 w-14 h-14 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full shadow-2xl shadow-blue-500/40 flex items-center justify-center hover:scale-110 transition-transform z-40"
+        >
+          <Plus className="w-6 h-6" />
+        </button>
+      )}
     </div>
   );
 }
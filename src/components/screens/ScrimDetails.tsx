@@ -1,71 +1,502 @@
-import { ArrowLeft, Edit, X, Check, Clock, MapPin, Users, MessageSquare, Calendar } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, X, Check, Clock, MapPin, Users, History, Calendar, Trophy, Send, AlertCircle, Zap, Pencil, Repeat, Layers } from 'lucide-react';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
-import { Tag } from '../ui/Tag';
 import { StatusChip } from '../ui/StatusChip';
+import { ScrimApplications } from '../ScrimApplications';
+import { ScrimChat } from '../ScrimChat';
+import { ScrimLineups } from '../ScrimLineups';
+import { repo } from '../../lib/repo';
+import {
+  scrimErrorCode,
+  scrimErrorMessage,
+  type ProfileSummary,
+  type ScrimOccurrenceScope,
+  type ScrimRow,
+  type ScrimStatusEventRow,
+  type ScrimWithTeams,
+  type TeamGameRole,
+  type TeamMemberRow,
+  type TeamRole,
+  type TeamSummary,
+} from '../../../shared/data';
+import { regionLabel } from '../../../shared/regions';
+import {
+  challengeAwaits,
+  challengeSideForTeam,
+  isOpenChallenge,
+  SCRIM_CHALLENGE_STATUS_LABELS,
+} from '../../../shared/scrim-challenges';
+import { blockSummary } from '../../../shared/scrim-blocks';
+import {
+  canTransitionScrim,
+  isScrimChatOpen,
+  isTerminalScrimStatus,
+  scrimActorForTeam,
+  scrimStatusLabel,
+} from '../../../shared/scrim-lifecycle';
+import { isEditableScrim, seriesSummary } from '../../../shared/scrim-series';
+import { SCRIM_NOTES_MAX, SCRIM_TIERS, scrimTypeLabel } from '../../../shared/scrim-types';
+import { gameRoleLabel, teamCan } from '../../../shared/team-roles';
 
 interface ScrimDetailsProps {
   scrimId: string | null;
+  userId?: string | null;
+  teamId?: string | null;
+  teamRole?: TeamRole | null;
   onBack: () => void;
+  onViewScrimDetails?: (scrimId: string) => void;
 }
 
-export function ScrimDetails({ scrimId, onBack }: ScrimDetailsProps) {
-  const scrim = {
-    id: scrimId,
-    date: 'Monday, Dec 16, 2024',
-    time: '8:00–10:00 PM EST',
-    opponent: 'OpTic Red',
-    opponentLogo: 'OR',
-    status: 'confirmed' as const,
-    region: 'NA',
-    tier: 'Tier 1',
-    mode: 'BO6 HP/SND',
-    notes: 'Looking for competitive practice before our qualifier. Please be on time and ready to run full series.',
+type RosterPlayer = { id: string; name: string; handle: string | null; role: TeamGameRole | null };
+
+const DURATION_OPTIONS = [60, 90, 120, 150, 180];
+
+const fieldClass =
+  'w-full px-4 py-2.5 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+function displayName(p: ProfileSummary | undefined) {
+  return p?.username?.trim() || p?.handle?.trim() || 'Player';
+}
+
+function initials(name: string) {
+  return name.replace(/^@/, '').substring(0, 2).toUpperCase();
+}
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '—';
+  return d.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatTimeRange(startIso: string, endIso: string) {
+  const start = new Date(startIso);
+  const end = new Date(endIso);
+  if (Number.isNaN(start.getTime())) return '—';
+
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  return Number.isNaN(end.getTime()) ? time(start) : `${time(start)}–${time(end)}`;
+}
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '—';
+  return d.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Value for <input type="datetime-local"> in the viewer's time zone
+function toLocalInputValue(iso: string) {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function timeAgo(iso: string) {
+  const t = new Date(iso).getTime();
+  if (!Number.isFinite(t)) return '—';
+  const mins = Math.max(0, Math.round((Date.now() - t) / 60000));
+  if (mins < 1) return 'Just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.round(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+function teamInitials(team: TeamSummary | null) {
+  const tag = team?.tag?.trim();
+  if (tag) return tag.slice(0, 3).toUpperCase();
+  const parts = (team?.name ?? '').trim().split(/\s+/).filter(Boolean);
+  return parts.map((p) => p[0]).join('').slice(0, 2).toUpperCase() || '?';
+}
+
+function eventLabel(e: ScrimStatusEventRow) {
+  if (!e.from_status) return 'Scrim posted';
+  if (e.to_status === 'open' && e.from_status === 'requested') return 'Request withdrawn / declined';
+  return `${scrimStatusLabel(e.from_status)} → ${scrimStatusLabel(e.to_status)}`;
+}
+
+export function ScrimDetails({
+  scrimId,
+  userId = null,
+  teamId = null,
+  teamRole = null,
+  onBack,
+  onViewScrimDetails,
+}: ScrimDetailsProps) {
+  const [scrim, setScrim] = useState<ScrimWithTeams | null>(null);
+  const [hostRoster, setHostRoster] = useState<RosterPlayer[]>([]);
+  const [opponentRoster, setOpponentRoster] = useState<RosterPlayer[]>([]);
+  const [history, setHistory] = useState<ScrimStatusEventRow[]>([]);
+  const [people, setPeople] = useState<Record<string, ProfileSummary>>({});
+  const [blockSlots, setBlockSlots] = useState<ScrimRow[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // Counter-proposal form (challenged team)
+  const [proposing, setProposing] = useState(false);
+  const [proposedTime, setProposedTime] = useState('');
+
+  // Host edit form (open slots; series scrims can carry it to later occurrences)
+  const [editing, setEditing] = useState(false);
+  const [editStart, setEditStart] = useState('');
+  const [editDuration, setEditDuration] = useState(60);
+  const [editTier, setEditTier] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+
+  const load = useCallback(async () => {
+    if (!scrimId) {
+      setScrim(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setErrorMsg(null);
+
+      const data = await repo.scrims.getById(scrimId);
+      setScrim(data);
+      if (!data) return;
+
+      // A challenged team stands in for the opponent until it answers
+      const guestTeamId = data.opponent_team_id ?? (data.status === 'open' ? data.challenged_team_id : null);
+
+      const [hostMembers, opponentMembers, events, slots] = await Promise.all([
+        repo.teamMembers.listByTeam(data.host_team_id, { statuses: ['active'] }),
+        guestTeamId ? repo.teamMembers.listByTeam(guestTeamId, { statuses: ['active'] }) : [],
+        repo.scrims.listStatusHistory(scrimId),
+        data.block_id ? repo.scrims.listByBlock(data.block_id) : [],
+      ]);
+
+      const userIds = new Set<string>();
+      hostMembers.forEach((m) => userIds.add(m.user_id));
+      opponentMembers.forEach((m) => userIds.add(m.user_id));
+      events.forEach((e) => e.changed_by && userIds.add(e.changed_by));
+
+      const profiles = await repo.profiles.listByIds(Array.from(userIds));
+      const byId: Record<string, ProfileSummary> = {};
+      profiles.forEach((p) => (byId[p.id] = p));
+
+      const toRoster = (rows: TeamMemberRow[]): RosterPlayer[] =>
+        rows.map((m) => ({
+          id: m.user_id,
+          name: displayName(byId[m.user_id]),
+          handle: byId[m.user_id]?.handle ?? null,
+          role: m.game_role,
+        }));
+
+      setPeople(byId);
+      setHostRoster(toRoster(hostMembers));
+      setOpponentRoster(toRoster(opponentMembers));
+      setHistory(events);
+      setBlockSlots(slots);
+    } catch (e: any) {
+      console.error('[ScrimDetails] load error:', e);
+      setErrorMsg(e?.message ?? 'Failed to load scrim.');
+    } finally {
+      setLoading(false);
+    }
+  }, [scrimId]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  const actor = useMemo(() => (scrim ? scrimActorForTeam(scrim, teamId) : null), [scrim, teamId]);
+  const isInScrim = !!teamId && !!scrim && (scrim.host_team_id === teamId || scrim.opponent_team_id === teamId);
+
+  // Challenges: the challenged team accepts (or counters / declines), the host answers counters
+  const isChallenge = !!scrim && isOpenChallenge(scrim);
+  const challengeSide = scrim ? challengeSideForTeam(scrim, teamId) : null;
+  const awaits = scrim ? challengeAwaits(scrim) : null;
+
+  // Host-approval scrims take requests on their own card (ScrimApplications)
+  const isApproval = !!scrim?.requires_approval;
+
+  // Lifecycle decides what the team could do; the viewer's team role decides whether they may
+  const canTakeSlot = teamCan(teamRole, 'accept_scrims');
+  const canAccept =
+    canTakeSlot &&
+    !!scrim &&
+    !isApproval &&
+    actor === 'guest' &&
+    !isInScrim &&
+    canTransitionScrim(scrim.status, 'confirmed', actor);
+  const canRequest =
+    canTakeSlot &&
+    !!scrim &&
+    !isChallenge &&
+    !isApproval &&
+    actor === 'guest' &&
+    !isInScrim &&
+    canTransitionScrim(scrim.status, 'requested', actor);
+  const canCancel =
+    teamCan(teamRole, 'cancel_scrims') && !!scrim && !!actor && canTransitionScrim(scrim.status, 'cancelled', actor);
+  const canEdit = !!scrim && actor === 'host' && teamCan(teamRole, 'post_scrims') && isEditableScrim(scrim);
+  const canCancelSeries = canCancel && actor === 'host' && !!scrim?.series_id;
+  // Once this slot is taken, the host can pull the block's other open slots
+  const canWithdrawSiblings =
+    teamCan(teamRole, 'cancel_scrims') &&
+    actor === 'host' &&
+    !!scrim &&
+    scrim.status !== 'open' &&
+    !isTerminalScrimStatus(scrim.status) &&
+    blockSlots.some((s) => s.id !== scrim.id && s.status === 'open');
+  const canAnswerChallenge = canTakeSlot && isChallenge && challengeSide === 'challenged';
+  const canAnswerCounter = canTakeSlot && awaits === 'host' && challengeSide === 'host';
+  const canWithdrawChallenge =
+    teamCan(teamRole, 'post_scrims') && scrim?.status === 'open' && challengeSide === 'host';
+
+  // Show the viewer's team on the left when they're the guest
+  const viewerIsOpponent = !!teamId && scrim?.opponent_team_id === teamId;
+  const left = viewerIsOpponent
+    ? { team: scrim?.opponent_team ?? null, roster: opponentRoster, label: 'Your Team' }
+    : { team: scrim?.host_team ?? null, roster: hostRoster, label: actor === 'host' ? 'Your Team' : 'Host' };
+  const right = viewerIsOpponent
+    ? { team: scrim?.host_team ?? null, roster: hostRoster, label: 'Host' }
+    : !scrim?.opponent_team && scrim?.challenged_team && scrim.status === 'open'
+      ? { team: scrim.challenged_team, roster: opponentRoster, label: challengeSide === 'challenged' ? 'Your Team' : 'Challenged' }
+      : { team: scrim?.opponent_team ?? null, roster: opponentRoster, label: 'Opponent' };
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setActing(true);
+      setErrorMsg(null);
+      await action();
+    } catch (e: any) {
+      console.error('[ScrimDetails] action error:', e);
+      setErrorMsg(
+        scrimErrorCode(e) === 'scrim_taken' ? 'Another team took this scrim before you.' : scrimErrorMessage(e, fallback)
+      );
+    } finally {
+      await load();
+      setActing(false);
+    }
+  };
+
+  const doAccept = () => {
+    if (!scrimId || !teamId) return;
+    runAction(() => repo.scrims.accept(scrimId, teamId), 'Failed to accept scrim.');
+  };
+
+  const doRequest = () => {
+    if (!scrimId || !teamId) return;
+    runAction(() => repo.scrims.request(scrimId, teamId), 'Failed to request scrim.');
+  };
+
+  const doDecline = () => {
+    if (!scrimId) return;
+    if (!window.confirm('Decline this challenge? The host team will be notified.')) return;
+    runAction(() => repo.scrims.declineChallenge(scrimId), 'Failed to decline challenge.');
+  };
+
+  const doCounter = () => {
+    if (!scrimId || !proposedTime) return;
+    const start = new Date(proposedTime);
+    if (Number.isNaN(start.getTime())) return;
+    setProposing(false);
+    runAction(() => repo.scrims.counterChallenge(scrimId, start.toISOString()), 'Failed to propose a new time.');
+  };
+
+  const doAnswerCounter = (accept: boolean) => {
+    if (!scrimId) return;
+    runAction(() => repo.scrims.answerCounter(scrimId, accept), 'Failed to answer the proposed time.');
+  };
+
+  const doWithdrawChallenge = () => {
+    if (!scrimId) return;
+    if (!window.confirm('Withdraw this challenge? The scrim will be posted to Scrim Center for any team.')) return;
+    runAction(() => repo.scrims.withdrawChallenge(scrimId), 'Failed to withdraw challenge.');
+  };
+
+  const openProposal = () => {
+    if (!scrim) return;
+    setProposedTime(toLocalInputValue(scrim.proposed_start_time ?? scrim.start_time));
+    setProposing(true);
   };
 
-  const roster = [
-    { name: 'PlayerOne', role: 'Main AR' },
-    { name: 'QuickScope', role: 'Entry Sub' },
-    { name: 'Anchor', role: 'Flex' },
-    { name: 'Strategist', role: 'IGL' },
-  ];
-
-  const opponentRoster = [
-    { name: 'Shotzzy', role: 'SMG' },
-    { name: 'iLLeY', role: 'Flex' },
-    { name: 'Pred', role: 'AR' },
-    { name: 'Ghosty', role: 'Sub' },
-  ];
-
-  const messages = [
-    {
-      id: 1,
-      user: 'PlayerOne',
-      avatar: 'P1',
-      message: 'Confirmed for 8 PM. See you then!',
-      timestamp: '2 hours ago',
-    },
-    {
-      id: 2,
-      user: 'Shotzzy',
-      avatar: 'SZ',
-      message: 'Perfect. We\'ll be ready.',
-      timestamp: '1 hour ago',
-    },
-    {
-      id: 3,
-      user: 'PlayerOne',
-      avatar: 'P1',
-      message: 'Should we do HP warmup first?',
-      timestamp: '30 min ago',
-    },
-  ];
+  const doCancel = () => {
+    if (!scrimId) return;
+    if (!window.confirm('Cancel this scrim? Both teams will be notified.')) return;
+    runAction(() => repo.scrims.cancel(scrimId), 'Failed to cancel scrim.');
+  };
+
+  const doCancelSeries = () => {
+    if (!scrimId) return;
+    if (!window.confirm('Cancel this scrim and every later one in the series?')) return;
+    runAction(() => repo.scrimSeries.cancelFuture(scrimId), 'Failed to cancel the series.');
+  };
+
+  const doWithdrawSiblings = () => {
+    if (!scrimId) return;
+    if (!window.confirm('Withdraw the other open slots in this block?')) return;
+    runAction(() => repo.scrimBlocks.withdrawSiblings(scrimId), 'Failed to withdraw the other slots.');
+  };
+
+  const openEdit = () => {
+    if (!scrim) return;
+    setEditStart(toLocalInputValue(scrim.start_time));
+    setEditDuration(
+      scrim.duration_minutes ?? Math.round((new Date(scrim.end_time).getTime() - new Date(scrim.start_time).getTime()) / 60000)
+    );
+    setEditTier(scrim.tier ?? '');
+    setEditNotes(scrim.notes ?? '');
+    setEditing(true);
+  };
+
+  const doEdit = (scope: ScrimOccurrenceScope) => {
+    if (!scrimId || !editStart) return;
+    const start = new Date(editStart);
+    if (Number.isNaN(start.getTime())) return;
+    if (editNotes.trim().length > SCRIM_NOTES_MAX) {
+      setErrorMsg(`Notes must be ${SCRIM_NOTES_MAX} characters or fewer.`);
+      return;
+    }
+
+    setEditing(false);
+    runAction(
+      () =>
+        repo.scrimSeries.editOccurrences(scrimId, scope, {
+          startTime: start.toISOString(),
+          durationMinutes: editDuration,
+          tier: editTier || null,
+          notes: editNotes,
+        }),
+      'Failed to save changes.'
+    );
+  };
+
+  const renderRoster = (title: string, roster: RosterPlayer[], accent: 'blue' | 'green') => (
+    <Card className="p-5">
+      <h3 className="text-lg mb-4 flex items-center gap-2">
+        <Users className={`w-5 h-5 ${accent === 'blue' ? 'text-blue-400' : 'text-green-400'}`} />
+        {title}
+      </h3>
+      {roster.length === 0 ? (
+        <p className="text-sm text-gray-500">No active players yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {roster.map((player) => (
+            <div key={player.id} className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div
+                  className={`w-8 h-8 bg-gradient-to-br ${
+                    accent === 'blue' ? 'from-purple-500 to-pink-600' : 'from-green-500 to-green-600'
+                  } rounded-full flex items-center justify-center text-xs`}
+                >
+                  {initials(player.name)}
+                </div>
+                <div>
+                  <div>{player.name}</div>
+                  {player.role && <div className="text-xs text-gray-500">{gameRoleLabel(player.role)}</div>}
+                </div>
+              </div>
+              {player.handle && <span className="text-sm text-gray-400">{player.handle.startsWith('@') ? player.handle : `@${player.handle}`}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+
+  const renderActions = (layout: 'desktop' | 'mobile') => {
+    const buttons = [
+      canAccept && (
+        <Button key="accept" onClick={doAccept} disabled={acting} className="flex-1">
+          <Check className="w-4 h-4" />
+          {!isChallenge ? 'Accept Scrim' : awaits === 'host' ? 'Accept Original Time' : 'Accept Challenge'}
+        </Button>
+      ),
+      canAnswerChallenge && (
+        <Button key="counter" variant="secondary" onClick={openProposal} disabled={acting} className="flex-1">
+          <Clock className="w-4 h-4" />
+          Propose New Time
+        </Button>
+      ),
+      canAnswerChallenge && (
+        <Button key="decline" variant="ghost" onClick={doDecline} disabled={acting} className="flex-1 text-red-400 hover:text-red-300">
+          <X className="w-4 h-4" />
+          Decline
+        </Button>
+      ),
+      canAnswerCounter && (
+        <Button key="accept-counter" onClick={() => doAnswerCounter(true)} disabled={acting} className="flex-1">
+          <Check className="w-4 h-4" />
+          Accept New Time
+        </Button>
+      ),
+      canAnswerCounter && (
+        <Button key="keep-original" variant="secondary" onClick={() => doAnswerCounter(false)} disabled={acting} className="flex-1">
+          Keep Original
+        </Button>
+      ),
+      canWithdrawChallenge && (
+        <Button key="withdraw" variant="ghost" onClick={doWithdrawChallenge} disabled={acting} className="flex-1">
+          Withdraw Challenge
+        </Button>
+      ),
+      canRequest && (
+        <Button key="request" variant="secondary" onClick={doRequest} disabled={acting} className="flex-1">
+          <Send className="w-4 h-4" />
+          Request Instead
+        </Button>
+      ),
+      canEdit && !editing && (
+        <Button key="edit" variant="secondary" onClick={openEdit} disabled={acting} className="flex-1">
+          <Pencil className="w-4 h-4" />
+          Edit Slot
+        </Button>
+      ),
+      canCancel && (
+        <Button key="cancel" variant="ghost" onClick={doCancel} disabled={acting} className="flex-1 text-red-400 hover:text-red-300">
+          <X className="w-4 h-4" />
+          Cancel Scrim
+        </Button>
+      ),
+      canWithdrawSiblings && (
+        <Button key="withdraw-siblings" variant="ghost" onClick={doWithdrawSiblings} disabled={acting} className="flex-1">
+          Withdraw Other Slots
+        </Button>
+      ),
+      canCancelSeries && (
+        <Button key="cancel-series" variant="ghost" onClick={doCancelSeries} disabled={acting} className="flex-1 text-red-400 hover:text-red-300">
+          Cancel This & Future
+        </Button>
+      ),
+    ].filter(Boolean);
+
+    if (buttons.length === 0) return null;
+
+    return layout === 'desktop' ? (
+      <div className="hidden lg:flex gap-3">{buttons}</div>
+    ) : (
+      <div className="lg:hidden fixed bottom-20 left-0 right-0 p-4 bg-gradient-to-t from-[#0a0a0b] via-[#0a0a0b] to-transparent z-40">
+        <div className="flex gap-3">{buttons}</div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return <div className="p-4 lg:p-8 max-w-7xl mx-auto text-gray-400">Loading scrim…</div>;
+  }
+
+  if (!scrim) {
+    return (
+      <div className="p-4 lg:p-8 max-w-7xl mx-auto space-y-4">
+        <button onClick={onBack} className="p-2 hover:bg-gray-900/50 rounded-lg transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <Card className="p-8 text-center text-gray-400">{errorMsg ?? 'This scrim no longer exists.'}</Card>
+      </div>
+    );
+  }
 
   return (
     <div className="p-4 lg:p-8 max-w-7xl mx-auto">
       {/* Header */}
       <div className="flex items-center gap-4 mb-6">
-        <button 
+        <button
           onClick={onBack}
           className="p-2 hover:bg-gray-900/50 rounded-lg transition-colors"
         >
@@ -73,11 +504,73 @@ export function ScrimDetails({ scrimId, onBack }: ScrimDetailsProps) {
         </button>
         <div className="flex-1">
           <h1 className="text-2xl lg:text-3xl mb-1">Scrim Details</h1>
-          <p className="text-gray-400">{scrim.date}</p>
+          <p className="text-gray-400">{formatDate(scrim.start_time)}</p>
         </div>
         <StatusChip status={scrim.status} />
       </div>
 
+      {errorMsg && (
+        <div className="flex items-center gap-2 mb-4 px-4 py-3 rounded-xl border border-red-500/20 bg-red-500/10 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{errorMsg}</span>
+        </div>
+      )}
+
+      {scrim.status === 'requested' && actor === 'guest' && isInScrim && (
+        <div className="mb-4 px-4 py-3 rounded-xl border border-amber-500/20 bg-amber-500/10 text-sm text-amber-400">
+          Request sent — waiting for the host team to confirm.
+        </div>
+      )}
+
+      {challengeSide && scrim.status === 'open' && scrim.challenge_status && (
+        <div className="mb-4 px-4 py-3 rounded-xl border border-amber-500/20 bg-amber-500/10 text-sm text-amber-400 space-y-2">
+          <div className="flex items-center gap-2">
+            <Zap className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {challengeSide === 'host'
+                ? `You challenged ${scrim.challenged_team?.name ?? 'another team'}`
+                : `${scrim.host_team?.name ?? 'The host team'} challenged your team`}{' '}
+              — {SCRIM_CHALLENGE_STATUS_LABELS[scrim.challenge_status]}
+            </span>
+          </div>
+
+          {scrim.challenge_status === 'countered' && scrim.proposed_start_time && (
+            <div className="text-gray-300">
+              Proposed: {formatDateTime(scrim.proposed_start_time)}{' '}
+              <span className="text-gray-500">(instead of {formatDateTime(scrim.start_time)})</span>
+            </div>
+          )}
+
+          {scrim.challenge_status === 'declined' && challengeSide === 'host' && (
+            <div className="text-gray-300">
+              They can’t make it. Withdraw the challenge to post the slot for any team, or cancel the scrim.
+            </div>
+          )}
+
+          {isChallenge && challengeSide === 'challenged' && !canTakeSlot && (
+            <div className="text-gray-300">Ask your team’s owner, captain or manager to answer this challenge.</div>
+          )}
+
+          {proposing && (
+            <div className="flex flex-col sm:flex-row gap-2 pt-1">
+              <input
+                type="datetime-local"
+                value={proposedTime}
+                onChange={(e) => setProposedTime(e.target.value)}
+                className="flex-1 px-4 py-2 bg-gray-900/50 border border-gray-800 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Button onClick={doCounter} disabled={acting || !proposedTime}>
+                <Send className="w-4 h-4" />
+                Send Proposal
+              </Button>
+              <Button variant="ghost" onClick={() => setProposing(false)} disabled={acting}>
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Details */}
@@ -87,20 +580,20 @@ export function ScrimDetails({ scrimId, onBack }: ScrimDetailsProps) {
             <div className="flex items-center justify-center gap-8 mb-6">
               <div className="text-center">
                 <div className="w-16 h-16 lg:w-20 lg:h-20 bg-gradient-to-br from-blue-500 to-blue-600 rounded-2xl flex items-center justify-center text-xl lg:text-2xl mb-2 mx-auto">
-                  VP
+                  {teamInitials(left.team)}
                 </div>
-                <div className="text-lg">Vanguard Prime</div>
-                <div className="text-sm text-gray-400">Your Team</div>
+                <div className="text-lg">{left.team?.name ?? 'Unknown Team'}</div>
+                <div className="text-sm text-gray-400">{left.label}</div>
               </div>
 
               <div className="text-3xl lg:text-4xl text-gray-600">VS</div>
 
               <div className="text-center">
                 <div className="w-16 h-16 lg:w-20 lg:h-20 bg-gradient-to-br from-green-500 to-green-600 rounded-2xl flex items-center justify-center text-xl lg:text-2xl mb-2 mx-auto">
-                  {scrim.opponentLogo}
+                  {right.team ? teamInitials(right.team) : '?'}
                 </div>
-                <div className="text-lg">{scrim.opponent}</div>
-                <div className="text-sm text-gray-400">Opponent</div>
+                <div className="text-lg">{right.team?.name ?? 'Open slot'}</div>
+                <div className="text-sm text-gray-400">{right.label}</div>
               </div>
             </div>
 
@@ -109,7 +602,8 @@ export function ScrimDetails({ scrimId, onBack }: ScrimDetailsProps) {
                 <Clock className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
                 <div>
                   <div className="text-sm text-gray-400">Time</div>
-                  <div>{scrim.time}</div>
+                  <div>{formatTimeRange(scrim.start_time, scrim.end_time)}</div>
+                  {scrim.time_zone && <div className="text-xs text-gray-500">{scrim.time_zone}</div>}
                 </div>
               </div>
 
@@ -117,7 +611,7 @@ export function ScrimDetails({ scrimId, onBack }: ScrimDetailsProps) {
                 <MapPin className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
                 <div>
                   <div className="text-sm text-gray-400">Region</div>
-                  <div>{scrim.region}</div>
+                  <div>{regionLabel(scrim.region)}</div>
                 </div>
               </div>
 
@@ -125,140 +619,195 @@ export function ScrimDetails({ scrimId, onBack }: ScrimDetailsProps) {
                 <Calendar className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
                 <div>
                   <div className="text-sm text-gray-400">Mode</div>
-                  <div>{scrim.mode}</div>
+                  <div>{scrimTypeLabel(scrim.scrim_type, scrim.modes)}</div>
                 </div>
               </div>
 
               <div className="flex items-start gap-3">
-                <Users className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+                <Trophy className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
                 <div>
                   <div className="text-sm text-gray-400">Tier</div>
-                  <div>{scrim.tier}</div>
+                  <div>{scrim.tier ?? 'Any Tier'}</div>
                 </div>
               </div>
+
+              {scrim.series && (
+                <div className="col-span-2 flex items-start gap-3">
+                  <Repeat className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <div className="text-sm text-gray-400">Repeats</div>
+                    <div>{seriesSummary(scrim.series)}</div>
+                  </div>
+                </div>
+              )}
             </div>
           </Card>
 
-          {/* Rosters */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {/* Other slots posted in the same block */}
+          {scrim.block && blockSlots.length > 0 && (
             <Card className="p-5">
-              <h3 className="text-lg mb-4 flex items-center gap-2">
-                <Users className="w-5 h-5 text-blue-400" />
-                Your Roster
+              <h3 className="text-lg mb-1 flex items-center gap-2">
+                <Layers className="w-5 h-5 text-blue-400" />
+                Block
               </h3>
-              <div className="space-y-3">
-                {roster.map((player, index) => (
-                  <div key={index} className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 bg-gradient-to-br from-purple-500 to-pink-600 rounded-full flex items-center justify-center text-xs">
-                        {player.name.substring(0, 2)}
-                      </div>
-                      <span>{player.name}</span>
-                    </div>
-                    <span className="text-sm text-gray-400">{player.role}</span>
-                  </div>
+              <p className="text-sm text-gray-400 mb-4">{blockSummary(scrim.block)}</p>
+              <div className="space-y-2">
+                {blockSlots.map((slot) => (
+                  <button
+                    key={slot.id}
+                    type="button"
+                    disabled={slot.id === scrim.id || !onViewScrimDetails}
+                    onClick={() => onViewScrimDetails?.(slot.id)}
+                    className={`w-full flex items-center justify-between px-4 py-2.5 rounded-xl border text-left transition-colors ${
+                      slot.id === scrim.id
+                        ? 'border-blue-500/30 bg-blue-500/10 text-blue-300'
+                        : 'border-gray-800 bg-gray-900/30 hover:bg-gray-800/60'
+                    }`}
+                  >
+                    <span>{formatDateTime(slot.start_time)}</span>
+                    <span className="text-sm text-gray-400">
+                      {slot.id === scrim.id ? 'This slot' : scrimStatusLabel(slot.status)}
+                    </span>
+                  </button>
                 ))}
               </div>
             </Card>
+          )}
 
-            <Card className="p-5">
-              <h3 className="text-lg mb-4 flex items-center gap-2">
-                <Users className="w-5 h-5 text-green-400" />
-                Opponent Roster
+          {/* Host edit */}
+          {canEdit && editing && (
+            <Card className="p-5 space-y-4">
+              <h3 className="text-lg flex items-center gap-2">
+                <Pencil className="w-5 h-5 text-blue-400" />
+                Edit Slot
               </h3>
-              <div className="space-y-3">
-                {opponentRoster.map((player, index) => (
-                  <div key={index} className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-green-600 rounded-full flex items-center justify-center text-xs">
-                        {player.name.substring(0, 2)}
-                      </div>
-                      <span>{player.name}</span>
-                    </div>
-                    <span className="text-sm text-gray-400">{player.role}</span>
-                  </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <input
+                  type="datetime-local"
+                  value={editStart}
+                  onChange={(e) => setEditStart(e.target.value)}
+                  className={fieldClass}
+                />
+                <select value={editDuration} onChange={(e) => setEditDuration(Number(e.target.value))} className={fieldClass}>
+                  {(DURATION_OPTIONS.includes(editDuration) ? DURATION_OPTIONS : [...DURATION_OPTIONS, editDuration].sort((a, b) => a - b)).map(
+                    (m) => (
+                      <option key={m} value={m}>
+                        {m / 60} hour{m === 60 ? '' : 's'}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+
+              <select value={editTier} onChange={(e) => setEditTier(e.target.value)} className={fieldClass}>
+                <option value="">Any Tier</option>
+                {SCRIM_TIERS.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
                 ))}
+              </select>
+
+              <textarea
+                rows={3}
+                value={editNotes}
+                maxLength={SCRIM_NOTES_MAX}
+                onChange={(e) => setEditNotes(e.target.value)}
+                placeholder="Add any specific requirements or preferences..."
+                className={`${fieldClass} placeholder:text-gray-500 resize-none`}
+              />
+
+              {scrim.series && (
+                <p className="text-xs text-gray-500">
+                  For later scrims, moving this one a day moves each of them a day too, at the new time. Slots another
+                  team already took keep their time.
+                </p>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button onClick={() => doEdit('this')} disabled={acting || !editStart} className="flex-1">
+                  <Check className="w-4 h-4" />
+                  {scrim.series ? 'Save This Scrim' : 'Save'}
+                </Button>
+                {scrim.series && (
+                  <Button variant="secondary" onClick={() => doEdit('future')} disabled={acting || !editStart} className="flex-1">
+                    Save This & Future
+                  </Button>
+                )}
+                <Button variant="ghost" onClick={() => setEditing(false)} disabled={acting} className="flex-1">
+                  Cancel
+                </Button>
               </div>
             </Card>
+          )}
+
+          {/* Host-approval requests */}
+          <ScrimApplications scrim={scrim} teamId={teamId} teamRole={teamRole} onChanged={load} />
+
+          {/* Rosters */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderRoster(`${left.label} Roster`, left.roster, 'blue')}
+            {right.team && renderRoster(`${right.label} Roster`, right.roster, 'green')}
           </div>
 
+          {/* Lineups */}
+          <ScrimLineups scrim={scrim} teamId={teamId} />
+
           {/* Notes */}
-          <Card className="p-5">
-            <h3 className="text-lg mb-3">Notes</h3>
-            <p className="text-gray-400 text-sm leading-relaxed">{scrim.notes}</p>
-          </Card>
+          {scrim.notes && (
+            <Card className="p-5">
+              <h3 className="text-lg mb-3">Notes</h3>
+              <p className="text-gray-400 text-sm leading-relaxed whitespace-pre-line">{scrim.notes}</p>
+            </Card>
+          )}
 
           {/* Desktop Actions */}
-          <div className="hidden lg:flex gap-3">
-            <Button variant="secondary" className="flex-1">
-              <Edit className="w-4 h-4" />
-              Edit Scrim
-            </Button>
-            <Button variant="ghost" className="flex-1 text-red-400 hover:text-red-300">
-              <X className="w-4 h-4" />
-              Cancel Scrim
-            </Button>
-            <Button className="flex-1">
-              <Check className="w-4 h-4" />
-              Mark as Completed
-            </Button>
-          </div>
+          {renderActions('desktop')}
         </div>
 
-        {/* Right Column - Activity/Messages */}
-        <div className="lg:col-span-1">
-          <Card className="p-5 h-full">
+        {/* Right Column - Chat + status history */}
+        <div className="lg:col-span-1 space-y-6">
+          {/* Both teams on the scrim */}
+          {isInScrim && scrim.opponent_team_id && (
+            <ScrimChat
+              scrimId={scrim.id}
+              userId={userId}
+              hostTeam={scrim.host_team}
+              opponentTeam={scrim.opponent_team}
+              readOnly={!isScrimChatOpen(scrim.status, scrim.opponent_team_id)}
+            />
+          )}
+
+          <Card className="p-5">
             <h3 className="text-lg mb-4 flex items-center gap-2">
-              <MessageSquare className="w-5 h-5 text-blue-400" />
-              Activity
+              <History className="w-5 h-5 text-blue-400" />
+              History
             </h3>
-            
-            <div className="space-y-4">
-              {messages.map((msg) => (
-                <div key={msg.id} className="flex gap-3">
-                  <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-xs flex-shrink-0">
-                    {msg.avatar}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-baseline gap-2 mb-1">
-                      <span className="text-sm">{msg.user}</span>
-                      <span className="text-xs text-gray-500">{msg.timestamp}</span>
-                    </div>
-                    <p className="text-sm text-gray-400 leading-relaxed">{msg.message}</p>
-                  </div>
-                </div>
-              ))}
-            </div>
 
-            <div className="mt-6 pt-4 border-t border-gray-800">
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  placeholder="Type a message..."
-                  className="flex-1 px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-                <button className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg hover:from-blue-500 hover:to-purple-500 transition-all">
-                  Send
-                </button>
-              </div>
-            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No status changes yet.</p>
+            ) : (
+              <ol className="space-y-4">
+                {history.map((event) => (
+                  <li key={event.id} className="flex gap-3">
+                    <div className="w-2 h-2 mt-2 rounded-full bg-blue-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm">{eventLabel(event)}</div>
+                      <div className="text-xs text-gray-500">
+                        {event.changed_by ? displayName(people[event.changed_by]) : 'System'} · {timeAgo(event.created_at)}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
           </Card>
         </div>
       </div>
 
       {/* Mobile Sticky Actions */}
-      <div className="lg:hidden fixed bottom-20 left-0 right-0 p-4 bg-gradient-to-t from-[#0a0a0b] via-[#0a0a0b] to-transparent z-40">
-        <div className="grid grid-cols-2 gap-3">
-          <Button variant="ghost" className="text-red-400">
-            <X className="w-4 h-4" />
-            Cancel
-          </Button>
-          <Button>
-            <Check className="w-4 h-4" />
-            Complete
-          </Button>
-        </div>
-      </div>
+      {renderActions('mobile')}
     </div>
   );
 }
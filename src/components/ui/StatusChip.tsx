@@ -1,10 +1,26 @@
+import type { ScrimStatus } from '../../../shared/data';
+
 interface StatusChipProps {
-  status: 'confirmed' | 'pending' | 'completed' | 'cancelled';
+  status: ScrimStatus | 'pending';
   className?: string;
 }
 
 export function StatusChip({ status, className = '' }: StatusChipProps) {
   const statusConfig = {
+    open: {
+      label: 'Open',
+      bg: 'bg-blue-500/10',
+      text: 'text-blue-400',
+      border: 'border-blue-500/20',
+      dot: 'bg-blue-400',
+    },
+    requested: {
+      label: 'Requested',
+      bg: 'bg-amber-500/10',
+      text: 'text-amber-400',
+      border: 'border-amber-500/20',
+      dot: 'bg-amber-400',
+    },
     confirmed: {
       label: 'Confirmed',
       bg: 'bg-green-500/10',
@@ -19,6 +35,13 @@ export function StatusChip({ status, className = '' }: StatusChipProps) {
       border: 'border-amber-500/20',
       dot: 'bg-amber-400',
     },
+    in_progress: {
+      label: 'In Progress',
+      bg: 'bg-green-500/10',
+      text: 'text-green-400',
+      border: 'border-green-500/20',
+      dot: 'bg-green-400',
+    },
     completed: {
       label: 'Completed',
       bg: 'bg-blue-500/10',
@@ -33,6 +56,13 @@ export function StatusChip({ status, className = '' }: StatusChipProps) {
       border: 'border-gray-500/20',
       dot: 'bg-gray-400',
     },
+    expired: {
+      label: 'Expired',
+      bg: 'bg-gray-500/10',
+      text: 'text-gray-500',
+      border: 'border-gray-500/20',
+      dot: 'bg-gray-500',
+    },
   };
 
   const config = statusConfig[status];
@@ -0,0 +1,4 @@
+import { createRepository } from '../../shared/data';
+import { supabase } from './supabaseclient';
+
+export const repo = createRepository(supabase);
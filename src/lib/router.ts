@@ -0,0 +1,139 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+// Small History API router for the web app. Routes:
+//
+//   /                 home
+//   /scrims           scrim center
+//   /scrims/:id       scrim details
+//   /create           post a scrim slot
+//   /team             my team
+//   /profile          profile
+//   /profile/region   profile → region picker
+//   /login?next=…     sign-in (signed-out users are sent here, then back to `next`)
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'scrim-center' }
+  | { name: 'scrim-details'; scrimId: string }
+  | { name: 'create-scrim' }
+  | { name: 'my-team' }
+  | { name: 'profile' }
+  | { name: 'profile-region' }
+  | { name: 'login'; next: string | null }
+  | { name: 'not-found' };
+
+// Only same-app paths; anything else falls back to home
+function safeNext(next: string | null) {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : null;
+}
+
+export function parseRoute(pathname: string, search = ''): Route {
+  let parts: string[];
+  try {
+    parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes like /scrims/%E0%A4%A
+    return { name: 'not-found' };
+  }
+
+  if (parts.length === 0) return { name: 'home' };
+
+  switch (parts[0]) {
+    case 'scrims':
+      if (parts.length === 1) return { name: 'scrim-center' };
+      if (parts.length === 2) return { name: 'scrim-details', scrimId: parts[1] };
+      break;
+    case 'create':
+      if (parts.length === 1) return { name: 'create-scrim' };
+      break;
+    case 'team':
+      if (parts.length === 1) return { name: 'my-team' };
+      break;
+    case 'profile':
+      if (parts.length === 1) return { name: 'profile' };
+      if (parts.length === 2 && parts[1] === 'region') return { name: 'profile-region' };
+      break;
+    case 'login':
+      if (parts.length === 1) return { name: 'login', next: safeNext(new URLSearchParams(search).get('next')) };
+      break;
+  }
+
+  return { name: 'not-found' };
+}
+
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'scrim-center':
+      return '/scrims';
+    case 'scrim-details':
+      return `/scrims/${encodeURIComponent(route.scrimId)}`;
+    case 'create-scrim':
+      return '/create';
+    case 'my-team':
+      return '/team';
+    case 'profile':
+      return '/profile';
+    case 'profile-region':
+      return '/profile/region';
+    case 'login':
+      return route.next ? `/login?next=${encodeURIComponent(route.next)}` : '/login';
+    default:
+      return '/';
+  }
+}
+
+const listeners = new Set<() => void>();
+
+// Whether this tab has pushed an in-app entry (so "back" stays inside the app)
+let hasInAppHistory = false;
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  if (listeners.size === 0) window.addEventListener('popstate', notify);
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('popstate', notify);
+  };
+}
+
+const getSnapshot = () => window.location.pathname + window.location.search;
+
+export function currentPath() {
+  return getSnapshot();
+}
+
+export function navigate(to: Route | string, opts: { replace?: boolean } = {}) {
+  const path = typeof to === 'string' ? to : routePath(to);
+  if (path === currentPath()) return;
+
+  if (opts.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+    hasInAppHistory = true;
+  }
+
+  window.scrollTo(0, 0);
+  notify();
+}
+
+// Back within the app if we got here from another screen, otherwise to a sensible
+// parent (e.g. a scrim link opened in a new tab goes "back" to the Scrim Center)
+export function goBack(fallback: Route) {
+  if (hasInAppHistory) window.history.back();
+  else navigate(fallback, { replace: true });
+}
+
+export function useRoute(): Route {
+  const path = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  return useMemo(() => {
+    const url = new URL(path, window.location.origin);
+    return parseRoute(url.pathname, url.search);
+  }, [path]);
+}
@@ -0,0 +1,178 @@
+-- Baseline schema for the scrim scheduling app.
+--
+-- This is the schema both apps were written against. It is the source for the
+-- generated types in shared/data/database.types.ts — after changing it, run
+-- `npm run gen:types` from the repo root.
+
+create extension if not exists pgcrypto;
+
+-- ---------------------------------------------------------------------------
+-- Enums
+-- ---------------------------------------------------------------------------
+
+create type public.team_member_status as enum ('active', 'invited', 'pending', 'left', 'removed');
+
+create type public.team_invite_status as enum ('pending', 'accepted', 'declined');
+
+create type public.notification_type as enum ('scrim_confirmed', 'scrim_cancelled', 'team_invite');
+
+-- ---------------------------------------------------------------------------
+-- Tables
+-- ---------------------------------------------------------------------------
+
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  tag text,
+  region text,
+  time_zone text,
+  created_at timestamptz default now()
+);
+
+-- NOTE: the table name is capitalised; keep the quotes.
+create table public."Profiles" (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  username text,
+  handle text,
+  primary_region text,
+  primary_team_id uuid references public.teams (id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create table public.team_members (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status public.team_member_status not null default 'active',
+  created_at timestamptz default now(),
+  unique (team_id, user_id)
+);
+
+create table public.team_invites (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  invited_user_id uuid not null references auth.users (id) on delete cascade,
+  invited_by uuid not null references auth.users (id) on delete cascade,
+  status public.team_invite_status not null default 'pending',
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create table public.scrims (
+  id uuid primary key default gen_random_uuid(),
+  host_team_id uuid not null,
+  opponent_team_id uuid,
+  status text not null default 'open',
+  region text not null,
+  tier text,
+  modes text[],
+  scrim_type text,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  time_zone text,
+  duration_minutes integer,
+  notes text,
+  created_by uuid not null references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  -- Named explicitly: the apps join through these names
+  -- (host_team:teams!scrims_host_team_id_fkey, opponent_team:teams!scrims_opponent_team_id_fkey)
+  constraint scrims_host_team_id_fkey foreign key (host_team_id) references public.teams (id) on delete cascade,
+  constraint scrims_opponent_team_id_fkey foreign key (opponent_team_id) references public.teams (id) on delete set null
+);
+
+create index scrims_host_team_id_idx on public.scrims (host_team_id);
+create index scrims_opponent_team_id_idx on public.scrims (opponent_team_id);
+create index scrims_status_start_time_idx on public.scrims (status, start_time);
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type public.notification_type not null,
+  title text not null,
+  body text not null,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index notifications_user_id_created_at_idx on public.notifications (user_id, created_at desc);
+
+create table public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  scrim_confirmed boolean not null default true,
+  scrim_cancelled boolean not null default true,
+  allow_team_invites boolean not null default true
+);
+
+-- ---------------------------------------------------------------------------
+-- Row level security
+-- ---------------------------------------------------------------------------
+
+alter table public."Profiles" enable row level security;
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+alter table public.team_invites enable row level security;
+alter table public.scrims enable row level security;
+alter table public.notifications enable row level security;
+alter table public.user_settings enable row level security;
+
+-- Profiles: readable by any signed-in user (invites look players up by handle)
+create policy "Profiles are readable by signed-in users" on public."Profiles"
+  for select to authenticated using (true);
+create policy "Users insert their own profile" on public."Profiles"
+  for insert to authenticated with check (id = auth.uid());
+create policy "Users update their own profile" on public."Profiles"
+  for update to authenticated using (id = auth.uid());
+
+-- Teams: public to signed-in users, owner-managed
+create policy "Teams are readable by signed-in users" on public.teams
+  for select to authenticated using (true);
+create policy "Users create teams they own" on public.teams
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "Owners update their teams" on public.teams
+  for update to authenticated using (owner_id = auth.uid());
+create policy "Owners delete their teams" on public.teams
+  for delete to authenticated using (owner_id = auth.uid());
+
+-- Team members
+create policy "Team members are readable by signed-in users" on public.team_members
+  for select to authenticated using (true);
+create policy "Users add themselves to a team" on public.team_members
+  for insert to authenticated with check (user_id = auth.uid());
+
+-- Team invites: visible to the invitee and the inviter
+create policy "Invites are visible to invitee and inviter" on public.team_invites
+  for select to authenticated using (invited_user_id = auth.uid() or invited_by = auth.uid());
+create policy "Team owners send invites" on public.team_invites
+  for insert to authenticated with check (
+    invited_by = auth.uid()
+    and exists (select 1 from public.teams t where t.id = team_id and t.owner_id = auth.uid())
+  );
+create policy "Invitees answer their invites" on public.team_invites
+  for update to authenticated using (invited_user_id = auth.uid());
+
+-- Scrims: marketplace is public to signed-in users
+create policy "Scrims are readable by signed-in users" on public.scrims
+  for select to authenticated using (true);
+create policy "Members post scrims for their team" on public.scrims
+  for insert to authenticated with check (created_by = auth.uid());
+create policy "Signed-in users update scrims" on public.scrims
+  for update to authenticated using (true);
+
+-- Notifications: private to the recipient
+create policy "Users read their notifications" on public.notifications
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users update their notifications" on public.notifications
+  for update to authenticated using (user_id = auth.uid());
+create policy "Users delete their notifications" on public.notifications
+  for delete to authenticated using (user_id = auth.uid());
+
+-- User settings: private to the user
+create policy "Users read their settings" on public.user_settings
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users insert their settings" on public.user_settings
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users update their settings" on public.user_settings
+  for update to authenticated using (user_id = auth.uid());
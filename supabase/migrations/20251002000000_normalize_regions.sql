@@ -0,0 +1,69 @@
+-- Canonical region ids + cleanup of legacy region strings.
+--
+-- Mirrors normalizeRegion() in shared/regions.ts: same cleaning rules, same
+-- alias table. Keep the two in sync.
+
+create or replace function public.normalize_region(raw text)
+returns text
+language sql
+immutable
+as $$
+  with cleaned as (
+    select regexp_replace(
+      btrim(regexp_replace(lower(coalesce(raw, '')), '[\u200B-\u200D\uFEFF]', '', 'g')),
+      '[\s_]+', '-', 'g'
+    ) as key
+  )
+  select case
+    when key in ('pacific-nw', 'pacific-sw', 'central-north', 'central-south', 'atlantic-north', 'atlantic-south')
+      then key
+    when key in ('pacfic-nw', 'pacificnw', 'pacific-northwest', 'pac-nw') then 'pacific-nw'
+    when key in ('pacificsw', 'pacific-southwest', 'pac-sw') then 'pacific-sw'
+    when key in ('centralnorth', 'central-n') then 'central-north'
+    when key in ('centralsouth', 'central-s') then 'central-south'
+    when key in ('atlanticnorth', 'atlantic-n') then 'atlantic-north'
+    when key in ('atlanticsouth', 'atlantic-s') then 'atlantic-south'
+    else null
+  end
+  from cleaned;
+$$;
+
+-- Rewrites every recognised legacy value to its canonical id. Unknown values are
+-- left alone so they can be fixed by hand. Safe to re-run:
+--   select * from public.normalize_legacy_regions();
+create or replace function public.normalize_legacy_regions()
+returns table (table_name text, rows_updated integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  update public.scrims
+     set region = public.normalize_region(region)
+   where public.normalize_region(region) is not null
+     and region is distinct from public.normalize_region(region);
+  get diagnostics n = row_count;
+  table_name := 'scrims'; rows_updated := n; return next;
+
+  update public.teams
+     set region = public.normalize_region(region)
+   where public.normalize_region(region) is not null
+     and region is distinct from public.normalize_region(region);
+  get diagnostics n = row_count;
+  table_name := 'teams'; rows_updated := n; return next;
+
+  update public."Profiles"
+     set primary_region = public.normalize_region(primary_region)
+   where public.normalize_region(primary_region) is not null
+     and primary_region is distinct from public.normalize_region(primary_region);
+  get diagnostics n = row_count;
+  table_name := 'Profiles'; rows_updated := n; return next;
+end;
+$$;
+
+-- Maintenance only; not callable from the apps
+revoke execute on function public.normalize_legacy_regions() from public, anon, authenticated;
+
+select * from public.normalize_legacy_regions();
@@ -0,0 +1,198 @@
+-- Scrim lifecycle.
+--
+--   open ──► requested ──► confirmed ──► in_progress ──► completed
+--     │          │             │              │
+--     └──────────┴─────────────┴──────────────┴──► cancelled
+--   open / requested ──► expired          (start time passed, nobody confirmed)
+--   open ──► confirmed                    (instant accept)
+--   requested ──► open                    (host declines / guest withdraws)
+--
+-- Actors: "host" = a member of the host team, "guest" = a member of the team
+-- taking (or asking for) the slot, "system" = no signed-in user (service role,
+-- cron, migrations). The same table lives in shared/scrim-lifecycle.ts; keep
+-- the two in sync.
+
+create type public.scrim_status as enum (
+  'open',
+  'requested',
+  'confirmed',
+  'in_progress',
+  'completed',
+  'cancelled',
+  'expired'
+);
+
+-- ---------------------------------------------------------------------------
+-- Existing data: fold legacy spellings into the enum
+-- ---------------------------------------------------------------------------
+
+update public.scrims set status = 'cancelled' where lower(btrim(status)) in ('canceled', 'cancelled');
+update public.scrims set status = 'requested' where lower(btrim(status)) = 'pending' and opponent_team_id is not null;
+update public.scrims set status = 'open' where lower(btrim(status)) = 'pending' and opponent_team_id is null;
+update public.scrims set status = lower(btrim(status))
+ where lower(btrim(status)) in ('open', 'confirmed', 'in_progress', 'completed', 'expired');
+-- Anything else is unreadable by the apps anyway
+update public.scrims set status = 'cancelled'
+ where status not in ('open', 'requested', 'confirmed', 'in_progress', 'completed', 'cancelled', 'expired');
+
+alter table public.scrims alter column status drop default;
+alter table public.scrims alter column status type public.scrim_status using status::public.scrim_status;
+alter table public.scrims alter column status set default 'open';
+
+-- Only checked for new writes; old rows may predate the rules
+alter table public.scrims
+  add constraint scrims_open_has_no_opponent
+  check (status <> 'open' or opponent_team_id is null) not valid;
+alter table public.scrims
+  add constraint scrims_matched_has_opponent
+  check (status not in ('requested', 'confirmed', 'in_progress', 'completed') or opponent_team_id is not null) not valid;
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+-- Owner or active member of a team
+create or replace function public.is_team_member(p_team_id uuid, p_user_id uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_team_id is not null and p_user_id is not null and (
+    exists (select 1 from public.teams t where t.id = p_team_id and t.owner_id = p_user_id)
+    or exists (
+      select 1 from public.team_members m
+       where m.team_id = p_team_id and m.user_id = p_user_id and m.status = 'active'
+    )
+  );
+$$;
+
+create or replace function public.scrim_transition_allowed(
+  p_from public.scrim_status,
+  p_to public.scrim_status,
+  p_actor text
+)
+returns boolean
+language sql
+immutable
+as $$
+  select case p_actor
+    when 'system' then true
+    when 'host' then (p_from, p_to) in (
+      ('requested', 'confirmed'),
+      ('requested', 'open'),
+      ('confirmed', 'in_progress'),
+      ('in_progress', 'completed'),
+      ('open', 'cancelled'),
+      ('requested', 'cancelled'),
+      ('confirmed', 'cancelled'),
+      ('in_progress', 'cancelled')
+    )
+    when 'guest' then (p_from, p_to) in (
+      ('open', 'requested'),
+      ('open', 'confirmed'),
+      ('requested', 'open'),
+      ('confirmed', 'in_progress'),
+      ('in_progress', 'completed')
+    )
+    else false
+  end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Enforcement
+-- ---------------------------------------------------------------------------
+
+create or replace function public.scrims_enforce_lifecycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_actor text;
+  v_guest_team uuid;
+begin
+  if tg_op = 'INSERT' then
+    if v_uid is not null and new.status <> 'open' then
+      raise exception 'New scrims must start as open (got %)', new.status
+        using errcode = 'P0001', hint = 'invalid_transition';
+    end if;
+    return new;
+  end if;
+
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if v_uid is null then
+    v_actor := 'system';
+  elsif public.is_team_member(old.host_team_id, v_uid) then
+    v_actor := 'host';
+  else
+    -- Taking a slot sets opponent_team_id in the same update
+    v_guest_team := case when old.status = 'open' then new.opponent_team_id else old.opponent_team_id end;
+    if public.is_team_member(v_guest_team, v_uid) then
+      v_actor := 'guest';
+    end if;
+  end if;
+
+  if v_actor is null then
+    raise exception 'Not a member of either team on this scrim'
+      using errcode = 'P0001', hint = 'not_team_member';
+  end if;
+
+  if not public.scrim_transition_allowed(old.status, new.status, v_actor) then
+    raise exception 'Scrim cannot go from % to % (%)', old.status, new.status, v_actor
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  -- The guest team is fixed once a slot is taken
+  if old.status <> 'open' and new.status <> 'open'
+     and new.opponent_team_id is distinct from old.opponent_team_id then
+    raise exception 'Opponent team cannot change once the scrim is taken'
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger scrims_enforce_lifecycle
+  before insert or update on public.scrims
+  for each row execute function public.scrims_enforce_lifecycle();
+
+-- Time-based moves (expired / in_progress / completed). Runs as "system";
+-- schedule it with pg_cron, e.g. every 5 minutes:
+--   select cron.schedule('advance-scrims', '*/5 * * * *', 'select public.advance_scrim_statuses()');
+create or replace function public.advance_scrim_statuses()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.scrims set status = 'expired'
+   where status in ('open', 'requested') and start_time <= now();
+
+  update public.scrims set status = 'in_progress'
+   where status = 'confirmed' and start_time <= now() and end_time > now();
+
+  update public.scrims set status = 'completed'
+   where status in ('confirmed', 'in_progress') and end_time <= now();
+$$;
+
+revoke execute on function public.advance_scrim_statuses() from public, anon, authenticated;
+
+-- The old catch-all update policy let anyone rewrite any scrim; the trigger now
+-- decides what a status change may do, this limits who can touch the row at all.
+drop policy if exists "Signed-in users update scrims" on public.scrims;
+create policy "Teams on a scrim update it" on public.scrims
+  for update to authenticated
+  using (
+    public.is_team_member(host_team_id)
+    or public.is_team_member(opponent_team_id)
+    or (status = 'open' and opponent_team_id is null)
+  );
@@ -0,0 +1,155 @@
+-- Scrim actions as RPCs.
+--
+-- Each function locks the scrim row, checks the caller's team and the lifecycle
+-- in one transaction, and fails with a stable code in the error HINT so the
+-- apps can branch on it (see shared/data/scrim-errors.ts):
+--
+--   not_authenticated  no signed-in user
+--   not_team_member    caller isn't on the team they're acting for
+--   scrim_not_found    no such scrim (or not visible)
+--   own_scrim          a team tried to take its own slot
+--   scrim_taken        another team already has / asked for the slot
+--   scrim_started      the slot's start time has passed
+--   not_host           only the host team can do this
+--   invalid_transition the lifecycle doesn't allow it from the current status
+
+create or replace function public.raise_scrim_error(p_code text, p_message text)
+returns void
+language plpgsql
+as $$
+begin
+  raise exception '%', p_message using errcode = 'P0001', hint = p_code;
+end;
+$$;
+
+-- Shared checks for a guest team taking an open slot; returns the locked row
+create or replace function public.lock_open_scrim_for_guest(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not public.is_team_member(p_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if v_scrim.host_team_id = p_team_id then
+    perform public.raise_scrim_error('own_scrim', 'You can''t take your own team''s scrim.');
+  end if;
+
+  if v_scrim.status in ('requested', 'confirmed', 'in_progress', 'completed') then
+    perform public.raise_scrim_error('scrim_taken', 'Another team already took this scrim.');
+  end if;
+
+  if v_scrim.status <> 'open' then
+    perform public.raise_scrim_error('invalid_transition', format('This scrim is %s.', v_scrim.status));
+  end if;
+
+  if v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'This scrim has already started.');
+  end if;
+
+  return v_scrim;
+end;
+$$;
+
+-- Instant accept: open → confirmed
+create or replace function public.accept_scrim(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  perform public.lock_open_scrim_for_guest(p_scrim_id, p_team_id);
+
+  update public.scrims
+     set status = 'confirmed', opponent_team_id = p_team_id
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Ask the host first: open → requested
+create or replace function public.request_scrim(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  perform public.lock_open_scrim_for_guest(p_scrim_id, p_team_id);
+
+  update public.scrims
+     set status = 'requested', opponent_team_id = p_team_id
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Host-only: open / requested / confirmed / in_progress → cancelled
+create or replace function public.cancel_scrim(p_scrim_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can cancel this scrim.');
+  end if;
+
+  if not public.scrim_transition_allowed(v_scrim.status, 'cancelled', 'host') then
+    perform public.raise_scrim_error('invalid_transition', format('A %s scrim can''t be cancelled.', v_scrim.status));
+  end if;
+
+  update public.scrims
+     set status = 'cancelled'
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+revoke execute on function public.raise_scrim_error(text, text) from public, anon, authenticated;
+revoke execute on function public.lock_open_scrim_for_guest(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.accept_scrim(uuid, uuid) from public, anon;
+revoke execute on function public.request_scrim(uuid, uuid) from public, anon;
+revoke execute on function public.cancel_scrim(uuid) from public, anon;
+grant execute on function public.accept_scrim(uuid, uuid) to authenticated;
+grant execute on function public.request_scrim(uuid, uuid) to authenticated;
+grant execute on function public.cancel_scrim(uuid) to authenticated;
@@ -0,0 +1,3 @@
+-- Stream scrim changes to the apps (Scrim Center marketplace + "My Scrims").
+-- Clients only get the row id from the payload and refetch through RLS.
+alter publication supabase_realtime add table public.scrims;
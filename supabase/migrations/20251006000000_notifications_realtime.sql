@@ -0,0 +1,2 @@
+-- Stream notification inserts / updates so unread badges update live.
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,280 @@
+-- Server-side notifications.
+--
+-- Scrim, invite and membership changes insert notifications from triggers, so
+-- every client (and every RPC) produces the same ones. Each recipient's
+-- user_settings are checked at write time:
+--
+--   scrim_confirmed   → user_settings.scrim_confirmed
+--   scrim_cancelled   → user_settings.scrim_cancelled
+--   team_invite       → user_settings.allow_team_invites
+--   everything else   → always delivered
+--
+-- The person who caused the change is never notified about it. Clients still
+-- can't insert notifications (no insert policy); only these definer functions do.
+
+alter type public.notification_type add value if not exists 'team_invite_answered';
+alter type public.notification_type add value if not exists 'team_member_joined';
+alter type public.notification_type add value if not exists 'team_member_left';
+
+-- team_recipient_ids() runs on every scrim / membership change
+create index if not exists team_members_team_id_status_idx on public.team_members (team_id, status);
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+-- Owner + active members of a team
+create or replace function public.team_recipient_ids(p_team_id uuid)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.owner_id from public.teams t where t.id = p_team_id
+  union
+  select m.user_id from public.team_members m where m.team_id = p_team_id and m.status = 'active';
+$$;
+
+create or replace function public.wants_notification(p_user_id uuid, p_type public.notification_type)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.user_settings;
+begin
+  select * into v_settings from public.user_settings where user_id = p_user_id;
+
+  -- No row yet = defaults (everything on)
+  if not found then
+    return true;
+  end if;
+
+  return case p_type::text
+    when 'scrim_confirmed' then v_settings.scrim_confirmed
+    when 'scrim_cancelled' then v_settings.scrim_cancelled
+    when 'team_invite' then v_settings.allow_team_invites
+    else true
+  end;
+end;
+$$;
+
+-- Insert one notification per recipient, skipping the actor and anyone who opted out
+create or replace function public.notify_users(
+  p_user_ids uuid[],
+  p_type public.notification_type,
+  p_title text,
+  p_body text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, type, title, body)
+  select distinct r.user_id, p_type, p_title, p_body
+    from unnest(p_user_ids) as r(user_id)
+   where r.user_id is not null
+     and r.user_id is distinct from auth.uid()
+     and public.wants_notification(r.user_id, p_type);
+end;
+$$;
+
+create or replace function public.team_display_name(p_team_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select case when t.tag is not null and btrim(t.tag) <> '' then format('%s [%s]', t.name, t.tag) else t.name end
+       from public.teams t where t.id = p_team_id),
+    'A team'
+  );
+$$;
+
+create or replace function public.profile_display_name(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select coalesce(nullif(btrim(p.username), ''), '@' || nullif(btrim(p.handle), ''))
+       from public."Profiles" p where p.id = p_user_id),
+    'A player'
+  );
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Scrims: confirmed / cancelled
+-- ---------------------------------------------------------------------------
+
+create or replace function public.scrims_notify_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_recipients uuid[];
+  v_host text := public.team_display_name(new.host_team_id);
+  v_opponent text := public.team_display_name(new.opponent_team_id);
+  v_when text := to_char(new.start_time at time zone 'UTC', 'Mon DD, HH24:MI "UTC"');
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if new.status not in ('confirmed', 'cancelled') then
+    return new;
+  end if;
+
+  select array_agg(id) into v_recipients
+    from (
+      select public.team_recipient_ids(new.host_team_id) as id
+      union
+      select public.team_recipient_ids(new.opponent_team_id)
+    ) ids;
+
+  if new.status = 'confirmed' then
+    perform public.notify_users(
+      v_recipients,
+      'scrim_confirmed',
+      'Scrim confirmed',
+      format('%s vs %s — %s', v_host, v_opponent, v_when)
+    );
+  else
+    perform public.notify_users(
+      v_recipients,
+      'scrim_cancelled',
+      'Scrim cancelled',
+      case
+        when new.opponent_team_id is null then format('%s cancelled their open scrim (%s).', v_host, v_when)
+        else format('%s vs %s on %s was cancelled.', v_host, v_opponent, v_when)
+      end
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger scrims_notify_status_change
+  after update of status on public.scrims
+  for each row execute function public.scrims_notify_status_change();
+
+-- ---------------------------------------------------------------------------
+-- Team invites: sent / answered
+-- ---------------------------------------------------------------------------
+
+create or replace function public.team_invites_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_team text := public.team_display_name(new.team_id);
+begin
+  if tg_op = 'INSERT' then
+    if new.status = 'pending' then
+      perform public.notify_users(
+        array[new.invited_user_id],
+        'team_invite',
+        'Team invite',
+        format('%s invited you to join %s.', public.profile_display_name(new.invited_by), v_team)
+      );
+    end if;
+    return new;
+  end if;
+
+  if old.status = 'pending' and new.status in ('accepted', 'declined') then
+    perform public.notify_users(
+      array[new.invited_by],
+      'team_invite_answered',
+      case when new.status = 'accepted' then 'Invite accepted' else 'Invite declined' end,
+      format('%s %s your invite to %s.', public.profile_display_name(new.invited_user_id), new.status, v_team)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger team_invites_notify
+  after insert or update of status on public.team_invites
+  for each row execute function public.team_invites_notify();
+
+-- ---------------------------------------------------------------------------
+-- Team members: joined / left / removed
+-- ---------------------------------------------------------------------------
+
+create or replace function public.team_members_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.team_members := case when tg_op = 'DELETE' then old else new end;
+  v_was_active boolean := tg_op <> 'INSERT' and old.status = 'active';
+  v_is_active boolean := tg_op <> 'DELETE' and new.status = 'active';
+  v_team text := public.team_display_name(v_row.team_id);
+  v_player text := public.profile_display_name(v_row.user_id);
+  v_others uuid[];
+begin
+  if v_was_active = v_is_active then
+    return null;
+  end if;
+
+  -- Deleting a team cascades to its members; nobody is left to tell
+  if not exists (select 1 from public.teams t where t.id = v_row.team_id) then
+    return null;
+  end if;
+
+  select array_agg(id) into v_others
+    from public.team_recipient_ids(v_row.team_id) as id
+   where id <> v_row.user_id;
+
+  if v_is_active then
+    -- The owner adding themselves on team creation isn't news
+    if exists (select 1 from public.teams t where t.id = v_row.team_id and t.owner_id = v_row.user_id) then
+      return null;
+    end if;
+
+    perform public.notify_users(v_others, 'team_member_joined', 'New teammate', format('%s joined %s.', v_player, v_team));
+    return null;
+  end if;
+
+  if tg_op = 'UPDATE' and new.status = 'removed' then
+    perform public.notify_users(
+      array[v_row.user_id],
+      'team_member_left',
+      'Removed from team',
+      format('You were removed from %s.', v_team)
+    );
+    perform public.notify_users(v_others, 'team_member_left', 'Teammate removed', format('%s was removed from %s.', v_player, v_team));
+  else
+    perform public.notify_users(v_others, 'team_member_left', 'Teammate left', format('%s left %s.', v_player, v_team));
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger team_members_notify
+  after insert or update of status or delete on public.team_members
+  for each row execute function public.team_members_notify();
+
+revoke execute on function public.notify_users(uuid[], public.notification_type, text, text) from public, anon, authenticated;
+revoke execute on function public.wants_notification(uuid, public.notification_type) from public, anon, authenticated;
+revoke execute on function public.team_recipient_ids(uuid) from public, anon, authenticated;
+revoke execute on function public.team_display_name(uuid) from public, anon, authenticated;
+revoke execute on function public.profile_display_name(uuid) from public, anon, authenticated;
@@ -0,0 +1,54 @@
+-- Scrim status history.
+--
+-- One row per status a scrim has been in, written by a trigger so every path
+-- (RPCs, direct updates, advance_scrim_statuses) is recorded. from_status is
+-- null for the row that created the scrim; changed_by is null for system moves.
+
+create table public.scrim_status_events (
+  id uuid primary key default gen_random_uuid(),
+  scrim_id uuid not null references public.scrims (id) on delete cascade,
+  from_status public.scrim_status,
+  to_status public.scrim_status not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index scrim_status_events_scrim_id_created_at_idx on public.scrim_status_events (scrim_id, created_at);
+
+alter table public.scrim_status_events enable row level security;
+
+-- Same visibility as scrims; only the trigger writes
+create policy "Scrim history is readable by signed-in users" on public.scrim_status_events
+  for select to authenticated using (true);
+
+create or replace function public.scrims_record_status_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return null;
+  end if;
+
+  insert into public.scrim_status_events (scrim_id, from_status, to_status, changed_by)
+  values (new.id, case when tg_op = 'UPDATE' then old.status end, new.status, auth.uid());
+
+  return null;
+end;
+$$;
+
+create trigger scrims_record_status_event
+  after insert or update of status on public.scrims
+  for each row execute function public.scrims_record_status_event();
+
+-- Existing scrims: the creation, plus where they are now if that isn't open
+insert into public.scrim_status_events (scrim_id, from_status, to_status, changed_by, created_at)
+select s.id, null, 'open', s.created_by, s.created_at
+  from public.scrims s;
+
+insert into public.scrim_status_events (scrim_id, from_status, to_status, changed_by, created_at)
+select s.id, 'open', s.status, null, coalesce(s.updated_at, s.created_at)
+  from public.scrims s
+ where s.status <> 'open';
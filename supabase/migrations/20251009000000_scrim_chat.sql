@@ -0,0 +1,205 @@
+-- Per-scrim chat between the host and opponent teams.
+--
+-- Messages are sent through send_scrim_message(), which works out the sender's
+-- team and refuses once the scrim is over (completed / cancelled / expired) or
+-- while there is no opponent yet. Members of both teams can read the thread.
+--
+-- Unread messages feed the notifications table: each recipient gets at most one
+-- unread scrim_message notification per scrim, updated in place with the unread
+-- count. mark_scrim_chat_read() clears it when the chat is opened. Errors use the
+-- scrim error codes (see shared/data/scrim-errors.ts), plus:
+--
+--   chat_closed      the scrim has no opponent yet or is over
+--   message_invalid  empty or longer than 1000 characters
+
+alter type public.notification_type add value if not exists 'scrim_message';
+
+-- Lets a notification point at its scrim (chat notifications open the thread)
+alter table public.notifications
+  add column scrim_id uuid references public.scrims (id) on delete cascade;
+
+create index notifications_user_id_scrim_id_idx on public.notifications (user_id, scrim_id) where scrim_id is not null;
+
+create table public.scrim_messages (
+  id uuid primary key default gen_random_uuid(),
+  scrim_id uuid not null references public.scrims (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  sender_id uuid not null references auth.users (id) on delete cascade,
+  body text not null check (char_length(body) between 1 and 1000),
+  created_at timestamptz not null default now()
+);
+
+create index scrim_messages_scrim_id_created_at_idx on public.scrim_messages (scrim_id, created_at);
+
+-- How far each user has read a scrim's chat
+create table public.scrim_message_reads (
+  scrim_id uuid not null references public.scrims (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (scrim_id, user_id)
+);
+
+alter table public.scrim_messages enable row level security;
+alter table public.scrim_message_reads enable row level security;
+
+-- Both teams on the scrim; writes only go through the functions below
+create policy "Scrim participants read the chat" on public.scrim_messages
+  for select to authenticated using (
+    exists (
+      select 1 from public.scrims s
+       where s.id = scrim_id
+         and (public.is_team_member(s.host_team_id) or public.is_team_member(s.opponent_team_id))
+    )
+  );
+
+create policy "Users read their chat read markers" on public.scrim_message_reads
+  for select to authenticated using (user_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Send / mark read
+-- ---------------------------------------------------------------------------
+
+create or replace function public.send_scrim_message(p_scrim_id uuid, p_body text)
+returns public.scrim_messages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_team_id uuid;
+  v_body text := btrim(coalesce(p_body, ''));
+  v_message public.scrim_messages;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  v_team_id := case
+    when public.is_team_member(v_scrim.host_team_id) then v_scrim.host_team_id
+    when public.is_team_member(v_scrim.opponent_team_id) then v_scrim.opponent_team_id
+  end;
+
+  if v_team_id is null then
+    perform public.raise_scrim_error('not_team_member', 'Only the two teams on this scrim can chat.');
+  end if;
+
+  if v_scrim.opponent_team_id is null or v_scrim.status in ('completed', 'cancelled', 'expired') then
+    perform public.raise_scrim_error('chat_closed', 'Chat is closed for this scrim.');
+  end if;
+
+  if char_length(v_body) not between 1 and 1000 then
+    perform public.raise_scrim_error('message_invalid', 'Messages must be 1–1000 characters.');
+  end if;
+
+  insert into public.scrim_messages (scrim_id, team_id, sender_id, body)
+  values (p_scrim_id, v_team_id, auth.uid(), v_body)
+  returning * into v_message;
+
+  return v_message;
+end;
+$$;
+
+create or replace function public.mark_scrim_chat_read(p_scrim_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  insert into public.scrim_message_reads (scrim_id, user_id, last_read_at)
+  values (p_scrim_id, auth.uid(), now())
+  on conflict (scrim_id, user_id) do update set last_read_at = excluded.last_read_at;
+
+  update public.notifications
+     set read_at = now()
+   where user_id = auth.uid()
+     and scrim_id = p_scrim_id
+     and type = 'scrim_message'
+     and read_at is null;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Unread notifications
+-- ---------------------------------------------------------------------------
+
+create or replace function public.scrim_messages_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_title text;
+  v_sender text := format('%s (%s)', public.profile_display_name(new.sender_id), public.team_display_name(new.team_id));
+  v_recipient uuid;
+  v_unread int;
+  v_body text;
+begin
+  select * into v_scrim from public.scrims where id = new.scrim_id;
+
+  v_title := format(
+    '%s vs %s',
+    public.team_display_name(v_scrim.host_team_id),
+    public.team_display_name(v_scrim.opponent_team_id)
+  );
+
+  for v_recipient in
+    select id from public.team_recipient_ids(v_scrim.host_team_id) as id
+    union
+    select id from public.team_recipient_ids(v_scrim.opponent_team_id) as id
+  loop
+    continue when v_recipient = new.sender_id or not public.wants_notification(v_recipient, 'scrim_message');
+
+    select count(*) into v_unread
+      from public.scrim_messages m
+      left join public.scrim_message_reads r on r.scrim_id = m.scrim_id and r.user_id = v_recipient
+     where m.scrim_id = new.scrim_id
+       and m.sender_id <> v_recipient
+       and (r.last_read_at is null or m.created_at > r.last_read_at);
+
+    v_body := case
+      when v_unread <= 1 then format('%s: %s', v_sender, left(new.body, 140))
+      else format('%s unread messages. Latest from %s: %s', v_unread, v_sender, left(new.body, 120))
+    end;
+
+    update public.notifications
+       set title = v_title, body = v_body, created_at = now()
+     where user_id = v_recipient
+       and scrim_id = new.scrim_id
+       and type = 'scrim_message'
+       and read_at is null;
+
+    if not found then
+      insert into public.notifications (user_id, type, title, body, scrim_id)
+      values (v_recipient, 'scrim_message', v_title, v_body, new.scrim_id);
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+create trigger scrim_messages_notify
+  after insert on public.scrim_messages
+  for each row execute function public.scrim_messages_notify();
+
+-- Live threads; payloads are filtered by the select policy above
+alter publication supabase_realtime add table public.scrim_messages;
+
+revoke execute on function public.send_scrim_message(uuid, text) from public, anon;
+revoke execute on function public.mark_scrim_chat_read(uuid) from public, anon;
+grant execute on function public.send_scrim_message(uuid, text) to authenticated;
+grant execute on function public.mark_scrim_chat_read(uuid) to authenticated;
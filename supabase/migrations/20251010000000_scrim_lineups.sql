@@ -0,0 +1,147 @@
+-- Per-scrim lineups.
+--
+-- Each team on a scrim picks who plays (starters) and who is on standby
+-- (substitutes) from its own owner + active members. The team about to take an
+-- open slot can save its lineup first, so an instant accept can pass the check.
+--
+-- scrims.min_lineup_size (null = no minimum) is set by the host when posting.
+-- A scrim can't move to confirmed while either team has fewer starters than
+-- that. Lineups are saved through set_scrim_lineup(); errors use the scrim error
+-- codes (see shared/data/scrim-errors.ts), plus:
+--
+--   lineup_locked      the scrim has started or is over
+--   lineup_invalid     a player isn't on the team, is listed twice, or too many
+--   lineup_incomplete  a team is below the scrim's minimum when confirming
+
+alter table public.scrims
+  add column min_lineup_size smallint check (min_lineup_size between 1 and 12);
+
+create table public.scrim_lineup_players (
+  scrim_id uuid not null references public.scrims (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  is_substitute boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (scrim_id, team_id, user_id)
+);
+
+alter table public.scrim_lineup_players enable row level security;
+
+-- Visible like rosters; only set_scrim_lineup() writes
+create policy "Scrim lineups are readable by signed-in users" on public.scrim_lineup_players
+  for select to authenticated using (true);
+
+-- Host, current opponent, or a team lining up to take an open slot
+create or replace function public.scrim_lineup_team_allowed(p_scrim public.scrims, p_team_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    p_team_id = p_scrim.host_team_id
+      or p_team_id = p_scrim.opponent_team_id
+      or (p_scrim.status = 'open' and p_scrim.opponent_team_id is null),
+    false
+  );
+$$;
+
+create or replace function public.set_scrim_lineup(
+  p_scrim_id uuid,
+  p_team_id uuid,
+  p_starters uuid[],
+  p_substitutes uuid[] default '{}'
+)
+returns setof public.scrim_lineup_players
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_starters uuid[] := coalesce(p_starters, '{}');
+  v_substitutes uuid[] := coalesce(p_substitutes, '{}');
+  v_all uuid[] := v_starters || v_substitutes;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not public.is_team_member(p_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  -- Same lock the scrim actions take, so a confirm sees a settled lineup
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if v_scrim.status not in ('open', 'requested', 'confirmed') then
+    perform public.raise_scrim_error('lineup_locked', format('Lineups are locked once a scrim is %s.', v_scrim.status));
+  end if;
+
+  if not public.scrim_lineup_team_allowed(v_scrim, p_team_id) then
+    perform public.raise_scrim_error('scrim_taken', 'Another team already has this scrim.');
+  end if;
+
+  if cardinality(v_starters) > 12 or cardinality(v_substitutes) > 6 then
+    perform public.raise_scrim_error('lineup_invalid', 'Lineups are limited to 12 starters and 6 substitutes.');
+  end if;
+
+  if (select count(distinct p) from unnest(v_all) p) <> cardinality(v_all) then
+    perform public.raise_scrim_error('lineup_invalid', 'A player can only be listed once.');
+  end if;
+
+  if exists (select 1 from unnest(v_all) p where not public.is_team_member(p_team_id, p)) then
+    perform public.raise_scrim_error('lineup_invalid', 'Lineups can only include active members of the team.');
+  end if;
+
+  delete from public.scrim_lineup_players where scrim_id = p_scrim_id and team_id = p_team_id;
+
+  insert into public.scrim_lineup_players (scrim_id, team_id, user_id, is_substitute)
+  select p_scrim_id, p_team_id, p, false from unnest(v_starters) p
+  union all
+  select p_scrim_id, p_team_id, p, true from unnest(v_substitutes) p;
+
+  return query
+    select * from public.scrim_lineup_players
+     where scrim_id = p_scrim_id and team_id = p_team_id
+     order by is_substitute, created_at;
+end;
+$$;
+
+-- Confirming needs both teams at the minimum (runs for RPCs and direct updates)
+create or replace function public.scrims_check_lineups()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_team uuid;
+begin
+  if new.status <> 'confirmed' or old.status = 'confirmed' or new.min_lineup_size is null then
+    return new;
+  end if;
+
+  foreach v_team in array array[new.host_team_id, new.opponent_team_id] loop
+    if (
+      select count(*) from public.scrim_lineup_players l
+       where l.scrim_id = new.id and l.team_id = v_team and not l.is_substitute
+    ) < new.min_lineup_size then
+      raise exception '% needs at least % starters in the lineup', public.team_display_name(v_team), new.min_lineup_size
+        using errcode = 'P0001', hint = 'lineup_incomplete';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger scrims_check_lineups
+  before update of status on public.scrims
+  for each row execute function public.scrims_check_lineups();
+
+revoke execute on function public.set_scrim_lineup(uuid, uuid, uuid[], uuid[]) from public, anon;
+grant execute on function public.set_scrim_lineup(uuid, uuid, uuid[], uuid[]) to authenticated;
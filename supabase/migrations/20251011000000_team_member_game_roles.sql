@@ -0,0 +1,60 @@
+-- In-game roles on team memberships (IGL, Main AR, Entry Sub, Flex).
+--
+-- One optional role per membership, shown on rosters. Players pick their own;
+-- the team owner can set anyone's. Saved through set_team_member_role(); errors
+-- use the team error codes (see shared/data/team-errors.ts):
+--
+--   not_authenticated  no session
+--   team_not_found     the team doesn't exist
+--   not_team_member    the player isn't an active member of the team
+--   not_team_owner     someone other than the owner changing another player
+
+create type public.team_game_role as enum ('igl', 'main_ar', 'entry_sub', 'flex');
+
+alter table public.team_members
+  add column game_role public.team_game_role;
+
+create or replace function public.set_team_member_role(
+  p_team_id uuid,
+  p_user_id uuid,
+  p_role public.team_game_role
+)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid;
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select owner_id into v_owner from public.teams where id = p_team_id;
+
+  if not found then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if p_user_id <> auth.uid() and v_owner is distinct from auth.uid() then
+    perform public.raise_scrim_error('not_team_owner', 'Only the team owner can set other players'' roles.');
+  end if;
+
+  if not public.is_team_member(p_team_id, p_user_id) then
+    perform public.raise_scrim_error('not_team_member', 'That player is not on the team.');
+  end if;
+
+  -- Older teams may not have a membership row for the owner yet
+  insert into public.team_members (team_id, user_id, status, game_role)
+  values (p_team_id, p_user_id, 'active', p_role)
+  on conflict (team_id, user_id) do update set game_role = excluded.game_role
+  returning * into v_member;
+
+  return v_member;
+end;
+$$;
+
+revoke execute on function public.set_team_member_role(uuid, uuid, public.team_game_role) from public, anon;
+grant execute on function public.set_team_member_role(uuid, uuid, public.team_game_role) to authenticated;
@@ -0,0 +1,396 @@
+-- Team permission roles: owner, captain, manager, player, coach.
+--
+-- Each membership carries a team_role. teams.owner_id stays the source of truth
+-- for the owner; everyone else gets their powers from their active membership.
+-- What each role may do (keep in sync with TEAM_PERMISSIONS in
+-- shared/team-roles.ts):
+--
+--   post_scrims     owner, captain, manager
+--   accept_scrims   owner, captain, manager   (take a slot, confirm / decline a request)
+--   cancel_scrims   owner, captain, manager   (cancel as host, withdraw as guest)
+--   invite_members  owner, captain, manager
+--   remove_members  owner, manager
+--   edit_team       owner, manager
+--   set_game_roles  owner, captain, manager, coach   (anyone's in-game role)
+--   manage_roles    owner                            (anyone's team_role)
+--
+-- Refusals raise 'not_permitted' (scrim and team error codes).
+
+create type public.team_role as enum ('owner', 'captain', 'manager', 'player', 'coach');
+
+alter table public.team_members
+  add column team_role public.team_role not null default 'player';
+
+-- Every owner gets a membership row marked as such
+update public.team_members m
+   set team_role = 'owner', status = 'active'
+  from public.teams t
+ where t.id = m.team_id and t.owner_id = m.user_id;
+
+insert into public.team_members (team_id, user_id, status, team_role)
+select t.id, t.owner_id, 'active', 'owner'
+  from public.teams t
+ where not exists (select 1 from public.team_members m where m.team_id = t.id and m.user_id = t.owner_id);
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+-- null when the user isn't on the team
+create or replace function public.team_role_of(p_team_id uuid, p_user_id uuid default auth.uid())
+returns public.team_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from public.teams t where t.id = p_team_id and t.owner_id = p_user_id)
+      then 'owner'::public.team_role
+    else (
+      select m.team_role from public.team_members m
+       where m.team_id = p_team_id and m.user_id = p_user_id and m.status = 'active'
+    )
+  end;
+$$;
+
+create or replace function public.team_permission_roles(p_permission text)
+returns public.team_role[]
+language sql
+immutable
+as $$
+  select case p_permission
+    when 'post_scrims' then array['owner', 'captain', 'manager']
+    when 'accept_scrims' then array['owner', 'captain', 'manager']
+    when 'cancel_scrims' then array['owner', 'captain', 'manager']
+    when 'invite_members' then array['owner', 'captain', 'manager']
+    when 'remove_members' then array['owner', 'manager']
+    when 'edit_team' then array['owner', 'manager']
+    when 'set_game_roles' then array['owner', 'captain', 'manager', 'coach']
+    when 'manage_roles' then array['owner']
+    else array[]::text[]
+  end::public.team_role[];
+$$;
+
+create or replace function public.has_team_permission(
+  p_team_id uuid,
+  p_permission text,
+  p_user_id uuid default auth.uid()
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.team_role_of(p_team_id, p_user_id) = any (public.team_permission_roles(p_permission)), false);
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Policies
+-- ---------------------------------------------------------------------------
+
+drop policy if exists "Members post scrims for their team" on public.scrims;
+create policy "Members post scrims for their team" on public.scrims
+  for insert to authenticated
+  with check (created_by = auth.uid() and public.has_team_permission(host_team_id, 'post_scrims'));
+
+drop policy if exists "Owners update their teams" on public.teams;
+create policy "Team managers update their teams" on public.teams
+  for update to authenticated using (public.has_team_permission(id, 'edit_team'));
+
+drop policy if exists "Team owners send invites" on public.team_invites;
+create policy "Team staff send invites" on public.team_invites
+  for insert to authenticated with check (
+    invited_by = auth.uid() and public.has_team_permission(team_id, 'invite_members')
+  );
+
+-- Joining never grants more than player (the owner's own row says owner)
+drop policy if exists "Users add themselves to a team" on public.team_members;
+create policy "Users add themselves to a team" on public.team_members
+  for insert to authenticated with check (
+    user_id = auth.uid()
+    and (
+      team_role = 'player'
+      or (team_role = 'owner' and exists (select 1 from public.teams t where t.id = team_id and t.owner_id = auth.uid()))
+    )
+  );
+
+-- Editing a team doesn't include handing it to someone else
+create or replace function public.teams_guard_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id and auth.uid() is not null then
+    raise exception 'Team ownership can''t be changed here'
+      using errcode = 'P0001', hint = 'not_team_owner';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger teams_guard_owner
+  before update of owner_id on public.teams
+  for each row execute function public.teams_guard_owner();
+
+-- ---------------------------------------------------------------------------
+-- Scrim actions
+-- ---------------------------------------------------------------------------
+
+create or replace function public.lock_open_scrim_for_guest(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not public.is_team_member(p_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  if not public.has_team_permission(p_team_id, 'accept_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t take scrims.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if v_scrim.host_team_id = p_team_id then
+    perform public.raise_scrim_error('own_scrim', 'You can''t take your own team''s scrim.');
+  end if;
+
+  if v_scrim.status in ('requested', 'confirmed', 'in_progress', 'completed') then
+    perform public.raise_scrim_error('scrim_taken', 'Another team already took this scrim.');
+  end if;
+
+  if v_scrim.status <> 'open' then
+    perform public.raise_scrim_error('invalid_transition', format('This scrim is %s.', v_scrim.status));
+  end if;
+
+  if v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'This scrim has already started.');
+  end if;
+
+  return v_scrim;
+end;
+$$;
+
+create or replace function public.cancel_scrim(p_scrim_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can cancel this scrim.');
+  end if;
+
+  if not public.has_team_permission(v_scrim.host_team_id, 'cancel_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t cancel scrims.');
+  end if;
+
+  if not public.scrim_transition_allowed(v_scrim.status, 'cancelled', 'host') then
+    perform public.raise_scrim_error('invalid_transition', format('A %s scrim can''t be cancelled.', v_scrim.status));
+  end if;
+
+  update public.scrims
+     set status = 'cancelled'
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Same as before, plus the role check for status changes people make
+create or replace function public.scrims_enforce_lifecycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_actor text;
+  v_actor_team uuid;
+  v_guest_team uuid;
+  v_permission text;
+begin
+  if tg_op = 'INSERT' then
+    if v_uid is not null and new.status <> 'open' then
+      raise exception 'New scrims must start as open (got %)', new.status
+        using errcode = 'P0001', hint = 'invalid_transition';
+    end if;
+    return new;
+  end if;
+
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if v_uid is null then
+    v_actor := 'system';
+  elsif public.is_team_member(old.host_team_id, v_uid) then
+    v_actor := 'host';
+    v_actor_team := old.host_team_id;
+  else
+    -- Taking a slot sets opponent_team_id in the same update
+    v_guest_team := case when old.status = 'open' then new.opponent_team_id else old.opponent_team_id end;
+    if public.is_team_member(v_guest_team, v_uid) then
+      v_actor := 'guest';
+      v_actor_team := v_guest_team;
+    end if;
+  end if;
+
+  if v_actor is null then
+    raise exception 'Not a member of either team on this scrim'
+      using errcode = 'P0001', hint = 'not_team_member';
+  end if;
+
+  if not public.scrim_transition_allowed(old.status, new.status, v_actor) then
+    raise exception 'Scrim cannot go from % to % (%)', old.status, new.status, v_actor
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  -- Starting / finishing a match is open to every member
+  v_permission := case
+    when new.status = 'cancelled' then 'cancel_scrims'
+    when v_actor = 'guest' and new.status = 'open' then 'cancel_scrims'
+    when new.status in ('requested', 'confirmed', 'open') then 'accept_scrims'
+  end;
+
+  if v_actor <> 'system' and v_permission is not null
+     and not public.has_team_permission(v_actor_team, v_permission, v_uid) then
+    raise exception 'Your team role can''t do that (%)', v_permission
+      using errcode = 'P0001', hint = 'not_permitted';
+  end if;
+
+  -- The guest team is fixed once a slot is taken
+  if old.status <> 'open' and new.status <> 'open'
+     and new.opponent_team_id is distinct from old.opponent_team_id then
+    raise exception 'Opponent team cannot change once the scrim is taken'
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Roles
+-- ---------------------------------------------------------------------------
+
+-- In-game roles: your own, or anyone's with set_game_roles
+create or replace function public.set_team_member_role(
+  p_team_id uuid,
+  p_user_id uuid,
+  p_role public.team_game_role
+)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not exists (select 1 from public.teams where id = p_team_id) then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if p_user_id <> auth.uid() and not public.has_team_permission(p_team_id, 'set_game_roles') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t set other players'' roles.');
+  end if;
+
+  if not public.is_team_member(p_team_id, p_user_id) then
+    perform public.raise_scrim_error('not_team_member', 'That player is not on the team.');
+  end if;
+
+  -- Owners of teams made before this migration may still lack a row
+  insert into public.team_members (team_id, user_id, status, team_role, game_role)
+  values (p_team_id, p_user_id, 'active', public.team_role_of(p_team_id, p_user_id), p_role)
+  on conflict (team_id, user_id) do update set game_role = excluded.game_role
+  returning * into v_member;
+
+  return v_member;
+end;
+$$;
+
+-- Team roles: owner only, and ownership itself isn't handed out here
+create or replace function public.set_team_role(
+  p_team_id uuid,
+  p_user_id uuid,
+  p_role public.team_role
+)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not exists (select 1 from public.teams where id = p_team_id) then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if not public.has_team_permission(p_team_id, 'manage_roles') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t change team roles.');
+  end if;
+
+  if p_role = 'owner' or public.team_role_of(p_team_id, p_user_id) = 'owner' then
+    perform public.raise_scrim_error('not_permitted', 'The owner''s role only changes with a transfer.');
+  end if;
+
+  update public.team_members
+     set team_role = p_role
+   where team_id = p_team_id and user_id = p_user_id and status = 'active'
+  returning * into v_member;
+
+  if not found then
+    perform public.raise_scrim_error('not_team_member', 'That player is not on the team.');
+  end if;
+
+  return v_member;
+end;
+$$;
+
+revoke execute on function public.team_permission_roles(text) from public, anon, authenticated;
+revoke execute on function public.team_role_of(uuid, uuid) from public, anon;
+revoke execute on function public.has_team_permission(uuid, text, uuid) from public, anon;
+revoke execute on function public.set_team_role(uuid, uuid, public.team_role) from public, anon;
+grant execute on function public.team_role_of(uuid, uuid) to authenticated;
+grant execute on function public.has_team_permission(uuid, text, uuid) to authenticated;
+grant execute on function public.set_team_role(uuid, uuid, public.team_role) to authenticated;
@@ -0,0 +1,283 @@
+-- Team ownership transfers.
+--
+-- The owner offers the team to another active member; nothing changes until that
+-- member accepts. Every offer is kept in team_ownership_transfers with how it
+-- ended, and the offer / answer / withdrawal each notify the other person (the
+-- rest of the team hears about an accepted transfer too).
+--
+-- On accept teams.owner_id moves to the new owner, their membership becomes
+-- 'owner' and the previous owner's becomes 'player' (the new owner can promote
+-- them from My Team). One pending offer per team; making a new one withdraws the
+-- old. Errors use the team error codes (see shared/data/team-errors.ts):
+--
+--   not_team_owner         someone other than the owner offering / withdrawing
+--   not_team_member        the recipient isn't an active member (any more)
+--   transfer_not_found     no such offer, or it isn't addressed to you
+--   transfer_not_pending   the offer was already answered or withdrawn
+
+alter type public.notification_type add value if not exists 'team_ownership';
+
+create type public.team_transfer_status as enum ('pending', 'accepted', 'declined', 'cancelled');
+
+create table public.team_ownership_transfers (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  from_user_id uuid not null references auth.users (id) on delete cascade,
+  to_user_id uuid not null references auth.users (id) on delete cascade,
+  status public.team_transfer_status not null default 'pending',
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create unique index team_ownership_transfers_one_pending_idx
+  on public.team_ownership_transfers (team_id) where status = 'pending';
+create index team_ownership_transfers_to_user_id_idx
+  on public.team_ownership_transfers (to_user_id) where status = 'pending';
+
+alter table public.team_ownership_transfers enable row level security;
+
+-- Both people involved and the team can see transfers; only the RPCs write
+create policy "Transfers are readable by the people and team involved" on public.team_ownership_transfers
+  for select to authenticated using (
+    from_user_id = auth.uid() or to_user_id = auth.uid() or public.is_team_member(team_id)
+  );
+
+-- ---------------------------------------------------------------------------
+-- Owner guard: the accept RPC is the one way through
+-- ---------------------------------------------------------------------------
+
+create or replace function public.teams_guard_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id
+     and auth.uid() is not null
+     and coalesce(current_setting('app.ownership_transfer', true), '') <> 'on' then
+    raise exception 'Team ownership can''t be changed here'
+      using errcode = 'P0001', hint = 'not_team_owner';
+  end if;
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- RPCs
+-- ---------------------------------------------------------------------------
+
+create or replace function public.offer_team_ownership(p_team_id uuid, p_user_id uuid)
+returns public.team_ownership_transfers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid;
+  v_transfer public.team_ownership_transfers;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select owner_id into v_owner from public.teams where id = p_team_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if v_owner is distinct from auth.uid() then
+    perform public.raise_scrim_error('not_team_owner', 'Only the team owner can transfer the team.');
+  end if;
+
+  if p_user_id = auth.uid() or not exists (
+    select 1 from public.team_members m
+     where m.team_id = p_team_id and m.user_id = p_user_id and m.status = 'active'
+  ) then
+    perform public.raise_scrim_error('not_team_member', 'Pick an active member of the team.');
+  end if;
+
+  update public.team_ownership_transfers
+     set status = 'cancelled', responded_at = now()
+   where team_id = p_team_id and status = 'pending';
+
+  insert into public.team_ownership_transfers (team_id, from_user_id, to_user_id)
+  values (p_team_id, auth.uid(), p_user_id)
+  returning * into v_transfer;
+
+  return v_transfer;
+end;
+$$;
+
+create or replace function public.respond_team_ownership(p_transfer_id uuid, p_accept boolean)
+returns public.team_ownership_transfers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.team_ownership_transfers;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_transfer from public.team_ownership_transfers
+   where id = p_transfer_id and to_user_id = auth.uid()
+   for update;
+
+  if not found then
+    perform public.raise_scrim_error('transfer_not_found', 'Transfer not found.');
+  end if;
+
+  if v_transfer.status <> 'pending' then
+    perform public.raise_scrim_error('transfer_not_pending', format('This transfer was already %s.', v_transfer.status));
+  end if;
+
+  if not p_accept then
+    update public.team_ownership_transfers
+       set status = 'declined', responded_at = now()
+     where id = p_transfer_id
+    returning * into v_transfer;
+    return v_transfer;
+  end if;
+
+  -- The offer only stands while its sender still owns the team and you're still on it
+  perform 1 from public.teams where id = v_transfer.team_id and owner_id = v_transfer.from_user_id for update;
+  if not found then
+    perform public.raise_scrim_error('transfer_not_pending', 'This team changed hands since the offer.');
+  end if;
+
+  if not exists (
+    select 1 from public.team_members m
+     where m.team_id = v_transfer.team_id and m.user_id = auth.uid() and m.status = 'active'
+  ) then
+    perform public.raise_scrim_error('not_team_member', 'You are no longer on this team.');
+  end if;
+
+  perform set_config('app.ownership_transfer', 'on', true);
+
+  update public.teams set owner_id = auth.uid() where id = v_transfer.team_id;
+
+  perform set_config('app.ownership_transfer', '', true);
+
+  update public.team_members
+     set team_role = case when user_id = auth.uid() then 'owner'::public.team_role else 'player'::public.team_role end
+   where team_id = v_transfer.team_id and user_id in (auth.uid(), v_transfer.from_user_id);
+
+  update public.team_ownership_transfers
+     set status = 'accepted', responded_at = now()
+   where id = p_transfer_id
+  returning * into v_transfer;
+
+  return v_transfer;
+end;
+$$;
+
+create or replace function public.cancel_team_ownership(p_transfer_id uuid)
+returns public.team_ownership_transfers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.team_ownership_transfers;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_transfer from public.team_ownership_transfers where id = p_transfer_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('transfer_not_found', 'Transfer not found.');
+  end if;
+
+  if v_transfer.from_user_id <> auth.uid() then
+    perform public.raise_scrim_error('not_team_owner', 'Only the owner who made the offer can withdraw it.');
+  end if;
+
+  if v_transfer.status <> 'pending' then
+    perform public.raise_scrim_error('transfer_not_pending', format('This transfer was already %s.', v_transfer.status));
+  end if;
+
+  update public.team_ownership_transfers
+     set status = 'cancelled', responded_at = now()
+   where id = p_transfer_id
+  returning * into v_transfer;
+
+  return v_transfer;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Notifications
+-- ---------------------------------------------------------------------------
+
+create or replace function public.team_ownership_transfers_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_team text := public.team_display_name(new.team_id);
+  v_from text := public.profile_display_name(new.from_user_id);
+  v_to text := public.profile_display_name(new.to_user_id);
+  v_others uuid[];
+begin
+  if tg_op = 'INSERT' then
+    perform public.notify_users(
+      array[new.to_user_id],
+      'team_ownership',
+      'Team ownership offered',
+      format('%s wants to hand %s over to you.', v_from, v_team)
+    );
+    return null;
+  end if;
+
+  if old.status <> 'pending' or new.status = 'pending' then
+    return null;
+  end if;
+
+  if new.status = 'cancelled' then
+    perform public.notify_users(
+      array[new.to_user_id],
+      'team_ownership',
+      'Transfer withdrawn',
+      format('%s withdrew the offer to hand you %s.', v_from, v_team)
+    );
+    return null;
+  end if;
+
+  perform public.notify_users(
+    array[new.from_user_id],
+    'team_ownership',
+    case when new.status = 'accepted' then 'Transfer accepted' else 'Transfer declined' end,
+    case
+      when new.status = 'accepted' then format('%s is now the owner of %s.', v_to, v_team)
+      else format('%s declined ownership of %s.', v_to, v_team)
+    end
+  );
+
+  if new.status = 'accepted' then
+    select array_agg(id) into v_others
+      from public.team_recipient_ids(new.team_id) as id
+     where id not in (new.from_user_id, new.to_user_id);
+
+    perform public.notify_users(v_others, 'team_ownership', 'New team owner', format('%s is now the owner of %s.', v_to, v_team));
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger team_ownership_transfers_notify
+  after insert or update of status on public.team_ownership_transfers
+  for each row execute function public.team_ownership_transfers_notify();
+
+revoke execute on function public.offer_team_ownership(uuid, uuid) from public, anon;
+revoke execute on function public.respond_team_ownership(uuid, boolean) from public, anon;
+revoke execute on function public.cancel_team_ownership(uuid) from public, anon;
+grant execute on function public.offer_team_ownership(uuid, uuid) to authenticated;
+grant execute on function public.respond_team_ownership(uuid, boolean) to authenticated;
+grant execute on function public.cancel_team_ownership(uuid) to authenticated;
@@ -0,0 +1,178 @@
+-- Leaving a team and removing members.
+--
+-- leave_team() marks your own membership 'left'; remove_team_member() marks
+-- someone else's 'removed' (remove_members permission). The owner can't leave
+-- or be removed — they transfer ownership first. Errors use the team error
+-- codes (see shared/data/team-errors.ts), plus:
+--
+--   owner_cannot_leave   the owner tried to leave without transferring
+--
+-- Whichever way a member stops being active, a trigger tidies up after them:
+--
+--   * Profiles.primary_team_id is cleared if it pointed at the team
+--   * they're dropped from the team's lineups for scrims that haven't started;
+--     a dropped starter is replaced by the team's first substitute, and if there
+--     is none and a confirmed scrim falls below its minimum, the team is told
+--   * ownership offers to or from them for the team are withdrawn
+
+create or replace function public.leave_team(p_team_id uuid)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not exists (select 1 from public.teams where id = p_team_id) then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if public.team_role_of(p_team_id) = 'owner' then
+    perform public.raise_scrim_error('owner_cannot_leave', 'Transfer ownership before leaving the team.');
+  end if;
+
+  update public.team_members
+     set status = 'left'
+   where team_id = p_team_id and user_id = auth.uid() and status = 'active'
+  returning * into v_member;
+
+  if not found then
+    perform public.raise_scrim_error('not_team_member', 'You are not on this team.');
+  end if;
+
+  return v_member;
+end;
+$$;
+
+create or replace function public.remove_team_member(p_team_id uuid, p_user_id uuid)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not exists (select 1 from public.teams where id = p_team_id) then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if not public.has_team_permission(p_team_id, 'remove_members') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t remove players.');
+  end if;
+
+  if p_user_id = auth.uid() or public.team_role_of(p_team_id, p_user_id) = 'owner' then
+    perform public.raise_scrim_error('not_permitted', 'The owner can''t be removed, and you leave the team yourself.');
+  end if;
+
+  update public.team_members
+     set status = 'removed'
+   where team_id = p_team_id and user_id = p_user_id and status = 'active'
+  returning * into v_member;
+
+  if not found then
+    perform public.raise_scrim_error('not_team_member', 'That player is not on the team.');
+  end if;
+
+  return v_member;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Clean-up after a member stops being active
+-- ---------------------------------------------------------------------------
+
+create or replace function public.team_members_after_exit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_slot record;
+  v_sub uuid;
+  v_player text;
+begin
+  if old.status <> 'active' or new.status = 'active' then
+    return null;
+  end if;
+
+  update public."Profiles"
+     set primary_team_id = null
+   where id = new.user_id and primary_team_id = new.team_id;
+
+  update public.team_ownership_transfers
+     set status = 'cancelled', responded_at = now()
+   where team_id = new.team_id
+     and status = 'pending'
+     and new.user_id in (from_user_id, to_user_id);
+
+  v_player := public.profile_display_name(new.user_id);
+
+  for v_slot in
+    delete from public.scrim_lineup_players l
+     using public.scrims s
+     where s.id = l.scrim_id
+       and l.team_id = new.team_id
+       and l.user_id = new.user_id
+       and s.status in ('open', 'requested', 'confirmed')
+       and s.start_time > now()
+    returning l.scrim_id, l.is_substitute, s.status, s.min_lineup_size, s.host_team_id, s.opponent_team_id, s.start_time
+  loop
+    if v_slot.is_substitute then
+      continue;
+    end if;
+
+    select l.user_id into v_sub
+      from public.scrim_lineup_players l
+     where l.scrim_id = v_slot.scrim_id and l.team_id = new.team_id and l.is_substitute
+     order by l.created_at
+     limit 1;
+
+    if v_sub is not null then
+      update public.scrim_lineup_players
+         set is_substitute = false
+       where scrim_id = v_slot.scrim_id and team_id = new.team_id and user_id = v_sub;
+      continue;
+    end if;
+
+    if v_slot.status = 'confirmed' and v_slot.min_lineup_size is not null and (
+      select count(*) from public.scrim_lineup_players l
+       where l.scrim_id = v_slot.scrim_id and l.team_id = new.team_id and not l.is_substitute
+    ) < v_slot.min_lineup_size then
+      perform public.notify_users(
+        array(select public.team_recipient_ids(new.team_id)),
+        'team_member_left',
+        'Lineup short a player',
+        format(
+          '%s left the lineup for %s vs %s (%s). Pick a replacement before it starts.',
+          v_player,
+          public.team_display_name(v_slot.host_team_id),
+          public.team_display_name(v_slot.opponent_team_id),
+          to_char(v_slot.start_time at time zone 'UTC', 'Mon DD, HH24:MI "UTC"')
+        )
+      );
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+create trigger team_members_after_exit
+  after update of status on public.team_members
+  for each row execute function public.team_members_after_exit();
+
+revoke execute on function public.leave_team(uuid) from public, anon;
+revoke execute on function public.remove_team_member(uuid, uuid) from public, anon;
+grant execute on function public.leave_team(uuid) to authenticated;
+grant execute on function public.remove_team_member(uuid, uuid) to authenticated;
@@ -0,0 +1,149 @@
+-- Shareable team invite codes.
+--
+-- Team staff (invite_members) create a code from My Team, optionally with an
+-- expiry and a use limit, and share it as scrimmobile://invite/<code>. Anyone
+-- signed in can preview the team behind a code and join with it; every join is
+-- recorded in team_invite_code_uses and counted on the code.
+--
+-- Codes are 8 characters from an alphabet without look-alikes (no 0/O, 1/I/L).
+-- Errors use the team error codes (see shared/data/team-errors.ts), plus:
+--
+--   invite_code_not_found   no such code
+--   invite_code_expired     past its expires_at
+--   invite_code_used_up     use_count reached max_uses
+--   already_team_member     the user is already an active member
+
+create or replace function public.generate_invite_code()
+returns text
+language sql
+volatile
+as $$
+  select string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + floor(random() * 31)::int, 1), '')
+    from generate_series(1, 8);
+$$;
+
+create table public.team_invite_codes (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  code text not null unique default public.generate_invite_code(),
+  created_by uuid not null references auth.users (id) on delete cascade,
+  expires_at timestamptz,
+  max_uses integer check (max_uses > 0),
+  use_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index team_invite_codes_team_id_idx on public.team_invite_codes (team_id, created_at desc);
+
+create table public.team_invite_code_uses (
+  code_id uuid not null references public.team_invite_codes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  used_at timestamptz not null default now(),
+  primary key (code_id, user_id)
+);
+
+alter table public.team_invite_codes enable row level security;
+alter table public.team_invite_code_uses enable row level security;
+
+-- Staff see and make their team's codes; joining goes through the RPCs below
+create policy "Team staff read invite codes" on public.team_invite_codes
+  for select to authenticated using (public.has_team_permission(team_id, 'invite_members'));
+
+create policy "Team staff create invite codes" on public.team_invite_codes
+  for insert to authenticated with check (
+    created_by = auth.uid() and use_count = 0 and public.has_team_permission(team_id, 'invite_members')
+  );
+
+create policy "Team staff read invite code uses" on public.team_invite_code_uses
+  for select to authenticated using (
+    exists (
+      select 1 from public.team_invite_codes c
+       where c.id = code_id and public.has_team_permission(c.team_id, 'invite_members')
+    )
+  );
+
+-- ---------------------------------------------------------------------------
+-- RPCs
+-- ---------------------------------------------------------------------------
+
+-- What the join screen shows before accepting. Empty when the code doesn't exist.
+create or replace function public.preview_team_invite_code(p_code text)
+returns table (
+  team_id uuid,
+  team_name text,
+  team_tag text,
+  team_region text,
+  member_count integer,
+  expires_at timestamptz,
+  max_uses integer,
+  use_count integer,
+  is_member boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.id, t.name, t.tag, t.region,
+         (select count(*)::int from public.team_recipient_ids(t.id)),
+         c.expires_at, c.max_uses, c.use_count,
+         public.is_team_member(t.id)
+    from public.team_invite_codes c
+    join public.teams t on t.id = c.team_id
+   where c.code = upper(btrim(p_code));
+$$;
+
+create or replace function public.redeem_team_invite_code(p_code text)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.team_invite_codes;
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_code from public.team_invite_codes where code = upper(btrim(p_code)) for update;
+
+  if not found then
+    perform public.raise_scrim_error('invite_code_not_found', 'That invite code doesn''t exist.');
+  end if;
+
+  if v_code.expires_at is not null and v_code.expires_at <= now() then
+    perform public.raise_scrim_error('invite_code_expired', 'That invite code has expired.');
+  end if;
+
+  if v_code.max_uses is not null and v_code.use_count >= v_code.max_uses then
+    perform public.raise_scrim_error('invite_code_used_up', 'That invite code has been used up.');
+  end if;
+
+  if public.is_team_member(v_code.team_id) then
+    perform public.raise_scrim_error('already_team_member', 'You''re already on this team.');
+  end if;
+
+  -- Former members (left / removed / invited) come back as players
+  insert into public.team_members (team_id, user_id, status, team_role)
+  values (v_code.team_id, auth.uid(), 'active', 'player')
+  on conflict (team_id, user_id) do update set status = 'active', team_role = 'player'
+  returning * into v_member;
+
+  insert into public.team_invite_code_uses (code_id, user_id)
+  values (v_code.id, auth.uid())
+  on conflict (code_id, user_id) do update set used_at = now();
+
+  update public.team_invite_codes set use_count = use_count + 1 where id = v_code.id;
+
+  return v_member;
+end;
+$$;
+
+revoke execute on function public.generate_invite_code() from public, anon;
+revoke execute on function public.preview_team_invite_code(text) from public, anon;
+revoke execute on function public.redeem_team_invite_code(text) from public, anon;
+grant execute on function public.generate_invite_code() to authenticated;
+grant execute on function public.preview_team_invite_code(text) to authenticated;
+grant execute on function public.redeem_team_invite_code(text) to authenticated;
@@ -0,0 +1,177 @@
+-- Team invites expire and can be revoked.
+--
+-- Invites now carry an expires_at picked by the sender (7 days unless they
+-- choose otherwise; null never expires). A pending invite past its expiry can't
+-- be answered, and reads as "expired" in the apps — nothing rewrites the row.
+-- The sender, or anyone on the team with invite_members, can revoke a pending
+-- invite; the invitee is told it was withdrawn.
+--
+-- Answering goes through respond_team_invite() so the expiry check and the new
+-- membership happen together; invitees no longer update the row directly.
+-- Errors use the team error codes (see shared/data/team-errors.ts), plus:
+--
+--   invite_not_found     no such invite, or it isn't yours to answer / revoke
+--   invite_not_pending   already accepted, declined or revoked
+--   invite_expired       past its expires_at
+
+alter type public.team_invite_status add value if not exists 'revoked';
+
+-- Existing pending invites get a week from now
+alter table public.team_invites
+  add column expires_at timestamptz default (now() + interval '7 days');
+
+create index if not exists team_invites_team_id_idx on public.team_invites (team_id, created_at desc);
+
+-- Staff see everything sent for their team (the sent-invites panel)
+create policy "Team staff read their team's invites" on public.team_invites
+  for select to authenticated using (public.has_team_permission(team_id, 'invite_members'));
+
+drop policy if exists "Team staff send invites" on public.team_invites;
+create policy "Team staff send invites" on public.team_invites
+  for insert to authenticated with check (
+    invited_by = auth.uid()
+    and status = 'pending'
+    and (expires_at is null or expires_at > now())
+    and public.has_team_permission(team_id, 'invite_members')
+  );
+
+drop policy if exists "Invitees answer their invites" on public.team_invites;
+
+-- ---------------------------------------------------------------------------
+-- RPCs
+-- ---------------------------------------------------------------------------
+
+create or replace function public.respond_team_invite(p_invite_id uuid, p_accept boolean)
+returns public.team_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.team_invites;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_invite
+    from public.team_invites
+   where id = p_invite_id and invited_user_id = auth.uid()
+   for update;
+
+  if not found then
+    perform public.raise_scrim_error('invite_not_found', 'Invite not found.');
+  end if;
+
+  if v_invite.status <> 'pending' then
+    perform public.raise_scrim_error('invite_not_pending', 'This invite was already answered or revoked.');
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    perform public.raise_scrim_error('invite_expired', 'This invite has expired.');
+  end if;
+
+  if p_accept then
+    -- Former members (left / removed / invited) come back as players
+    insert into public.team_members (team_id, user_id, status, team_role)
+    values (v_invite.team_id, auth.uid(), 'active', 'player')
+    on conflict (team_id, user_id) do update
+      set status = 'active', team_role = 'player'
+      where public.team_members.status <> 'active';
+  end if;
+
+  update public.team_invites
+     set status = case when p_accept then 'accepted' else 'declined' end::public.team_invite_status,
+         responded_at = now()
+   where id = v_invite.id
+  returning * into v_invite;
+
+  return v_invite;
+end;
+$$;
+
+create or replace function public.revoke_team_invite(p_invite_id uuid)
+returns public.team_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.team_invites;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_invite from public.team_invites where id = p_invite_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('invite_not_found', 'Invite not found.');
+  end if;
+
+  if v_invite.invited_by <> auth.uid() and not public.has_team_permission(v_invite.team_id, 'invite_members') then
+    perform public.raise_scrim_error('not_permitted', 'Only the sender or team staff can revoke this invite.');
+  end if;
+
+  if v_invite.status <> 'pending' then
+    perform public.raise_scrim_error('invite_not_pending', 'This invite was already answered or revoked.');
+  end if;
+
+  update public.team_invites
+     set status = 'revoked', responded_at = now()
+   where id = v_invite.id
+  returning * into v_invite;
+
+  return v_invite;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Notifications: the invitee hears when an invite is withdrawn
+-- ---------------------------------------------------------------------------
+
+create or replace function public.team_invites_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_team text := public.team_display_name(new.team_id);
+begin
+  if tg_op = 'INSERT' then
+    if new.status = 'pending' then
+      perform public.notify_users(
+        array[new.invited_user_id],
+        'team_invite',
+        'Team invite',
+        format('%s invited you to join %s.', public.profile_display_name(new.invited_by), v_team)
+      );
+    end if;
+    return new;
+  end if;
+
+  if old.status = 'pending' and new.status::text = 'revoked' then
+    perform public.notify_users(
+      array[new.invited_user_id],
+      'team_invite',
+      'Invite withdrawn',
+      format('Your invite to %s was withdrawn.', v_team)
+    );
+  elsif old.status = 'pending' and new.status in ('accepted', 'declined') then
+    perform public.notify_users(
+      array[new.invited_by],
+      'team_invite_answered',
+      case when new.status = 'accepted' then 'Invite accepted' else 'Invite declined' end,
+      format('%s %s your invite to %s.', public.profile_display_name(new.invited_user_id), new.status, v_team)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke execute on function public.respond_team_invite(uuid, boolean) from public, anon;
+revoke execute on function public.revoke_team_invite(uuid) from public, anon;
+grant execute on function public.respond_team_invite(uuid, boolean) to authenticated;
+grant execute on function public.revoke_team_invite(uuid) to authenticated;
@@ -0,0 +1,585 @@
+-- Direct team-to-team challenges.
+--
+-- Picking an opponent when posting a scrim used to write opponent_team_id on an
+-- open scrim, which scrims_open_has_no_opponent rejects and the marketplace
+-- hides. A challenge instead names the team in challenged_team_id; the scrim
+-- stays open, off the marketplace, until that team answers:
+--
+--   pending ──► accepted     the challenged team accepts (accept_scrim) → confirmed
+--      │  ▲
+--      │  └─── host keeps the original time (answer_scrim_counter, false)
+--      ▼
+--   countered ──► accepted   the host takes the proposed time (answer_scrim_counter, true) → confirmed
+--   pending / countered ──► declined   the challenged team says no
+--
+-- The host can withdraw a challenge at any point before it's accepted; the scrim
+-- then becomes an ordinary open slot. Challenge columns only change through the
+-- RPCs below. Errors use the scrim error codes (see shared/data/scrim-errors.ts),
+-- plus:
+--
+--   challenge_not_pending   the challenge was already answered or withdrawn
+
+alter type public.notification_type add value if not exists 'scrim_challenge';
+
+create type public.scrim_challenge_status as enum ('pending', 'countered', 'accepted', 'declined');
+
+alter table public.scrims
+  add column challenged_team_id uuid references public.teams (id) on delete set null,
+  add column challenge_status public.scrim_challenge_status,
+  add column proposed_start_time timestamptz,
+  add constraint scrims_challenge_not_self check (challenged_team_id is distinct from host_team_id);
+
+create index scrims_challenged_team_id_idx on public.scrims (challenged_team_id) where challenged_team_id is not null;
+
+-- Open scrims that already named an opponent become challenges, and the open
+-- scrim rule can hold for every row again
+update public.scrims
+   set challenged_team_id = opponent_team_id, challenge_status = 'pending', opponent_team_id = null
+ where status = 'open' and opponent_team_id is not null and opponent_team_id <> host_team_id;
+update public.scrims
+   set opponent_team_id = null
+ where status = 'open' and opponent_team_id is not null;
+
+alter table public.scrims validate constraint scrims_open_has_no_opponent;
+
+-- ---------------------------------------------------------------------------
+-- Guards
+-- ---------------------------------------------------------------------------
+
+-- New challenges start pending; afterwards only the RPCs (which set
+-- app.scrim_challenge) touch the challenge columns
+create or replace function public.scrims_guard_challenge()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.challenge_status := case when new.challenged_team_id is null then null else 'pending' end;
+    new.proposed_start_time := null;
+    return new;
+  end if;
+
+  if (new.challenged_team_id, new.challenge_status, new.proposed_start_time)
+       is distinct from (old.challenged_team_id, old.challenge_status, old.proposed_start_time)
+     and auth.uid() is not null
+     and current_setting('app.scrim_challenge', true) is distinct from 'on' then
+    raise exception 'Challenges change through their own actions'
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger scrims_guard_challenge
+  before insert or update on public.scrims
+  for each row execute function public.scrims_guard_challenge();
+
+-- True while an RPC that has already checked the caller's team and role writes
+-- a scrim. The RPCs set a session flag; features that add such RPCs redefine
+-- this helper rather than the triggers that call it.
+create or replace function public.scrim_write_via_rpc()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(current_setting('app.scrim_challenge', true) = 'on', false);
+$$;
+
+-- Same as before, except that a status change from an RPC counts as system
+-- (see scrim_write_via_rpc), and may also set the opponent
+create or replace function public.scrims_enforce_lifecycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_actor text;
+  v_actor_team uuid;
+  v_guest_team uuid;
+  v_permission text;
+begin
+  if tg_op = 'INSERT' then
+    if v_uid is not null and new.status <> 'open' then
+      raise exception 'New scrims must start as open (got %)', new.status
+        using errcode = 'P0001', hint = 'invalid_transition';
+    end if;
+    return new;
+  end if;
+
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if v_uid is null or public.scrim_write_via_rpc() then
+    v_actor := 'system';
+  elsif public.is_team_member(old.host_team_id, v_uid) then
+    v_actor := 'host';
+    v_actor_team := old.host_team_id;
+  else
+    -- Taking a slot sets opponent_team_id in the same update
+    v_guest_team := case when old.status = 'open' then new.opponent_team_id else old.opponent_team_id end;
+    if public.is_team_member(v_guest_team, v_uid) then
+      v_actor := 'guest';
+      v_actor_team := v_guest_team;
+    end if;
+  end if;
+
+  if v_actor is null then
+    raise exception 'Not a member of either team on this scrim'
+      using errcode = 'P0001', hint = 'not_team_member';
+  end if;
+
+  if not public.scrim_transition_allowed(old.status, new.status, v_actor) then
+    raise exception 'Scrim cannot go from % to % (%)', old.status, new.status, v_actor
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  -- Starting / finishing a match is open to every member
+  v_permission := case
+    when new.status = 'cancelled' then 'cancel_scrims'
+    when v_actor = 'guest' and new.status = 'open' then 'cancel_scrims'
+    when new.status in ('requested', 'confirmed', 'open') then 'accept_scrims'
+  end;
+
+  if v_actor <> 'system' and v_permission is not null
+     and not public.has_team_permission(v_actor_team, v_permission, v_uid) then
+    raise exception 'Your team role can''t do that (%)', v_permission
+      using errcode = 'P0001', hint = 'not_permitted';
+  end if;
+
+  -- The guest team is fixed once a slot is taken
+  if old.status <> 'open' and new.status <> 'open'
+     and new.opponent_team_id is distinct from old.opponent_team_id
+     and not public.scrim_write_via_rpc() then
+    raise exception 'Opponent team cannot change once the scrim is taken'
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Taking a challenged slot
+-- ---------------------------------------------------------------------------
+
+-- Same checks as before; a challenged slot is only for the challenged team
+create or replace function public.lock_open_scrim_for_guest(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not public.is_team_member(p_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  if not public.has_team_permission(p_team_id, 'accept_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t take scrims.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if v_scrim.host_team_id = p_team_id then
+    perform public.raise_scrim_error('own_scrim', 'You can''t take your own team''s scrim.');
+  end if;
+
+  if v_scrim.status in ('requested', 'confirmed', 'in_progress', 'completed') then
+    perform public.raise_scrim_error('scrim_taken', 'Another team already took this scrim.');
+  end if;
+
+  if v_scrim.status <> 'open' then
+    perform public.raise_scrim_error('invalid_transition', format('This scrim is %s.', v_scrim.status));
+  end if;
+
+  if v_scrim.challenged_team_id is not null and v_scrim.challenged_team_id <> p_team_id then
+    perform public.raise_scrim_error('scrim_taken', 'This scrim is a challenge for another team.');
+  end if;
+
+  if v_scrim.challenge_status = 'declined' then
+    perform public.raise_scrim_error('challenge_not_pending', 'You already declined this challenge.');
+  end if;
+
+  if v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'This scrim has already started.');
+  end if;
+
+  return v_scrim;
+end;
+$$;
+
+-- Instant accept: open → confirmed. For a challenge this is the challenged team
+-- accepting the host's time (even with a counter-proposal outstanding).
+create or replace function public.accept_scrim(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  v_scrim := public.lock_open_scrim_for_guest(p_scrim_id, p_team_id);
+
+  if v_scrim.challenged_team_id is not null then
+    perform set_config('app.scrim_challenge', 'on', true);
+  end if;
+
+  update public.scrims
+     set status = 'confirmed',
+         opponent_team_id = p_team_id,
+         challenge_status = case when challenged_team_id is null then null else 'accepted' end::public.scrim_challenge_status,
+         proposed_start_time = null
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Ask the host first: open → requested. A challenge is answered, not requested.
+create or replace function public.request_scrim(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  v_scrim := public.lock_open_scrim_for_guest(p_scrim_id, p_team_id);
+
+  if v_scrim.challenged_team_id is not null then
+    perform public.raise_scrim_error('invalid_transition', 'Accept or decline the challenge instead.');
+  end if;
+
+  update public.scrims
+     set status = 'requested', opponent_team_id = p_team_id
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Challenge RPCs
+-- ---------------------------------------------------------------------------
+
+-- Locks an open, upcoming challenge and checks the caller can act for p_side
+-- ('challenged' or 'host') with p_permission
+create or replace function public.lock_scrim_challenge(p_scrim_id uuid, p_side text, p_permission text)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_team uuid;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found or v_scrim.challenged_team_id is null then
+    perform public.raise_scrim_error('scrim_not_found', 'Challenge not found.');
+  end if;
+
+  v_team := case when p_side = 'host' then v_scrim.host_team_id else v_scrim.challenged_team_id end;
+
+  if not public.is_team_member(v_team) then
+    perform public.raise_scrim_error(
+      case when p_side = 'host' then 'not_host' else 'not_team_member' end,
+      case when p_side = 'host' then 'Only the host team can do this.' else 'This challenge is for another team.' end
+    );
+  end if;
+
+  if not public.has_team_permission(v_team, p_permission) then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t answer challenges.');
+  end if;
+
+  if v_scrim.status <> 'open' or v_scrim.challenge_status not in ('pending', 'countered') then
+    perform public.raise_scrim_error('challenge_not_pending', 'This challenge was already answered or withdrawn.');
+  end if;
+
+  if v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'This scrim has already started.');
+  end if;
+
+  perform set_config('app.scrim_challenge', 'on', true);
+  return v_scrim;
+end;
+$$;
+
+-- Challenged team: no thanks. The scrim stays with the host, off the marketplace.
+create or replace function public.decline_scrim_challenge(p_scrim_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  perform public.lock_scrim_challenge(p_scrim_id, 'challenged', 'accept_scrims');
+
+  update public.scrims
+     set challenge_status = 'declined', proposed_start_time = null
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Challenged team: propose another start time (replaces any earlier proposal)
+create or replace function public.counter_scrim_challenge(p_scrim_id uuid, p_start_time timestamptz)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  v_scrim := public.lock_scrim_challenge(p_scrim_id, 'challenged', 'accept_scrims');
+
+  if p_start_time is null or p_start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'Pick a start time in the future.');
+  end if;
+
+  if p_start_time = v_scrim.start_time then
+    perform public.raise_scrim_error('invalid_transition', 'That''s the time already on the scrim — accept it instead.');
+  end if;
+
+  update public.scrims
+     set challenge_status = 'countered', proposed_start_time = p_start_time
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Host: take the proposed time (confirms the scrim) or keep the original one
+create or replace function public.answer_scrim_counter(p_scrim_id uuid, p_accept boolean)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  v_scrim := public.lock_scrim_challenge(p_scrim_id, 'host', 'accept_scrims');
+
+  if v_scrim.challenge_status <> 'countered' then
+    perform public.raise_scrim_error('challenge_not_pending', 'There''s no proposed time to answer.');
+  end if;
+
+  if not p_accept then
+    update public.scrims
+       set challenge_status = 'pending', proposed_start_time = null
+     where id = p_scrim_id
+    returning * into v_scrim;
+
+    return v_scrim;
+  end if;
+
+  if v_scrim.proposed_start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'The proposed time has already passed.');
+  end if;
+
+  update public.scrims
+     set start_time = proposed_start_time,
+         end_time = proposed_start_time + (end_time - start_time),
+         status = 'confirmed',
+         opponent_team_id = challenged_team_id,
+         challenge_status = 'accepted',
+         proposed_start_time = null
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Host: take the challenge back; the scrim becomes an ordinary open slot.
+-- Declined challenges can be withdrawn too, to post the slot for everyone.
+create or replace function public.withdraw_scrim_challenge(p_scrim_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found or v_scrim.challenged_team_id is null or v_scrim.status <> 'open' then
+    perform public.raise_scrim_error('challenge_not_pending', 'This challenge was already answered or withdrawn.');
+  end if;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can withdraw a challenge.');
+  end if;
+
+  if not public.has_team_permission(v_scrim.host_team_id, 'post_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t post scrims.');
+  end if;
+
+  perform set_config('app.scrim_challenge', 'on', true);
+
+  update public.scrims
+     set challenged_team_id = null, challenge_status = null, proposed_start_time = null
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Notifications
+-- ---------------------------------------------------------------------------
+
+-- Same as before, plus the scrim the notification is about (for "View scrim")
+drop function if exists public.notify_users(uuid[], public.notification_type, text, text);
+
+create or replace function public.notify_users(
+  p_user_ids uuid[],
+  p_type public.notification_type,
+  p_title text,
+  p_body text,
+  p_scrim_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, type, title, body, scrim_id)
+  select distinct r.user_id, p_type, p_title, p_body, p_scrim_id
+    from unnest(p_user_ids) as r(user_id)
+   where r.user_id is not null
+     and r.user_id is distinct from auth.uid()
+     and public.wants_notification(r.user_id, p_type);
+end;
+$$;
+
+-- Accepting is covered by the "Scrim confirmed" notification
+create or replace function public.scrims_notify_challenge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_host text := public.team_display_name(new.host_team_id);
+  v_when text := to_char(new.start_time at time zone 'UTC', 'Mon DD, HH24:MI "UTC"');
+begin
+  if tg_op = 'INSERT' then
+    if new.challenged_team_id is not null then
+      perform public.notify_users(
+        array(select public.team_recipient_ids(new.challenged_team_id)),
+        'scrim_challenge',
+        'Scrim challenge',
+        format('%s challenged you to a scrim on %s.', v_host, v_when),
+        new.id
+      );
+    end if;
+    return null;
+  end if;
+
+  -- Withdrawn by the host
+  if old.challenged_team_id is not null and new.challenged_team_id is null then
+    if old.challenge_status in ('pending', 'countered') then
+      perform public.notify_users(
+        array(select public.team_recipient_ids(old.challenged_team_id)),
+        'scrim_challenge',
+        'Challenge withdrawn',
+        format('%s withdrew their scrim challenge for %s.', v_host, v_when),
+        new.id
+      );
+    end if;
+    return null;
+  end if;
+
+  if new.challenge_status is not distinct from old.challenge_status
+     and new.proposed_start_time is not distinct from old.proposed_start_time then
+    return null;
+  end if;
+
+  if new.challenge_status = 'countered' then
+    perform public.notify_users(
+      array(select public.team_recipient_ids(new.host_team_id)),
+      'scrim_challenge',
+      'New time proposed',
+      format(
+        '%s proposed %s instead of %s.',
+        public.team_display_name(new.challenged_team_id),
+        to_char(new.proposed_start_time at time zone 'UTC', 'Mon DD, HH24:MI "UTC"'),
+        v_when
+      ),
+      new.id
+    );
+  elsif new.challenge_status = 'declined' then
+    perform public.notify_users(
+      array(select public.team_recipient_ids(new.host_team_id)),
+      'scrim_challenge',
+      'Challenge declined',
+      format('%s declined your scrim challenge for %s.', public.team_display_name(new.challenged_team_id), v_when),
+      new.id
+    );
+  elsif new.challenge_status = 'pending' and old.challenge_status = 'countered' then
+    perform public.notify_users(
+      array(select public.team_recipient_ids(new.challenged_team_id)),
+      'scrim_challenge',
+      'Original time kept',
+      format('%s kept the original time for their challenge: %s.', v_host, v_when),
+      new.id
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger scrims_notify_challenge
+  after insert or update of challenged_team_id, challenge_status, proposed_start_time on public.scrims
+  for each row execute function public.scrims_notify_challenge();
+
+revoke execute on function public.lock_scrim_challenge(uuid, text, text) from public, anon, authenticated;
+revoke execute on function public.notify_users(uuid[], public.notification_type, text, text, uuid) from public, anon, authenticated;
+revoke execute on function public.decline_scrim_challenge(uuid) from public, anon;
+revoke execute on function public.counter_scrim_challenge(uuid, timestamptz) from public, anon;
+revoke execute on function public.answer_scrim_counter(uuid, boolean) from public, anon;
+revoke execute on function public.withdraw_scrim_challenge(uuid) from public, anon;
+grant execute on function public.decline_scrim_challenge(uuid) to authenticated;
+grant execute on function public.counter_scrim_challenge(uuid, timestamptz) to authenticated;
+grant execute on function public.answer_scrim_counter(uuid, boolean) to authenticated;
+grant execute on function public.withdraw_scrim_challenge(uuid) to authenticated;
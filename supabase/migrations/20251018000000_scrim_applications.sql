@@ -0,0 +1,455 @@
+-- Host approval for open scrims.
+--
+-- A host can post a scrim with requires_approval. Nobody can take it outright;
+-- teams ask to play instead (apply_for_scrim), which moves the scrim to
+-- requested with no opponent yet and a list of applicants in scrim_applications.
+-- The host compares the applicants (region, stated tier, record) and picks one
+-- (choose_scrim_applicant): the scrim is confirmed against that team and every
+-- other applicant is turned down and told so. Applicants can withdraw while
+-- pending; once nobody is left the scrim goes back to open.
+--
+--   pending ──► accepted    the host picked this team
+--      │    ──► rejected    the host picked another team, or the scrim was
+--      │                    cancelled / expired
+--      └──────► withdrawn   the applicant changed its mind (can ask again)
+--
+-- Errors use the scrim error codes (see shared/data/scrim-errors.ts), plus:
+--
+--   approval_required         the host approves teams first — ask instead
+--   already_applied           the team already has a pending request
+--   application_not_pending   the request was already answered or withdrawn
+
+alter type public.notification_type add value if not exists 'scrim_application';
+
+create type public.scrim_application_status as enum ('pending', 'accepted', 'rejected', 'withdrawn');
+
+alter table public.scrims
+  add column requires_approval boolean not null default false,
+  add constraint scrims_approval_not_challenge check (not (requires_approval and challenged_team_id is not null));
+
+-- A scrim collecting requests is requested without an opponent yet
+alter table public.scrims drop constraint if exists scrims_matched_has_opponent;
+alter table public.scrims
+  add constraint scrims_matched_has_opponent
+  check (
+    opponent_team_id is not null
+    or status not in ('requested', 'confirmed', 'in_progress', 'completed')
+    or (status = 'requested' and requires_approval)
+  ) not valid;
+
+create table public.scrim_applications (
+  id uuid primary key default gen_random_uuid(),
+  scrim_id uuid not null references public.scrims (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  applied_by uuid not null references auth.users (id) on delete cascade,
+  status public.scrim_application_status not null default 'pending',
+  tier text,
+  message text check (char_length(message) <= 280),
+  created_at timestamptz not null default now(),
+  responded_at timestamptz,
+  unique (scrim_id, team_id)
+);
+
+create index scrim_applications_team_id_idx on public.scrim_applications (team_id, created_at desc);
+
+alter table public.scrim_applications enable row level security;
+
+-- The host sees every request on its scrims, applicants see their own; only the
+-- RPCs below write
+create policy "Hosts and applicants read scrim applications" on public.scrim_applications
+  for select to authenticated using (
+    public.is_team_member(team_id)
+    or exists (select 1 from public.scrims s where s.id = scrim_id and public.is_team_member(s.host_team_id))
+  );
+
+-- ---------------------------------------------------------------------------
+-- Lifecycle: an application RPC's status change counts as system, and may set
+-- the opponent on a requested scrim that has none yet
+-- ---------------------------------------------------------------------------
+
+create or replace function public.scrim_write_via_rpc()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    current_setting('app.scrim_challenge', true) = 'on'
+      or current_setting('app.scrim_application', true) = 'on',
+    false
+  );
+$$;
+
+-- Cancelled / expired scrims turn their waiting applicants down
+create or replace function public.scrims_close_applications()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status in ('cancelled', 'expired') and old.status is distinct from new.status then
+    update public.scrim_applications
+       set status = 'rejected', responded_at = now()
+     where scrim_id = new.id and status = 'pending';
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger scrims_close_applications
+  after update of status on public.scrims
+  for each row execute function public.scrims_close_applications();
+
+-- ---------------------------------------------------------------------------
+-- Taking a slot: approval scrims are asked for, not taken
+-- ---------------------------------------------------------------------------
+
+create or replace function public.accept_scrim(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  v_scrim := public.lock_open_scrim_for_guest(p_scrim_id, p_team_id);
+
+  if v_scrim.requires_approval then
+    perform public.raise_scrim_error('approval_required', 'The host approves teams for this scrim — ask to play instead.');
+  end if;
+
+  if v_scrim.challenged_team_id is not null then
+    perform set_config('app.scrim_challenge', 'on', true);
+  end if;
+
+  update public.scrims
+     set status = 'confirmed',
+         opponent_team_id = p_team_id,
+         challenge_status = case when challenged_team_id is null then null else 'accepted' end::public.scrim_challenge_status,
+         proposed_start_time = null
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+create or replace function public.request_scrim(p_scrim_id uuid, p_team_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  v_scrim := public.lock_open_scrim_for_guest(p_scrim_id, p_team_id);
+
+  if v_scrim.challenged_team_id is not null then
+    perform public.raise_scrim_error('invalid_transition', 'Accept or decline the challenge instead.');
+  end if;
+
+  if v_scrim.requires_approval then
+    perform public.raise_scrim_error('approval_required', 'The host approves teams for this scrim — ask to play instead.');
+  end if;
+
+  update public.scrims
+     set status = 'requested', opponent_team_id = p_team_id
+   where id = p_scrim_id
+  returning * into v_scrim;
+
+  return v_scrim;
+end;
+$$;
+
+-- Applicants can line up while they wait, so a pick can pass the lineup check
+create or replace function public.scrim_lineup_team_allowed(p_scrim public.scrims, p_team_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    p_team_id = p_scrim.host_team_id
+      or p_team_id = p_scrim.opponent_team_id
+      or (
+        p_scrim.opponent_team_id is null
+        and (p_scrim.status = 'open' or (p_scrim.status = 'requested' and p_scrim.requires_approval))
+      ),
+    false
+  );
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Application RPCs
+-- ---------------------------------------------------------------------------
+
+-- Ask to play: the first request moves the scrim from open to requested
+create or replace function public.apply_for_scrim(
+  p_scrim_id uuid,
+  p_team_id uuid,
+  p_tier text default null,
+  p_message text default null
+)
+returns public.scrim_applications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_application public.scrim_applications;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not public.is_team_member(p_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  if not public.has_team_permission(p_team_id, 'accept_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t take scrims.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if v_scrim.host_team_id = p_team_id then
+    perform public.raise_scrim_error('own_scrim', 'You can''t take your own team''s scrim.');
+  end if;
+
+  if not v_scrim.requires_approval then
+    perform public.raise_scrim_error('invalid_transition', 'This scrim doesn''t need the host''s approval — accept it instead.');
+  end if;
+
+  if v_scrim.status not in ('open', 'requested') or v_scrim.opponent_team_id is not null then
+    perform public.raise_scrim_error('scrim_taken', 'Another team already took this scrim.');
+  end if;
+
+  if v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'This scrim has already started.');
+  end if;
+
+  if exists (
+    select 1 from public.scrim_applications
+     where scrim_id = p_scrim_id and team_id = p_team_id and status = 'pending'
+  ) then
+    perform public.raise_scrim_error('already_applied', 'Your team already asked to play this scrim.');
+  end if;
+
+  -- Withdrawn requests can be sent again
+  insert into public.scrim_applications (scrim_id, team_id, applied_by, tier, message)
+  values (p_scrim_id, p_team_id, auth.uid(), nullif(btrim(p_tier), ''), nullif(btrim(p_message), ''))
+  on conflict (scrim_id, team_id) do update
+    set status = 'pending',
+        applied_by = excluded.applied_by,
+        tier = excluded.tier,
+        message = excluded.message,
+        created_at = now(),
+        responded_at = null
+  returning * into v_application;
+
+  if v_scrim.status = 'open' then
+    perform set_config('app.scrim_application', 'on', true);
+    update public.scrims set status = 'requested' where id = p_scrim_id;
+  end if;
+
+  return v_application;
+end;
+$$;
+
+-- Applicant: take the request back. With nobody left waiting the scrim reopens.
+create or replace function public.withdraw_scrim_application(p_application_id uuid)
+returns public.scrim_applications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_application public.scrim_applications;
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_application from public.scrim_applications where id = p_application_id;
+
+  if not found or not public.is_team_member(v_application.team_id) then
+    perform public.raise_scrim_error('scrim_not_found', 'Request not found.');
+  end if;
+
+  if not public.has_team_permission(v_application.team_id, 'accept_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t take scrims.');
+  end if;
+
+  -- Scrim first, same order as the other scrim actions
+  select * into v_scrim from public.scrims where id = v_application.scrim_id for update;
+  select * into v_application from public.scrim_applications where id = p_application_id for update;
+
+  if v_application.status <> 'pending' then
+    perform public.raise_scrim_error('application_not_pending', 'This request was already answered or withdrawn.');
+  end if;
+
+  update public.scrim_applications
+     set status = 'withdrawn', responded_at = now()
+   where id = p_application_id
+  returning * into v_application;
+
+  if v_scrim.status = 'requested' and v_scrim.opponent_team_id is null
+     and not exists (
+       select 1 from public.scrim_applications where scrim_id = v_scrim.id and status = 'pending'
+     ) then
+    perform set_config('app.scrim_application', 'on', true);
+    update public.scrims set status = 'open' where id = v_scrim.id;
+  end if;
+
+  return v_application;
+end;
+$$;
+
+-- Host: play this team. Confirms the scrim and turns every other applicant down.
+create or replace function public.choose_scrim_applicant(p_application_id uuid)
+returns public.scrims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_application public.scrim_applications;
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_application from public.scrim_applications where id = p_application_id;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Request not found.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = v_application.scrim_id for update;
+  select * into v_application from public.scrim_applications where id = p_application_id for update;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can pick an opponent.');
+  end if;
+
+  if not public.has_team_permission(v_scrim.host_team_id, 'accept_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t confirm scrims.');
+  end if;
+
+  if v_application.status <> 'pending' then
+    perform public.raise_scrim_error('application_not_pending', 'This request was already answered or withdrawn.');
+  end if;
+
+  if v_scrim.status not in ('open', 'requested') or v_scrim.opponent_team_id is not null then
+    perform public.raise_scrim_error('invalid_transition', format('This scrim is %s.', v_scrim.status));
+  end if;
+
+  if v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'This scrim has already started.');
+  end if;
+
+  update public.scrim_applications
+     set status = 'accepted', responded_at = now()
+   where id = p_application_id;
+
+  perform set_config('app.scrim_application', 'on', true);
+
+  update public.scrims
+     set status = 'confirmed', opponent_team_id = v_application.team_id
+   where id = v_scrim.id
+  returning * into v_scrim;
+
+  -- After the confirm, so the notification can say another team was picked
+  update public.scrim_applications
+     set status = 'rejected', responded_at = now()
+   where scrim_id = v_scrim.id and status = 'pending';
+
+  return v_scrim;
+end;
+$$;
+
+-- Played vs dropped scrims per team, for comparing applicants. Only the host can
+-- cancel, so a cancelled scrim counts against the host that had an opponent.
+create or replace function public.team_scrim_records(p_team_ids uuid[])
+returns table (team_id uuid, completed integer, cancelled integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.id,
+         (count(s.id) filter (where s.status = 'completed'))::integer,
+         (count(s.id) filter (
+           where s.status = 'cancelled' and s.host_team_id = t.id and s.opponent_team_id is not null
+         ))::integer
+    from unnest(p_team_ids) as t(id)
+    left join public.scrims s on t.id in (s.host_team_id, s.opponent_team_id)
+   group by t.id;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Notifications: the host hears about new requests, applicants about the outcome
+-- (a pick is covered by "Scrim confirmed")
+-- ---------------------------------------------------------------------------
+
+create or replace function public.scrim_applications_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_host text;
+  v_when text;
+begin
+  select * into v_scrim from public.scrims where id = new.scrim_id;
+  v_host := public.team_display_name(v_scrim.host_team_id);
+  v_when := to_char(v_scrim.start_time at time zone 'UTC', 'Mon DD, HH24:MI "UTC"');
+
+  if new.status = 'pending' and (tg_op = 'INSERT' or old.status <> 'pending') then
+    perform public.notify_users(
+      array(select public.team_recipient_ids(v_scrim.host_team_id)),
+      'scrim_application',
+      'New scrim request',
+      format('%s asked to play your scrim on %s.', public.team_display_name(new.team_id), v_when),
+      new.scrim_id
+    );
+  elsif tg_op = 'UPDATE' and old.status = 'pending' and new.status = 'rejected' then
+    perform public.notify_users(
+      array(select public.team_recipient_ids(new.team_id)),
+      'scrim_application',
+      'Scrim request declined',
+      case
+        when v_scrim.status = 'confirmed' then format('%s picked another team for their scrim on %s.', v_host, v_when)
+        else format('%s''s scrim on %s is no longer available.', v_host, v_when)
+      end,
+      new.scrim_id
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger scrim_applications_notify
+  after insert or update of status on public.scrim_applications
+  for each row execute function public.scrim_applications_notify();
+
+revoke execute on function public.apply_for_scrim(uuid, uuid, text, text) from public, anon;
+revoke execute on function public.withdraw_scrim_application(uuid) from public, anon;
+revoke execute on function public.choose_scrim_applicant(uuid) from public, anon;
+revoke execute on function public.team_scrim_records(uuid[]) from public, anon;
+grant execute on function public.apply_for_scrim(uuid, uuid, text, text) to authenticated;
+grant execute on function public.withdraw_scrim_application(uuid) to authenticated;
+grant execute on function public.choose_scrim_applicant(uuid) to authenticated;
+grant execute on function public.team_scrim_records(uuid[]) to authenticated;
@@ -0,0 +1,364 @@
+-- Recurring scrim slots.
+--
+-- A series is a weekly rule (chosen weekdays, until a date or for a number of
+-- scrims) that posts one ordinary scrims row per occurrence, linked through
+-- scrims.series_id. Every occurrence starts at the same wall-clock time in the
+-- series time zone, so a 7 PM block stays at 7 PM across daylight saving
+-- changes and its UTC start_time moves instead. A wall-clock time skipped by a
+-- spring-forward change lands an hour later, as Postgres resolves it.
+--
+-- Once posted, each occurrence has its own lifecycle (taken, requested,
+-- cancelled…). The series is what lets the host edit or cancel "this and all
+-- future" occurrences in one go; occurrences another team has already taken
+-- keep their time. Errors use the scrim error codes (see
+-- shared/data/scrim-errors.ts), plus:
+--
+--   series_invalid   the recurrence rule can't be posted as given
+--   scrim_invalid    the edited time, length, tier or notes aren't valid
+--   scrim_locked     only open occurrences that haven't started can be edited
+
+create table public.scrim_series (
+  id uuid primary key default gen_random_uuid(),
+  host_team_id uuid not null references public.teams (id) on delete cascade,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  -- 0 = Sunday … 6 = Saturday, as extract(dow) and Date.getDay() count them
+  weekdays smallint[] not null,
+  local_start time not null,
+  time_zone text not null,
+  until_date date,
+  occurrence_count integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint scrim_series_weekdays check (
+    cardinality(weekdays) between 1 and 7 and weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]
+  ),
+  constraint scrim_series_one_end check ((until_date is null) <> (occurrence_count is null)),
+  constraint scrim_series_count check (occurrence_count between 1 and 52)
+);
+
+create index scrim_series_host_team_id_idx on public.scrim_series (host_team_id);
+
+alter table public.scrims
+  add column series_id uuid,
+  -- Named explicitly: the apps join through it (series:scrim_series!scrims_series_id_fkey)
+  add constraint scrims_series_id_fkey foreign key (series_id) references public.scrim_series (id) on delete set null;
+
+create index scrims_series_id_idx on public.scrims (series_id, start_time) where series_id is not null;
+
+alter table public.scrim_series enable row level security;
+
+-- Readable like the scrims they post; only the RPCs below write
+create policy "Scrim series are readable by signed-in users" on public.scrim_series
+  for select to authenticated using (true);
+
+-- An occurrence's start: the series' wall-clock time on that local date
+create or replace function public.scrim_series_start(p_local_date date, p_local_start time, p_time_zone text)
+returns timestamptz
+language sql
+stable
+as $$
+  select (p_local_date + p_local_start) at time zone p_time_zone;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Posting a series
+-- ---------------------------------------------------------------------------
+
+-- p_scrim is the same insert the apps build for a single slot (buildScrimSlot
+-- in shared/scrim-types.ts); its start_time is the first occurrence and fixes
+-- the wall-clock time. Occurrences run from that local date on the picked
+-- weekdays until p_until_date (inclusive) or for p_occurrence_count scrims.
+create or replace function public.create_scrim_series(
+  p_scrim jsonb,
+  p_weekdays smallint[],
+  p_until_date date default null,
+  p_occurrence_count integer default null
+)
+returns public.scrim_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.scrims := jsonb_populate_record(null::public.scrims, p_scrim);
+  v_series public.scrim_series;
+  v_first timestamp;
+  v_last_date date;
+  v_day date;
+  v_start timestamptz;
+  v_length interval;
+  v_posted integer := 0;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if v_template.host_team_id is null or not public.is_team_member(v_template.host_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  if not public.has_team_permission(v_template.host_team_id, 'post_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t post scrims.');
+  end if;
+
+  if v_template.challenged_team_id is not null then
+    perform public.raise_scrim_error('series_invalid', 'Challenge a team one scrim at a time; recurring slots go to Scrim Center.');
+  end if;
+
+  if v_template.time_zone is null or not exists (select 1 from pg_timezone_names where name = v_template.time_zone) then
+    perform public.raise_scrim_error('series_invalid', 'Recurring scrims need a valid time zone.');
+  end if;
+
+  if coalesce(cardinality(p_weekdays), 0) = 0 or not p_weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[] then
+    perform public.raise_scrim_error('series_invalid', 'Pick at least one weekday.');
+  end if;
+
+  if (p_until_date is null) = (p_occurrence_count is null) then
+    perform public.raise_scrim_error('series_invalid', 'End the series on a date or after a number of scrims.');
+  end if;
+
+  if p_occurrence_count is not null and p_occurrence_count not between 1 and 52 then
+    perform public.raise_scrim_error('series_invalid', 'A series can post between 1 and 52 scrims.');
+  end if;
+
+  if v_template.start_time is null or v_template.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'Start time must be in the future.');
+  end if;
+
+  v_first := v_template.start_time at time zone v_template.time_zone;
+  v_length := v_template.end_time - v_template.start_time;
+
+  if p_until_date < v_first::date then
+    perform public.raise_scrim_error('series_invalid', 'The end date is before the first scrim.');
+  end if;
+
+  -- At most a year of occurrences either way
+  v_last_date := least(coalesce(p_until_date, v_first::date + 364), v_first::date + 364);
+
+  insert into public.scrim_series (
+    host_team_id, created_by, weekdays, local_start, time_zone, until_date, occurrence_count
+  )
+  values (
+    v_template.host_team_id,
+    auth.uid(),
+    (select array_agg(distinct d order by d) from unnest(p_weekdays) d),
+    v_first::time,
+    v_template.time_zone,
+    p_until_date,
+    p_occurrence_count
+  )
+  returning * into v_series;
+
+  for v_day in select d::date from generate_series(v_first::date, v_last_date, interval '1 day') d loop
+    exit when v_posted = p_occurrence_count;
+    continue when extract(dow from v_day)::smallint <> all (v_series.weekdays);
+
+    if v_posted = 52 then
+      perform public.raise_scrim_error('series_invalid', 'A series can post at most 52 scrims — pick an earlier end date.');
+    end if;
+
+    v_start := public.scrim_series_start(v_day, v_series.local_start, v_series.time_zone);
+
+    insert into public.scrims (
+      host_team_id, requires_approval, status, region, tier, modes, scrim_type,
+      start_time, end_time, time_zone, duration_minutes, notes, min_lineup_size,
+      created_by, series_id
+    )
+    values (
+      v_template.host_team_id, coalesce(v_template.requires_approval, false), 'open', v_template.region,
+      v_template.tier, v_template.modes, v_template.scrim_type,
+      v_start, v_start + v_length, v_series.time_zone, v_template.duration_minutes, v_template.notes,
+      v_template.min_lineup_size, auth.uid(), v_series.id
+    );
+
+    v_posted := v_posted + 1;
+  end loop;
+
+  if v_posted = 0 then
+    perform public.raise_scrim_error('series_invalid', 'None of the picked weekdays fall before the end date.');
+  end if;
+
+  return v_series;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Editing and cancelling occurrences
+-- ---------------------------------------------------------------------------
+
+-- Host: move an open occurrence and/or change its length, tier and notes.
+-- p_scope 'this' changes only this scrim (series or not); 'future' also
+-- changes every later open occurrence of its series, moving each by the same
+-- number of days and to the new wall-clock time. Returns how many scrims
+-- changed; later occurrences that are already taken keep their time.
+create or replace function public.edit_scrim_occurrences(
+  p_scrim_id uuid,
+  p_scope text,
+  p_start_time timestamptz,
+  p_duration_minutes integer,
+  p_tier text default null,
+  p_notes text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_series public.scrim_series;
+  v_old_local timestamp;
+  v_new_local timestamp;
+  v_shift integer;
+  v_notes text := nullif(btrim(p_notes), '');
+  v_changed integer;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can edit this scrim.');
+  end if;
+
+  if not public.has_team_permission(v_scrim.host_team_id, 'post_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t edit scrims.');
+  end if;
+
+  if p_scope not in ('this', 'future') then
+    perform public.raise_scrim_error('scrim_invalid', 'Edit this scrim or this and all future scrims.');
+  end if;
+
+  if p_scope = 'future' and v_scrim.series_id is null then
+    perform public.raise_scrim_error('scrim_invalid', 'This scrim isn''t part of a series.');
+  end if;
+
+  -- Challenges move through counter-proposals; requested / taken scrims involve another team
+  if v_scrim.status <> 'open' or v_scrim.challenged_team_id is not null or v_scrim.start_time <= now() then
+    perform public.raise_scrim_error('scrim_locked', 'Only open slots that haven''t started can be edited.');
+  end if;
+
+  if p_start_time is null or p_start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'Pick a start time in the future.');
+  end if;
+
+  if p_duration_minutes is null or p_duration_minutes not between 15 and 480 then
+    perform public.raise_scrim_error('scrim_invalid', 'Duration must be between 15 minutes and 8 hours.');
+  end if;
+
+  if char_length(v_notes) > 500 then
+    perform public.raise_scrim_error('scrim_invalid', 'Notes must be 500 characters or fewer.');
+  end if;
+
+  if p_scope = 'this' then
+    update public.scrims
+       set start_time = p_start_time,
+           end_time = p_start_time + make_interval(mins => p_duration_minutes),
+           duration_minutes = p_duration_minutes,
+           tier = nullif(btrim(p_tier), ''),
+           notes = v_notes,
+           updated_at = now()
+     where id = p_scrim_id;
+
+    return 1;
+  end if;
+
+  select * into v_series from public.scrim_series where id = v_scrim.series_id for update;
+
+  -- Same day shift and new wall-clock time for every later occurrence, each on
+  -- its own local date so DST is applied per occurrence
+  v_old_local := v_scrim.start_time at time zone v_series.time_zone;
+  v_new_local := p_start_time at time zone v_series.time_zone;
+  v_shift := v_new_local::date - v_old_local::date;
+
+  update public.scrims s
+     set start_time = public.scrim_series_start(
+           (s.start_time at time zone v_series.time_zone)::date + v_shift, v_new_local::time, v_series.time_zone
+         ),
+         end_time = public.scrim_series_start(
+           (s.start_time at time zone v_series.time_zone)::date + v_shift, v_new_local::time, v_series.time_zone
+         ) + make_interval(mins => p_duration_minutes),
+         duration_minutes = p_duration_minutes,
+         tier = nullif(btrim(p_tier), ''),
+         notes = v_notes,
+         updated_at = now()
+   where s.series_id = v_series.id
+     and s.start_time >= v_scrim.start_time
+     and s.status = 'open'
+     and s.challenged_team_id is null;
+
+  get diagnostics v_changed = row_count;
+
+  update public.scrim_series
+     set local_start = v_new_local::time,
+         weekdays = (
+           select array_agg(distinct (((d + v_shift) % 7 + 7) % 7)::smallint order by (((d + v_shift) % 7 + 7) % 7)::smallint)
+             from unnest(weekdays) d
+         ),
+         updated_at = now()
+   where id = v_series.id;
+
+  return v_changed;
+end;
+$$;
+
+-- Host: cancel this occurrence and every later one in its series that can
+-- still be cancelled (a taken one's opponent is told, as with cancel_scrim).
+-- Returns how many scrims were cancelled.
+create or replace function public.cancel_scrim_series(p_scrim_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+  v_cancelled integer;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id for update;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can cancel this scrim.');
+  end if;
+
+  if v_scrim.series_id is null then
+    perform public.raise_scrim_error('scrim_invalid', 'This scrim isn''t part of a series.');
+  end if;
+
+  if not public.scrim_transition_allowed(v_scrim.status, 'cancelled', 'host') then
+    perform public.raise_scrim_error('invalid_transition', format('A %s scrim can''t be cancelled.', v_scrim.status));
+  end if;
+
+  -- The lifecycle trigger checks the caller's cancel_scrims permission per row
+  update public.scrims
+     set status = 'cancelled'
+   where series_id = v_scrim.series_id
+     and start_time >= v_scrim.start_time
+     and (id = p_scrim_id or start_time > now())
+     and public.scrim_transition_allowed(status, 'cancelled', 'host');
+
+  get diagnostics v_cancelled = row_count;
+  return v_cancelled;
+end;
+$$;
+
+revoke execute on function public.create_scrim_series(jsonb, smallint[], date, integer) from public, anon;
+revoke execute on function public.edit_scrim_occurrences(uuid, text, timestamptz, integer, text, text) from public, anon;
+revoke execute on function public.cancel_scrim_series(uuid) from public, anon;
+grant execute on function public.create_scrim_series(jsonb, smallint[], date, integer) to authenticated;
+grant execute on function public.edit_scrim_occurrences(uuid, text, timestamptz, integer, text, text) to authenticated;
+grant execute on function public.cancel_scrim_series(uuid) to authenticated;
@@ -0,0 +1,236 @@
+-- Multi-slot blocks.
+--
+-- A block is one offer made of several slots posted together: three
+-- back-to-back 1-hour scrims on one evening, or alternatives across two
+-- nights. Each slot is an ordinary scrims row linked through scrims.block_id
+-- and is taken, requested or cancelled on its own.
+--
+-- When the host posts a block they choose whether the other slots are
+-- withdrawn once one of them is confirmed (withdraw_siblings). Either way the
+-- host can withdraw the remaining open slots later in one go. Slots that
+-- another team has already asked for are left for the host to answer. Errors
+-- use the scrim error codes (see shared/data/scrim-errors.ts), plus:
+--
+--   block_invalid    the slots can't be posted together as given
+
+create table public.scrim_blocks (
+  id uuid primary key default gen_random_uuid(),
+  host_team_id uuid not null references public.teams (id) on delete cascade,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  slot_count integer not null,
+  withdraw_siblings boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint scrim_blocks_slot_count check (slot_count between 2 and 6)
+);
+
+create index scrim_blocks_host_team_id_idx on public.scrim_blocks (host_team_id);
+
+alter table public.scrims
+  add column block_id uuid,
+  -- Named explicitly: the apps join through it (block:scrim_blocks!scrims_block_id_fkey)
+  add constraint scrims_block_id_fkey foreign key (block_id) references public.scrim_blocks (id) on delete set null;
+
+create index scrims_block_id_idx on public.scrims (block_id, start_time) where block_id is not null;
+
+alter table public.scrim_blocks enable row level security;
+
+-- Readable like the scrims they post; only the RPCs below write
+create policy "Scrim blocks are readable by signed-in users" on public.scrim_blocks
+  for select to authenticated using (true);
+
+-- ---------------------------------------------------------------------------
+-- Lifecycle: withdrawing sibling slots counts as system, whoever took the slot
+-- ---------------------------------------------------------------------------
+
+create or replace function public.scrim_write_via_rpc()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    current_setting('app.scrim_challenge', true) = 'on'
+      or current_setting('app.scrim_application', true) = 'on'
+      or current_setting('app.scrim_block', true) = 'on',
+    false
+  );
+$$;
+
+-- Cancels the block's other slots that are still open; returns how many
+create or replace function public.withdraw_block_siblings(p_block_id uuid, p_keep_scrim_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_withdrawn integer;
+begin
+  perform set_config('app.scrim_block', 'on', true);
+
+  update public.scrims
+     set status = 'cancelled'
+   where block_id = p_block_id
+     and id <> p_keep_scrim_id
+     and status = 'open';
+
+  get diagnostics v_withdrawn = row_count;
+
+  perform set_config('app.scrim_block', '', true);
+  return v_withdrawn;
+end;
+$$;
+
+-- A confirmed slot withdraws its siblings when the host chose that at posting
+create or replace function public.scrims_withdraw_block_siblings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.block_id is not null
+     and new.status = 'confirmed'
+     and old.status is distinct from new.status
+     and exists (select 1 from public.scrim_blocks b where b.id = new.block_id and b.withdraw_siblings) then
+    perform public.withdraw_block_siblings(new.block_id, new.id);
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger scrims_withdraw_block_siblings
+  after update of status on public.scrims
+  for each row execute function public.scrims_withdraw_block_siblings();
+
+-- ---------------------------------------------------------------------------
+-- Posting a block
+-- ---------------------------------------------------------------------------
+
+-- p_scrim is the same insert the apps build for a single slot (buildScrimSlot
+-- in shared/scrim-types.ts) and sets everything but the start: one slot is
+-- posted per p_start_times entry, each as long as p_scrim.
+create or replace function public.create_scrim_block(
+  p_scrim jsonb,
+  p_start_times timestamptz[],
+  p_withdraw_siblings boolean default true
+)
+returns public.scrim_blocks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.scrims := jsonb_populate_record(null::public.scrims, p_scrim);
+  v_block public.scrim_blocks;
+  v_starts timestamptz[];
+  v_length interval;
+  v_start timestamptz;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if v_template.host_team_id is null or not public.is_team_member(v_template.host_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  if not public.has_team_permission(v_template.host_team_id, 'post_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t post scrims.');
+  end if;
+
+  if v_template.challenged_team_id is not null then
+    perform public.raise_scrim_error('block_invalid', 'Challenge a team one scrim at a time; blocks go to Scrim Center.');
+  end if;
+
+  select array_agg(distinct s order by s) into v_starts from unnest(p_start_times) s where s is not null;
+
+  if coalesce(cardinality(v_starts), 0) not between 2 and 6 then
+    perform public.raise_scrim_error('block_invalid', 'A block has between 2 and 6 slots at different times.');
+  end if;
+
+  if v_starts[1] <= now() then
+    perform public.raise_scrim_error('scrim_started', 'Every slot must start in the future.');
+  end if;
+
+  v_length := v_template.end_time - v_template.start_time;
+
+  if v_length is null or v_length <= interval '0' then
+    perform public.raise_scrim_error('block_invalid', 'Slots need a length.');
+  end if;
+
+  -- Back-to-back is fine; overlapping slots would book the team twice
+  if exists (
+    select 1 from generate_subscripts(v_starts, 1) i
+     where i > 1 and v_starts[i] < v_starts[i - 1] + v_length
+  ) then
+    perform public.raise_scrim_error('block_invalid', 'Slots in a block can''t overlap.');
+  end if;
+
+  insert into public.scrim_blocks (host_team_id, created_by, slot_count, withdraw_siblings)
+  values (v_template.host_team_id, auth.uid(), cardinality(v_starts), coalesce(p_withdraw_siblings, true))
+  returning * into v_block;
+
+  foreach v_start in array v_starts loop
+    insert into public.scrims (
+      host_team_id, requires_approval, status, region, tier, modes, scrim_type,
+      start_time, end_time, time_zone, duration_minutes, notes, min_lineup_size,
+      created_by, block_id
+    )
+    values (
+      v_template.host_team_id, coalesce(v_template.requires_approval, false), 'open', v_template.region,
+      v_template.tier, v_template.modes, v_template.scrim_type,
+      v_start, v_start + v_length, v_template.time_zone, v_template.duration_minutes, v_template.notes,
+      v_template.min_lineup_size, auth.uid(), v_block.id
+    );
+  end loop;
+
+  return v_block;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Withdrawing the rest of a block by hand
+-- ---------------------------------------------------------------------------
+
+-- Host: cancel every other open slot in this scrim's block; returns how many
+create or replace function public.withdraw_scrim_block_siblings(p_scrim_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scrim public.scrims;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  select * into v_scrim from public.scrims where id = p_scrim_id;
+
+  if not found then
+    perform public.raise_scrim_error('scrim_not_found', 'Scrim not found.');
+  end if;
+
+  if not public.is_team_member(v_scrim.host_team_id) then
+    perform public.raise_scrim_error('not_host', 'Only the host team can withdraw these slots.');
+  end if;
+
+  if not public.has_team_permission(v_scrim.host_team_id, 'cancel_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t cancel scrims.');
+  end if;
+
+  if v_scrim.block_id is null then
+    perform public.raise_scrim_error('block_invalid', 'This scrim isn''t part of a block.');
+  end if;
+
+  return public.withdraw_block_siblings(v_scrim.block_id, v_scrim.id);
+end;
+$$;
+
+revoke execute on function public.withdraw_block_siblings(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.create_scrim_block(jsonb, timestamptz[], boolean) from public, anon;
+revoke execute on function public.withdraw_scrim_block_siblings(uuid) from public, anon;
+grant execute on function public.create_scrim_block(jsonb, timestamptz[], boolean) to authenticated;
+grant execute on function public.withdraw_scrim_block_siblings(uuid) to authenticated;
@@ -0,0 +1,42 @@
+-- Tighter scrim updates.
+--
+-- The update policy no longer lets any signed-in user touch an open slot that
+-- has no opponent yet; outsiders take a slot through the accept_scrim RPC,
+-- never directly. scrims_enforce_lifecycle only looks at status changes, so a
+-- second trigger checks every update for the columns that must not move: the
+-- host team and creator never change, and the guest team only changes by taking
+-- or giving back the slot, through an RPC (see scrim_write_via_rpc), or when
+-- that team is deleted (on delete set null runs from a trigger).
+
+drop policy if exists "Teams on a scrim update it" on public.scrims;
+create policy "Teams on a scrim update it" on public.scrims
+  for update to authenticated
+  using (public.is_team_member(host_team_id) or public.is_team_member(opponent_team_id))
+  with check (public.is_team_member(host_team_id) or public.is_team_member(opponent_team_id));
+
+create or replace function public.scrims_guard_fixed_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.host_team_id is distinct from old.host_team_id
+     or new.created_by is distinct from old.created_by then
+    raise exception 'Host team and creator of a scrim cannot change'
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  if new.opponent_team_id is distinct from old.opponent_team_id
+     and (new.status = old.status or (old.status <> 'open' and new.status <> 'open'))
+     and not public.scrim_write_via_rpc()
+     and pg_trigger_depth() = 1 then
+    raise exception 'Opponent team cannot change once the scrim is taken'
+      using errcode = 'P0001', hint = 'invalid_transition';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger scrims_guard_fixed_columns
+  before update on public.scrims
+  for each row execute function public.scrims_guard_fixed_columns();
@@ -0,0 +1,5 @@
+-- Run advance_scrim_statuses() (see *_scrim_lifecycle.sql) every 5 minutes so
+-- scrims move to expired / in progress / completed on their own. Scheduling
+-- under the same job name again replaces the job.
+create extension if not exists pg_cron;
+select cron.schedule('advance-scrims', '*/5 * * * *', 'select public.advance_scrim_statuses()');
@@ -0,0 +1,31 @@
+-- Edits that keep a scrim's status (times, notes, lineup size) are the host's,
+-- and need post_scrims like posting does. scrims_enforce_lifecycle checks status
+-- changes; RPCs (see scrim_write_via_rpc) have checked the caller already, and
+-- foreign key clean-up runs from a trigger.
+
+create or replace function public.scrims_guard_host_edits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+begin
+  if new.status is distinct from old.status or v_uid is null
+     or public.scrim_write_via_rpc() or pg_trigger_depth() > 1 then
+    return new;
+  end if;
+
+  if not public.has_team_permission(old.host_team_id, 'post_scrims', v_uid) then
+    raise exception 'Only the host team can edit this scrim'
+      using errcode = 'P0001', hint = 'not_permitted';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger scrims_guard_host_edits
+  before update on public.scrims
+  for each row execute function public.scrims_guard_host_edits();
@@ -0,0 +1,10 @@
+-- Players join through respond_team_invite() or an invite code; the only
+-- membership row anyone inserts for themselves is the owner's, right after
+-- creating the team.
+drop policy if exists "Users add themselves to a team" on public.team_members;
+create policy "Team owners add themselves" on public.team_members
+  for insert to authenticated with check (
+    user_id = auth.uid()
+    and team_role = 'owner'
+    and exists (select 1 from public.teams t where t.id = team_id and t.owner_id = auth.uid())
+  );
@@ -0,0 +1,55 @@
+-- Withdrawing a block's other slots tells the host team once, not once per
+-- slot: the per-scrim cancellation notice skips rows cancelled while
+-- app.scrim_block is on, and withdraw_block_siblings() sends one summary.
+
+-- An AFTER trigger's WHEN is checked as the row changes, while the flag is set
+drop trigger if exists scrims_notify_status_change on public.scrims;
+create trigger scrims_notify_status_change
+  after update of status on public.scrims
+  for each row
+  when (new.status <> 'cancelled' or current_setting('app.scrim_block', true) is distinct from 'on')
+  execute function public.scrims_notify_status_change();
+
+-- Cancels the block's other slots that are still open; returns how many
+create or replace function public.withdraw_block_siblings(p_block_id uuid, p_keep_scrim_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_withdrawn integer;
+  v_host_team uuid;
+begin
+  perform set_config('app.scrim_block', 'on', true);
+
+  update public.scrims
+     set status = 'cancelled'
+   where block_id = p_block_id
+     and id <> p_keep_scrim_id
+     and status = 'open';
+
+  get diagnostics v_withdrawn = row_count;
+
+  perform set_config('app.scrim_block', '', true);
+
+  if v_withdrawn > 0 then
+    select host_team_id into v_host_team from public.scrim_blocks where id = p_block_id;
+
+    perform public.notify_users(
+      array(select public.team_recipient_ids(v_host_team)),
+      'scrim_cancelled',
+      'Block slots withdrawn',
+      format(
+        '%s withdrew the other %s open slot%s in their block.',
+        public.team_display_name(v_host_team),
+        v_withdrawn,
+        case when v_withdrawn = 1 then '' else 's' end
+      ),
+      p_keep_scrim_id
+    );
+  end if;
+
+  return v_withdrawn;
+end;
+$$;
@@ -0,0 +1,126 @@
+-- create_scrim_series() checks the template like create_scrim_block() does: a
+-- missing or non-positive length (end_time at or before start_time) and an
+-- unknown region are series_invalid instead of a raw constraint error or a run
+-- of zero-length scrims. Regions are stored as their canonical id.
+
+create or replace function public.create_scrim_series(
+  p_scrim jsonb,
+  p_weekdays smallint[],
+  p_until_date date default null,
+  p_occurrence_count integer default null
+)
+returns public.scrim_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.scrims := jsonb_populate_record(null::public.scrims, p_scrim);
+  v_series public.scrim_series;
+  v_first timestamp;
+  v_last_date date;
+  v_day date;
+  v_start timestamptz;
+  v_length interval;
+  v_posted integer := 0;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if v_template.host_team_id is null or not public.is_team_member(v_template.host_team_id) then
+    perform public.raise_scrim_error('not_team_member', 'You are not a member of that team.');
+  end if;
+
+  if not public.has_team_permission(v_template.host_team_id, 'post_scrims') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t post scrims.');
+  end if;
+
+  if v_template.challenged_team_id is not null then
+    perform public.raise_scrim_error('series_invalid', 'Challenge a team one scrim at a time; recurring slots go to Scrim Center.');
+  end if;
+
+  if public.normalize_region(v_template.region) is null then
+    perform public.raise_scrim_error('series_invalid', 'Pick a region for the series.');
+  end if;
+
+  if v_template.time_zone is null or not exists (select 1 from pg_timezone_names where name = v_template.time_zone) then
+    perform public.raise_scrim_error('series_invalid', 'Recurring scrims need a valid time zone.');
+  end if;
+
+  if coalesce(cardinality(p_weekdays), 0) = 0 or not p_weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[] then
+    perform public.raise_scrim_error('series_invalid', 'Pick at least one weekday.');
+  end if;
+
+  if (p_until_date is null) = (p_occurrence_count is null) then
+    perform public.raise_scrim_error('series_invalid', 'End the series on a date or after a number of scrims.');
+  end if;
+
+  if p_occurrence_count is not null and p_occurrence_count not between 1 and 52 then
+    perform public.raise_scrim_error('series_invalid', 'A series can post between 1 and 52 scrims.');
+  end if;
+
+  if v_template.start_time is null or v_template.start_time <= now() then
+    perform public.raise_scrim_error('scrim_started', 'Start time must be in the future.');
+  end if;
+
+  v_first := v_template.start_time at time zone v_template.time_zone;
+  v_length := v_template.end_time - v_template.start_time;
+
+  if v_length is null or v_length <= interval '0' then
+    perform public.raise_scrim_error('series_invalid', 'Scrims in a series need a length.');
+  end if;
+
+  if p_until_date < v_first::date then
+    perform public.raise_scrim_error('series_invalid', 'The end date is before the first scrim.');
+  end if;
+
+  -- At most a year of occurrences either way
+  v_last_date := least(coalesce(p_until_date, v_first::date + 364), v_first::date + 364);
+
+  insert into public.scrim_series (
+    host_team_id, created_by, weekdays, local_start, time_zone, until_date, occurrence_count
+  )
+  values (
+    v_template.host_team_id,
+    auth.uid(),
+    (select array_agg(distinct d order by d) from unnest(p_weekdays) d),
+    v_first::time,
+    v_template.time_zone,
+    p_until_date,
+    p_occurrence_count
+  )
+  returning * into v_series;
+
+  for v_day in select d::date from generate_series(v_first::date, v_last_date, interval '1 day') d loop
+    exit when v_posted = p_occurrence_count;
+    continue when extract(dow from v_day)::smallint <> all (v_series.weekdays);
+
+    if v_posted = 52 then
+      perform public.raise_scrim_error('series_invalid', 'A series can post at most 52 scrims — pick an earlier end date.');
+    end if;
+
+    v_start := public.scrim_series_start(v_day, v_series.local_start, v_series.time_zone);
+
+    insert into public.scrims (
+      host_team_id, requires_approval, status, region, tier, modes, scrim_type,
+      start_time, end_time, time_zone, duration_minutes, notes, min_lineup_size,
+      created_by, series_id
+    )
+    values (
+      v_template.host_team_id, coalesce(v_template.requires_approval, false), 'open', public.normalize_region(v_template.region),
+      v_template.tier, v_template.modes, v_template.scrim_type,
+      v_start, v_start + v_length, v_series.time_zone, v_template.duration_minutes, v_template.notes,
+      v_template.min_lineup_size, auth.uid(), v_series.id
+    );
+
+    v_posted := v_posted + 1;
+  end loop;
+
+  if v_posted = 0 then
+    perform public.raise_scrim_error('series_invalid', 'None of the picked weekdays fall before the end date.');
+  end if;
+
+  return v_series;
+end;
+$$;
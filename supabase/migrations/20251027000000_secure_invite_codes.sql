@@ -0,0 +1,24 @@
+-- Invite codes let whoever holds one join the team, so draw them from
+-- pgcrypto's gen_random_bytes() rather than random(). Same 8 characters from
+-- the same alphabet; existing codes keep working.
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql
+volatile
+as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code text := '';
+  v_byte integer;
+begin
+  while length(v_code) < 8 loop
+    v_byte := get_byte(gen_random_bytes(1), 0);
+    -- 248 = 8 * 31: skipping the bytes above keeps every character equally likely
+    if v_byte < 248 then
+      v_code := v_code || substr(v_alphabet, 1 + v_byte % 31, 1);
+    end if;
+  end loop;
+
+  return v_code;
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Teams that lined up for a slot someone else got lose their lineup rows.
+-- Any team may save a lineup while a scrim is open (or, with approval, while
+-- it collects requests); once the opponent is settled — a request, an accept,
+-- a picked applicant — only the host's and that team's lineups stay.
+
+create or replace function public.scrims_drop_stale_lineups()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.opponent_team_id is not null
+     and new.status in ('requested', 'confirmed')
+     and (new.status, new.opponent_team_id) is distinct from (old.status, old.opponent_team_id) then
+    delete from public.scrim_lineup_players
+     where scrim_id = new.id
+       and team_id not in (new.host_team_id, new.opponent_team_id);
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger scrims_drop_stale_lineups
+  after update of status, opponent_team_id on public.scrims
+  for each row execute function public.scrims_drop_stale_lineups();
+
+-- Slots already taken before this migration
+delete from public.scrim_lineup_players l
+ using public.scrims s
+ where s.id = l.scrim_id
+   and s.opponent_team_id is not null
+   and l.team_id not in (s.host_team_id, s.opponent_team_id);
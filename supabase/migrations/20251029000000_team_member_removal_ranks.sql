@@ -0,0 +1,45 @@
+-- Managers can remove players and coaches, but not their fellow staff:
+-- captains and managers are removed by the owner only.
+
+create or replace function public.remove_team_member(p_team_id uuid, p_user_id uuid)
+returns public.team_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member public.team_members;
+begin
+  if auth.uid() is null then
+    perform public.raise_scrim_error('not_authenticated', 'Sign in first.');
+  end if;
+
+  if not exists (select 1 from public.teams where id = p_team_id) then
+    perform public.raise_scrim_error('team_not_found', 'Team not found.');
+  end if;
+
+  if not public.has_team_permission(p_team_id, 'remove_members') then
+    perform public.raise_scrim_error('not_permitted', 'Your team role can''t remove players.');
+  end if;
+
+  if p_user_id = auth.uid() or public.team_role_of(p_team_id, p_user_id) = 'owner' then
+    perform public.raise_scrim_error('not_permitted', 'The owner can''t be removed, and you leave the team yourself.');
+  end if;
+
+  if public.team_role_of(p_team_id, p_user_id) in ('captain', 'manager')
+     and public.team_role_of(p_team_id) is distinct from 'owner' then
+    perform public.raise_scrim_error('not_permitted', 'Only the owner can remove captains and managers.');
+  end if;
+
+  update public.team_members
+     set status = 'removed'
+   where team_id = p_team_id and user_id = p_user_id and status = 'active'
+  returning * into v_member;
+
+  if not found then
+    perform public.raise_scrim_error('not_team_member', 'That player is not on the team.');
+  end if;
+
+  return v_member;
+end;
+$$;